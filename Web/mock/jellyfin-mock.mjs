@@ -0,0 +1,441 @@
+// A stand-in Jellyfin server for trying the site's browser tools without a real
+// library: `npm run mock-server`, then sign in at http://localhost:8096 as
+// demo / demo. It answers only the requests the tools make, keeps everything
+// in memory and forgets it on restart. A made-up Kartunes session plays the
+// Road Trip playlist and follows remote commands the way the app would if it
+// received them.
+import { randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT ?? 8096);
+const USER = { Id: "mock-user", Name: "demo", password: "demo" };
+const TICKS_PER_SECOND = 10_000_000;
+const SERVER_ID = "mock";
+
+const albums = [
+  {
+    name: "Northern Lights",
+    artist: "Aurora Fields",
+    genres: ["Ambient", "Electronic"],
+    year: 2021,
+    container: "flac",
+    bitrate: 920,
+    tracks: [["First Light", 214], ["Polar Drift", 187], ["Magnetic North", 243], ["Snowfield", 198], ["Solstice", 276]],
+  },
+  {
+    name: "Harbour Songs",
+    artist: "The Copper Lanterns",
+    genres: ["Indie Rock", "Folk"],
+    year: 2019,
+    container: "mp3",
+    bitrate: 320,
+    tracks: [["Rope and Anchor", 201], ["Lighthouse Keeper", 232], ["Fog Bell", 175], ["The Last Ferry", 264], ["Home Port", 219]],
+  },
+  {
+    // The same songs again, so some playlist lines match more than one track
+    name: "Harbour Songs (Live at the Pier)",
+    artist: "The Copper Lanterns",
+    genres: ["Indie Rock"],
+    year: 2020,
+    container: "m4a",
+    bitrate: 256,
+    hasArtwork: false,
+    tracks: [["Lighthouse Keeper", 251], ["The Last Ferry", 288], ["Home Port", 241]],
+  },
+  {
+    name: "Golden Hour",
+    artist: "Mira Sol",
+    genres: ["Pop", "Soul"],
+    year: 2023,
+    container: "m4a",
+    bitrate: 256,
+    tracks: [["Sunday Light", 196], ["Honey", 183], ["Golden Hour", 227], ["Slow Dance", 242]],
+  },
+  {
+    name: "Night Drive",
+    artist: "Neon Parade",
+    genres: ["Synthpop"],
+    container: "flac",
+    bitrate: 1411,
+    tracks: [["Night Drive", 254], ["Chrome", 211], ["Afterglow", 236], ["Overpass", 199]],
+  },
+  {
+    // Tagging slips for the library health report: a joined genre tag, one
+    // the umbrella map does not know, and the artist without the diaeresis
+    name: "Café Sessions",
+    artist: "Zoë Vale",
+    genres: ["Jazz, Lounge", "Harbourwave"],
+    year: 2022,
+    container: "mp3",
+    bitrate: 192,
+    tracks: [["Espresso Morning", 203], ["Rainy Terrace", 238, ["Zoe Vale"]], ["Last Call", 261]],
+  },
+  {
+    // No album artist, as with demos ripped without tags
+    name: "Backyard Demos",
+    genres: ["Folk"],
+    container: "mp3",
+    bitrate: 128,
+    tracks: [["Anchor (demo)", 188, ["The Copper Lanterns"]], ["Ferry Song (demo)", 243, ["The Copper Lanterns"]]],
+  },
+];
+
+const items = new Map();
+const playlists = new Map();
+const tokens = new Set();
+
+function addItem(item) {
+  item.ServerId = SERVER_ID;
+  items.set(item.Id, item);
+  return item;
+}
+
+const DAY_MS = 86_400_000;
+
+/** A made-up listening history: a play count and the latest play, which is all a server keeps per track */
+function userData(albumIndex, trackIndex) {
+  const playCount = (albumIndex * 7 + trackIndex * 3) % 9;
+  // Spread over about a year and a half, most of it recent
+  const spread = (albumIndex * 97 + trackIndex * 29) % 500;
+  const daysAgo = Math.floor((spread * spread) / 500);
+  return {
+    IsFavorite: false,
+    PlayCount: playCount,
+    ...(playCount > 0 && { LastPlayedDate: new Date(Date.now() - daysAgo * DAY_MS - trackIndex * 3_600_000).toISOString() }),
+  };
+}
+
+albums.forEach((album, albumIndex) => {
+  const albumItem = addItem({
+    Id: `album-${albumIndex + 1}`,
+    Name: album.name,
+    Type: "MusicAlbum",
+    AlbumArtist: album.artist,
+    Artists: album.artist ? [album.artist] : [],
+    Genres: album.genres,
+    ProductionYear: album.year,
+    ImageTags: album.hasArtwork === false ? {} : { Primary: `art-${albumIndex + 1}` },
+  });
+  album.tracks.forEach(([title, seconds, artists = albumItem.Artists], trackIndex) => {
+    const path = `/music/${album.artist ?? "Unknown Artist"}/${album.name}/${String(trackIndex + 1).padStart(2, "0")} ${title}.${album.container}`;
+    addItem({
+      Id: `track-${albumIndex + 1}-${trackIndex + 1}`,
+      Name: title,
+      Type: "Audio",
+      Album: album.name,
+      AlbumId: albumItem.Id,
+      AlbumPrimaryImageTag: albumItem.ImageTags.Primary,
+      ProductionYear: album.year,
+      AlbumArtist: album.artist,
+      Artists: artists,
+      Genres: album.genres,
+      RunTimeTicks: seconds * TICKS_PER_SECOND,
+      IndexNumber: trackIndex + 1,
+      Container: album.container,
+      Path: path,
+      MediaSources: [
+        { Container: album.container, Bitrate: album.bitrate * 1000, Size: Math.round((seconds * album.bitrate * 1000) / 8), Path: path },
+      ],
+      UserData: userData(albumIndex, trackIndex),
+    });
+  });
+});
+
+// A file dropped in without tags, as libraries tend to have
+addItem({
+  Id: "track-loose-1",
+  Name: "voice memo 3",
+  Type: "Audio",
+  RunTimeTicks: 94 * TICKS_PER_SECOND,
+  Container: "mp3",
+  Path: "/music/Unsorted/voice memo 3.mp3",
+  MediaSources: [{ Container: "mp3", Bitrate: 96_000, Size: 1_128_000, Path: "/music/Unsorted/voice memo 3.mp3" }],
+  UserData: { IsFavorite: false, PlayCount: 1, LastPlayedDate: new Date(Date.now() - 2 * DAY_MS).toISOString() },
+});
+
+// Artists as `Artists` lists them, one for each spelling in the tags
+const artistNames = new Set(
+  [...items.values()]
+    .filter((item) => item.Type === "Audio")
+    .flatMap((item) => [...(item.Artists ?? []), ...(item.AlbumArtist ? [item.AlbumArtist] : [])])
+);
+[...artistNames].forEach((name, index) => addItem({ Id: `artist-${index + 1}`, Name: name, Type: "MusicArtist" }));
+
+function addPlaylist(name, trackIds) {
+  const playlist = addItem({ Id: `playlist-${randomUUID()}`, Name: name, Type: "Playlist", MediaType: "Audio" });
+  playlists.set(playlist.Id, trackIds.map((id) => ({ id, entryId: randomUUID() })));
+  return playlist;
+}
+
+const roadTrip = addPlaylist("Road Trip", ["track-5-1", "track-2-4", "track-4-3", "track-5-3"]);
+// The playlist the app keeps liked tracks in (`LikedPlaylistManager`)
+addPlaylist(`Kartunes Liked ${USER.Name}`, ["track-4-2", "track-1-1", "track-2-2"]);
+for (const id of ["track-4-2", "track-1-1", "track-2-2"]) items.get(id).UserData.IsFavorite = true;
+
+/** The app on a phone, playing a queue; position is worked out from the clock when asked for */
+const phone = {
+  Id: "session-phone",
+  Client: "Kartunes",
+  DeviceName: "Living Room iPhone",
+  DeviceId: "mock-iphone",
+  queue: playlists.get(roadTrip.Id).map(({ id }) => id),
+  index: 0,
+  positionAtStart: 0,
+  startedAt: Date.now(),
+  isPaused: false,
+};
+
+function phonePosition() {
+  return phone.isPaused ? phone.positionAtStart : phone.positionAtStart + (Date.now() - phone.startedAt) / 1000;
+}
+
+function playFrom(index, position = 0) {
+  phone.index = (index + phone.queue.length) % phone.queue.length;
+  phone.positionAtStart = position;
+  phone.startedAt = Date.now();
+}
+
+/** Moves to the next track once the current one has played through, starting the queue over after the last */
+function advancePhone() {
+  let duration = items.get(phone.queue[phone.index]).RunTimeTicks / TICKS_PER_SECOND;
+  while (!phone.isPaused && phonePosition() >= duration) {
+    const overshoot = phonePosition() - duration;
+    playFrom(phone.index + 1, overshoot);
+    duration = items.get(phone.queue[phone.index]).RunTimeTicks / TICKS_PER_SECOND;
+  }
+}
+
+function sessionList() {
+  advancePhone();
+  const { UserData, ...nowPlaying } = items.get(phone.queue[phone.index]);
+  const now = new Date().toISOString();
+  return [
+    {
+      Id: phone.Id,
+      Client: phone.Client,
+      DeviceName: phone.DeviceName,
+      DeviceId: phone.DeviceId,
+      UserName: USER.Name,
+      LastActivityDate: now,
+      SupportsRemoteControl: true,
+      NowPlayingItem: nowPlaying,
+      PlayState: { PositionTicks: Math.round(phonePosition() * TICKS_PER_SECOND), IsPaused: phone.isPaused, CanSeek: true },
+    },
+    // Another client on the same account, which the remote leaves out
+    {
+      Id: "session-web",
+      Client: "Jellyfin Web",
+      DeviceName: "Firefox",
+      DeviceId: "mock-firefox",
+      UserName: USER.Name,
+      LastActivityDate: now,
+    },
+  ];
+}
+
+/** A square in the album's own colour, standing in for cover art */
+function artwork(itemId) {
+  const hue = (Number(itemId.replace(/\D/g, "")) * 67) % 360;
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><rect width="100" height="100" fill="hsl(${hue} 55% 45%)"/><circle cx="50" cy="50" r="28" fill="hsl(${hue} 55% 70%)"/><circle cx="50" cy="50" r="6" fill="hsl(${hue} 55% 30%)"/></svg>`;
+}
+
+function send(res, status, body, contentType = "application/json") {
+  res.writeHead(status, body === undefined ? {} : { "Content-Type": contentType });
+  res.end(body === undefined || typeof body === "string" ? body : JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : {};
+}
+
+/** The token from either header the app sends it in */
+function requestToken(req) {
+  return req.headers["x-emby-token"] ?? req.headers.authorization?.match(/Token="([^"]*)"/)?.[1];
+}
+
+function page(list, query) {
+  const start = Number(query.get("StartIndex") ?? 0);
+  const limit = Number(query.get("Limit") ?? list.length);
+  return { Items: list.slice(start, start + limit), TotalRecordCount: list.length, StartIndex: start };
+}
+
+function playlistItems(playlistId) {
+  return playlists.get(playlistId).map(({ id, entryId }) => ({ ...items.get(id), PlaylistItemId: entryId }));
+}
+
+/**
+ * `[method, path pattern, handler, needs a token]`. Handlers get the path
+ * groups, the query and the parsed body, and return `[status, body]`, with a
+ * content type after the body when it is not JSON.
+ */
+const routes = [
+  [
+    "GET",
+    /^\/web\/(index\.html)?$/,
+    // Where the library health report links to; a real server opens the item from the hash
+    () => [
+      200,
+      "<!doctype html><title>Kartunes Mock</title><p>The mock server has no web app. On your own server this link opens the item for editing.</p>",
+      "text/html",
+    ],
+    false,
+  ],
+  [
+    "GET",
+    /^\/System\/Info\/Public$/,
+    () => [200, { ProductName: "Jellyfin Server", ServerName: "Kartunes Mock", Version: "10.9.11", Id: SERVER_ID }],
+    false,
+  ],
+  [
+    "POST",
+    /^\/Users\/AuthenticateByName$/,
+    (_, __, body) => {
+      if (body.Username?.toLowerCase() !== USER.Name || body.Pw !== USER.password) return [401];
+      const token = randomUUID().replace(/-/g, "");
+      tokens.add(token);
+      return [200, { AccessToken: token, User: { Id: USER.Id, Name: USER.Name }, ServerId: SERVER_ID }];
+    },
+    false,
+  ],
+  [
+    "POST",
+    /^\/Sessions\/Logout$/,
+    (_, __, ___, token) => {
+      tokens.delete(token);
+      return [204];
+    },
+    true,
+  ],
+  [
+    "GET",
+    /^\/Users\/[^/]+\/Items$/,
+    (_, query) => {
+      const types = query.get("IncludeItemTypes")?.split(",");
+      const favouritesOnly = query.get("Filters")?.split(",").includes("IsFavorite");
+      const list = [...items.values()]
+        .filter((item) => !types || types.includes(item.Type))
+        .filter((item) => !favouritesOnly || item.UserData?.IsFavorite)
+        .sort((a, b) => a.Name.localeCompare(b.Name));
+      return [200, page(list, query)];
+    },
+    true,
+  ],
+  [
+    "GET",
+    /^\/Artists$/,
+    (_, query) => {
+      const list = [...items.values()]
+        .filter((item) => item.Type === "MusicArtist")
+        .sort((a, b) => a.Name.localeCompare(b.Name));
+      return [200, page(list, query)];
+    },
+    true,
+  ],
+  [
+    "GET",
+    /^\/Users\/[^/]+\/Items\/([^/]+)$/,
+    ([itemId]) => (items.has(itemId) ? [200, items.get(itemId)] : [404]),
+    true,
+  ],
+  [
+    "POST",
+    /^\/Users\/[^/]+\/Items\/([^/]+)\/UserData$/,
+    ([itemId], _, body) => {
+      if (!items.has(itemId)) return [404];
+      Object.assign(items.get(itemId).UserData, { IsFavorite: Boolean(body.IsFavorite) });
+      return [200, items.get(itemId).UserData];
+    },
+    true,
+  ],
+  [
+    "POST",
+    /^\/UserFavoriteItems\/([^/]+)$/,
+    ([itemId]) => (items.has(itemId) ? [200, Object.assign(items.get(itemId).UserData, { IsFavorite: true })] : [404]),
+    true,
+  ],
+  [
+    "DELETE",
+    /^\/UserFavoriteItems\/([^/]+)$/,
+    ([itemId]) => (items.has(itemId) ? [200, Object.assign(items.get(itemId).UserData, { IsFavorite: false })] : [404]),
+    true,
+  ],
+  [
+    "GET",
+    /^\/Items\/([^/]+)\/Images\/Primary$/,
+    ([itemId]) => (items.get(itemId)?.ImageTags?.Primary ? [200, artwork(itemId), "image/svg+xml"] : [404]),
+    true,
+  ],
+  [
+    "GET",
+    /^\/Sessions$/,
+    () => [200, sessionList()],
+    true,
+  ],
+  [
+    "POST",
+    /^\/Sessions\/([^/]+)\/Playing\/(\w+)$/,
+    ([sessionId]) => {
+      // The server takes commands for any session it knows, but the app does not listen for them yet
+      if (!sessionList().some((session) => session.Id === sessionId)) return [404];
+      return [204];
+    },
+    true,
+  ],
+  [
+    "POST",
+    /^\/Playlists$/,
+    (_, __, body) => {
+      if (!body.Name) return [400];
+      return [200, { Id: addPlaylist(body.Name, (body.Ids ?? []).filter((id) => items.has(id))).Id }];
+    },
+    true,
+  ],
+  [
+    "GET",
+    /^\/Playlists\/([^/]+)\/Items$/,
+    ([playlistId], query) => (playlists.has(playlistId) ? [200, page(playlistItems(playlistId), query)] : [404]),
+    true,
+  ],
+  [
+    "POST",
+    /^\/Playlists\/([^/]+)\/Items$/,
+    ([playlistId], query) => {
+      if (!playlists.has(playlistId)) return [404];
+      const ids = (query.get("Ids") ?? "").split(",").filter((id) => items.has(id));
+      playlists.get(playlistId).push(...ids.map((id) => ({ id, entryId: randomUUID() })));
+      return [204];
+    },
+    true,
+  ],
+];
+
+const server = createServer(async (req, res) => {
+  // The site runs on another origin, so every response allows it the way a proxy with CORS enabled would
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Authorization, X-Emby-Authorization, X-Emby-Token, Content-Type, Accept");
+  if (req.method === "OPTIONS") return send(res, 204);
+
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const token = requestToken(req);
+  for (const [method, pattern, handler, needsToken] of routes) {
+    const match = url.pathname.match(pattern);
+    if (!match || method !== req.method) continue;
+    if (needsToken && !tokens.has(token)) return send(res, 401);
+    try {
+      const [status, body, contentType] = handler(match.slice(1), url.searchParams, await readBody(req), token);
+      return send(res, status, body, contentType);
+    } catch (error) {
+      console.error(error);
+      return send(res, 500);
+    }
+  }
+  send(res, 404);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Jellyfin server at http://localhost:${PORT} (sign in as ${USER.Name} / ${USER.password})`);
+});
@@ -0,0 +1,281 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { Plugin } from "vite";
+import { getPlatform, platformStatusLabels, site, streamRequests, troubleshootSteps, umbrellaGenreMap } from "../src/content";
+import type { StreamRequest } from "../src/types/audio";
+import { SIRI_INTENTS, SIRI_MEDIA_TYPES } from "../src/types/siri";
+import {
+  changelogErrors,
+  referencedAssets,
+  untranslatedChangelog,
+  untranslatedContent,
+  validateContent,
+} from "../src/content/validate";
+import { DEFAULT_LOCALE, LOCALES } from "../src/i18n/locales";
+import { missingMessageKeys } from "../src/i18n/messages";
+import { SIRI_FETCH_LIMIT, SIRI_RESULT_LIMIT } from "../src/utils/siriPhrases";
+
+/**
+ * Fails the build when the typed site content or the changelog is
+ * inconsistent, points at missing assets, disagrees with the repository README
+ * about CarPlay, with the app's umbrella genre map, its server detection error
+ * messages, the stream and download requests it makes or the Siri requests it
+ * handles, or declares a site URL that does not match Vite's `base`. Untranslated messages and content
+ * only produce warnings, since they fall back to English.
+ */
+export function contentValidation(): Plugin {
+  let root = process.cwd();
+  let base = "/";
+
+  return {
+    name: "kartunes-content-validation",
+    apply: (_, env) => env.command === "build" && !env.isSsrBuild,
+    configResolved(config) {
+      root = config.root;
+      base = config.base;
+    },
+    buildStart() {
+      const errors = validateContent();
+
+      const changelogDir = resolve(root, "src", "content", "changelog");
+      const changelog = Object.fromEntries(
+        readdirSync(changelogDir)
+          .filter((name) => name.endsWith(".md"))
+          .map((name) => [name, readFileSync(resolve(changelogDir, name), "utf8")])
+      );
+      errors.push(...changelogErrors(changelog));
+
+      for (const asset of referencedAssets()) {
+        if (!existsSync(resolve(root, "public", asset))) {
+          errors.push(`Missing asset public/${asset}`);
+        }
+      }
+
+      const readmePath = resolve(root, "..", "README.md");
+      if (existsSync(readmePath)) {
+        const carPlayLabel = platformStatusLabels[getPlatform("carplay").status];
+        const match = readFileSync(readmePath, "utf8").match(/CarPlay Support[\s\S]*?\*\*Status:\*\*\s*(.+)/);
+        if (!match || match[1].trim() !== carPlayLabel) {
+          errors.push(`README.md CarPlay status should read "**Status:** ${carPlayLabel}"`);
+        }
+      }
+
+      const umbrellaGenresPath = resolve(root, "..", "Shared", "Utilities", "UmbrellaGenres.swift");
+      if (existsSync(umbrellaGenresPath)) {
+        errors.push(...umbrellaMapErrors(readFileSync(umbrellaGenresPath, "utf8")));
+      }
+
+      const detectionPath = resolve(root, "..", "Data", "Networking", "ServerDetectionService.swift");
+      if (existsSync(detectionPath)) {
+        errors.push(...appMessageErrors(readFileSync(detectionPath, "utf8")));
+      }
+
+      const streamingSources = [
+        ["jellyfin", "transcode", ["Data", "Networking", "Jellyfin", "DefaultJellyfinAPIClient+Streaming.swift"], "func buildStreamURL(forTrackId id: String, preferredCodec"],
+        ["emby", "transcode", ["Data", "Networking", "Emby", "DefaultEmbyAPIClient+Streaming.swift"], "func buildStreamURL(forTrackId id: String, preferredCodec"],
+        ["jellyfin", "download", ["Data", "Storage", "OfflineDownloadManager.swift"], "func buildJellyfinDownloadURL"],
+        ["emby", "download", ["Data", "Storage", "OfflineDownloadManager.swift"], "func buildEmbyDownloadURL"],
+      ] as const;
+      for (const [server, kind, file, signature] of streamingSources) {
+        const swiftPath = resolve(root, "..", ...file);
+        if (existsSync(swiftPath)) {
+          errors.push(...streamRequestErrors(readFileSync(swiftPath, "utf8"), signature, streamRequests[server][kind]));
+        }
+      }
+
+      const intentsDir = resolve(root, "..", "Kartunes", "KartunesIntentsExtension");
+      if (existsSync(resolve(intentsDir, "Info.plist"))) {
+        errors.push(...siriIntentErrors(readFileSync(resolve(intentsDir, "Info.plist"), "utf8")));
+      }
+      if (existsSync(resolve(intentsDir, "PlayMediaIntentHandler.swift"))) {
+        errors.push(...playMediaErrors(readFileSync(resolve(intentsDir, "PlayMediaIntentHandler.swift"), "utf8")));
+      }
+      const catalogPath = resolve(root, "..", "Shared", "Siri", "MediaCatalogService.swift");
+      if (existsSync(catalogPath)) {
+        errors.push(...catalogSearchErrors(readFileSync(catalogPath, "utf8")));
+      }
+
+      const sitePath = `${new URL(site.url).pathname.replace(/\/+$/, "")}/`;
+      if (sitePath !== base) {
+        errors.push(`site.url path "${sitePath}" does not match Vite base "${base}"`);
+      }
+
+      for (const locale of LOCALES.filter((l) => l !== DEFAULT_LOCALE)) {
+        const missing = [
+          ...missingMessageKeys(locale),
+          ...untranslatedContent(locale),
+          ...untranslatedChangelog(locale, changelog),
+        ];
+        if (missing.length > 0) {
+          this.warn(`"${locale}" falls back to English for ${missing.length} entries: ${missing.join(", ")}`);
+        }
+      }
+
+      if (errors.length > 0) {
+        this.error(`Content validation failed:\n  - ${errors.join("\n  - ")}`);
+      }
+    },
+  };
+}
+
+/** Differences between `src/content/umbrellaGenres.ts` and the `map` in the app's `UmbrellaGenres.swift` */
+function umbrellaMapErrors(swiftSource: string): string[] {
+  const block = swiftSource.match(/static let map[^=]*=\s*\[([\s\S]*?)\n\s*\]/);
+  if (!block) {
+    return ["Could not find the umbrella genre map in UmbrellaGenres.swift"];
+  }
+
+  const swiftMap = new Map([...block[1].matchAll(/"((?:[^"\\]|\\.)*)"\s*:\s*"([^"]*)"/g)].map((m) => [m[1], m[2]]));
+  const errors: string[] = [];
+  for (const [key, umbrella] of swiftMap) {
+    if (umbrellaGenreMap[key] !== umbrella) {
+      errors.push(`Umbrella genre "${key}" is ${umbrella} in UmbrellaGenres.swift but ${umbrellaGenreMap[key] ?? "missing"} on the site`);
+    }
+  }
+  for (const key of Object.keys(umbrellaGenreMap)) {
+    if (!swiftMap.has(key)) {
+      errors.push(`Umbrella genre "${key}" is on the site but not in UmbrellaGenres.swift`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Differences between the `appMessage`s in `src/content/troubleshooting.ts` and
+ * `ServerDetectionError.errorDescription` in the app. Interpolations such as
+ * `\(statusCode)` are written as `…` on the site.
+ */
+function appMessageErrors(swiftSource: string): string[] {
+  const start = swiftSource.indexOf("enum ServerDetectionError");
+  if (start === -1) {
+    return ["Could not find ServerDetectionError in ServerDetectionService.swift"];
+  }
+
+  const swiftMessages = new Set(
+    [...swiftSource.slice(start).matchAll(/return "((?:[^"\\]|\\.)*)"/g)].map((m) => m[1].replace(/\\\([^)]*\)/g, "…"))
+  );
+  const siteMessages = new Set(
+    troubleshootSteps.flatMap((step) => (step.kind === "question" ? step.answers.flatMap((a) => a.appMessage ?? []) : []))
+  );
+
+  const errors: string[] = [];
+  for (const message of siteMessages) {
+    if (!swiftMessages.has(message)) {
+      errors.push(`Troubleshooting quotes "${message}", which ServerDetectionError no longer shows`);
+    }
+  }
+  for (const message of swiftMessages) {
+    if (!siteMessages.has(message)) {
+      errors.push(`ServerDetectionError message "${message}" has no answer in the troubleshooting wizard`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Differences between a request in `src/content/audioFormats.ts` and the query
+ * items the app's Swift function adds. Values the app fills in at runtime, such
+ * as the token, are written as `<…>` on the site and only checked by name.
+ */
+function streamRequestErrors(swiftSource: string, signature: string, request: StreamRequest): string[] {
+  const start = swiftSource.indexOf(signature);
+  if (start === -1) {
+    return [`Could not find ${signature} in the app`];
+  }
+  const rest = swiftSource.slice(start + signature.length);
+  const body = signature + rest.slice(0, rest.search(/\n {4}(?:private )?func |$/));
+
+  // `let audioCodec = preferredCodec ?? "aac"` passes "aac" unless a caller overrides it
+  const constants = new Map([...body.matchAll(/let (\w+) = (?:[\w.]+ \?\? )?"([^"\\]*)"/g)].map((m) => [m[1], m[2]]));
+  const swiftItems = new Map(
+    [...body.matchAll(/URLQueryItem\(name: "(\w+)", value: (?:"([^"\\]*)"|([\w.]+))\)/g)].map((m) => [
+      m[1],
+      m[2] ?? constants.get(m[3]) ?? null,
+    ])
+  );
+
+  const swiftName = `${signature.replace(/^func (\w+)[\s\S]*/, "$1")}()`;
+  const errors: string[] = [];
+  const siteItems = new Map(request.query);
+  for (const [name, value] of siteItems) {
+    if (!swiftItems.has(name)) {
+      errors.push(`${request.path} sends ${name} on the site but not in ${swiftName}`);
+    } else if (!value.startsWith("<") && swiftItems.get(name) !== value) {
+      errors.push(`${request.path} sends ${name}=${swiftItems.get(name) ?? "…"} in ${swiftName} but ${name}=${value} on the site`);
+    }
+  }
+  for (const name of swiftItems.keys()) {
+    if (!siteItems.has(name)) {
+      errors.push(`${swiftName} sends ${name}, which ${request.path} on the site is missing`);
+    }
+  }
+  return errors;
+}
+
+/** Differences between `SIRI_INTENTS` and the intents the Intents extension declares in its Info.plist */
+function siriIntentErrors(infoPlist: string): string[] {
+  const block = infoPlist.match(/<key>IntentsSupported<\/key>\s*<array>([\s\S]*?)<\/array>/);
+  if (!block) {
+    return ["Could not find IntentsSupported in the Intents extension's Info.plist"];
+  }
+
+  const declared = new Set([...block[1].matchAll(/<string>(\w+)<\/string>/g)].map((m) => m[1]));
+  const site = new Set(SIRI_INTENTS.map((intent) => `IN${intent[0].toUpperCase()}${intent.slice(1)}Intent`));
+  return [
+    ...[...site]
+      .filter((name) => !declared.has(name))
+      .map((name) => `The Siri page lists ${name}, which the app no longer supports`),
+    ...[...declared]
+      .filter((name) => !site.has(name))
+      .map((name) => `The app supports ${name}, which the Siri page leaves out`),
+  ];
+}
+
+/**
+ * Differences between the phrase tester and `PlayMediaIntentHandler.resolveMediaItems`:
+ * the media types it searches for, before its `default` case, and how many
+ * results it gives Siri.
+ */
+function playMediaErrors(swiftSource: string): string[] {
+  const start = swiftSource.indexOf("func resolveMediaItems");
+  const end = swiftSource.indexOf("default:", start);
+  if (start === -1 || end === -1) {
+    return ["Could not find the media type switch in PlayMediaIntentHandler.resolveMediaItems"];
+  }
+  const body = swiftSource.slice(start, end);
+
+  const swiftTypes = new Set(
+    [...body.matchAll(/case ((?:\.\w+(?:,\s*)?)+):/g)].flatMap((m) =>
+      m[1].split(",").map((type) => type.trim().slice(1))
+    )
+  );
+  const errors: string[] = [];
+  for (const type of SIRI_MEDIA_TYPES) {
+    if (!swiftTypes.has(type)) {
+      errors.push(`The phrase tester searches for ${type}, which resolveMediaItems no longer handles`);
+    }
+  }
+  for (const type of swiftTypes) {
+    if (!(SIRI_MEDIA_TYPES as readonly string[]).includes(type)) {
+      errors.push(`resolveMediaItems handles .${type}, which the phrase tester is missing`);
+    }
+  }
+  for (const limit of new Set([...body.matchAll(/\.prefix\((\d+)\)/g)].map((m) => m[1]))) {
+    if (Number(limit) !== SIRI_RESULT_LIMIT) {
+      errors.push(`resolveMediaItems gives Siri ${limit} results, but SIRI_RESULT_LIMIT is ${SIRI_RESULT_LIMIT}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * How many results the `MediaCatalogService` searches fetch, which the phrase
+ * tester counts matches up to. Lookups by id and of the server fetch just one.
+ */
+function catalogSearchErrors(swiftSource: string): string[] {
+  const limits = new Set([...swiftSource.matchAll(/\.fetchLimit = (\d+)/g)].map((m) => Number(m[1])));
+  limits.delete(1);
+  return [...limits]
+    .filter((limit) => limit !== SIRI_FETCH_LIMIT)
+    .map((limit) => `MediaCatalogService fetches ${limit} results, but SIRI_FETCH_LIMIT is ${SIRI_FETCH_LIMIT}`);
+}
@@ -0,0 +1,224 @@
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, resolve } from "node:path";
+import type { Plugin } from "vite";
+
+interface Rgba {
+  red: number;
+  green: number;
+  blue: number;
+  alpha: number;
+}
+
+interface ColorToken {
+  /** The colorset name, e.g. `AppAccent` */
+  name: string;
+  light: Rgba;
+  dark: Rgba;
+}
+
+interface ColorsetEntry {
+  appearances?: { appearance: string; value: string }[];
+  color?: {
+    "color-space"?: string;
+    components?: Record<string, string>;
+  };
+}
+
+const ASSET_CATALOG = "../Kartunes/Assets.xcassets";
+const CSS_OUTPUT = "src/styles/tokens.css";
+const TS_OUTPUT = "src/theme/tokens.ts";
+const SUPPORTED_COLOR_SPACES = ["srgb", "extended-srgb"];
+const HEADER = "Generated by plugins/designTokens.ts from Kartunes/Assets.xcassets. Do not edit by hand.";
+
+/**
+ * Turns every `*.colorset` in the app's asset catalog into light/dark CSS
+ * custom properties (`src/styles/tokens.css`) and typed values
+ * (`src/theme/tokens.ts`), so the site uses the app's palette instead of a
+ * hand-copied one. Both files are committed, so the site still builds without
+ * the iOS project next to it; they are only rewritten when a colorset changes.
+ */
+export function designTokens(): Plugin {
+  let root = process.cwd();
+
+  const generate = () => {
+    const catalogDir = resolve(root, ASSET_CATALOG);
+    if (!existsSync(catalogDir)) {
+      return;
+    }
+    const tokens = readColorsets(catalogDir);
+    writeIfChanged(resolve(root, CSS_OUTPUT), tokensCSS(tokens));
+    writeIfChanged(resolve(root, TS_OUTPUT), tokensTS(tokens));
+  };
+
+  return {
+    name: "kartunes-design-tokens",
+    apply: (_, env) => !env.isSsrBuild,
+    configResolved(config) {
+      root = config.root;
+    },
+    buildStart() {
+      try {
+        generate();
+      } catch (error) {
+        this.error(`Design tokens: ${(error as Error).message}`);
+      }
+    },
+    configureServer(server) {
+      const catalogDir = resolve(root, ASSET_CATALOG);
+      server.watcher.add(catalogDir);
+      server.watcher.on("change", (file) => {
+        if (file.startsWith(catalogDir) && file.includes(".colorset")) {
+          try {
+            generate();
+          } catch (error) {
+            server.config.logger.error(`Design tokens: ${(error as Error).message}`);
+          }
+        }
+      });
+    },
+  };
+}
+
+function readColorsets(catalogDir: string): ColorToken[] {
+  return readdirSync(catalogDir)
+    .filter((entry) => entry.endsWith(".colorset"))
+    .sort()
+    .map((entry) => {
+      const name = basename(entry, ".colorset");
+      const contents = JSON.parse(readFileSync(resolve(catalogDir, entry, "Contents.json"), "utf8"));
+      const colors: ColorsetEntry[] = contents.colors ?? [];
+      const luminosity = (value: string | undefined) =>
+        colors.find((color) => {
+          const appearance = color.appearances?.find((a) => a.appearance === "luminosity")?.value;
+          return appearance === value && !color.appearances?.some((a) => a.appearance !== "luminosity");
+        });
+
+      const light = luminosity("light") ?? luminosity(undefined);
+      if (!light) {
+        throw new Error(`${name} has no light (Any Appearance) color`);
+      }
+      const dark = luminosity("dark") ?? light;
+      return { name, light: parseColor(name, light), dark: parseColor(name, dark) };
+    });
+}
+
+function parseColor(name: string, entry: ColorsetEntry): Rgba {
+  const space = entry.color?.["color-space"];
+  const components = entry.color?.components;
+  if (!space || !SUPPORTED_COLOR_SPACES.includes(space) || !components) {
+    throw new Error(`${name} uses ${space ?? "a system color"}; only sRGB colors can be exported`);
+  }
+  return {
+    red: parseComponent(name, components.red),
+    green: parseComponent(name, components.green),
+    blue: parseComponent(name, components.blue),
+    alpha: Number(components.alpha ?? "1"),
+  };
+}
+
+/** Xcode writes components as `0xEA`, `234` or `0.918` depending on how they were entered */
+function parseComponent(name: string, value: string | undefined): number {
+  const component =
+    value === undefined
+      ? NaN
+      : value.startsWith("0x")
+        ? parseInt(value.slice(2), 16)
+        : value.includes(".")
+          ? Math.round(Number(value) * 255)
+          : Number(value);
+  if (!Number.isFinite(component) || component < 0 || component > 255) {
+    throw new Error(`${name} has an unreadable color component "${value}"`);
+  }
+  return component;
+}
+
+function cssColor({ red, green, blue, alpha }: Rgba): string {
+  if (alpha >= 1) {
+    return `#${[red, green, blue].map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+  }
+  return `rgba(${red}, ${green}, ${blue}, ${Number(alpha.toFixed(3))})`;
+}
+
+/** `AppAccentSoft` → `app-accent-soft` */
+function kebabCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+/** `AppAccentSoft` → `appAccentSoft` */
+function camelCase(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+function tokensCSS(tokens: ColorToken[]): string {
+  const declarations = (theme: "light" | "dark", indent: string) =>
+    tokens
+      .flatMap((token) => {
+        const color = token[theme];
+        return [
+          `${indent}--${kebabCase(token.name)}: ${cssColor(color)};`,
+          `${indent}--${kebabCase(token.name)}-rgb: ${color.red}, ${color.green}, ${color.blue};`,
+        ];
+      })
+      .join("\n");
+
+  return `/* ${HEADER} */
+/* Every color has an \`-rgb\` twin for translucent variants: rgba(var(--app-accent-rgb), 0.2) */
+
+:root {
+${declarations("light", "  ")}
+  color-scheme: light;
+}
+
+/* \`data-theme\` is set before first paint by index.html and kept up to date by ThemeProvider */
+:root[data-theme="dark"] {
+${declarations("dark", "  ")}
+  color-scheme: dark;
+}
+
+/* Without JavaScript, follow the OS */
+@media (prefers-color-scheme: dark) {
+  :root:not([data-theme]) {
+${declarations("dark", "    ")}
+    color-scheme: dark;
+  }
+}
+`;
+}
+
+function tokensTS(tokens: ColorToken[]): string {
+  const names = tokens.map((token) => `  "${camelCase(token.name)}",`).join("\n");
+  const values = tokens
+    .map(
+      (token) =>
+        `  ${camelCase(token.name)}: { light: "${cssColor(token.light)}", dark: "${cssColor(token.dark)}" },`
+    )
+    .join("\n");
+  const variables = tokens.map((token) => `  ${camelCase(token.name)}: "--${kebabCase(token.name)}",`).join("\n");
+
+  return `// ${HEADER}
+import type { ResolvedTheme } from "./theme";
+
+/** One per colorset in the app's asset catalog */
+export const COLOR_TOKENS = [
+${names}
+] as const;
+
+export type ColorToken = (typeof COLOR_TOKENS)[number];
+
+/** Each color as a CSS value for both themes */
+export const colorTokens: Record<ColorToken, Record<ResolvedTheme, string>> = {
+${values}
+};
+
+/** The custom property \`src/styles/tokens.css\` defines for each color */
+export const colorTokenVariables: Record<ColorToken, string> = {
+${variables}
+};
+`;
+}
+
+function writeIfChanged(path: string, contents: string) {
+  if (!existsSync(path) || readFileSync(path, "utf8") !== contents) {
+    writeFileSync(path, contents);
+  }
+}
@@ -0,0 +1,153 @@
+import { createHash } from "node:crypto";
+import { mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { build, type Plugin, type ResolvedConfig } from "vite";
+import { site } from "../src/content/site";
+import { contentSecurityPolicy, declaredOrigins } from "../src/utils/csp";
+
+interface PrerenderedPage {
+  path: string;
+  lang: string;
+  head: string;
+  html: string;
+  url: string;
+}
+
+interface ServerEntry {
+  buildSearchIndexes(): Record<string, unknown[]>;
+  buildFeeds(): Record<string, string>;
+  prerenderPages(): PrerenderedPage[];
+  prerenderNotFoundPage(): Omit<PrerenderedPage, "url">;
+}
+
+const SERVER_ENTRY = "src/entry-server.tsx";
+
+/** Elements that load what their URL attributes point at, unlike `<a>` */
+const RESOURCE_TAG = /<(?:img|script|link|iframe|source|video|audio|track|embed|object|input)\b[^>]*>/g;
+const RESOURCE_ATTRIBUTE = /\s(src|href|srcset|poster|data)="([^"]*)"/g;
+const CSS_URL = /(?:url\(\s*|@import\s+)["']?((?:https?:)?\/\/[^"')\s]+)/g;
+
+/**
+ * After the client build, renders every route in every locale to static HTML
+ * with its own head tags and Content-Security-Policy, writes the `404.html`
+ * GitHub Pages falls back to, one site search index per locale, the changelog
+ * feeds, then `sitemap.xml` and a `robots.txt` that points to it. Fails the
+ * build if a page or stylesheet loads from an origin that is not declared in
+ * `src/content/thirdParty.ts`.
+ */
+export function prerender(): Plugin {
+  let config: ResolvedConfig;
+
+  return {
+    name: "kartunes-prerender",
+    apply: (_, env) => env.command === "build" && !env.isSsrBuild,
+    configResolved(resolved) {
+      config = resolved;
+    },
+    async closeBundle(error) {
+      // Rollup still closes the bundle when the build failed; let that error be the one reported
+      if (error) return;
+      const outDir = resolve(config.root, config.build.outDir);
+      const serverOutDir = resolve(config.root, "node_modules/.kartunes-prerender");
+
+      await build({
+        configFile: config.configFile,
+        mode: config.mode,
+        logLevel: "warn",
+        build: {
+          ssr: SERVER_ENTRY,
+          outDir: serverOutDir,
+          emptyOutDir: true,
+        },
+      });
+
+      try {
+        const entry: ServerEntry = await import(pathToFileURL(resolve(serverOutDir, "entry-server.js")).href);
+        const template = withContentSecurityPolicy(readFileSync(resolve(outDir, "index.html"), "utf8"));
+        const pages = entry.prerenderPages();
+        const undeclared: string[] = [];
+
+        for (const page of pages) {
+          const pageDir = resolve(outDir, `.${page.path}`);
+          const html = fillTemplate(template, page);
+          mkdirSync(pageDir, { recursive: true });
+          writeFileSync(resolve(pageDir, "index.html"), html);
+          undeclared.push(...undeclaredOrigins(loadedURLs(html)).map((origin) => `${page.path} loads ${origin}`));
+        }
+        const notFound = fillTemplate(template, entry.prerenderNotFoundPage());
+        writeFileSync(resolve(outDir, "404.html"), notFound);
+        undeclared.push(...undeclaredOrigins(loadedURLs(notFound)).map((origin) => `404.html loads ${origin}`));
+
+        const assetsDir = resolve(outDir, config.build.assetsDir);
+        for (const name of readdirSync(assetsDir).filter((file) => file.endsWith(".css"))) {
+          const urls = [...readFileSync(resolve(assetsDir, name), "utf8").matchAll(CSS_URL)].map((m) => m[1]);
+          undeclared.push(...undeclaredOrigins(urls).map((origin) => `${config.build.assetsDir}/${name} loads ${origin}`));
+        }
+        if (undeclared.length > 0) {
+          this.error(
+            `Undeclared external origins (add them to src/content/thirdParty.ts behind consent, or self-host):\n  - ${undeclared.join("\n  - ")}`
+          );
+        }
+        const searchIndexes = Object.entries(entry.buildSearchIndexes());
+        for (const [locale, documents] of searchIndexes) {
+          writeFileSync(resolve(outDir, `search-index.${locale}.json`), JSON.stringify(documents));
+        }
+
+        const feeds = Object.entries(entry.buildFeeds());
+        for (const [path, feed] of feeds) {
+          mkdirSync(resolve(outDir, `.${dirname(path)}`), { recursive: true });
+          writeFileSync(resolve(outDir, `.${path}`), feed);
+        }
+
+        const sitemapURL = new URL("sitemap.xml", pages.find((p) => p.path === "/")?.url).href;
+        writeFileSync(resolve(outDir, "sitemap.xml"), renderSitemap(pages));
+        writeFileSync(resolve(outDir, "robots.txt"), `User-agent: *\nAllow: /\n\nSitemap: ${sitemapURL}\n`);
+
+        config.logger.info(
+          `Prerendered ${pages.length} pages, 404.html, ${searchIndexes.length} search indexes, ${feeds.length} feeds, sitemap.xml and robots.txt`
+        );
+      } finally {
+        rmSync(serverOutDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/** Adds the policy as the first thing in `<head>`, so it covers the inline theme script too */
+function withContentSecurityPolicy(template: string): string {
+  const scriptHashes = [...template.matchAll(/<script>([\s\S]*?)<\/script>/g)].map(
+    (m) => `'sha256-${createHash("sha256").update(m[1]).digest("base64")}'`
+  );
+  const meta = `<meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy(scriptHashes)}" />`;
+  return template.replace(/<meta charset="[^"]*" \/>/, (charset) => `${charset}\n    ${meta}`);
+}
+
+/** Origins, other than the site's own, that are not declared in `src/content/thirdParty.ts` */
+function undeclaredOrigins(urls: string[]): string[] {
+  const allowed = declaredOrigins().add(new URL(site.url).origin);
+  const origins = urls.filter((url) => /^(?:https?:)?\/\//.test(url)).map((url) => new URL(url, site.url).origin);
+  return [...new Set(origins)].filter((origin) => !allowed.has(origin));
+}
+
+/** URLs the page's elements and inline styles load */
+function loadedURLs(html: string): string[] {
+  const attributes = [...html.matchAll(RESOURCE_TAG)].flatMap((tag) =>
+    [...tag[0].matchAll(RESOURCE_ATTRIBUTE)].flatMap(([, name, value]) =>
+      name === "srcset" ? value.split(",").map((candidate) => candidate.trim().split(/\s+/)[0]) : [value]
+    )
+  );
+  return [...attributes, ...[...html.matchAll(CSS_URL)].map((m) => m[1])];
+}
+
+function fillTemplate(template: string, page: Omit<PrerenderedPage, "url">): string {
+  return template
+    .replace(/<html lang="[^"]*">/, `<html lang="${page.lang}">`)
+    .replace(/<!--app-head-->[\s\S]*?<!--\/app-head-->/, page.head)
+    .replace('<div id="root"><!--app-html-->', `<div id="root" data-prerendered-path="${page.path}">${page.html}`);
+}
+
+function renderSitemap(pages: PrerenderedPage[]): string {
+  const urls = pages.map((page) => `  <url>\n    <loc>${page.url}</loc>\n  </url>`).join("\n");
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls}\n</urlset>\n`;
+}
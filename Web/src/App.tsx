@@ -1,30 +1,87 @@
+import { ReactNode } from "react";
 import { Routes, Route } from "react-router-dom";
 import { Layout } from "./components/Layout/Layout";
+import { I18nProvider } from "./i18n/I18nProvider";
+import { DEFAULT_LOCALE, LOCALES, Locale } from "./i18n/locales";
+import { ThemeProvider } from "./theme/ThemeProvider";
 import HomePage from "./pages/HomePage";
 import FeaturesPage from "./pages/FeaturesPage";
 import ScreenshotsPage from "./pages/ScreenshotsPage";
+import DemoPage from "./pages/DemoPage";
 import SetupPage from "./pages/SetupPage";
+import TroubleshootPage from "./pages/TroubleshootPage";
 import PlatformsPage from "./pages/PlatformsPage";
+import GenresPage from "./pages/GenresPage";
+import FormatsPage from "./pages/FormatsPage";
+import DownloadsPage from "./pages/DownloadsPage";
+import PlaylistToolsPage from "./pages/PlaylistToolsPage";
+import LibraryHealthPage from "./pages/LibraryHealthPage";
+import RemotePage from "./pages/RemotePage";
+import StatsPage from "./pages/StatsPage";
+import SiriPage from "./pages/SiriPage";
+import CapabilitiesPage from "./pages/CapabilitiesPage";
 import PrivacyPage from "./pages/PrivacyPage";
 import FAQPage from "./pages/FAQPage";
+import ChangelogPage from "./pages/ChangelogPage";
+import ReleasePage from "./pages/ReleasePage";
 import SupportPage from "./pages/SupportPage";
 import NotFoundPage from "./pages/NotFoundPage";
 
+/**
+ * Every route on the site, unprefixed. Each is served in English at its own
+ * path and in every other locale under `/<locale>/`; the prerender step writes
+ * an HTML page for each one except `*`.
+ */
+export const routes: { path: string; element: ReactNode }[] = [
+  { path: "/", element: <HomePage /> },
+  { path: "/features", element: <FeaturesPage /> },
+  { path: "/screenshots", element: <ScreenshotsPage /> },
+  { path: "/demo", element: <DemoPage /> },
+  { path: "/setup", element: <SetupPage /> },
+  { path: "/troubleshoot", element: <TroubleshootPage /> },
+  { path: "/platforms", element: <PlatformsPage /> },
+  { path: "/capabilities", element: <CapabilitiesPage /> },
+  { path: "/genres", element: <GenresPage /> },
+  { path: "/formats", element: <FormatsPage /> },
+  { path: "/downloads", element: <DownloadsPage /> },
+  { path: "/tools/playlists", element: <PlaylistToolsPage /> },
+  { path: "/tools/library-health", element: <LibraryHealthPage /> },
+  { path: "/remote", element: <RemotePage /> },
+  { path: "/stats", element: <StatsPage /> },
+  { path: "/siri", element: <SiriPage /> },
+  { path: "/privacy", element: <PrivacyPage /> },
+  { path: "/faq", element: <FAQPage /> },
+  { path: "/faq/:slug", element: <FAQPage /> },
+  { path: "/changelog", element: <ChangelogPage /> },
+  { path: "/changelog/page/:page", element: <ChangelogPage /> },
+  { path: "/changelog/:version", element: <ReleasePage /> },
+  { path: "/support", element: <SupportPage /> },
+  { path: "*", element: <NotFoundPage /> },
+];
+
+function LocalizedSite({ locale }: { locale: Locale }) {
+  return (
+    <I18nProvider locale={locale}>
+      <Layout>
+        <Routes>
+          {routes.map((route) => (
+            <Route key={route.path} path={route.path} element={route.element} />
+          ))}
+        </Routes>
+      </Layout>
+    </I18nProvider>
+  );
+}
+
 export default function App() {
   return (
-    <Layout>
+    <ThemeProvider>
       <Routes>
-        <Route path="/" element={<HomePage />} />
-        <Route path="/features" element={<FeaturesPage />} />
-        <Route path="/screenshots" element={<ScreenshotsPage />} />
-        <Route path="/setup" element={<SetupPage />} />
-        <Route path="/platforms" element={<PlatformsPage />} />
-        <Route path="/privacy" element={<PrivacyPage />} />
-        <Route path="/faq" element={<FAQPage />} />
-        <Route path="/support" element={<SupportPage />} />
-        <Route path="*" element={<NotFoundPage />} />
+        {LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).map((locale) => (
+          <Route key={locale} path={`/${locale}/*`} element={<LocalizedSite locale={locale} />} />
+        ))}
+        <Route path="/*" element={<LocalizedSite locale={DEFAULT_LOCALE} />} />
       </Routes>
-    </Layout>
+    </ThemeProvider>
   );
 }
-
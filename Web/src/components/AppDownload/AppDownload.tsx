@@ -0,0 +1,79 @@
+import { useMemo } from "react";
+import { release } from "../../content/release";
+import { useDevice } from "../../hooks/useDevice";
+import { useI18n } from "../../i18n/I18nProvider";
+import { canInstallApp } from "../../utils/device";
+import { encodeQRCode } from "../../utils/qrCode";
+import { appDownloadURL } from "../../utils/release";
+import "./AppDownload.css";
+
+/** Light modules around the code that scanners need to find it */
+const QUIET_ZONE = 4;
+
+interface AppDownloadButtonProps {
+  className?: string;
+}
+
+/** The App Store or TestFlight link for the current release, or a disabled button before launch */
+export function AppDownloadButton({ className = "" }: AppDownloadButtonProps) {
+  const { t } = useI18n();
+  const { app } = release;
+
+  switch (app.state) {
+    case "unreleased":
+      return (
+        <button type="button" className={className} disabled>
+          {t("download.appStore")}
+          <span className="app-download-badge">{t("download.comingSoon")}</span>
+        </button>
+      );
+    case "testflight":
+      return (
+        <a href={app.testFlightURL} target="_blank" rel="noopener noreferrer" className={className}>
+          {t("download.testFlight")}
+          <span className="app-download-badge">{t("download.publicBeta")}</span>
+        </a>
+      );
+    case "appStore":
+      return (
+        <a href={appDownloadURL(app)} target="_blank" rel="noopener noreferrer" className={className}>
+          {t("download.appStore")}
+        </a>
+      );
+  }
+}
+
+function QRCode({ value, label }: { value: string; label: string }) {
+  const modules = useMemo(() => encodeQRCode(value), [value]);
+  const size = modules.length + QUIET_ZONE * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : "")))
+    .join("");
+
+  return (
+    <svg className="app-download-qr-code" viewBox={`0 0 ${size} ${size}`} role="img" aria-label={label}>
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" shapeRendering="crispEdges" />
+    </svg>
+  );
+}
+
+/**
+ * A code that opens the listing on the visitor's phone. Only shown on devices
+ * that cannot install the app themselves, once there is something to install.
+ */
+export function AppDownloadQRCode() {
+  const { t } = useI18n();
+  const device = useDevice();
+  const { app } = release;
+
+  if (app.state === "unreleased" || !device || canInstallApp(device)) return null;
+
+  const url = appDownloadURL(app);
+  return (
+    <figure className="app-download-qr">
+      <QRCode value={url} label={t("download.qrLabel", { url })} />
+      <figcaption>{t(`download.qr.${app.state}`)}</figcaption>
+    </figure>
+  );
+}
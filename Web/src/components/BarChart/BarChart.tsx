@@ -0,0 +1,71 @@
+import "./BarChart.css";
+
+export interface BarChartSegment {
+  /** Segments with the same key share a colour and a legend entry across rows */
+  key: string;
+  label: string;
+  value: number;
+}
+
+export interface BarChartRow {
+  label: string;
+  segments: BarChartSegment[];
+  /** Shown instead of the total, e.g. when the row has nothing to measure */
+  note?: string;
+}
+
+interface BarChartProps {
+  title: string;
+  rows: BarChartRow[];
+  formatValue: (value: number) => string;
+  /** Hide the legend when every row has a single segment named by its label */
+  showLegend?: boolean;
+}
+
+/** Horizontal, optionally stacked bars scaled to the largest row */
+export function BarChart({ title, rows, formatValue, showLegend = true }: BarChartProps) {
+  const series = [...new Map(rows.flatMap((row) => row.segments).map((s) => [s.key, s.label])).entries()];
+  const seriesIndex = new Map(series.map(([key], index) => [key, index]));
+  const total = (row: BarChartRow) => row.segments.reduce((sum, segment) => sum + segment.value, 0);
+  const max = Math.max(0, ...rows.map(total));
+
+  return (
+    <figure className="bar-chart">
+      <figcaption>{title}</figcaption>
+      <div className="bar-chart-rows">
+        {rows.map((row) => {
+          const rowTotal = total(row);
+          const description = row.segments.map((s) => `${s.label}: ${formatValue(s.value)}`).join(", ");
+          return (
+            <div key={row.label} className="bar-chart-row">
+              <span className="bar-chart-label">{row.label}</span>
+              <div className="bar-chart-track" role="img" aria-label={row.note ?? description}>
+                {row.segments
+                  .filter((segment) => segment.value > 0)
+                  .map((segment) => (
+                    <span
+                      key={segment.key}
+                      className={`bar-chart-segment series-${(seriesIndex.get(segment.key) ?? 0) % 8}`}
+                      style={{ width: `${max > 0 ? (segment.value / max) * 100 : 0}%` }}
+                      title={`${segment.label}: ${formatValue(segment.value)}`}
+                    />
+                  ))}
+              </div>
+              <span className="bar-chart-value">{row.note ?? formatValue(rowTotal)}</span>
+            </div>
+          );
+        })}
+      </div>
+      {showLegend && series.length > 1 && (
+        <ul className="bar-chart-legend">
+          {series.map(([key, label], index) => (
+            <li key={key}>
+              <span className={`bar-chart-swatch series-${index % 8}`} aria-hidden="true" />
+              {label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </figure>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useState, type MouseEvent } from "react";
+import { useI18n } from "../../i18n/I18nProvider";
+import {
+  EMPTY_BUG_REPORT,
+  bugReportErrors,
+  bugReportIssueURL,
+  bugReportMarkdown,
+  clearBugReportDraft,
+  isBlankBugReport,
+  storeBugReportDraft,
+  storedBugReportDraft,
+} from "../../services/bugReport";
+import {
+  BUG_REPORT_SURFACES,
+  bugReportSurfaceDisplayNames,
+  type BugReport,
+  type BugReportField,
+  type BugReportSurface,
+} from "../../types/bugReport";
+import { mediaServerDisplayNames, type MediaServerType } from "../../types/server";
+import "./BugReportForm.css";
+
+const MEDIA_SERVERS: MediaServerType[] = ["jellyfin", "emby"];
+const COPIED_RESET_MS = 2000;
+
+type TextField = Exclude<BugReportField, "serverType">;
+
+interface FieldSpec {
+  field: TextField;
+  placeholder?: string;
+  multiline?: boolean;
+  /** Spans both columns; multiline fields always do */
+  wide?: boolean;
+}
+
+const DEVICE_FIELDS: FieldSpec[] = [
+  { field: "appVersion", placeholder: "1.0 (42)" },
+  { field: "deviceModel", placeholder: "iPhone 15 Pro" },
+  { field: "iosVersion", placeholder: "18.1" },
+];
+
+const DESCRIPTION_FIELDS: FieldSpec[] = [
+  { field: "steps", placeholder: "1. …\n2. …\n3. …", multiline: true },
+  { field: "expected", multiline: true },
+  { field: "actual", multiline: true },
+];
+
+export function BugReportForm() {
+  const { t } = useI18n();
+  const [report, setReport] = useState<BugReport>(EMPTY_BUG_REPORT);
+  // The draft is read after the first render so the prerendered form matches
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const [touched, setTouched] = useState<Set<BugReportField>>(new Set());
+  const [attempted, setAttempted] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const errors = bugReportErrors(report);
+  const isValid = Object.keys(errors).length === 0;
+  const issue = bugReportIssueURL(report);
+
+  useEffect(() => {
+    const draft = storedBugReportDraft();
+    if (draft) setReport(draft);
+    setDraftLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!draftLoaded) return;
+    if (isBlankBugReport(report)) {
+      clearBugReportDraft();
+    } else {
+      storeBugReportDraft(report);
+    }
+  }, [draftLoaded, report]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = window.setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    return () => window.clearTimeout(timeout);
+  }, [copied]);
+
+  const update = <K extends keyof BugReport>(key: K, value: BugReport[K]) => {
+    setReport((prev) => ({ ...prev, [key]: value }));
+    setCopied(false);
+  };
+
+  const touch = (field: BugReportField) => setTouched((prev) => new Set(prev).add(field));
+
+  const toggleSurface = (surface: BugReportSurface, checked: boolean) =>
+    update(
+      "surfaces",
+      checked ? [...report.surfaces, surface] : report.surfaces.filter((other) => other !== surface),
+    );
+
+  const fieldError = (field: BugReportField) => {
+    const error = errors[field];
+    return error && (attempted || touched.has(field)) ? (
+      <p className="bug-report-error" id={`bug-report-${field}-error`} role="alert">
+        {t(`bugReport.error.${error}`)}
+      </p>
+    ) : null;
+  };
+
+  const openIssue = (event: MouseEvent<HTMLAnchorElement>) => {
+    if (isValid) return;
+    event.preventDefault();
+    setAttempted(true);
+    const firstInvalid = Object.keys(errors)[0];
+    document.getElementById(`bug-report-${firstInvalid}`)?.focus();
+  };
+
+  const copyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(bugReportMarkdown(report));
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the preview below can still be selected by hand
+    }
+  };
+
+  const clear = () => {
+    setReport(EMPTY_BUG_REPORT);
+    setTouched(new Set());
+    setAttempted(false);
+  };
+
+  const renderField = ({ field, placeholder, multiline, wide }: FieldSpec) => {
+    const props = {
+      id: `bug-report-${field}`,
+      value: report[field],
+      placeholder,
+      "aria-invalid": Boolean(errors[field] && (attempted || touched.has(field))),
+      "aria-describedby": `bug-report-${field}-hint`,
+      onBlur: () => touch(field),
+    };
+    return (
+      <div key={field} className={`bug-report-field${multiline || wide ? " wide" : ""}`}>
+        <label htmlFor={props.id}>{t(`bugReport.field.${field}`)}</label>
+        {multiline ? (
+          <textarea rows={4} {...props} onChange={(e) => update(field, e.target.value)} />
+        ) : (
+          <input type="text" spellCheck={false} {...props} onChange={(e) => update(field, e.target.value)} />
+        )}
+        <p className="bug-report-hint" id={props["aria-describedby"]}>
+          {t(`bugReport.field.${field}.hint`)}
+        </p>
+        {fieldError(field)}
+      </div>
+    );
+  };
+
+  return (
+    <form className="bug-report" noValidate onSubmit={(e) => e.preventDefault()}>
+      <div className="bug-report-fields">
+        {renderField({ field: "title", placeholder: t("bugReport.field.title.placeholder"), wide: true })}
+      </div>
+
+      <fieldset className="bug-report-group">
+        <legend>{t("bugReport.device")}</legend>
+        <div className="bug-report-fields">
+          {DEVICE_FIELDS.map(renderField)}
+          {report.surfaces.includes("watch") && renderField({ field: "watchOSVersion", placeholder: "11.1" })}
+        </div>
+        <div className="bug-report-surfaces">
+          <span className="bug-report-label">{t("bugReport.surfaces")}</span>
+          {BUG_REPORT_SURFACES.map((surface) => (
+            <label key={surface} className="bug-report-toggle">
+              <input
+                type="checkbox"
+                checked={report.surfaces.includes(surface)}
+                onChange={(e) => toggleSurface(surface, e.target.checked)}
+              />
+              {bugReportSurfaceDisplayNames[surface]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <fieldset className="bug-report-group">
+        <legend>{t("bugReport.server")}</legend>
+        <div className="bug-report-fields">
+          <div className="bug-report-field">
+            <span className="bug-report-label" id="bug-report-serverType-label">
+              {t("bugReport.field.serverType")}
+            </span>
+            <div className="bug-report-choice" role="radiogroup" aria-labelledby="bug-report-serverType-label">
+              {MEDIA_SERVERS.map((server, index) => (
+                <label key={server} className={report.serverType === server ? "selected" : undefined}>
+                  <input
+                    type="radio"
+                    id={index === 0 ? "bug-report-serverType" : undefined}
+                    name="bug-report-server-type"
+                    value={server}
+                    checked={report.serverType === server}
+                    onChange={() => update("serverType", server)}
+                    onBlur={() => touch("serverType")}
+                  />
+                  {mediaServerDisplayNames[server]}
+                </label>
+              ))}
+            </div>
+            {fieldError("serverType")}
+          </div>
+          {renderField({ field: "serverVersion", placeholder: "10.10.3" })}
+        </div>
+      </fieldset>
+
+      <fieldset className="bug-report-group">
+        <legend>{t("bugReport.description")}</legend>
+        <div className="bug-report-fields">{DESCRIPTION_FIELDS.map(renderField)}</div>
+      </fieldset>
+
+      {attempted && !isValid && (
+        <p className="bug-report-summary" role="alert">
+          {t("bugReport.fixErrors")}
+        </p>
+      )}
+      {isValid && !issue.includesBody && (
+        <p className="bug-report-summary" role="status">
+          {t("bugReport.tooLong")}
+        </p>
+      )}
+
+      <div className="bug-report-actions">
+        <a
+          href={issue.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="bug-report-button"
+          aria-disabled={!isValid}
+          onClick={openIssue}
+        >
+          {t("bugReport.openIssue")}
+        </a>
+        <button type="button" className="bug-report-button secondary" onClick={copyMarkdown}>
+          {copied ? t("bugReport.copied") : t("bugReport.copyMarkdown")}
+        </button>
+        <button type="button" className="bug-report-clear" onClick={clear}>
+          {t("bugReport.clear")}
+        </button>
+      </div>
+
+      <details className="bug-report-preview">
+        <summary>{t("bugReport.preview")}</summary>
+        <pre>
+          <code>{bugReportMarkdown(report)}</code>
+        </pre>
+      </details>
+
+      <p className="bug-report-hint">{t("bugReport.draftNote")}</p>
+    </form>
+  );
+}
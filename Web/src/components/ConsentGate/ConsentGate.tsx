@@ -0,0 +1,51 @@
+import { useId, useState, type ReactNode } from "react";
+import { getThirdPartyEmbed } from "../../content/thirdParty";
+import { useConsent } from "../../hooks/useConsent";
+import { useI18n } from "../../i18n/I18nProvider";
+import type { EmbedId } from "../../types/consent";
+import "./ConsentGate.css";
+
+interface ConsentGateProps {
+  embed: EmbedId;
+  /** Only mounted once the visitor allows the embed, so nothing in it loads before */
+  children: ReactNode;
+}
+
+/** A placeholder that says where a third-party embed loads from, and loads it on request */
+export function ConsentGate({ embed, children }: ConsentGateProps) {
+  const { t, tx } = useI18n();
+  const { allowed, allow } = useConsent(embed);
+  const [remember, setRemember] = useState(false);
+  const titleId = useId();
+  const { name, origins, privacyPolicy } = getThirdPartyEmbed(embed);
+
+  if (allowed) return <>{children}</>;
+
+  return (
+    <div className="consent-gate" role="group" aria-labelledby={titleId}>
+      <strong id={titleId} className="consent-gate-title">
+        {t(`consent.${embed}.title`)}
+      </strong>
+      <p className="consent-gate-notice">
+        {tx("consent.notice", {
+          origin: <code>{Object.values(origins).flat().join(", ")}</code>,
+          name,
+          policy: (
+            <a href={privacyPolicy} target="_blank" rel="noopener noreferrer">
+              {t("consent.privacyPolicy", { name })}
+            </a>
+          ),
+        })}
+      </p>
+      <div className="consent-gate-actions">
+        <button type="button" className="consent-gate-load" onClick={() => allow(remember)}>
+          {t("consent.load")}
+        </button>
+        <label className="consent-gate-remember">
+          <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+          {t("consent.remember", { name })}
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { thirdPartyEmbeds } from "../../content/thirdParty";
+import { useConsent } from "../../hooks/useConsent";
+import { useI18n } from "../../i18n/I18nProvider";
+import type { ThirdPartyEmbed } from "../../types/consent";
+import "./ConsentGate.css";
+
+function ConsentSetting({ embed }: { embed: ThirdPartyEmbed }) {
+  const { t } = useI18n();
+  const { remembered, allow, revoke } = useConsent(embed.id);
+
+  return (
+    <li className="consent-setting">
+      <div>
+        <strong>{t(`consent.${embed.id}.title`)}</strong>
+        <span className="consent-setting-origin">{Object.values(embed.origins).flat().join(", ")}</span>
+      </div>
+      <span className={`consent-setting-state ${remembered ? "remembered" : ""}`}>
+        {remembered ? t("consent.remembered") : t("consent.asks")}
+      </span>
+      <button type="button" onClick={() => (remembered ? revoke() : allow(true))}>
+        {remembered ? t("consent.forget") : t("consent.alwaysLoad")}
+      </button>
+    </li>
+  );
+}
+
+/** Every third-party embed on the site, with whether it loads without asking */
+export function ConsentSettings() {
+  return (
+    <ul className="consent-settings">
+      {thirdPartyEmbeds.map((embed) => (
+        <ConsentSetting key={embed.id} embed={embed} />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,22 @@
+import type { CSSProperties } from "react";
+import type { DemoAlbum } from "../../types/demo";
+
+interface DemoArtworkProps {
+  album: DemoAlbum;
+  size: "small" | "medium" | "large";
+}
+
+/** Generated cover art: a gradient in the album's hue with its initials */
+export function DemoArtwork({ album, size }: DemoArtworkProps) {
+  const initials = album.title
+    .split(/\s+/)
+    .map((word) => word[0])
+    .join("")
+    .slice(0, 2);
+
+  return (
+    <div className={`demo-artwork ${size}`} style={{ "--artwork-hue": album.hue } as CSSProperties} aria-hidden="true">
+      {initials}
+    </div>
+  );
+}
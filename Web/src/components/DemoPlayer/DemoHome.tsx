@@ -0,0 +1,99 @@
+import {
+  albumTracks,
+  demoAlbums,
+  demoTracks,
+  demoUmbrellaGenres,
+  umbrellaGenreTracks,
+} from "../../content/demoLibrary";
+import type { DemoPlayback } from "../../hooks/useDemoPlayback";
+import { useI18n } from "../../i18n/I18nProvider";
+
+interface DemoHomeProps {
+  playback: DemoPlayback;
+}
+
+/** The app's Home tab: quick shuffle actions, then one tile per umbrella genre */
+export function DemoHome({ playback }: DemoHomeProps) {
+  const { t } = useI18n();
+  const likedTracks = demoTracks.filter((track) => playback.likedTrackIds.has(track.id));
+  const recentlyAdded = [...demoAlbums]
+    .sort((a, b) => a.addedRank - b.addedRank)
+    .flatMap((album) => albumTracks(album.id));
+
+  const actions = [
+    {
+      icon: "🕘",
+      title: t("demo.recentlyPlayed"),
+      detail: playback.recentlyPlayed.length > 0 ? t("demo.recentlyPlayedDetail") : t("demo.recentlyPlayedEmpty"),
+      disabled: playback.recentlyPlayed.length === 0,
+      onClick: () => playback.play(playback.recentlyPlayed, 0, { kind: "custom" }),
+    },
+    {
+      icon: "✨",
+      title: t("demo.recentlyAdded"),
+      detail: t("demo.recentlyAddedDetail"),
+      disabled: false,
+      onClick: () => playback.play(recentlyAdded, 0, { kind: "custom" }),
+    },
+    {
+      icon: "🔀",
+      title: t("demo.shuffleAll"),
+      detail: t("demo.shuffleAllDetail"),
+      disabled: false,
+      onClick: () => playback.shufflePlay(demoTracks, { kind: "allSongs" }),
+    },
+  ];
+
+  return (
+    <div className="demo-screen">
+      <h3 className="demo-screen-title">{t("demo.home")}</h3>
+
+      <button
+        className="demo-hero-action"
+        disabled={likedTracks.length === 0}
+        onClick={() => playback.shufflePlay(likedTracks, { kind: "liked" })}
+      >
+        <span className="demo-hero-icon" aria-hidden="true">
+          🔀
+        </span>
+        <span className="demo-action-text">
+          <span className="demo-action-title">{t("demo.shuffleLiked")}</span>
+          <span className="demo-action-detail">{t("demo.likedCount", { count: likedTracks.length })}</span>
+        </span>
+      </button>
+
+      <div className="demo-actions">
+        {actions.map((action) => (
+          <button key={action.title} className="demo-action" disabled={action.disabled} onClick={action.onClick}>
+            <span className="demo-action-icon" aria-hidden="true">
+              {action.icon}
+            </span>
+            <span className="demo-action-text">
+              <span className="demo-action-title">{action.title}</span>
+              <span className="demo-action-detail">{action.detail}</span>
+            </span>
+            <span className="demo-chevron" aria-hidden="true">
+              ›
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <h4 className="demo-section-title">{t("demo.genres")}</h4>
+      <div className="demo-genre-grid">
+        {demoUmbrellaGenres.map((genre) => (
+          <button
+            key={genre}
+            className="demo-genre-tile"
+            onClick={() => playback.shufflePlay(umbrellaGenreTracks(genre), { kind: "genre", genre })}
+          >
+            <span className="demo-action-title">{genre}</span>
+            <span className="demo-action-detail">
+              {t("demo.trackCount", { count: umbrellaGenreTracks(genre).length })}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
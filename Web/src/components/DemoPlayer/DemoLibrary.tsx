@@ -0,0 +1,196 @@
+import {
+  albumTracks,
+  artistAlbums,
+  artistTracks,
+  demoAlbums,
+  demoArtists,
+  demoGenres,
+  demoTracks,
+  genreTracks,
+  getDemoAlbum,
+  getDemoArtist,
+} from "../../content/demoLibrary";
+import type { DemoPlayback } from "../../hooks/useDemoPlayback";
+import { useI18n } from "../../i18n/I18nProvider";
+import type { DemoPlaybackContext, DemoTrack } from "../../types/demo";
+import { DemoArtwork } from "./DemoArtwork";
+import { DemoTrackList } from "./DemoTrackList";
+
+export const LIBRARY_SECTIONS = ["artists", "albums", "songs", "genres"] as const;
+
+export type LibrarySection = (typeof LIBRARY_SECTIONS)[number];
+
+/** A screen pushed onto the Library tab's navigation stack */
+export type LibraryRoute =
+  | { kind: "artist"; artistId: string }
+  | { kind: "album"; albumId: string }
+  | { kind: "genre"; genre: string };
+
+interface DemoLibraryProps {
+  playback: DemoPlayback;
+  section: LibrarySection;
+  route?: LibraryRoute;
+  onSectionChange: (section: LibrarySection) => void;
+  onOpen: (route: LibraryRoute) => void;
+  onBack: () => void;
+}
+
+export function DemoLibrary({ playback, section, route, onSectionChange, onOpen, onBack }: DemoLibraryProps) {
+  const { t } = useI18n();
+
+  if (route) {
+    return <LibraryDetail playback={playback} route={route} onOpen={onOpen} onBack={onBack} />;
+  }
+
+  return (
+    <div className="demo-screen">
+      <h3 className="demo-screen-title">{t("demo.library")}</h3>
+      <div className="demo-segments" role="group" aria-label={t("demo.library")}>
+        {LIBRARY_SECTIONS.map((candidate) => (
+          <button
+            key={candidate}
+            className={`demo-segment ${candidate === section ? "active" : ""}`}
+            aria-pressed={candidate === section}
+            onClick={() => onSectionChange(candidate)}
+          >
+            {t(`demo.${candidate}`)}
+          </button>
+        ))}
+      </div>
+
+      {section === "artists" && (
+        <ul className="demo-list">
+          {demoArtists.map((artist) => (
+            <li key={artist.id}>
+              <button className="demo-list-item" onClick={() => onOpen({ kind: "artist", artistId: artist.id })}>
+                <DemoArtwork album={artistAlbums(artist.id)[0]} size="small" />
+                <span className="demo-track-text">
+                  <span className="demo-track-title">{artist.name}</span>
+                  <span className="demo-track-detail">
+                    {[...new Set(artistTracks(artist.id).flatMap((track) => track.genres))].join(", ")}
+                  </span>
+                </span>
+                <span className="demo-chevron" aria-hidden="true">
+                  ›
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {section === "albums" && (
+        <div className="demo-album-grid">
+          {demoAlbums.map((album) => (
+            <button key={album.id} className="demo-album-tile" onClick={() => onOpen({ kind: "album", albumId: album.id })}>
+              <DemoArtwork album={album} size="medium" />
+              <span className="demo-track-title">{album.title}</span>
+              <span className="demo-track-detail">{getDemoArtist(album.artistId).name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {section === "songs" && (
+        <DemoTrackList
+          tracks={[...demoTracks].sort((a, b) => a.title.localeCompare(b.title))}
+          context={{ kind: "allSongs" }}
+          playback={playback}
+        />
+      )}
+
+      {section === "genres" && (
+        <ul className="demo-list">
+          {demoGenres.map((genre) => (
+            <li key={genre}>
+              <button className="demo-list-item" onClick={() => onOpen({ kind: "genre", genre })}>
+                <span className="demo-track-text">
+                  <span className="demo-track-title">{genre}</span>
+                  <span className="demo-track-detail">{t("demo.trackCount", { count: genreTracks(genre).length })}</span>
+                </span>
+                <span className="demo-chevron" aria-hidden="true">
+                  ›
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface LibraryDetailProps {
+  playback: DemoPlayback;
+  route: LibraryRoute;
+  onOpen: (route: LibraryRoute) => void;
+  onBack: () => void;
+}
+
+function LibraryDetail({ playback, route, onOpen, onBack }: LibraryDetailProps) {
+  const { t } = useI18n();
+  let title: string;
+  let subtitle: string | undefined;
+  let tracks: DemoTrack[];
+  let context: DemoPlaybackContext;
+
+  switch (route.kind) {
+    case "artist":
+      title = getDemoArtist(route.artistId).name;
+      tracks = artistTracks(route.artistId);
+      context = { kind: "artist", artistId: route.artistId };
+      break;
+    case "album": {
+      const album = getDemoAlbum(route.albumId);
+      title = album.title;
+      subtitle = `${getDemoArtist(album.artistId).name} · ${album.year}`;
+      tracks = albumTracks(album.id);
+      context = { kind: "album", albumId: album.id };
+      break;
+    }
+    case "genre":
+      title = route.genre;
+      subtitle = t("demo.trackCount", { count: genreTracks(route.genre).length });
+      tracks = genreTracks(route.genre);
+      context = { kind: "genre", genre: route.genre };
+      break;
+  }
+
+  return (
+    <div className="demo-screen">
+      <button className="demo-back" onClick={onBack}>
+        ‹ {t("demo.back")}
+      </button>
+
+      <div className="demo-detail-header">
+        {route.kind === "album" && <DemoArtwork album={getDemoAlbum(route.albumId)} size="large" />}
+        <h3 className="demo-screen-title">{title}</h3>
+        {subtitle && <p className="demo-detail-subtitle">{subtitle}</p>}
+        <div className="demo-detail-actions">
+          <button className="demo-pill primary" onClick={() => playback.play(tracks, 0, context)}>
+            ▶ {t("demo.play")}
+          </button>
+          <button className="demo-pill" onClick={() => playback.shufflePlay(tracks, context)}>
+            🔀 {t("demo.shuffle")}
+          </button>
+        </div>
+      </div>
+
+      {route.kind === "artist" && (
+        <div className="demo-album-grid">
+          {artistAlbums(route.artistId).map((album) => (
+            <button key={album.id} className="demo-album-tile" onClick={() => onOpen({ kind: "album", albumId: album.id })}>
+              <DemoArtwork album={album} size="medium" />
+              <span className="demo-track-title">{album.title}</span>
+              <span className="demo-track-detail">{album.year}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {route.kind !== "artist" && (
+        <DemoTrackList tracks={tracks} context={context} playback={playback} numbered={route.kind === "album"} />
+      )}
+    </div>
+  );
+}
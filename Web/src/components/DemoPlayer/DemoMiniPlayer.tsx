@@ -0,0 +1,42 @@
+import { getDemoAlbum, getDemoArtist } from "../../content/demoLibrary";
+import type { DemoPlayback } from "../../hooks/useDemoPlayback";
+import { useI18n } from "../../i18n/I18nProvider";
+import { DemoArtwork } from "./DemoArtwork";
+
+interface DemoMiniPlayerProps {
+  playback: DemoPlayback;
+  onExpand: () => void;
+}
+
+/** Sits above the tab bar on every screen once something is playing */
+export function DemoMiniPlayer({ playback, onExpand }: DemoMiniPlayerProps) {
+  const { t } = useI18n();
+  const { track, state } = playback;
+
+  if (!track) {
+    return null;
+  }
+
+  return (
+    <div className="demo-mini-player">
+      <div className="demo-mini-progress" style={{ width: `${(playback.currentTime / track.duration) * 100}%` }} />
+      <button className="demo-mini-main" onClick={onExpand} aria-label={t("demo.openNowPlaying")}>
+        <DemoArtwork album={getDemoAlbum(track.albumId)} size="small" />
+        <span className="demo-track-text">
+          <span className="demo-track-title">{track.title}</span>
+          <span className="demo-track-detail">{getDemoArtist(track.artistId).name}</span>
+        </span>
+      </button>
+      <button
+        className="demo-icon-button"
+        onClick={playback.togglePlayPause}
+        aria-label={state.isPlaying ? t("demo.pause") : t("demo.play")}
+      >
+        <span aria-hidden="true">{state.isPlaying ? "⏸" : "▶"}</span>
+      </button>
+      <button className="demo-icon-button" onClick={playback.next} aria-label={t("demo.next")}>
+        <span aria-hidden="true">⏭</span>
+      </button>
+    </div>
+  );
+}
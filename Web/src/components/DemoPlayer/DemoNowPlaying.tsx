@@ -0,0 +1,143 @@
+import { getDemoAlbum, getDemoArtist } from "../../content/demoLibrary";
+import type { DemoPlayback } from "../../hooks/useDemoPlayback";
+import { useI18n } from "../../i18n/I18nProvider";
+import type { DemoPlaybackContext, RepeatMode } from "../../types/demo";
+import { formatDuration } from "../../utils/format";
+import { DemoArtwork } from "./DemoArtwork";
+import type { LibraryRoute } from "./DemoLibrary";
+
+const repeatIcons: Record<RepeatMode, string> = {
+  off: "🔁",
+  all: "🔁",
+  one: "🔂",
+};
+
+interface DemoNowPlayingProps {
+  playback: DemoPlayback;
+  onClose: () => void;
+  onShowUpNext: () => void;
+  onOpen: (route: LibraryRoute) => void;
+}
+
+export function DemoNowPlaying({ playback, onClose, onShowUpNext, onOpen }: DemoNowPlayingProps) {
+  const { t } = useI18n();
+  const { state, track } = playback;
+
+  if (!track) {
+    return null;
+  }
+
+  const album = getDemoAlbum(track.albumId);
+  const artist = getDemoArtist(track.artistId);
+  const isLiked = playback.likedTrackIds.has(track.id);
+  const repeatLabel = t("demo.repeat", { mode: t(`demo.repeat.${state.repeatMode}`) });
+
+  const contextLabel = (context: DemoPlaybackContext): string => {
+    switch (context.kind) {
+      case "album":
+        return getDemoAlbum(context.albumId).title;
+      case "artist":
+        return getDemoArtist(context.artistId).name;
+      case "genre":
+        return context.genre;
+      case "allSongs":
+        return t("demo.context.allSongs");
+      case "liked":
+        return t("demo.context.liked");
+      case "instantMix":
+        return t("demo.context.instantMix");
+      case "custom":
+        return t("demo.context.custom");
+    }
+  };
+
+  return (
+    <div className="demo-now-playing" role="dialog" aria-label={t("demo.nowPlaying")}>
+      <div className="demo-sheet-header">
+        <button className="demo-icon-button" onClick={onClose} aria-label={t("demo.close")} title={t("demo.close")}>
+          <span aria-hidden="true">⌄</span>
+        </button>
+        <span className="demo-playing-from">{t("demo.playingFrom", { context: contextLabel(state.context) })}</span>
+        <button className="demo-icon-button" onClick={onShowUpNext} aria-label={t("demo.upNext")} title={t("demo.upNext")}>
+          <span aria-hidden="true">☰</span>
+        </button>
+      </div>
+
+      <DemoArtwork album={album} size="large" />
+
+      <div className="demo-now-playing-info">
+        <div className="demo-track-text">
+          <span className="demo-now-playing-title">{track.title}</span>
+          <button className="demo-link" onClick={() => onOpen({ kind: "artist", artistId: artist.id })}>
+            {artist.name}
+          </button>
+          <button className="demo-link" onClick={() => onOpen({ kind: "album", albumId: album.id })}>
+            {album.title}
+          </button>
+        </div>
+        <button
+          className={`demo-icon-button ${isLiked ? "active" : ""}`}
+          onClick={() => playback.toggleLike(track.id)}
+          aria-pressed={isLiked}
+          aria-label={t("demo.like")}
+          title={t("demo.like")}
+        >
+          <span aria-hidden="true">{isLiked ? "♥" : "♡"}</span>
+        </button>
+      </div>
+
+      <div className="demo-progress">
+        <input
+          type="range"
+          min={0}
+          max={track.duration}
+          step={0.1}
+          value={Math.min(playback.currentTime, track.duration)}
+          onChange={(e) => playback.seek(Number(e.target.value))}
+          aria-label={t("demo.position")}
+        />
+        <div className="demo-progress-times">
+          <span>{formatDuration(playback.currentTime)}</span>
+          <span>-{formatDuration(track.duration - playback.currentTime)}</span>
+        </div>
+      </div>
+
+      <div className="demo-transport">
+        <button
+          className={`demo-icon-button ${state.isShuffleEnabled ? "active" : ""}`}
+          onClick={playback.toggleShuffle}
+          aria-pressed={state.isShuffleEnabled}
+          aria-label={t("demo.shuffle")}
+          title={t("demo.shuffle")}
+        >
+          <span aria-hidden="true">🔀</span>
+        </button>
+        <button className="demo-icon-button large" onClick={playback.previous} aria-label={t("demo.previous")} title={t("demo.previous")}>
+          <span aria-hidden="true">⏮</span>
+        </button>
+        <button
+          className="demo-play-button"
+          onClick={playback.togglePlayPause}
+          aria-label={state.isPlaying ? t("demo.pause") : t("demo.play")}
+        >
+          <span aria-hidden="true">{state.isPlaying ? "⏸" : "▶"}</span>
+        </button>
+        <button className="demo-icon-button large" onClick={playback.next} aria-label={t("demo.next")} title={t("demo.next")}>
+          <span aria-hidden="true">⏭</span>
+        </button>
+        <button
+          className={`demo-icon-button ${state.repeatMode !== "off" ? "active" : ""}`}
+          onClick={playback.toggleRepeat}
+          aria-label={repeatLabel}
+          title={repeatLabel}
+        >
+          <span aria-hidden="true">{repeatIcons[state.repeatMode]}</span>
+        </button>
+      </div>
+
+      <button className="demo-pill" onClick={playback.startInstantMix}>
+        📻 {t("demo.instantMix")}
+      </button>
+    </div>
+  );
+}
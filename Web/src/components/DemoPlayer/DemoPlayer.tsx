@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useDemoPlayback } from "../../hooks/useDemoPlayback";
+import { useI18n } from "../../i18n/I18nProvider";
+import { DemoHome } from "./DemoHome";
+import { DemoLibrary, type LibraryRoute, type LibrarySection } from "./DemoLibrary";
+import { DemoMiniPlayer } from "./DemoMiniPlayer";
+import { DemoNowPlaying } from "./DemoNowPlaying";
+import { DemoUpNext } from "./DemoUpNext";
+import "./DemoPlayer.css";
+
+type DemoTab = "home" | "library";
+
+const tabIcons: Record<DemoTab, string> = {
+  home: "🏠",
+  library: "🎵",
+};
+
+/**
+ * A web recreation of the app's main screens inside a phone frame. Navigation
+ * is local state rather than routes, so the mini player keeps playing while the
+ * visitor moves between Home, the library and Now Playing.
+ */
+export function DemoPlayer() {
+  const { t } = useI18n();
+  const playback = useDemoPlayback();
+  const [tab, setTab] = useState<DemoTab>("home");
+  const [librarySection, setLibrarySection] = useState<LibrarySection>("artists");
+  const [libraryStack, setLibraryStack] = useState<LibraryRoute[]>([]);
+  const [isNowPlayingOpen, setIsNowPlayingOpen] = useState(false);
+  const [isUpNextOpen, setIsUpNextOpen] = useState(false);
+
+  const openLibraryRoute = (route: LibraryRoute) => {
+    setTab("library");
+    setLibraryStack((stack) => [...stack, route]);
+    setIsNowPlayingOpen(false);
+    setIsUpNextOpen(false);
+  };
+
+  const selectTab = (selected: DemoTab) => {
+    // Tapping the current tab again pops back to its root, as on iOS
+    if (selected === tab) {
+      setLibraryStack([]);
+    }
+    setTab(selected);
+  };
+
+  return (
+    <div className="demo-phone">
+      <div className="demo-phone-screen">
+        <div className="demo-content">
+          {tab === "home" ? (
+            <DemoHome playback={playback} />
+          ) : (
+            <DemoLibrary
+              playback={playback}
+              section={librarySection}
+              route={libraryStack[libraryStack.length - 1]}
+              onSectionChange={setLibrarySection}
+              onOpen={openLibraryRoute}
+              onBack={() => setLibraryStack((stack) => stack.slice(0, -1))}
+            />
+          )}
+        </div>
+
+        <DemoMiniPlayer playback={playback} onExpand={() => setIsNowPlayingOpen(true)} />
+
+        <nav className="demo-tab-bar" aria-label={t("demo.tabsLabel")}>
+          {(["home", "library"] as const).map((candidate) => (
+            <button
+              key={candidate}
+              className={`demo-tab ${candidate === tab ? "active" : ""}`}
+              aria-current={candidate === tab ? "page" : undefined}
+              onClick={() => selectTab(candidate)}
+            >
+              <span aria-hidden="true">{tabIcons[candidate]}</span>
+              {t(`demo.${candidate}`)}
+            </button>
+          ))}
+        </nav>
+
+        {isNowPlayingOpen && playback.track && (
+          <DemoNowPlaying
+            playback={playback}
+            onClose={() => setIsNowPlayingOpen(false)}
+            onShowUpNext={() => setIsUpNextOpen(true)}
+            onOpen={openLibraryRoute}
+          />
+        )}
+        {isUpNextOpen && <DemoUpNext playback={playback} onClose={() => setIsUpNextOpen(false)} />}
+      </div>
+    </div>
+  );
+}
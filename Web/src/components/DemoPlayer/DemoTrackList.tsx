@@ -0,0 +1,51 @@
+import { getDemoAlbum, getDemoArtist } from "../../content/demoLibrary";
+import type { DemoPlayback } from "../../hooks/useDemoPlayback";
+import { useI18n } from "../../i18n/I18nProvider";
+import type { DemoPlaybackContext, DemoTrack } from "../../types/demo";
+import { formatDuration } from "../../utils/format";
+import { DemoArtwork } from "./DemoArtwork";
+
+interface DemoTrackListProps {
+  tracks: DemoTrack[];
+  context: DemoPlaybackContext;
+  playback: DemoPlayback;
+  /** Album views show track numbers; everything else shows artwork */
+  numbered?: boolean;
+}
+
+export function DemoTrackList({ tracks, context, playback, numbered = false }: DemoTrackListProps) {
+  const { t } = useI18n();
+
+  return (
+    <ul className="demo-track-list">
+      {tracks.map((track, index) => {
+        const isCurrent = track.id === playback.track?.id;
+        return (
+          <li key={track.id} className={`demo-track ${isCurrent ? "current" : ""}`}>
+            <button className="demo-track-main" onClick={() => playback.play(tracks, index, context)}>
+              {numbered ? (
+                <span className="demo-track-number">{isCurrent ? "🔊" : track.trackNumber}</span>
+              ) : (
+                <DemoArtwork album={getDemoAlbum(track.albumId)} size="small" />
+              )}
+              <span className="demo-track-text">
+                <span className="demo-track-title">{track.title}</span>
+                <span className="demo-track-detail">
+                  {numbered ? formatDuration(track.duration) : getDemoArtist(track.artistId).name}
+                </span>
+              </span>
+            </button>
+            <button
+              className="demo-icon-button"
+              onClick={() => playback.playNext(track)}
+              aria-label={t("demo.playNextLabel", { title: track.title })}
+              title={t("demo.playNext")}
+            >
+              <span aria-hidden="true">↪</span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
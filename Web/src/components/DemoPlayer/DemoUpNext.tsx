@@ -0,0 +1,56 @@
+import { getDemoAlbum, getDemoArtist } from "../../content/demoLibrary";
+import type { DemoPlayback } from "../../hooks/useDemoPlayback";
+import { useI18n } from "../../i18n/I18nProvider";
+import { upNextTracks } from "../../services/demoPlayback";
+
+interface DemoUpNextProps {
+  playback: DemoPlayback;
+  onClose: () => void;
+}
+
+/** The whole queue, in play order, with the current track highlighted */
+export function DemoUpNext({ playback, onClose }: DemoUpNextProps) {
+  const { t } = useI18n();
+  const tracks = upNextTracks(playback.state);
+
+  return (
+    <div className="demo-up-next" role="dialog" aria-label={t("demo.upNext")}>
+      <div className="demo-sheet-header">
+        <h3 className="demo-screen-title">{t("demo.upNext")}</h3>
+        <button className="demo-pill" onClick={onClose}>
+          {t("demo.done")}
+        </button>
+      </div>
+
+      {tracks.length === 0 ? (
+        <p className="demo-empty">{t("demo.noUpcoming")}</p>
+      ) : (
+        <ul className="demo-track-list">
+          {tracks.map((track) => {
+            const isCurrent = track.id === playback.track?.id;
+            return (
+              <li key={track.id} className={`demo-track ${isCurrent ? "current" : ""}`}>
+                <button
+                  className="demo-track-main"
+                  onClick={() => {
+                    playback.skipTo(track.id);
+                    onClose();
+                  }}
+                >
+                  <span className="demo-track-number" aria-hidden="true">
+                    {isCurrent ? "🔊" : ""}
+                  </span>
+                  <span className="demo-track-text">
+                    <span className="demo-track-title">{track.title}</span>
+                    <span className="demo-track-detail">{getDemoArtist(track.artistId).name}</span>
+                    <span className="demo-track-detail">{getDemoAlbum(track.albumId).title}</span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { site } from "../../content";
+import { useI18n } from "../../i18n/I18nProvider";
+import { fetchStarCount } from "../../services/githubStars";
+import "./GitHubStars.css";
+
+type StarsState = { status: "loading" } | { status: "loaded"; count: number } | { status: "failed" };
+
+/** The repository's star count, fetched from the GitHub API when mounted; render inside a `ConsentGate` */
+export function GitHubStars() {
+  const { t, locale } = useI18n();
+  const [state, setState] = useState<StarsState>({ status: "loading" });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchStarCount(site.repository, controller.signal).then(
+      (count) => setState({ status: "loaded", count }),
+      () => {
+        if (!controller.signal.aborted) setState({ status: "failed" });
+      }
+    );
+    return () => controller.abort();
+  }, []);
+
+  return (
+    <p className={`github-stars ${state.status}`} aria-live="polite">
+      {state.status === "loading" && t("githubStars.loading")}
+      {state.status === "loaded" && (
+        <a href={`${site.repository}/stargazers`} target="_blank" rel="noopener noreferrer">
+          {t("githubStars.count", { count: state.count.toLocaleString(locale) })}
+        </a>
+      )}
+      {state.status === "failed" && t("githubStars.failed")}
+    </p>
+  );
+}
@@ -1,18 +1,15 @@
+import { useI18n } from "../../i18n/I18nProvider";
 import "./Footer.css";
 
 export function Footer() {
+  const { t } = useI18n();
+
   return (
     <footer className="footer">
       <div className="footer-container">
-        <p>
-          Made with ❤️ for music lovers who want a beautiful, native iOS experience for their
-          self-hosted music libraries.
-        </p>
-        <p className="footer-copyright">
-          © {new Date().getFullYear()} Kartunes. All rights reserved.
-        </p>
+        <p>{t("footer.tagline")}</p>
+        <p className="footer-copyright">{t("footer.copyright", { year: new Date().getFullYear() })}</p>
       </div>
     </footer>
   );
 }
-
@@ -0,0 +1,31 @@
+import { ChangeEvent } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useI18n } from "../../i18n/I18nProvider";
+import { isLocale, LOCALES, localeNames, localizePath, parseLocalePath } from "../../i18n/locales";
+import { storeLocale } from "../../i18n/preference";
+
+/** Switches to the same page in another language and remembers the choice */
+export function LanguageSwitcher() {
+  const { locale, t } = useI18n();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const handleChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const next = e.target.value;
+    if (!isLocale(next)) return;
+
+    storeLocale(next);
+    const { path } = parseLocalePath(location.pathname);
+    navigate(`${localizePath(path, next)}${location.hash}`);
+  };
+
+  return (
+    <select className="navbar-language" aria-label={t("nav.language")} value={locale} onChange={handleChange}>
+      {LOCALES.map((value) => (
+        <option key={value} value={value} lang={value}>
+          {localeNames[value]}
+        </option>
+      ))}
+    </select>
+  );
+}
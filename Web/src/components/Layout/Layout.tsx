@@ -1,6 +1,8 @@
 import { ReactNode } from "react";
 import { Navbar } from "./Navbar";
 import { Footer } from "./Footer";
+import { usePageMeta } from "../../hooks/usePageMeta";
+import { useScrollOnNavigate } from "../../hooks/useScrollOnNavigate";
 import "./Layout.css";
 
 interface LayoutProps {
@@ -8,6 +10,9 @@ interface LayoutProps {
 }
 
 export function Layout({ children }: LayoutProps) {
+  usePageMeta();
+  useScrollOnNavigate();
+
   return (
     <div className="layout">
       <Navbar />
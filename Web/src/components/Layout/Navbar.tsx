@@ -1,33 +1,60 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, useLocation } from "react-router-dom";
+import { site } from "../../content";
+import { useI18n } from "../../i18n/I18nProvider";
+import { parseLocalePath } from "../../i18n/locales";
+import { assetPath, normalizePath } from "../../utils/paths";
+import { SearchPalette } from "../SearchPalette/SearchPalette";
+import { LanguageSwitcher } from "./LanguageSwitcher";
+import { ThemeToggle } from "./ThemeToggle";
 import "./Navbar.css";
 
 export function Navbar() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const location = useLocation();
+  const { t, localizePath } = useI18n();
 
-  const isActive = (path: string) => location.pathname === path || location.hash === `#${path}`;
+  // "/" or Cmd/Ctrl-K opens search, unless the visitor is typing somewhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const isTyping = target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+      if ((e.key === "k" && (e.metaKey || e.ctrlKey)) || (e.key === "/" && !isTyping)) {
+        e.preventDefault();
+        setIsSearchOpen(true);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const isActive = (path: string) => {
+    const current = parseLocalePath(normalizePath(location.pathname)).path;
+    return path === "/" ? current === "/" : current === path || current.startsWith(`${path}/`);
+  };
 
   const navLinks = [
-    { path: "/", label: "Home" },
-    { path: "/features", label: "Features" },
-    { path: "/screenshots", label: "Screenshots" },
-    { path: "/setup", label: "Setup" },
-    { path: "/faq", label: "FAQ" },
-    { path: "/support", label: "Support" },
+    { path: "/", label: t("nav.home") },
+    { path: "/features", label: t("nav.features") },
+    { path: "/screenshots", label: t("nav.screenshots") },
+    { path: "/setup", label: t("nav.setup") },
+    { path: "/faq", label: t("nav.faq") },
+    { path: "/support", label: t("nav.support") },
   ];
 
   return (
     <nav className="navbar">
       <div className="navbar-container">
-        <Link to="/" className="navbar-logo">
-          <img src={`${import.meta.env.BASE_URL}Assets/Kartunes-logo.png`} alt="Kartunes" className="logo-img" />
+        <Link to={localizePath("/")} className="navbar-logo">
+          <img src={assetPath("Assets/Kartunes-logo.png")} alt="Kartunes" className="logo-img" />
           <span>Kartunes</span>
         </Link>
 
         <button
           className="navbar-toggle"
-          aria-label="Toggle menu"
+          aria-label={t("nav.toggleMenu")}
           onClick={() => setIsMenuOpen(!isMenuOpen)}
         >
           <span></span>
@@ -39,7 +66,7 @@ export function Navbar() {
           {navLinks.map((link) => (
             <Link
               key={link.path}
-              to={link.path}
+              to={localizePath(link.path)}
               className={`navbar-link ${isActive(link.path) ? "active" : ""}`}
               onClick={() => setIsMenuOpen(false)}
             >
@@ -48,30 +75,40 @@ export function Navbar() {
           ))}
           
           <div className="navbar-actions">
+            <button
+              className="navbar-search"
+              onClick={() => {
+                setIsMenuOpen(false);
+                setIsSearchOpen(true);
+              }}
+              aria-label={t("nav.searchLabel")}
+              aria-keyshortcuts="/ Control+K Meta+K"
+            >
+              {t("nav.search")} <kbd>/</kbd>
+            </button>
+            <LanguageSwitcher />
+            <ThemeToggle />
             <a
               href="https://github.com/KartulUdus/Kartunes"
               target="_blank"
               rel="noopener noreferrer"
               className="navbar-button"
             >
-              View on GitHub
+              {t("nav.github")}
             </a>
             <a
-              href="https://ko-fi.com/Y8Y21PQBY8"
+              href={site.kofi}
               target="_blank"
               rel="noopener noreferrer"
               className="kofi-button"
             >
-              <img
-                height="36"
-                style={{ border: 0, height: '36px' }}
-                src="https://storage.ko-fi.com/cdn/kofi2.png?v=6"
-                alt="Buy Me a Coffee at ko-fi.com"
-              />
+              <img height="36" src={assetPath("Assets/kofi-button.svg")} alt={t("nav.kofiAlt")} />
             </a>
           </div>
         </div>
       </div>
+
+      {isSearchOpen && <SearchPalette onClose={() => setIsSearchOpen(false)} />}
     </nav>
   );
 }
@@ -0,0 +1,23 @@
+import { useI18n } from "../../i18n/I18nProvider";
+import { THEME_MODES, ThemeMode } from "../../theme/theme";
+import { useTheme } from "../../theme/ThemeProvider";
+
+const icons: Record<ThemeMode, string> = {
+  system: "🖥️",
+  light: "☀️",
+  dark: "🌙",
+};
+
+/** Cycles through System, Light and Dark */
+export function ThemeToggle() {
+  const { t } = useI18n();
+  const { mode, setMode } = useTheme();
+  const next = THEME_MODES[(THEME_MODES.indexOf(mode) + 1) % THEME_MODES.length];
+  const label = t("nav.theme", { mode: t(`theme.${mode}`), next: t(`theme.${next}`) });
+
+  return (
+    <button className="navbar-theme" onClick={() => setMode(next)} aria-label={label} title={label}>
+      <span aria-hidden="true">{icons[mode]}</span>
+    </button>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useI18n } from "../../i18n/I18nProvider";
+import { serverItemURL } from "../../services/mediaServer";
+import { HEALTH_CHECKS, type HealthCheck, type HealthItem, type HealthReport } from "../../types/libraryHealth";
+import type { ServerSession } from "../../types/mediaServer";
+import { downloadFile } from "../../utils/download";
+import { healthReportCSV, healthReportJSON } from "../../utils/libraryHealth";
+import "./LibraryHealth.css";
+
+/** Issues shown per check before "Show all", so large libraries stay quick to scroll */
+const VISIBLE_ISSUES = 25;
+/** Items linked per issue; the export has every one */
+const VISIBLE_ITEMS = 5;
+
+interface LibraryHealthReportProps {
+  session: ServerSession;
+  report: HealthReport;
+}
+
+/** Problems found in the library, grouped by check, with links to fix each one on the server */
+export function LibraryHealthReport({ session, report }: LibraryHealthReportProps) {
+  const { t } = useI18n();
+  const [selectedCheck, setSelectedCheck] = useState<HealthCheck | null>(null);
+  const [query, setQuery] = useState("");
+  const [expanded, setExpanded] = useState<HealthCheck[]>([]);
+
+  const linkOf = (item: HealthItem) => serverItemURL(session, item.id, report.serverId);
+  const normalizedQuery = query.trim().toLowerCase();
+  const matches = report.issues.filter(
+    (issue) =>
+      !normalizedQuery ||
+      [issue.subject, issue.detail ?? "", ...issue.items.map((item) => item.name)].some((text) =>
+        text.toLowerCase().includes(normalizedQuery)
+      )
+  );
+  const groups = HEALTH_CHECKS.map((check) => ({
+    check,
+    issues: matches.filter((issue) => issue.check === check),
+  }));
+  const visibleGroups = groups.filter(
+    ({ check, issues }) => issues.length > 0 && (!selectedCheck || check === selectedCheck)
+  );
+
+  const exportReport = (format: "csv" | "json") => {
+    const fileName = `kartunes-library-health.${format}`;
+    if (format === "csv") {
+      downloadFile(healthReportCSV(report, linkOf), fileName, "text/csv");
+    } else {
+      downloadFile(healthReportJSON(report, linkOf), fileName, "application/json");
+    }
+  };
+
+  return (
+    <div className="health-report">
+      <div className="health-summary">
+        <p>
+          {report.issues.length === 0
+            ? t("health.clean", { tracks: report.tracks, albums: report.albums, artists: report.artists })
+            : t("health.summary", {
+                count: report.issues.length,
+                tracks: report.tracks,
+                albums: report.albums,
+                artists: report.artists,
+              })}
+        </p>
+        {report.issues.length > 0 && (
+          <div className="health-export">
+            <button type="button" onClick={() => exportReport("csv")}>
+              {t("health.exportCSV")}
+            </button>
+            <button type="button" onClick={() => exportReport("json")}>
+              {t("health.exportJSON")}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {report.issues.length > 0 && (
+        <>
+          <div className="health-controls">
+            <input
+              type="search"
+              className="health-search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t("health.searchPlaceholder")}
+              aria-label={t("health.searchLabel")}
+            />
+            <div className="health-filters" role="group" aria-label={t("health.filterLabel")}>
+              <button
+                type="button"
+                className={`health-filter ${selectedCheck === null ? "active" : ""}`}
+                aria-pressed={selectedCheck === null}
+                onClick={() => setSelectedCheck(null)}
+              >
+                {t("health.all")} <span className="health-filter-count">{matches.length}</span>
+              </button>
+              {groups.map(({ check, issues }) => (
+                <button
+                  key={check}
+                  type="button"
+                  className={`health-filter ${selectedCheck === check ? "active" : ""}`}
+                  aria-pressed={selectedCheck === check}
+                  onClick={() => setSelectedCheck(check)}
+                >
+                  {t(`health.check.${check}.title`)} <span className="health-filter-count">{issues.length}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {visibleGroups.length === 0 && <p className="health-empty">{t("health.noMatches")}</p>}
+
+          {visibleGroups.map(({ check, issues }) => {
+            const isExpanded = expanded.includes(check);
+            const tracks = issues.reduce((sum, issue) => sum + issue.tracks, 0);
+            return (
+              <section key={check} className="health-group">
+                <h3>
+                  {t(`health.check.${check}.title`)}{" "}
+                  <span className="health-count">{t("health.groupCount", { count: issues.length, tracks })}</span>
+                </h3>
+                <p className="health-why">{t(`health.check.${check}.why`)}</p>
+                <ul className="health-issues">
+                  {(isExpanded ? issues : issues.slice(0, VISIBLE_ISSUES)).map((issue) => (
+                    <li key={`${issue.subject}-${issue.items[0]?.id}`} className="health-issue">
+                      <div className="health-issue-text">
+                        <strong>{issue.subject || t("health.untitled")}</strong>
+                        {issue.detail && <span>{t(`health.check.${check}.detail`, { detail: issue.detail })}</span>}
+                      </div>
+                      <span className="health-issue-tracks">{t("health.trackCount", { count: issue.tracks })}</span>
+                      <ul className="health-items">
+                        {issue.items.slice(0, VISIBLE_ITEMS).map((item) => (
+                          <li key={item.id}>
+                            <a href={linkOf(item)} target="_blank" rel="noopener noreferrer">
+                              {item.name}
+                            </a>{" "}
+                            <small>{t(`health.type.${item.type}`)}</small>
+                          </li>
+                        ))}
+                        {issue.items.length > VISIBLE_ITEMS && (
+                          <li>
+                            <small>{t("health.moreItems", { count: issue.items.length - VISIBLE_ITEMS })}</small>
+                          </li>
+                        )}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+                {issues.length > VISIBLE_ISSUES && (
+                  <button
+                    type="button"
+                    className="health-more"
+                    onClick={() =>
+                      setExpanded(isExpanded ? expanded.filter((other) => other !== check) : [...expanded, check])
+                    }
+                  >
+                    {isExpanded ? t("health.showFewer") : t("health.showAll", { count: issues.length })}
+                  </button>
+                )}
+              </section>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
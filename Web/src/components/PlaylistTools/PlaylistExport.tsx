@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useI18n } from "../../i18n/I18nProvider";
+import { describeRequestFailure, ServerRequestError } from "../../services/mediaServer";
+import { fetchLikedTracks, fetchPlaylistItems, fetchPlaylists, likedPlaylistName } from "../../services/playlists";
+import type { MediaItem, ServerRequestFailure, ServerSession } from "../../types/mediaServer";
+import { PLAYLIST_FORMATS, type PlaylistFormat } from "../../types/playlists";
+import { downloadFile } from "../../utils/download";
+import {
+  entryFromItem,
+  formatPlaylist,
+  playlistFileName,
+  playlistFormatLabels,
+  playlistMediaTypes,
+} from "../../utils/playlistFormats";
+import "./PlaylistTools.css";
+
+/** Value of the playlist picker for the app's liked tracks, which are not always a playlist on the server */
+const LIKED = "liked";
+
+/** Saves the app's Liked Tracks or any playlist on the server as a file */
+export function PlaylistExport({ session }: { session: ServerSession }) {
+  const { t } = useI18n();
+  const [playlists, setPlaylists] = useState<MediaItem[] | null>(null);
+  const [selected, setSelected] = useState(LIKED);
+  const [format, setFormat] = useState<PlaylistFormat>("m3u8");
+  const [isExporting, setIsExporting] = useState(false);
+  const [exported, setExported] = useState<{ name: string; count: number } | null>(null);
+  const [failure, setFailure] = useState<ServerRequestFailure | null>(null);
+
+  const showError = (requestError: unknown) => {
+    setFailure(requestError instanceof ServerRequestError ? requestError.failure : { kind: "network" });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setPlaylists(null);
+    fetchPlaylists(session)
+      .then((items) => !cancelled && setPlaylists(items))
+      .catch((requestError) => {
+        if (cancelled) return;
+        setPlaylists([]);
+        showError(requestError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  // The liked playlist is offered as Liked Tracks rather than under its server name
+  const otherPlaylists = (playlists ?? []).filter((playlist) => playlist.Name !== likedPlaylistName(session.userName));
+
+  const exportPlaylist = async () => {
+    if (!playlists) return;
+    setIsExporting(true);
+    setFailure(null);
+    setExported(null);
+    try {
+      const isLiked = selected === LIKED;
+      const name = isLiked ? t("playlists.export.liked") : (playlists.find((p) => p.Id === selected)?.Name ?? "");
+      const items = isLiked ? await fetchLikedTracks(session, playlists) : await fetchPlaylistItems(session, selected);
+      const contents = formatPlaylist(format, { name, entries: items.map(entryFromItem) });
+
+      downloadFile(contents, playlistFileName(name, format), playlistMediaTypes[format]);
+      setExported({ name, count: items.length });
+    } catch (requestError) {
+      showError(requestError);
+    }
+    setIsExporting(false);
+  };
+
+  return (
+    <div className="playlist-panel">
+      <div className="playlist-fields">
+        <div className="playlist-field">
+          <label htmlFor="playlist-export">{t("playlists.export.playlist")}</label>
+          <select
+            id="playlist-export"
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+            disabled={!playlists || isExporting}
+          >
+            <option value={LIKED}>{t("playlists.export.liked")}</option>
+            {otherPlaylists.map((playlist) => (
+              <option key={playlist.Id} value={playlist.Id}>
+                {playlist.Name}
+              </option>
+            ))}
+          </select>
+          <p className="playlist-hint">{playlists ? t("playlists.export.likedHint") : t("playlists.export.loading")}</p>
+        </div>
+
+        <fieldset className="playlist-choice">
+          <legend>{t("playlists.export.format")}</legend>
+          {PLAYLIST_FORMATS.map((option) => (
+            <label key={option} className={format === option ? "selected" : undefined}>
+              <input
+                type="radio"
+                name="playlist-format"
+                value={option}
+                checked={format === option}
+                onChange={() => setFormat(option)}
+              />
+              {playlistFormatLabels[option]}
+            </label>
+          ))}
+        </fieldset>
+      </div>
+
+      <button type="button" className="playlist-button" onClick={exportPlaylist} disabled={!playlists || isExporting}>
+        {isExporting ? t("playlists.export.exporting") : t("playlists.export.download")}
+      </button>
+
+      {failure && (
+        <div className="playlist-error" role="alert">
+          <strong>{describeRequestFailure(failure, t).title}</strong>
+          <p>{describeRequestFailure(failure, t).detail}</p>
+        </div>
+      )}
+
+      {exported && (
+        <p className="playlist-progress" role="status">
+          {t("playlists.export.done", { name: exported.name, count: exported.count })}
+        </p>
+      )}
+    </div>
+  );
+}
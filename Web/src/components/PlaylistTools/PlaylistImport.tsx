@@ -0,0 +1,184 @@
+import { useState, type ChangeEvent } from "react";
+import { useI18n } from "../../i18n/I18nProvider";
+import { describeRequestFailure, fetchTracks, ServerRequestError } from "../../services/mediaServer";
+import { createPlaylist } from "../../services/playlists";
+import type { ServerSession } from "../../types/mediaServer";
+import type { PlaylistFile, TrackMatch } from "../../types/playlists";
+import { IMPORT_EXTENSIONS, parsePlaylistFile } from "../../utils/playlistFormats";
+import { indexTracks, matchPlaylist, type TrackIndex } from "../../utils/trackMatching";
+import { PlaylistReview } from "./PlaylistReview";
+import "./PlaylistTools.css";
+
+type ImportStep =
+  | { kind: "choose" }
+  | { kind: "loading"; loaded: number; total: number }
+  | { kind: "review" }
+  | { kind: "creating"; added: number }
+  | { kind: "created"; added: number; skipped: number };
+
+/** Reads a playlist file, finds its tracks in the library and recreates it on the server */
+export function PlaylistImport({ session }: { session: ServerSession }) {
+  const { t } = useI18n();
+  const [file, setFile] = useState<PlaylistFile | null>(null);
+  const [name, setName] = useState("");
+  const [step, setStep] = useState<ImportStep>({ kind: "choose" });
+  const [matches, setMatches] = useState<TrackMatch[]>([]);
+  const [choices, setChoices] = useState<(string | null)[]>([]);
+  // The library is only fetched once per sign-in, however many files are imported
+  const [library, setLibrary] = useState<{ userId: string; index: TrackIndex } | null>(null);
+  const [error, setError] = useState<{ title: string; detail: string } | null>(null);
+
+  const showError = (requestError: unknown) => {
+    setError(
+      describeRequestFailure(requestError instanceof ServerRequestError ? requestError.failure : { kind: "network" }, t)
+    );
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setError(null);
+    setStep({ kind: "choose" });
+
+    const parsed = parsePlaylistFile(selected.name, await selected.text());
+    if (!parsed) {
+      setFile(null);
+      setError({ title: t("playlists.import.unsupported"), detail: t("playlists.import.unsupportedDetail") });
+    } else if (parsed.entries.length === 0) {
+      setFile(null);
+      setError({ title: t("playlists.import.empty"), detail: t("playlists.import.emptyDetail") });
+    } else {
+      setFile(parsed);
+      setName(parsed.name);
+    }
+  };
+
+  const match = async () => {
+    if (!file) return;
+    setError(null);
+    let index = library?.userId === session.userId ? library.index : null;
+    if (!index) {
+      setStep({ kind: "loading", loaded: 0, total: 0 });
+      try {
+        const tracks = await fetchTracks(session, (loaded, total) => setStep({ kind: "loading", loaded, total }));
+        index = indexTracks(tracks);
+        setLibrary({ userId: session.userId, index });
+      } catch (requestError) {
+        showError(requestError);
+        setStep({ kind: "choose" });
+        return;
+      }
+    }
+
+    const results = matchPlaylist(file.entries, index);
+    setMatches(results);
+    setChoices(results.map((result) => (result.status === "matched" ? result.candidates[0].item.Id : null)));
+    setStep({ kind: "review" });
+  };
+
+  const create = async () => {
+    const trackIds = choices.filter((choice): choice is string => choice !== null);
+    setError(null);
+    setStep({ kind: "creating", added: 0 });
+    try {
+      await createPlaylist(session, name.trim(), trackIds, (added) => setStep({ kind: "creating", added }));
+      setStep({ kind: "created", added: trackIds.length, skipped: choices.length - trackIds.length });
+    } catch (requestError) {
+      showError(requestError);
+      setStep({ kind: "review" });
+    }
+  };
+
+  const chosen = choices.filter((choice) => choice !== null).length;
+  const unresolved = matches.filter((result, index) => result.status === "ambiguous" && choices[index] === null).length;
+  const isBusy = step.kind === "loading" || step.kind === "creating";
+
+  return (
+    <div className="playlist-panel">
+      <div className="playlist-fields">
+        <div className="playlist-field">
+          <label htmlFor="playlist-file">{t("playlists.import.file")}</label>
+          <input
+            id="playlist-file"
+            type="file"
+            accept={IMPORT_EXTENSIONS.join(",")}
+            onChange={handleFile}
+            disabled={isBusy}
+          />
+          <p className="playlist-hint">{t("playlists.import.fileHint")}</p>
+        </div>
+        {file && (
+          <div className="playlist-field">
+            <label htmlFor="playlist-name">{t("playlists.import.name")}</label>
+            <input
+              id="playlist-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isBusy}
+            />
+            <p className="playlist-hint">{t("playlists.import.entries", { count: file.entries.length })}</p>
+          </div>
+        )}
+      </div>
+
+      {file && step.kind === "choose" && (
+        <button type="button" className="playlist-button" onClick={match}>
+          {t("playlists.import.match")}
+        </button>
+      )}
+
+      {step.kind === "loading" && (
+        <p className="playlist-progress" aria-live="polite">
+          {step.total > 0
+            ? t("playlists.import.loadingCount", { loaded: step.loaded, total: step.total })
+            : t("playlists.import.loading")}
+        </p>
+      )}
+
+      {error && (
+        <div className="playlist-error" role="alert">
+          <strong>{error.title}</strong>
+          <p>{error.detail}</p>
+        </div>
+      )}
+
+      {(step.kind === "review" || step.kind === "creating") && (
+        <>
+          <PlaylistReview
+            matches={matches}
+            choices={choices}
+            onChoose={(index, itemId) => setChoices(choices.map((choice, i) => (i === index ? itemId : choice)))}
+          />
+          <div className="playlist-actions">
+            <p aria-live="polite">
+              {step.kind === "creating"
+                ? t("playlists.import.creating", { added: step.added, total: chosen })
+                : t("playlists.import.summary", { chosen, total: choices.length })}
+              {step.kind === "review" && unresolved > 0 && ` ${t("playlists.import.unresolved", { count: unresolved })}`}
+            </p>
+            <button
+              type="button"
+              className="playlist-button"
+              onClick={create}
+              disabled={step.kind === "creating" || chosen === 0 || !name.trim()}
+            >
+              {t("playlists.import.create")}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step.kind === "created" && (
+        <div className="playlist-success" role="status">
+          <strong>{t("playlists.import.created", { name: name.trim() })}</strong>
+          <p>
+            {step.skipped > 0
+              ? t("playlists.import.createdSkipped", { added: step.added, skipped: step.skipped })
+              : t("playlists.import.createdAll", { added: step.added })}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
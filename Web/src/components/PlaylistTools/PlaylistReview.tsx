@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useI18n } from "../../i18n/I18nProvider";
+import { itemDuration } from "../../services/mediaServer";
+import type { MediaItem } from "../../types/mediaServer";
+import type { MatchStatus, PlaylistEntry, TrackMatch } from "../../types/playlists";
+import { formatDuration } from "../../utils/format";
+
+const MATCH_STATUSES: MatchStatus[] = ["ambiguous", "unmatched", "matched"];
+
+interface PlaylistReviewProps {
+  matches: TrackMatch[];
+  /** The library track picked for each entry, `null` to leave it out */
+  choices: (string | null)[];
+  onChoose: (index: number, itemId: string | null) => void;
+}
+
+function entryDetails(entry: PlaylistEntry): string {
+  return [entry.artist, entry.album, entry.duration === undefined ? undefined : formatDuration(entry.duration)]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function itemDetails(item: MediaItem): string {
+  const duration = itemDuration(item);
+  return [
+    item.Artists?.length ? item.Artists.join(", ") : item.AlbumArtist,
+    item.Album,
+    duration === undefined ? undefined : formatDuration(duration),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** Every playlist line next to the library tracks it could be, for choosing where matching was unsure */
+export function PlaylistReview({ matches, choices, onChoose }: PlaylistReviewProps) {
+  const { t } = useI18n();
+  // Lines needing a decision come first; a chip narrows the list to one status
+  const [statusFilter, setStatusFilter] = useState<MatchStatus | null>(
+    matches.some((match) => match.status === "ambiguous") ? "ambiguous" : null
+  );
+
+  const counts = Object.fromEntries(
+    MATCH_STATUSES.map((status) => [status, matches.filter((match) => match.status === status).length])
+  ) as Record<MatchStatus, number>;
+  const visible = matches
+    .map((match, index) => ({ match, index }))
+    .filter(({ match }) => !statusFilter || match.status === statusFilter);
+
+  return (
+    <div className="playlist-review">
+      <div className="playlist-chips" role="group" aria-label={t("playlists.review.filter")}>
+        {MATCH_STATUSES.map((status) => (
+          <button
+            key={status}
+            type="button"
+            className="playlist-chip"
+            aria-pressed={statusFilter === status}
+            onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+          >
+            {t(`playlists.filter.${status}`, { count: counts[status] })}
+          </button>
+        ))}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="playlist-empty">{t("playlists.review.empty")}</p>
+      ) : (
+        <ol className="playlist-review-list">
+          {visible.map(({ match, index }) => (
+            <li key={index} className={`playlist-review-item ${match.status}`}>
+              <div className="playlist-review-entry">
+                <span className="playlist-review-number">{index + 1}</span>
+                <div>
+                  <strong>{match.entry.title}</strong>
+                  {entryDetails(match.entry) && <p>{entryDetails(match.entry)}</p>}
+                </div>
+                <span className="playlist-review-status">{t(`playlists.status.${match.status}`)}</span>
+              </div>
+
+              <fieldset
+                className="playlist-review-choices"
+                aria-label={t("playlists.review.choose", { title: match.entry.title })}
+              >
+                {match.candidates.map(({ item, score }) => (
+                  <label key={item.Id} className={choices[index] === item.Id ? "selected" : undefined}>
+                    <input
+                      type="radio"
+                      name={`playlist-entry-${index}`}
+                      checked={choices[index] === item.Id}
+                      onChange={() => onChoose(index, item.Id)}
+                    />
+                    <span>
+                      <strong>{item.Name}</strong>
+                      {itemDetails(item) && <small>{itemDetails(item)}</small>}
+                    </span>
+                    <span className="playlist-review-score">{Math.round(score * 100)}%</span>
+                  </label>
+                ))}
+                <label className={choices[index] === null ? "selected" : undefined}>
+                  <input
+                    type="radio"
+                    name={`playlist-entry-${index}`}
+                    checked={choices[index] === null}
+                    onChange={() => onChoose(index, null)}
+                  />
+                  <span>{match.candidates.length === 0 ? t("playlists.review.noCandidates") : t("playlists.review.skip")}</span>
+                </label>
+              </fieldset>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { useI18n } from "../../i18n/I18nProvider";
+import {
+  DEFAULT_PROXY_OPTIONS,
+  generateProxyConfig,
+  normalizeDomain,
+  normalizeSubpath,
+  proxyOptionErrors,
+} from "../../services/proxyConfig";
+import { REVERSE_PROXIES, reverseProxyDisplayNames, type ProxyConfigOptions } from "../../types/proxy";
+import { mediaServerDisplayNames, type MediaServerType } from "../../types/server";
+import { downloadFile } from "../../utils/download";
+import "./ProxyConfigGenerator.css";
+
+const MEDIA_SERVERS: MediaServerType[] = ["jellyfin", "emby"];
+const COPIED_RESET_MS = 2000;
+
+type ToggleOption = "tls" | "websockets" | "unbufferedStreaming" | "allowSiteChecks";
+const TOGGLES: ToggleOption[] = ["tls", "websockets", "unbufferedStreaming", "allowSiteChecks"];
+
+/** Text fields are kept as typed and normalized when the config is generated */
+interface ProxyForm extends Omit<ProxyConfigOptions, "upstreamPort" | "maxBodyMB"> {
+  upstreamPort: string;
+  maxBodyMB: string;
+}
+
+const initialForm: ProxyForm = {
+  ...DEFAULT_PROXY_OPTIONS,
+  upstreamPort: String(DEFAULT_PROXY_OPTIONS.upstreamPort),
+  maxBodyMB: String(DEFAULT_PROXY_OPTIONS.maxBodyMB),
+};
+
+export function ProxyConfigGenerator() {
+  const { t } = useI18n();
+  const [form, setForm] = useState<ProxyForm>(initialForm);
+  const [copied, setCopied] = useState(false);
+
+  const options: ProxyConfigOptions = {
+    ...form,
+    domain: normalizeDomain(form.domain),
+    upstreamHost: form.upstreamHost.trim(),
+    upstreamPort: Number(form.upstreamPort),
+    subpath: normalizeSubpath(form.subpath),
+    maxBodyMB: form.maxBodyMB.trim() === "" ? 0 : Number(form.maxBodyMB),
+  };
+  const errors = proxyOptionErrors(options);
+  const config = Object.keys(errors).length === 0 ? generateProxyConfig(options) : null;
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = window.setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    return () => window.clearTimeout(timeout);
+  }, [copied]);
+
+  const update = <K extends keyof ProxyForm>(key: K, value: ProxyForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+    setCopied(false);
+  };
+
+  const fieldError = (key: keyof ProxyConfigOptions) => {
+    const error = errors[key];
+    // "Required" is shown as the output placeholder rather than nagging under an untouched field
+    return error && error !== "required" ? (
+      <p className="proxy-field-error" role="alert">
+        {t(`proxy.error.${error}`)}
+      </p>
+    ) : null;
+  };
+
+  const copy = async () => {
+    if (!config) return;
+    try {
+      await navigator.clipboard.writeText(config.contents);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the config is still there to select by hand
+    }
+  };
+
+  const download = () => {
+    if (config) downloadFile(config.contents, config.filename, "text/plain");
+  };
+
+  return (
+    <div className="proxy-generator">
+      <div className="proxy-form">
+        <fieldset className="proxy-choice">
+          <legend>{t("proxy.mediaServer")}</legend>
+          {MEDIA_SERVERS.map((server) => (
+            <label key={server} className={form.mediaServer === server ? "selected" : undefined}>
+              <input
+                type="radio"
+                name="proxy-media-server"
+                value={server}
+                checked={form.mediaServer === server}
+                onChange={() => update("mediaServer", server)}
+              />
+              {mediaServerDisplayNames[server]}
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="proxy-choice">
+          <legend>{t("proxy.proxy")}</legend>
+          {REVERSE_PROXIES.map((proxy) => (
+            <label key={proxy} className={form.proxy === proxy ? "selected" : undefined}>
+              <input
+                type="radio"
+                name="proxy-server"
+                value={proxy}
+                checked={form.proxy === proxy}
+                onChange={() => update("proxy", proxy)}
+              />
+              {reverseProxyDisplayNames[proxy]}
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="proxy-fields">
+          <div className="proxy-field wide">
+            <label htmlFor="proxy-domain">{t("proxy.domain")}</label>
+            <input
+              id="proxy-domain"
+              type="text"
+              inputMode="url"
+              spellCheck={false}
+              placeholder="music.example.com"
+              value={form.domain}
+              onChange={(e) => update("domain", e.target.value)}
+            />
+            {fieldError("domain")}
+          </div>
+          <div className="proxy-field">
+            <label htmlFor="proxy-upstream-host">{t("proxy.upstreamHost")}</label>
+            <input
+              id="proxy-upstream-host"
+              type="text"
+              spellCheck={false}
+              value={form.upstreamHost}
+              onChange={(e) => update("upstreamHost", e.target.value)}
+            />
+            {fieldError("upstreamHost")}
+          </div>
+          <div className="proxy-field">
+            <label htmlFor="proxy-upstream-port">{t("proxy.upstreamPort")}</label>
+            <input
+              id="proxy-upstream-port"
+              type="text"
+              inputMode="numeric"
+              value={form.upstreamPort}
+              onChange={(e) => update("upstreamPort", e.target.value)}
+            />
+            {fieldError("upstreamPort")}
+          </div>
+          <div className="proxy-field">
+            <label htmlFor="proxy-subpath">{t("proxy.subpath")}</label>
+            <input
+              id="proxy-subpath"
+              type="text"
+              spellCheck={false}
+              placeholder={form.mediaServer === "emby" ? "/emby" : "/jellyfin"}
+              value={form.subpath}
+              onChange={(e) => update("subpath", e.target.value)}
+            />
+            {fieldError("subpath")}
+          </div>
+          <div className="proxy-field">
+            <label htmlFor="proxy-body-size">{t("proxy.maxBody")}</label>
+            <input
+              id="proxy-body-size"
+              type="text"
+              inputMode="numeric"
+              value={form.maxBodyMB}
+              onChange={(e) => update("maxBodyMB", e.target.value)}
+            />
+            {fieldError("maxBodyMB")}
+          </div>
+        </div>
+
+        <div className="proxy-toggles">
+          {TOGGLES.map((toggle) => (
+            <label key={toggle} className="proxy-toggle">
+              <input type="checkbox" checked={form[toggle]} onChange={(e) => update(toggle, e.target.checked)} />
+              <span>
+                <strong>{t(`proxy.toggle.${toggle}`)}</strong>
+                <span className="proxy-toggle-detail">{t(`proxy.toggle.${toggle}.detail`)}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {config ? (
+        <div className="proxy-output">
+          <div className="proxy-output-header">
+            <code className="proxy-filename">{config.filename}</code>
+            <div className="proxy-output-actions">
+              <button type="button" onClick={copy}>
+                {copied ? t("proxy.copied") : t("proxy.copy")}
+              </button>
+              <button type="button" onClick={download}>
+                {t("proxy.download")}
+              </button>
+            </div>
+          </div>
+          <pre className="proxy-config">
+            <code>{config.contents}</code>
+          </pre>
+          <p className="proxy-server-url">
+            {t("proxy.serverURL")} <code>{config.serverURL}</code>
+          </p>
+          <ul className="proxy-notes">
+            {config.notes.map((note) => (
+              <li key={note.kind}>{t(`proxy.note.${note.kind}`, note)}</li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="proxy-placeholder">{errors.domain === "required" ? t("proxy.enterDomain") : t("proxy.fixErrors")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { useContent } from "../../hooks/useContent";
+import { useI18n } from "../../i18n/I18nProvider";
+import type { ChangelogEntry } from "../../types/changelog";
+import { formatDate } from "../../utils/format";
+import { RichText } from "../RichText/RichText";
+import "./ReleaseNotes.css";
+
+interface ReleaseNotesProps {
+  entry: ChangelogEntry;
+}
+
+/** A release's date, tags, platforms and notes, below a heading the page supplies */
+export function ReleaseNotes({ entry }: ReleaseNotesProps) {
+  const { t, locale } = useI18n();
+  const { platforms } = useContent();
+
+  return (
+    <div className="release-notes">
+      <div className="release-meta">
+        <time dateTime={entry.date}>{formatDate(entry.date, locale)}</time>
+        <ul className="release-tags" aria-label={t("changelog.tags")}>
+          {entry.tags.map((tag) => (
+            <li key={tag} className={`release-tag ${tag}`}>
+              {t(`changelog.tag.${tag}`)}
+            </li>
+          ))}
+        </ul>
+        <ul className="release-platforms" aria-label={t("changelog.platforms")}>
+          {entry.platforms.map((id) => (
+            <li key={id}>{platforms.find((platform) => platform.id === id)?.name ?? id}</li>
+          ))}
+        </ul>
+      </div>
+      <RichText source={entry.body} />
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { artworkItemId, fetchArtworkURL } from "../../services/remote";
+import type { MediaItem, ServerSession } from "../../types/mediaServer";
+
+/** Twice the width the artwork is shown at, for high-density screens */
+const ARTWORK_WIDTH = 480;
+
+/** The track's artwork from the server, with a placeholder while it loads or where there is none */
+export function RemoteArtwork({ session, item }: { session: ServerSession; item: MediaItem }) {
+  const [url, setURL] = useState<string | null>(null);
+  const imageItemId = artworkItemId(item);
+
+  useEffect(() => {
+    setURL(null);
+    if (!imageItemId) return;
+
+    let cancelled = false;
+    let objectURL: string | undefined;
+    fetchArtworkURL(session, imageItemId, ARTWORK_WIDTH)
+      .then((created) => {
+        objectURL = created;
+        if (cancelled) {
+          URL.revokeObjectURL(created);
+        } else {
+          setURL(created);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+      if (objectURL) URL.revokeObjectURL(objectURL);
+    };
+  }, [session, imageItemId]);
+
+  return (
+    <div className="remote-artwork">
+      {url ? <img src={url} alt="" /> : <span aria-hidden="true">♪</span>}
+    </div>
+  );
+}
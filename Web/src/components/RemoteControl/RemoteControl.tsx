@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { useI18n } from "../../i18n/I18nProvider";
+import { describeRequestFailure, itemDuration, ServerRequestError } from "../../services/mediaServer";
+import { fetchUserItem, sessionPosition, setFavourite } from "../../services/remote";
+import type { ServerRequestFailure, ServerSession } from "../../types/mediaServer";
+import type { SessionInfo } from "../../types/remote";
+import { formatDuration } from "../../utils/format";
+import { RemoteArtwork } from "./RemoteArtwork";
+import "./RemoteControl.css";
+
+interface RemoteControlProps {
+  session: ServerSession;
+  target: SessionInfo;
+  /** When `target` was fetched, so the position moves on between polls */
+  fetchedAt: number;
+  onCommandSent: () => void;
+}
+
+/**
+ * Now Playing for one Kartunes session, with the like button. The Apple
+ * Watch's playback controls show disabled: the server would accept them, but
+ * the app does not listen for session commands yet.
+ */
+export function RemoteControl({ session, target, fetchedAt, onCommandSent }: RemoteControlProps) {
+  const { t } = useI18n();
+  const item = target.NowPlayingItem;
+  const [now, setNow] = useState(() => Date.now());
+  const [favourite, setFavouriteState] = useState<{ itemId: string; isFavourite: boolean } | null>(null);
+  const [pending, setPending] = useState(false);
+  const [failure, setFailure] = useState<ServerRequestFailure | null>(null);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // `NowPlayingItem` has no user data, so whether the track is liked is looked up separately
+  useEffect(() => {
+    if (!item) return;
+    let cancelled = false;
+    fetchUserItem(session, item.Id)
+      .then((userItem) => {
+        if (!cancelled) setFavouriteState({ itemId: item.Id, isFavourite: userItem.UserData?.IsFavorite ?? false });
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [session, item?.Id]);
+
+  if (!item) {
+    return (
+      <div className="remote-control idle">
+        <p>{t("remote.idle", { device: target.DeviceName })}</p>
+      </div>
+    );
+  }
+
+  const isPaused = target.PlayState?.IsPaused ?? false;
+  const duration = itemDuration(item) ?? 0;
+  const reported = sessionPosition(target) + (isPaused ? 0 : Math.max(0, now - fetchedAt) / 1000);
+  const position = Math.min(reported, duration);
+  const isFavourite = favourite?.itemId === item.Id ? favourite.isFavourite : false;
+
+  const toggleFavourite = async () => {
+    setPending(true);
+    setFailure(null);
+    try {
+      await setFavourite(session, item.Id, !isFavourite);
+      setFavouriteState({ itemId: item.Id, isFavourite: !isFavourite });
+      onCommandSent();
+    } catch (error) {
+      setFailure(error instanceof ServerRequestError ? error.failure : { kind: "network" });
+    }
+    setPending(false);
+  };
+
+  const artists = item.Artists?.length ? item.Artists.join(", ") : item.AlbumArtist;
+
+  return (
+    <div className="remote-control">
+      <RemoteArtwork session={session} item={item} />
+
+      <div className="remote-now-playing">
+        <div className="remote-track">
+          <div className="remote-track-text">
+            <strong>{item.Name}</strong>
+            {artists && <span>{artists}</span>}
+            {item.Album && <span>{item.Album}</span>}
+          </div>
+          <button
+            type="button"
+            className={`remote-icon-button ${isFavourite ? "active" : ""}`}
+            onClick={toggleFavourite}
+            disabled={pending}
+            aria-pressed={isFavourite}
+            aria-label={t("remote.favourite")}
+            title={t("remote.favourite")}
+          >
+            <span aria-hidden="true">{isFavourite ? "♥" : "♡"}</span>
+          </button>
+        </div>
+
+        <div className="remote-progress">
+          <input
+            type="range"
+            min={0}
+            max={duration || 1}
+            step={1}
+            value={position}
+            disabled
+            aria-label={t("remote.position")}
+            aria-describedby="remote-limitation"
+          />
+          <div className="remote-progress-times">
+            <span>{formatDuration(position)}</span>
+            <span>-{formatDuration(duration - position)}</span>
+          </div>
+        </div>
+
+        <div className="remote-transport">
+          <button
+            type="button"
+            className="remote-icon-button large"
+            disabled
+            aria-describedby="remote-limitation"
+            aria-label={t("remote.previous")}
+            title={t("remote.previous")}
+          >
+            <span aria-hidden="true">⏮</span>
+          </button>
+          <button
+            type="button"
+            className="remote-play-button"
+            disabled
+            aria-describedby="remote-limitation"
+            aria-label={isPaused ? t("remote.play") : t("remote.pause")}
+          >
+            <span aria-hidden="true">{isPaused ? "▶" : "⏸"}</span>
+          </button>
+          <button
+            type="button"
+            className="remote-icon-button large"
+            disabled
+            aria-describedby="remote-limitation"
+            aria-label={t("remote.next")}
+            title={t("remote.next")}
+          >
+            <span aria-hidden="true">⏭</span>
+          </button>
+        </div>
+
+        <p className="remote-state" aria-live="polite">
+          {isPaused ? t("remote.paused") : t("remote.playing")}
+        </p>
+        <p className="remote-limitation" id="remote-limitation">
+          {t("remote.limitation")}
+        </p>
+
+        {failure && (
+          <div className="remote-error" role="alert">
+            <strong>{describeRequestFailure(failure, t).title}</strong>
+            <p>{describeRequestFailure(failure, t).detail}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
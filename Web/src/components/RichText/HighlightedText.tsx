@@ -0,0 +1,20 @@
+import { escapeRegExp } from "../../utils/search";
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: string[];
+}
+
+/** Wraps every occurrence of the search terms in `<mark>` */
+export function HighlightedText({ text, terms = [] }: HighlightedTextProps) {
+  if (terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  const parts = text.split(pattern);
+
+  return (
+    <>
+      {parts.map((part, index) => (index % 2 === 1 ? <mark key={index}>{part}</mark> : part))}
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+import { Link } from "react-router-dom";
+import { useI18n } from "../../i18n/I18nProvider";
+import { InlineNode, parseRichText } from "../../utils/richText";
+import { HighlightedText } from "./HighlightedText";
+import "./RichText.css";
+
+interface RichTextProps {
+  source: string;
+  highlight?: string[];
+}
+
+function Inline({ node, highlight }: { node: InlineNode; highlight?: string[] }) {
+  const { localizePath } = useI18n();
+  const text = <HighlightedText text={node.text} terms={highlight} />;
+
+  switch (node.type) {
+    case "text":
+      return text;
+    case "code":
+      return <code>{text}</code>;
+    case "strong":
+      return <strong>{text}</strong>;
+    case "link":
+      return node.href.startsWith("/") ? (
+        <Link to={localizePath(node.href)}>{text}</Link>
+      ) : (
+        <a href={node.href} target="_blank" rel="noopener noreferrer">
+          {text}
+        </a>
+      );
+  }
+}
+
+function InlineNodes({ nodes, highlight }: { nodes: InlineNode[]; highlight?: string[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => (
+        <Inline key={index} node={node} highlight={highlight} />
+      ))}
+    </>
+  );
+}
+
+export function RichText({ source, highlight }: RichTextProps) {
+  return (
+    <div className="rich-text">
+      {parseRichText(source).map((block, index) =>
+        block.type === "paragraph" ? (
+          <p key={index}>
+            <InlineNodes nodes={block.children} highlight={highlight} />
+          </p>
+        ) : (
+          <ul key={index}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>
+                <InlineNodes nodes={item} highlight={highlight} />
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
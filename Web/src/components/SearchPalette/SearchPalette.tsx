@@ -0,0 +1,120 @@
+import { KeyboardEvent, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useI18n } from "../../i18n/I18nProvider";
+import { loadSearchIndex, searchDocuments, searchResultLink } from "../../services/siteSearch";
+import type { SearchDocument } from "../../types/search";
+import { searchTerms } from "../../utils/search";
+import { HighlightedText } from "../RichText/HighlightedText";
+import "./SearchPalette.css";
+
+interface SearchPaletteProps {
+  onClose: () => void;
+}
+
+export function SearchPalette({ onClose }: SearchPaletteProps) {
+  const navigate = useNavigate();
+  const { locale, t, tx, localizePath } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [documents, setDocuments] = useState<SearchDocument[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = documents ? searchDocuments(documents, query) : [];
+  const terms = searchTerms(query);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    document.body.style.overflow = "hidden";
+
+    loadSearchIndex(locale)
+      .then(setDocuments)
+      .catch(() => setLoadFailed(true));
+
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, [locale]);
+
+  const openResult = (document: SearchDocument) => {
+    onClose();
+    navigate(localizePath(searchResultLink(document)));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((prev) => (results.length === 0 ? 0 : (prev + 1) % results.length));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((prev) => (results.length === 0 ? 0 : (prev - 1 + results.length) % results.length));
+    } else if (e.key === "Enter" && results[activeIndex]) {
+      e.preventDefault();
+      openResult(results[activeIndex].document);
+    }
+  };
+
+  return (
+    <div className="search-palette-backdrop" onClick={onClose}>
+      <div
+        className="search-palette"
+        role="dialog"
+        aria-modal="true"
+        aria-label={t("nav.searchLabel")}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <input
+          ref={inputRef}
+          type="search"
+          className="search-palette-input"
+          placeholder={t("search.placeholder")}
+          aria-label={t("nav.searchLabel")}
+          aria-controls="search-palette-results"
+          aria-activedescendant={results[activeIndex] ? `search-result-${activeIndex}` : undefined}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+        />
+
+        <ul className="search-palette-results" id="search-palette-results" role="listbox">
+          {results.map((result, index) => (
+            <li
+              key={result.document.id}
+              id={`search-result-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`search-palette-result ${index === activeIndex ? "active" : ""}`}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => openResult(result.document)}
+            >
+              <span className="search-palette-page">{result.document.page}</span>
+              <span className="search-palette-title">
+                <HighlightedText text={result.document.title} terms={terms} />
+              </span>
+              <span className="search-palette-snippet">
+                <HighlightedText text={result.snippet} terms={terms} />
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {loadFailed && <p className="search-palette-status">{t("search.unavailable")}</p>}
+        {!loadFailed && !documents && terms.length > 0 && <p className="search-palette-status">{t("search.loading")}</p>}
+        {documents && terms.length > 0 && results.length === 0 && (
+          <p className="search-palette-status">{t("search.noResults", { query: query.trim() })}</p>
+        )}
+        {terms.length === 0 && (
+          <p className="search-palette-status">
+            {tx("search.hint", { up: <kbd>↑</kbd>, down: <kbd>↓</kbd>, enter: <kbd>Enter</kbd> })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { FormEvent, useState } from "react";
+import { useI18n } from "../../i18n/I18nProvider";
+import { describeDetectionFailure, detectServerType } from "../../services/serverDetection";
+import { mediaServerDisplayNames, ProbeAttempt, ServerDetectionReport } from "../../types/server";
+import "./ServerChecker.css";
+
+export function ServerChecker() {
+  const { t } = useI18n();
+  const [serverURL, setServerURL] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+  const [attempts, setAttempts] = useState<ProbeAttempt[]>([]);
+  const [report, setReport] = useState<ServerDetectionReport | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!serverURL.trim() || isChecking) return;
+
+    setIsChecking(true);
+    setAttempts([]);
+    setReport(null);
+    const result = await detectServerType(serverURL, (attempt) =>
+      setAttempts((prev) => [...prev, attempt])
+    );
+    setReport(result);
+    setIsChecking(false);
+  };
+
+  return (
+    <div className="server-checker">
+      <form className="server-checker-form" onSubmit={handleSubmit}>
+        <label htmlFor="server-checker-url" className="server-checker-label">
+          {t("serverCheck.label")}
+        </label>
+        <div className="server-checker-row">
+          <input
+            id="server-checker-url"
+            type="text"
+            inputMode="url"
+            autoComplete="url"
+            spellCheck={false}
+            placeholder="https://jellyfin.example.com"
+            value={serverURL}
+            onChange={(e) => setServerURL(e.target.value)}
+            className="server-checker-input"
+          />
+          <button type="submit" className="server-checker-button" disabled={isChecking || !serverURL.trim()}>
+            {isChecking ? t("serverCheck.checking") : t("serverCheck.submit")}
+          </button>
+        </div>
+        <p className="server-checker-hint">
+          {t("serverCheck.hint")}
+        </p>
+      </form>
+
+      {report?.result && (
+        <div className="server-checker-result success">
+          <h3>✓ {t("serverCheck.detected", { server: mediaServerDisplayNames[report.result.serverType] })}</h3>
+          <dl>
+            <dt>{t("serverCheck.serverName")}</dt>
+            <dd>{report.result.serverName || t("serverCheck.notReported")}</dd>
+            <dt>{t("serverCheck.version")}</dt>
+            <dd>{report.result.version || t("serverCheck.notReported")}</dd>
+            <dt>{t("serverCheck.address")}</dt>
+            <dd>
+              <code>{report.result.baseURL}</code>
+            </dd>
+          </dl>
+        </div>
+      )}
+
+      {report?.failure && (
+        <div className="server-checker-result failure">
+          <h3>✕ {describeDetectionFailure(report.failure, t).title}</h3>
+          <p>{describeDetectionFailure(report.failure, t).detail}</p>
+        </div>
+      )}
+
+      {attempts.length > 0 && (
+        <div className="server-checker-attempts">
+          <h4>{t("serverCheck.attempts")}</h4>
+          <ol>
+            {attempts.map((attempt, index) => (
+              <li key={index} className={attempt.failure ? "failed" : "succeeded"}>
+                <code>{attempt.url}</code>
+                <span className="server-checker-outcome">
+                  {attempt.failure ? describeDetectionFailure(attempt.failure, t).title : t("serverCheck.responded")}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
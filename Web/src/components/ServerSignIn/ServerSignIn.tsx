@@ -0,0 +1,112 @@
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { useI18n } from "../../i18n/I18nProvider";
+import { authenticateByName, describeRequestFailure, ServerRequestError } from "../../services/mediaServer";
+import { describeDetectionFailure, detectServerType } from "../../services/serverDetection";
+import type { ServerSession } from "../../types/mediaServer";
+import { mediaServerDisplayNames } from "../../types/server";
+import "./ServerSignIn.css";
+
+interface ServerSignInProps {
+  session: ServerSession | null;
+  onSignIn: (session: ServerSession) => void;
+  onSignOut: () => void;
+}
+
+/** Signs in to the visitor's Jellyfin or Emby server from the browser, for the tools that need their library */
+export function ServerSignIn({ session, onSignIn, onSignOut }: ServerSignInProps) {
+  const { t, tx, localizePath } = useI18n();
+  const [serverURL, setServerURL] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<{ title: string; detail: string } | null>(null);
+
+  if (session) {
+    return (
+      <div className="server-sign-in signed-in">
+        <p>
+          {t("serverSession.signedIn", {
+            user: session.userName,
+            server: session.serverName || mediaServerDisplayNames[session.serverType],
+          })}
+          <code>{session.baseURL}</code>
+        </p>
+        <button type="button" className="server-sign-in-secondary" onClick={onSignOut}>
+          {t("serverSession.signOut")}
+        </button>
+      </div>
+    );
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (isSigningIn) return;
+    setIsSigningIn(true);
+    setError(null);
+
+    const report = await detectServerType(serverURL);
+    if (!report.result) {
+      setError(describeDetectionFailure(report.failure ?? { kind: "noCompatibleServer" }, t));
+    } else {
+      try {
+        onSignIn(await authenticateByName(report.result, username, password));
+        setPassword("");
+      } catch (signInError) {
+        setError(
+          describeRequestFailure(signInError instanceof ServerRequestError ? signInError.failure : { kind: "network" }, t)
+        );
+      }
+    }
+    setIsSigningIn(false);
+  };
+
+  return (
+    <form className="server-sign-in" onSubmit={handleSubmit}>
+      <label>
+        <span>{t("serverSession.serverURL")}</span>
+        <input
+          type="text"
+          inputMode="url"
+          autoComplete="url"
+          spellCheck={false}
+          placeholder="https://jellyfin.example.com"
+          value={serverURL}
+          onChange={(e) => setServerURL(e.target.value)}
+          required
+        />
+      </label>
+      <label>
+        <span>{t("serverSession.username")}</span>
+        <input
+          type="text"
+          autoComplete="username"
+          spellCheck={false}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          required
+        />
+      </label>
+      <label>
+        <span>{t("serverSession.password")}</span>
+        <input type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+      </label>
+      <button type="submit" className="server-sign-in-submit" disabled={isSigningIn || !serverURL.trim() || !username.trim()}>
+        {isSigningIn ? t("serverSession.signingIn") : t("serverSession.signIn")}
+      </button>
+
+      {error && (
+        <div className="server-sign-in-error" role="alert">
+          <strong>{error.title}</strong>
+          <p>{error.detail}</p>
+        </div>
+      )}
+
+      <p className="server-sign-in-hint">
+        {tx("serverSession.hint", {
+          link: <Link to={`${localizePath("/setup")}#proxy-config`}>{t("serverSession.hintLink")}</Link>,
+        })}
+      </p>
+    </form>
+  );
+}
@@ -0,0 +1,49 @@
+import { siriPhraseGroups } from "../../content/siri";
+import { useI18n } from "../../i18n/I18nProvider";
+import { SIRI_INTENTS } from "../../types/siri";
+import "./Siri.css";
+
+interface SiriPhraseListProps {
+  onTry: (phrase: string) => void;
+}
+
+/** The phrases Kartunes answers to, by intent; selecting one tries it in the phrase tester */
+export function SiriPhraseList({ onTry }: SiriPhraseListProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="siri-intents">
+      {SIRI_INTENTS.map((intent) => (
+        <div key={intent} className="siri-intent">
+          <h3>{t(`siri.intent.${intent}.title`)}</h3>
+          <p>{t(`siri.intent.${intent}.detail`)}</p>
+          <div className="siri-groups">
+            {siriPhraseGroups
+              .filter((group) => group.intent === intent)
+              .map((group) => (
+                <div key={group.id} className="siri-group">
+                  <h4>{t(`siri.group.${group.id}.title`)}</h4>
+                  <p>{t(`siri.group.${group.id}.detail`)}</p>
+                  <ul>
+                    {group.phrases.map((phrase) => (
+                      <li key={phrase}>
+                        <button
+                          type="button"
+                          className="siri-phrase"
+                          lang="en"
+                          aria-label={t("siri.tryPhrase", { phrase })}
+                          onClick={() => onTry(phrase)}
+                        >
+                          “{phrase}”
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
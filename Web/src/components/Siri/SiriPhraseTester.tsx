@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { sampleSiriLibrary } from "../../content/siri";
+import { useI18n } from "../../i18n/I18nProvider";
+import type { ParsedSiriPhrase, SiriLibrary, SiriUnsupportedReason } from "../../types/siri";
+import { parseSiriPhrase, searchSiriLibrary, SIRI_RESULT_LIMIT, siriSearch } from "../../utils/siriPhrases";
+import "./Siri.css";
+
+const LIBRARY_SOURCES = ["sample", "server"] as const;
+
+type LibrarySource = (typeof LIBRARY_SOURCES)[number];
+
+interface SiriPhraseTesterProps {
+  sentence: string;
+  onSentenceChange: (sentence: string) => void;
+  /** The signed-in user's library, once it has been loaded */
+  serverLibrary: SiriLibrary | null;
+}
+
+/** Shows what Siri would hand Kartunes for a sentence, and what the app would find for it */
+export function SiriPhraseTester({ sentence, onSentenceChange, serverLibrary }: SiriPhraseTesterProps) {
+  const { t } = useI18n();
+  const [source, setSource] = useState<LibrarySource>("sample");
+
+  // Switch to the user's library as soon as it loads, and back when they sign out
+  useEffect(() => {
+    setSource(serverLibrary ? "server" : "sample");
+  }, [serverLibrary]);
+
+  const parsed = parseSiriPhrase(sentence);
+  const library = source === "server" && serverLibrary ? serverLibrary : sampleSiriLibrary;
+
+  return (
+    <div className="siri-tester">
+      <label className="siri-input-label" htmlFor="siri-sentence">
+        {t("siri.inputLabel")}
+      </label>
+      <input
+        id="siri-sentence"
+        type="text"
+        className="siri-input"
+        lang="en"
+        autoComplete="off"
+        spellCheck={false}
+        value={sentence}
+        placeholder={t("siri.inputPlaceholder")}
+        onChange={(event) => onSentenceChange(event.target.value)}
+      />
+
+      <fieldset className="siri-sources">
+        <legend>{t("siri.source")}</legend>
+        {LIBRARY_SOURCES.map((value) => (
+          <label key={value} className={source === value ? "selected" : undefined}>
+            <input
+              type="radio"
+              name="siri-source"
+              checked={source === value}
+              disabled={value === "server" && !serverLibrary}
+              onChange={() => setSource(value)}
+            />
+            {t(`siri.source.${value}`)}
+          </label>
+        ))}
+      </fieldset>
+      {!serverLibrary && <p className="siri-hint">{t("siri.source.serverHint")}</p>}
+
+      <div aria-live="polite">
+        {parsed ? (
+          <PhraseOutcome parsed={parsed} library={library} source={source} />
+        ) : (
+          <p className="siri-hint">{t("siri.idle")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Unsupported({ reason, term }: { reason: SiriUnsupportedReason; term?: string }) {
+  const { t } = useI18n();
+  return (
+    <div className="siri-unsupported" role="status">
+      <strong>{t(`siri.unsupported.${reason}.title`)}</strong>
+      <p>{t(`siri.unsupported.${reason}.detail`, { term: term ?? "" })}</p>
+    </div>
+  );
+}
+
+interface PhraseOutcomeProps {
+  parsed: ParsedSiriPhrase;
+  library: SiriLibrary;
+  source: LibrarySource;
+}
+
+function PhraseOutcome({ parsed: { request, mentionsApp }, library, source }: PhraseOutcomeProps) {
+  const { t } = useI18n();
+
+  if (request.intent === "unsupported") {
+    return <Unsupported reason={request.reason} term={request.term} />;
+  }
+
+  if (request.intent === "updateMediaAffinity") {
+    return (
+      <dl className="siri-request">
+        <div>
+          <dt>{t("siri.result.intent")}</dt>
+          <dd>
+            {t("siri.intentName.updateMediaAffinity")} <code>INUpdateMediaAffinityIntent</code>
+          </dd>
+        </div>
+        <div>
+          <dt>{t("siri.result.affinity")}</dt>
+          <dd>{t(request.like ? "siri.affinity.like" : "siri.affinity.dislike")}</dd>
+        </div>
+      </dl>
+    );
+  }
+
+  const search = siriSearch(request);
+  if (!search) {
+    return <Unsupported reason="noName" />;
+  }
+  const { matches, total } = searchSiriLibrary(search, library);
+
+  return (
+    <div className="siri-outcome">
+      <dl className="siri-request">
+        <div>
+          <dt>{t("siri.result.intent")}</dt>
+          <dd>
+            {t("siri.intentName.playMedia")} <code>INPlayMediaIntent</code>
+          </dd>
+        </div>
+        <div>
+          <dt>{t("siri.result.mediaType")}</dt>
+          <dd>
+            <code>.{request.mediaType}</code>
+          </dd>
+        </div>
+        <div>
+          <dt>{t("siri.result.search")}</dt>
+          <dd>
+            {t(`siri.search.${search.target}`, { term: search.term })}
+            {search.artist && ` ${t("siri.search.byArtist", { artist: search.artist })}`}
+            {search.orArtist && ` ${t("siri.search.orArtist")}`}
+          </dd>
+        </div>
+        <div>
+          <dt>{t("siri.result.shuffle")}</dt>
+          <dd>{t(request.shuffle ? "siri.shuffle.on" : "siri.shuffle.off")}</dd>
+        </div>
+        <div>
+          <dt>{t("siri.result.plays")}</dt>
+          <dd>{t(`siri.plays.${search.target}`)}</dd>
+        </div>
+      </dl>
+      <p className="siri-hint">{t("siri.search.note")}</p>
+
+      {(!mentionsApp || request.mediaType === "music") && (
+        <ul className="siri-notes">
+          {!mentionsApp && <li>{t("siri.note.noApp")}</li>}
+          {request.mediaType === "music" && <li>{t("siri.note.music")}</li>}
+        </ul>
+      )}
+
+      <div className="siri-matches">
+        <h3>{t(`siri.matches.${source}`)}</h3>
+        <p>
+          {total === 0
+            ? t("siri.matches.none")
+            : total === 1
+              ? t("siri.matches.one")
+              : t("siri.matches.many", { count: matches.length })}
+        </p>
+        {matches.length > 0 && (
+          <ol>
+            {matches.map((match) => (
+              <li key={match.id}>
+                <span className="siri-match-title">{match.title}</span>
+                {match.detail && <span className="siri-match-detail">{match.detail}</span>}
+              </li>
+            ))}
+          </ol>
+        )}
+        {total > matches.length && (
+          <p className="siri-hint">
+            {t("siri.matches.more", { count: total - matches.length, limit: SIRI_RESULT_LIMIT })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
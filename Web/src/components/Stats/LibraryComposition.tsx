@@ -0,0 +1,55 @@
+import { useI18n } from "../../i18n/I18nProvider";
+import { MISSING_TAGS, type CompositionShare, type LibraryComposition as Composition } from "../../types/stats";
+import { formatBytes, formatListeningTime } from "../../utils/format";
+import { BarChart, type BarChartRow } from "../BarChart/BarChart";
+import "./Stats.css";
+
+/** Formats, bitrates and missing tags across the whole library */
+export function LibraryComposition({ composition }: { composition: Composition }) {
+  const { t, locale } = useI18n();
+  const tracks = (count: number) => t("stats.trackCount", { count });
+  const rows = (shares: CompositionShare[]): BarChartRow[] =>
+    shares.map((share) => ({
+      label: share.label ?? t("stats.unknown"),
+      segments: [{ key: "tracks", label: t("stats.library.tracks"), value: share.tracks }],
+    }));
+
+  return (
+    <div className="stats-panel">
+      <dl className="stats-totals">
+        <div>
+          <dt>{t("stats.library.tracks")}</dt>
+          <dd>{composition.tracks.toLocaleString(locale)}</dd>
+        </div>
+        <div>
+          <dt>{t("stats.library.albums")}</dt>
+          <dd>{composition.albums.toLocaleString(locale)}</dd>
+        </div>
+        <div>
+          <dt>{t("stats.library.duration")}</dt>
+          <dd>{formatListeningTime(composition.seconds, locale)}</dd>
+        </div>
+        <div>
+          <dt>{t("stats.library.size")}</dt>
+          <dd>{composition.bytes > 0 ? formatBytes(composition.bytes, locale) : t("stats.unknown")}</dd>
+        </div>
+      </dl>
+
+      <BarChart title={t("stats.formats")} rows={rows(composition.formats)} formatValue={tracks} showLegend={false} />
+      <BarChart title={t("stats.bitrates")} rows={rows(composition.bitrates)} formatValue={tracks} showLegend={false} />
+
+      <section className="stats-missing">
+        <h3>{t("stats.missingTitle")}</h3>
+        <ul>
+          {MISSING_TAGS.map((tag) => (
+            <li key={tag} className={composition.missing[tag] > 0 ? "has-missing" : undefined}>
+              <span>{t(`stats.missing.${tag}`)}</span>
+              <strong>{composition.missing[tag].toLocaleString(locale)}</strong>
+            </li>
+          ))}
+        </ul>
+        <p className="stats-hint">{t("stats.missingHint")}</p>
+      </section>
+    </div>
+  );
+}
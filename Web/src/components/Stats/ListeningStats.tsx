@@ -0,0 +1,125 @@
+import { useI18n } from "../../i18n/I18nProvider";
+import { STATS_RANGES, type ListeningSummary, type RankedEntry, type StatsRange } from "../../types/stats";
+import { formatListeningTime } from "../../utils/format";
+import { BarChart, type BarChartRow } from "../BarChart/BarChart";
+import "./Stats.css";
+
+interface ListeningStatsProps {
+  summary: ListeningSummary;
+  onRangeChange: (range: StatsRange) => void;
+}
+
+/** Local date of a `YYYY-MM-DD` or `YYYY-MM` timeline key */
+function bucketDate(key: string): Date {
+  const [year, month, day = 1] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** Totals, top lists, timeline and genres for one time range */
+export function ListeningStats({ summary, onRangeChange }: ListeningStatsProps) {
+  const { t, locale } = useI18n();
+  const time = (seconds: number) => formatListeningTime(seconds, locale);
+  // Outside All Time the server's play counts cover more than the range, so totals count each track once
+  const allTime = summary.range === "all";
+  const bucketLabel = new Intl.DateTimeFormat(
+    locale,
+    summary.timeline.granularity === "day" ? { day: "numeric", month: "short" } : { month: "short", year: "numeric" }
+  );
+
+  const timelineRows: BarChartRow[] = summary.timeline.buckets.map((bucket) => ({
+    label: bucketLabel.format(bucketDate(bucket.key)),
+    segments: [{ key: "time", label: t("stats.totals.time"), value: bucket.seconds }],
+  }));
+  const genreRows: BarChartRow[] = summary.genres.map((share) => ({
+    label: share.umbrella,
+    segments: [{ key: "plays", label: t(allTime ? "stats.totals.plays" : "stats.totals.tracks"), value: share.plays }],
+  }));
+
+  const topLists: { title: string; entries: RankedEntry[] }[] = [
+    { title: t("stats.topArtists"), entries: summary.topArtists },
+    { title: t("stats.topAlbums"), entries: summary.topAlbums },
+    { title: t("stats.topTracks"), entries: summary.topTracks },
+  ];
+
+  return (
+    <div className="stats-panel">
+      <fieldset className="stats-ranges">
+        <legend>{t("stats.range")}</legend>
+        {STATS_RANGES.map((range) => (
+          <label key={range} className={summary.range === range ? "selected" : undefined}>
+            <input
+              type="radio"
+              name="stats-range"
+              checked={summary.range === range}
+              onChange={() => onRangeChange(range)}
+            />
+            {t(`stats.range.${range}`)}
+          </label>
+        ))}
+      </fieldset>
+
+      <dl className="stats-totals">
+        {allTime && (
+          <div>
+            <dt>{t("stats.totals.plays")}</dt>
+            <dd>{summary.plays.toLocaleString(locale)}</dd>
+          </div>
+        )}
+        <div>
+          <dt>{t(allTime ? "stats.totals.time" : "stats.totals.timeOnce")}</dt>
+          <dd>{time(summary.seconds)}</dd>
+        </div>
+        <div>
+          <dt>{t("stats.totals.tracks")}</dt>
+          <dd>{summary.tracksPlayed.toLocaleString(locale)}</dd>
+        </div>
+        <div>
+          <dt>{t("stats.totals.favourites")}</dt>
+          <dd>{summary.favourites.toLocaleString(locale)}</dd>
+        </div>
+      </dl>
+
+      {summary.tracksPlayed === 0 ? (
+        <p className="stats-empty">{t("stats.noPlays")}</p>
+      ) : (
+        <>
+          <div className="stats-top-lists">
+            {topLists.map(({ title, entries }) => (
+              <section key={title} className="stats-top-list">
+                <h3>{title}</h3>
+                <ol>
+                  {entries.map((entry, index) => (
+                    <li key={`${entry.name}-${index}`}>
+                      <span className="stats-top-name">
+                        <strong>{entry.name}</strong>
+                        {entry.detail && <small>{entry.detail}</small>}
+                      </span>
+                      <span className="stats-top-plays">
+                        {t(allTime ? "stats.playCount" : "stats.playCountAllTime", { count: entry.plays })}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            ))}
+          </div>
+          {!allTime && <p className="stats-hint">{t("stats.topHint")}</p>}
+
+          <BarChart
+            title={t(`stats.timeline.${summary.timeline.granularity}`)}
+            rows={timelineRows}
+            formatValue={time}
+            showLegend={false}
+          />
+          <BarChart
+            title={t(allTime ? "stats.genres" : "stats.genresTracks")}
+            rows={genreRows}
+            formatValue={(count) => t(allTime ? "stats.playCount" : "stats.trackCount", { count })}
+            showLegend={false}
+          />
+          <p className="stats-hint">{t("stats.genresHint")}</p>
+        </>
+      )}
+    </div>
+  );
+}
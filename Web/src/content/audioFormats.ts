@@ -0,0 +1,182 @@
+import type { AudioFormat, StreamRequest } from "../types/audio";
+import type { MediaServerType } from "../types/server";
+
+/** Formats people keep in their libraries, in the order the reference table lists them */
+export const audioFormats: AudioFormat[] = [
+  {
+    id: "mp3",
+    name: "MP3",
+    codec: "mp3",
+    containers: ["mp3"],
+    extensions: [".mp3"],
+    lossless: false,
+  },
+  {
+    id: "aac",
+    name: "AAC",
+    codec: "aac",
+    containers: ["mp4", "adts"],
+    extensions: [".m4a", ".mp4", ".aac"],
+    lossless: false,
+  },
+  {
+    id: "alac",
+    name: "Apple Lossless (ALAC)",
+    codec: "alac",
+    containers: ["mp4", "caf"],
+    extensions: [".m4a", ".caf"],
+    lossless: true,
+  },
+  {
+    id: "flac",
+    name: "FLAC",
+    codec: "flac",
+    containers: ["flac"],
+    extensions: [".flac"],
+    lossless: true,
+  },
+  {
+    id: "wav",
+    name: "WAV",
+    codec: "pcm",
+    containers: ["wav"],
+    extensions: [".wav"],
+    lossless: true,
+  },
+  {
+    id: "aiff",
+    name: "AIFF",
+    codec: "pcm",
+    containers: ["aiff"],
+    extensions: [".aif", ".aiff"],
+    lossless: true,
+  },
+  {
+    id: "ogg-flac",
+    name: "FLAC in Ogg",
+    codec: "flac",
+    containers: ["ogg"],
+    extensions: [".oga"],
+    lossless: true,
+  },
+  {
+    id: "vorbis",
+    name: "Ogg Vorbis",
+    codec: "vorbis",
+    containers: ["ogg", "webm", "matroska"],
+    extensions: [".ogg", ".oga", ".mka"],
+    lossless: false,
+  },
+  {
+    id: "opus",
+    name: "Opus",
+    codec: "opus",
+    containers: ["ogg", "webm", "matroska"],
+    extensions: [".opus", ".webm", ".mka"],
+    lossless: false,
+  },
+  {
+    id: "wma",
+    name: "Windows Media Audio",
+    codec: "wma",
+    containers: ["asf"],
+    extensions: [".wma"],
+    lossless: false,
+  },
+  {
+    id: "ape",
+    name: "Monkey's Audio",
+    codec: "ape",
+    containers: ["ape"],
+    extensions: [".ape"],
+    lossless: true,
+  },
+  {
+    id: "wavpack",
+    name: "WavPack",
+    codec: "wavpack",
+    containers: ["wavpack"],
+    extensions: [".wv"],
+    lossless: true,
+  },
+  {
+    id: "dsd",
+    name: "DSD",
+    codec: "dsd",
+    containers: ["dsf", "dff"],
+    extensions: [".dsf", ".dff"],
+    lossless: true,
+  },
+];
+
+/** The transcode the app asks for whenever it can't play the original */
+export const TRANSCODE_BITRATE = 320000;
+
+/**
+ * The requests the app makes for a track, copied from
+ * `DefaultJellyfinAPIClient+Streaming.swift`, `DefaultEmbyAPIClient+Streaming.swift`
+ * and `OfflineDownloadManager.swift`. The build fails if the fixed parameters
+ * drift from the app.
+ */
+export const streamRequests: Record<MediaServerType, Record<"directStream" | "transcode" | "download", StreamRequest>> = {
+  jellyfin: {
+    directStream: { path: "Items/{id}/File", query: [["ApiKey", "<token>"]] },
+    transcode: {
+      path: "Audio/{id}/main.m3u8",
+      query: [
+        ["ApiKey", "<token>"],
+        ["userId", "<user>"],
+        ["audioCodec", "aac"],
+        ["audioSampleRate", "44100"],
+        ["maxAudioBitDepth", "16"],
+        ["audioBitRate", String(TRANSCODE_BITRATE)],
+        ["deviceId", "<device>"],
+      ],
+    },
+    download: {
+      path: "Audio/{id}/stream",
+      query: [
+        ["api_key", "<token>"],
+        ["userId", "<user>"],
+        ["deviceId", "<device>"],
+        ["audioCodec", "aac"],
+        ["container", "m4a"],
+        ["audioBitRate", String(TRANSCODE_BITRATE)],
+        ["maxAudioChannels", "2"],
+        ["audioSampleRate", "44100"],
+        ["maxAudioBitDepth", "16"],
+        ["TranscodingMaxAudioChannels", "2"],
+      ],
+    },
+  },
+  emby: {
+    directStream: { path: "Items/{id}/File", query: [["api_key", "<token>"]] },
+    transcode: {
+      path: "Audio/{id}/main.m3u8",
+      query: [
+        ["api_key", "<token>"],
+        ["UserId", "<user>"],
+        ["audioCodec", "aac"],
+        ["audioSampleRate", "44100"],
+        ["maxAudioBitDepth", "16"],
+        ["audioBitRate", String(TRANSCODE_BITRATE)],
+        ["deviceId", "<device>"],
+      ],
+    },
+    download: {
+      path: "Audio/{id}/stream",
+      query: [
+        ["api_key", "<token>"],
+        ["UserId", "<user>"],
+        ["DeviceId", "<device>"],
+        ["audioCodec", "aac"],
+        ["container", "m4a"],
+        ["audioBitRate", String(TRANSCODE_BITRATE)],
+        ["maxAudioChannels", "2"],
+        ["audioSampleRate", "44100"],
+        ["maxAudioBitDepth", "16"],
+        ["transcodingMaxAudioChannels", "2"],
+      ],
+    },
+  },
+};
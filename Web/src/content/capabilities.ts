@@ -0,0 +1,163 @@
+import type { Capability, CapabilitySupport, SupportLevel } from "../types/content";
+import { getPlatform } from "./platforms";
+
+export const supportLevelLabels: Record<SupportLevel, string> = {
+  full: "Supported",
+  partial: "Partly supported",
+  pending: "Pending Apple Review",
+  planned: "Planned",
+};
+
+/** Everything on CarPlay waits for the same review, and gets its real level once it passes */
+function carPlay(note?: string, whenApproved: SupportLevel = "full"): CapabilitySupport {
+  return { level: getPlatform("carplay").status === "available" ? whenApproved : "pending", note };
+}
+
+const bothServers = {
+  jellyfin: { level: "full" },
+  emby: { level: "full" },
+} satisfies Record<string, CapabilitySupport>;
+
+/**
+ * What works where. The Platforms page lists each platform's capabilities from
+ * here, and the capability matrix shows them all side by side.
+ */
+export const capabilities: Capability[] = [
+  {
+    id: "library-browsing",
+    title: "Browse artists, albums, songs, genres and playlists",
+    featureId: "browse-by-artists-albums-tracks-genres-and-playlists",
+    support: {
+      iphone: { level: "full" },
+      carplay: carPlay("Library tab with Playlists, Genres, Artists, Albums and Songs"),
+      ...bothServers,
+    },
+  },
+  {
+    id: "search",
+    title: "Search",
+    featureId: "search",
+    support: {
+      iphone: { level: "full" },
+      ...bothServers,
+    },
+  },
+  {
+    id: "recent",
+    title: "Recently played and recently added",
+    featureId: "recently-played-recently-added",
+    support: {
+      iphone: { level: "full" },
+      carplay: carPlay("On the Home tab"),
+      ...bothServers,
+    },
+  },
+  {
+    id: "liked-tracks",
+    title: "Like tracks",
+    featureId: "liked-tracks",
+    support: {
+      iphone: { level: "full" },
+      watch: { level: "full", note: "Like the track that's playing" },
+      carplay: carPlay("Only Shuffle Liked on the Home tab", "partial"),
+      ...bothServers,
+    },
+  },
+  {
+    id: "playlist-editing",
+    title: "Create and edit playlists",
+    support: {
+      iphone: { level: "full" },
+      ...bothServers,
+    },
+  },
+  {
+    id: "shuffle",
+    title: "Shuffle all, by artist and by genre",
+    featureId: "shuffle-by-genre",
+    support: {
+      iphone: { level: "full" },
+      carplay: carPlay("Shuffle All and genre shuffles on the Home tab"),
+      ...bothServers,
+    },
+  },
+  {
+    id: "instant-mix",
+    title: "Instant Mix",
+    featureId: "instant-mix",
+    support: {
+      iphone: { level: "full" },
+      watch: { level: "full", note: "Start a mix from the track that's playing" },
+      carplay: carPlay("From an artist or an album"),
+      ...bothServers,
+    },
+  },
+  {
+    id: "queue",
+    title: "Up Next queue editing",
+    featureId: "queue-management",
+    support: {
+      iphone: { level: "full" },
+      ...bothServers,
+    },
+  },
+  {
+    id: "playback-controls",
+    title: "Now Playing and playback controls",
+    featureId: "now-playing",
+    support: {
+      iphone: { level: "full" },
+      watch: { level: "full", note: "Play, pause and skip; the iPhone plays the music and has to be nearby" },
+      carplay: carPlay(),
+      ...bothServers,
+    },
+  },
+  {
+    id: "system-controls",
+    title: "Lock Screen, Control Center and Dynamic Island",
+    featureId: "dynamic-island-lock-screen-controls",
+    support: {
+      iphone: { level: "full", note: "Dynamic Island on iPhone 14 Pro and later" },
+      ...bothServers,
+    },
+  },
+  {
+    id: "siri",
+    title: "Play music and like tracks with Siri",
+    featureId: "siri",
+    support: {
+      iphone: { level: "full" },
+      carplay: carPlay(),
+      ...bothServers,
+    },
+  },
+  {
+    id: "offline-downloads",
+    title: "Offline downloads",
+    featureId: "offline-downloads",
+    support: {
+      iphone: { level: "full" },
+      carplay: carPlay("Downloads list in the Library tab"),
+      ...bothServers,
+    },
+  },
+  {
+    id: "all-formats",
+    title: "Play formats iOS can't decode, such as Ogg Vorbis or WMA",
+    support: {
+      iphone: { level: "full" },
+      carplay: carPlay(),
+      jellyfin: { level: "full", note: "Transcoded by the server" },
+      emby: { level: "partial", note: "Emby always sends the original file, so these formats don't play" },
+    },
+  },
+  {
+    id: "library-sync",
+    title: "Library sync with progress",
+    featureId: "automatic-library-sync",
+    support: {
+      iphone: { level: "full" },
+      ...bothServers,
+    },
+  },
+];
@@ -0,0 +1,37 @@
+import { DEFAULT_LOCALE, type Locale } from "../i18n/locales";
+import type { ChangelogEntry } from "../types/changelog";
+import type { PageMeta } from "../types/content";
+import { readChangelog } from "../utils/changelog";
+import { normalizePath } from "../utils/paths";
+import { changelogPagesFor } from "./pages";
+
+/**
+ * Release notes, one Markdown file per release in `src/content/changelog/`.
+ * They are loaded through Vite, so this module stays out of the `content`
+ * barrel that the build plugins import; `plugins/contentValidation.ts` reads
+ * the files itself.
+ */
+const { entries, translations } = readChangelog(
+  import.meta.glob<string>("./changelog/*.md", { query: "?raw", import: "default", eager: true })
+);
+
+const cache = new Map<Locale, ChangelogEntry[]>();
+
+/** Every release, newest first, with its notes in `locale` where they have been translated */
+export function getChangelog(locale: Locale): ChangelogEntry[] {
+  let localized = cache.get(locale);
+  if (!localized) {
+    localized = entries.map((entry) => {
+      const { title, body } = translations[locale]?.[entry.version] ?? {};
+      return { ...entry, title: title ?? entry.title, body: body ?? entry.body };
+    });
+    cache.set(locale, localized);
+  }
+  return localized;
+}
+
+/** Metadata for a release page or a later page of the changelog, which `getPageMeta()` doesn't know about */
+export function getChangelogPageMeta(path: string, locale: Locale = DEFAULT_LOCALE): PageMeta | undefined {
+  const normalized = normalizePath(path);
+  return changelogPagesFor(getChangelog(locale), locale).find((page) => page.path === normalized);
+}
@@ -0,0 +1,186 @@
+import type { DemoAlbum, DemoArtist, DemoTrack } from "../types/demo";
+import { UMBRELLA_GENRES, type UmbrellaGenre } from "../types/genres";
+import { resolveGenre } from "../utils/umbrellaGenres";
+
+/**
+ * The made-up library behind `/demo`. Artists, albums and titles are fictional
+ * and every track plays a clip generated in the browser (`services/demoAudio.ts`),
+ * so the demo never talks to a server.
+ */
+export const demoArtists: DemoArtist[] = [
+  { id: "aurora-fields", name: "Aurora Fields" },
+  { id: "copper-lanterns", name: "The Copper Lanterns" },
+  { id: "mira-sol", name: "Mira Sol" },
+  { id: "neon-parade", name: "Neon Parade" },
+  { id: "old-town-quartet", name: "Old Town Quartet" },
+];
+
+interface AlbumSource extends DemoAlbum {
+  tracks: string[];
+}
+
+const albumSources: AlbumSource[] = [
+  {
+    id: "northern-lights",
+    title: "Northern Lights",
+    artistId: "aurora-fields",
+    year: 2021,
+    genres: ["Ambient", "Electronic"],
+    hue: 190,
+    addedRank: 2,
+    tracks: ["First Light", "Polar Drift", "Magnetic North", "Snowfield", "Long Night", "Solstice"],
+  },
+  {
+    id: "slow-tides",
+    title: "Slow Tides",
+    artistId: "aurora-fields",
+    year: 2019,
+    genres: ["Ambient"],
+    hue: 220,
+    addedRank: 7,
+    tracks: ["Low Water", "Salt and Glass", "Undertow", "Moon Pull", "Estuary"],
+  },
+  {
+    id: "harbour-songs",
+    title: "Harbour Songs",
+    artistId: "copper-lanterns",
+    year: 2022,
+    genres: ["Indie Rock", "Folk"],
+    hue: 25,
+    addedRank: 1,
+    tracks: ["Rope and Anchor", "Lighthouse Keeper", "Fog Bell", "The Last Ferry", "Gulls", "Home Port"],
+  },
+  {
+    id: "paper-boats",
+    title: "Paper Boats",
+    artistId: "copper-lanterns",
+    year: 2018,
+    genres: ["Folk"],
+    hue: 45,
+    addedRank: 6,
+    tracks: ["Paper Boats", "Rain on the Roof", "Kitchen Radio", "Old Bicycle", "Goodnight, Town"],
+  },
+  {
+    id: "blue-hour",
+    title: "Blue Hour",
+    artistId: "mira-sol",
+    year: 2020,
+    genres: ["Jazz", "Soul"],
+    hue: 245,
+    addedRank: 4,
+    tracks: ["Blue Hour", "Velvet Street", "Late Train", "Coffee at Midnight", "Slow Dance", "Streetlights"],
+  },
+  {
+    id: "night-drive",
+    title: "Night Drive",
+    artistId: "neon-parade",
+    year: 2023,
+    genres: ["Synthpop", "Electronic"],
+    hue: 310,
+    addedRank: 0,
+    tracks: ["Night Drive", "Chrome Hearts", "Overpass", "Arcade Love", "Tail Lights", "Sunrise Exit"],
+  },
+  {
+    id: "afterglow",
+    title: "Afterglow",
+    artistId: "neon-parade",
+    year: 2021,
+    genres: ["Synthpop"],
+    hue: 340,
+    addedRank: 5,
+    tracks: ["Afterglow", "Static Summer", "Cassette", "Mirrorball", "Last Dance"],
+  },
+  {
+    id: "winter-etudes",
+    title: "Winter Études",
+    artistId: "old-town-quartet",
+    year: 2017,
+    genres: ["Classical"],
+    hue: 160,
+    addedRank: 3,
+    tracks: ["Étude in Frost", "Cobblestones", "Candlelight", "Market Square", "Frozen Bay"],
+  },
+];
+
+const MIN_DURATION = 18;
+const DURATION_SPREAD = 15;
+
+/** Small stable hash, so clip lengths and melodies stay the same between visits */
+export function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export const demoAlbums: DemoAlbum[] = albumSources.map(({ tracks: _tracks, ...album }) => album);
+
+export const demoTracks: DemoTrack[] = albumSources.flatMap((album) =>
+  album.tracks.map((title, index) => {
+    const id = `${album.id}-${index + 1}`;
+    return {
+      id,
+      title,
+      albumId: album.id,
+      artistId: album.artistId,
+      trackNumber: index + 1,
+      genres: album.genres,
+      duration: MIN_DURATION + (hashString(id) % DURATION_SPREAD),
+    };
+  })
+);
+
+export const demoGenres: string[] = [...new Set(demoTracks.flatMap((track) => track.genres))].sort();
+
+/** Tracks that start out liked, so "Shuffle Liked" has something to play */
+export const initiallyLikedTrackIds: string[] = [
+  "harbour-songs-2",
+  "blue-hour-1",
+  "night-drive-1",
+  "northern-lights-3",
+  "winter-etudes-2",
+  "afterglow-4",
+];
+
+export function getDemoArtist(id: string): DemoArtist {
+  const artist = demoArtists.find((candidate) => candidate.id === id);
+  if (!artist) {
+    throw new Error(`Unknown demo artist: ${id}`);
+  }
+  return artist;
+}
+
+export function getDemoAlbum(id: string): DemoAlbum {
+  const album = demoAlbums.find((candidate) => candidate.id === id);
+  if (!album) {
+    throw new Error(`Unknown demo album: ${id}`);
+  }
+  return album;
+}
+
+export function albumTracks(albumId: string): DemoTrack[] {
+  return demoTracks.filter((track) => track.albumId === albumId);
+}
+
+export function artistAlbums(artistId: string): DemoAlbum[] {
+  return demoAlbums.filter((album) => album.artistId === artistId).sort((a, b) => b.year - a.year);
+}
+
+export function artistTracks(artistId: string): DemoTrack[] {
+  return artistAlbums(artistId).flatMap((album) => albumTracks(album.id));
+}
+
+export function genreTracks(genre: string): DemoTrack[] {
+  return demoTracks.filter((track) => track.genres.includes(genre));
+}
+
+/** Tracks with at least one tag in `umbrella`, as the app's Home genre tiles pick them */
+export function umbrellaGenreTracks(umbrella: UmbrellaGenre): DemoTrack[] {
+  return demoTracks.filter((track) => track.genres.some((genre) => resolveGenre(genre) === umbrella));
+}
+
+export const demoUmbrellaGenres: UmbrellaGenre[] = UMBRELLA_GENRES.filter(
+  (umbrella) => umbrella !== "Unknown" && umbrellaGenreTracks(umbrella).length > 0
+);
@@ -0,0 +1,27 @@
+import type { SourceMix, SourceProfile } from "../types/downloads";
+
+/** Used to turn tracks and albums into listening time */
+export const AVERAGE_TRACK_SECONDS = 240;
+export const TRACKS_PER_ALBUM = 12;
+
+/**
+ * Typical files in a library. Lossless bitrates are averages for pop and rock
+ * albums; quiet classical recordings compress better, loud ones worse.
+ */
+export const sourceProfiles: SourceProfile[] = [
+  { id: "mp3-128", formatId: "mp3", name: "MP3 128 kbps", bitrate: 128000 },
+  { id: "mp3-320", formatId: "mp3", name: "MP3 320 kbps", bitrate: 320000 },
+  { id: "aac-256", formatId: "aac", name: "AAC 256 kbps (iTunes)", bitrate: 256000 },
+  { id: "opus-160", formatId: "opus", name: "Opus 160 kbps", bitrate: 160000 },
+  { id: "flac-cd", formatId: "flac", name: "FLAC 16-bit / 44.1 kHz", bitrate: 900000 },
+  { id: "flac-hires", formatId: "flac", name: "FLAC 24-bit / 96 kHz", bitrate: 2900000 },
+  { id: "wav-cd", formatId: "wav", name: "WAV 16-bit / 44.1 kHz", bitrate: 1411200 },
+  { id: "dsd64", formatId: "dsd", name: "DSD64 (DSF)", bitrate: 5644800 },
+];
+
+/** What the calculator starts with: a mostly lossless library with some older MP3s */
+export const defaultSourceMix: SourceMix = {
+  "mp3-320": 30,
+  "flac-cd": 60,
+  "flac-hires": 10,
+};
@@ -0,0 +1,91 @@
+import type { FAQCategory, FAQItem } from "../types/content";
+import { TRANSCODE_BITRATE } from "./audioFormats";
+import { getPlatform } from "./platforms";
+
+const carPlay = getPlatform("carplay");
+
+export const faqCategoryLabels: Record<FAQCategory, string> = {
+  servers: "Servers",
+  playback: "Playback",
+  privacy: "Privacy",
+  platforms: "Platforms",
+  troubleshooting: "Troubleshooting",
+};
+
+export const faqs: FAQItem[] = [
+  {
+    slug: "supported-servers",
+    category: "servers",
+    question: "What servers does Kartunes support?",
+    answer:
+      "Kartunes supports both Jellyfin and Emby media servers. The app automatically detects your server type when you connect and adapts accordingly. You need a server with at least one music library configured.\n\nNot sure your address will work? Try the [server checker](/setup) on the Setup page.",
+  },
+  {
+    slug: "account",
+    category: "servers",
+    question: "Do I need another account?",
+    answer:
+      "No, you don't need a Kartunes account. You only use your existing Jellyfin or Emby login credentials. Kartunes connects directly to your server using your existing account.",
+  },
+  {
+    slug: "carplay",
+    category: "platforms",
+    question: "Is CarPlay supported?",
+    answer: `${carPlay.description} The implementation includes library browsing and full playback controls.`,
+  },
+  {
+    slug: "library-storage",
+    category: "privacy",
+    question: "Does Kartunes store or upload my library?",
+    answer:
+      "No. Kartunes does not store or upload your media or library metadata to any external service. All music is streamed directly from your own Jellyfin or Emby server. Library metadata is cached locally on your device for fast access, but this data never leaves your device.",
+  },
+  {
+    slug: "android",
+    category: "platforms",
+    question: "Is there Android support?",
+    answer:
+      "No, Kartunes is iOS-only for now. The app is built with SwiftUI and is designed specifically for the iOS ecosystem, including iPhone, Apple Watch, and CarPlay. Android support is not currently planned.",
+  },
+  {
+    slug: "offline",
+    category: "playback",
+    question: "Can I use Kartunes offline?",
+    answer: `Yes, with downloads. Open the menu on a track in Songs, Artists, Search or Up Next and choose Download Offline. Downloaded tracks are listed under Library → Downloads, where Play All Offline and Shuffle Offline play them from your device without a connection.\n\nYour server converts downloads to ${TRANSCODE_BITRATE / 1000} kbps AAC. The [downloads calculator](/downloads) estimates how much space they take and how much data streaming would use instead.\n\nCached library metadata (artists, albums, track lists) stays browsable offline, but tracks started anywhere other than Downloads are streamed from your server and need a connection.`,
+  },
+  {
+    slug: "ios-version",
+    category: "platforms",
+    question: "What iOS version do I need?",
+    answer:
+      "Kartunes requires iOS 16.0 or later. This ensures compatibility with modern SwiftUI features and the latest iOS APIs used throughout the app.",
+  },
+  {
+    slug: "remote-access",
+    category: "troubleshooting",
+    question: "How do I connect to my server remotely?",
+    answer:
+      "To connect from outside your local network, you'll need to set up remote access to your Jellyfin or Emby server. This typically involves one of:\n\n- Port forwarding on your router\n- A reverse proxy such as nginx or Caddy\n- A VPN back into your home network\n\nAt home you can use a local address such as `http://192.168.1.100:8096`. Away from home, make sure your server is accessible via HTTPS, for example `https://jellyfin.example.com`, for secure connections.",
+  },
+  {
+    slug: "multiple-libraries",
+    category: "servers",
+    question: "Does Kartunes work with multiple libraries?",
+    answer:
+      "Yes, if your Jellyfin or Emby server has multiple music libraries configured, Kartunes will let you choose which library to use when you first connect. You can switch libraries by removing and re-adding your server configuration.",
+  },
+  {
+    slug: "genre-categories",
+    category: "playback",
+    question: "Why is a genre filed under the wrong category?",
+    answer:
+      "Kartunes groups genre tags into umbrella categories such as Electronic, Rock or Jazz for the Home screen and genre shuffles. Tags are normalized before they are looked up, so \"Techno (Peak Time)\" is looked up as \"techno\" and lands in Electronic. Tags the app does not recognise end up in Unknown.\n\nThe [genre map](/genres) lists every category, shows where your own tags land, and lets you suggest a mapping for any that end up in Unknown.",
+  },
+  {
+    slug: "report-a-bug",
+    category: "troubleshooting",
+    question: "How do I report a bug or request a feature?",
+    answer:
+      "Please open an issue on GitHub at https://github.com/KartulUdus/Kartunes/issues. Before opening an issue, make sure you're on the latest version of the app and check if a similar issue already exists. When reporting bugs, include:\n\n- Your device model and iOS version\n- Your server type (Jellyfin or Emby) and version\n- Steps to reproduce the problem",
+  },
+];
@@ -0,0 +1,175 @@
+import type { FeatureSection } from "../types/content";
+import { TRANSCODE_BITRATE } from "./audioFormats";
+
+export const featureSections: FeatureSection[] = [
+  {
+    id: "library",
+    icon: "🎵",
+    title: "Music Library",
+    features: [
+      {
+        id: "browse-by-artists-albums-tracks-genres-and-playlists",
+        title: "Browse by Artists, Albums, Tracks, Genres, and Playlists",
+        description: "Navigate your music collection with ease. Organize and explore your library the way you want.",
+      },
+      {
+        id: "search",
+        title: "Search",
+        description: "Quickly find songs, artists, albums, or playlists with fast, intuitive search.",
+      },
+      {
+        id: "recently-played-recently-added",
+        title: "Recently Played & Recently Added",
+        description: "Quick access to your latest music and recently discovered tracks.",
+      },
+      {
+        id: "liked-tracks",
+        title: "Liked Tracks",
+        description: "Build and manage your favorite songs playlist with a single tap.",
+      },
+      {
+        id: "genre-browsing",
+        title: "Genre Browsing",
+        description: "Explore music by genre with organized umbrella categories.",
+      },
+    ],
+  },
+  {
+    id: "playback",
+    icon: "🎧",
+    title: "Playback & UI",
+    features: [
+      {
+        id: "native-swiftui-interface",
+        title: "Native SwiftUI Interface",
+        description: "Beautiful, modern interface built with SwiftUI for a truly native iOS experience.",
+      },
+      {
+        id: "queue-management",
+        title: "Queue Management",
+        description: "Build and manage your playback queue with full control over what plays next.",
+      },
+      {
+        id: "shuffle-repeat",
+        title: "Shuffle & Repeat",
+        description: "Control playback with shuffle and repeat modes to match your listening style.",
+      },
+      {
+        id: "shuffle-by-artist",
+        title: "Shuffle by Artist",
+        description: "Discover music by shuffling entire artist catalogs.",
+      },
+      {
+        id: "shuffle-by-genre",
+        title: "Shuffle by Genre",
+        description: "Discover music by shuffling random songs from your library by genre.",
+      },
+      {
+        id: "instant-mix",
+        title: "Instant Mix",
+        description: "Generate smart playlists based on artists, tracks, or albums.",
+      },
+      {
+        id: "now-playing",
+        title: "Now Playing",
+        description: "Beautiful full-screen now playing view with album art and playback controls.",
+      },
+      {
+        id: "mini-player",
+        title: "Mini Player",
+        description: "Quick access player that follows you throughout the app.",
+      },
+      {
+        id: "dynamic-island-lock-screen-controls",
+        title: "Dynamic Island & Lock Screen Controls",
+        description:
+          "Live playback controls in the Dynamic Island (iPhone 14 Pro and later) and control playback from your lock screen.",
+      },
+      {
+        id: "control-center",
+        title: "Control Center",
+        description: "Quick access from Control Center for seamless playback control.",
+      },
+      {
+        id: "siri",
+        title: "Siri",
+        description:
+          "Ask Siri to play an artist, album, song or playlist, shuffled if you like, or to like the song that's playing.",
+        link: "/siri",
+      },
+      {
+        id: "theme-support",
+        title: "Theme Support",
+        description: "Light, dark, and system theme options to match your preferences.",
+      },
+    ],
+  },
+  {
+    id: "servers",
+    icon: "🖥️",
+    title: "Server Support",
+    features: [
+      {
+        id: "jellyfin-emby",
+        title: "Jellyfin & Emby",
+        description:
+          "Works seamlessly with both Jellyfin and Emby music libraries. The app automatically detects your server type and adapts accordingly.",
+      },
+      {
+        id: "your-existing-library",
+        title: "Your Existing Library",
+        description: "Reads your existing artists, albums, tracks, and playlists directly from your media server.",
+        link: "/tools/playlists",
+      },
+    ],
+  },
+  {
+    id: "companions",
+    icon: "⌚",
+    title: "Companion Experiences",
+    features: [
+      {
+        id: "apple-watch",
+        title: "Apple Watch",
+        description:
+          "Control playback from your wrist. View now playing information and manage playback without reaching for your phone. Perfect for workouts and on-the-go listening.",
+        platform: "watch",
+      },
+      {
+        id: "carplay",
+        title: "CarPlay",
+        description:
+          "Full CarPlay integration for safe, hands-free music control while driving. Browse your library and control playback directly from your car's infotainment system.",
+        platform: "carplay",
+      },
+    ],
+  },
+  {
+    id: "sync",
+    icon: "🔄",
+    title: "Sync & Storage",
+    features: [
+      {
+        id: "automatic-library-sync",
+        title: "Automatic Library Sync",
+        description: "Keep your library up to date with your media server automatically.",
+      },
+      {
+        id: "progress-tracking",
+        title: "Progress Tracking",
+        description: "Real-time sync progress with detailed stage information so you always know what's happening.",
+      },
+      {
+        id: "core-data-storage",
+        title: "Core Data Storage",
+        description: "Efficient local caching for fast access to your library, even when offline metadata is available.",
+      },
+      {
+        id: "offline-downloads",
+        title: "Offline Downloads",
+        description: `Download tracks from Songs, Artists, Search or Up Next and play them from Library → Downloads without a connection. Your server converts downloads to ${TRANSCODE_BITRATE / 1000} kbps AAC, so they take far less space than lossless originals.`,
+        link: "/downloads",
+      },
+    ],
+  },
+];
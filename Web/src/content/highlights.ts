@@ -0,0 +1,32 @@
+import type { Highlight } from "../types/content";
+import { getPlatform, platformStatusLabels } from "./platforms";
+
+const carPlay = getPlatform("carplay");
+
+export const highlights: Highlight[] = [
+  {
+    id: "servers",
+    icon: "🎵",
+    title: "Jellyfin & Emby support",
+    description: "Works seamlessly with your existing media server",
+  },
+  {
+    id: "native",
+    icon: "📱",
+    title: "Native iOS & watchOS apps",
+    description: "Built with SwiftUI for a native experience",
+  },
+  {
+    id: "carplay",
+    icon: carPlay.icon,
+    title: "CarPlay support",
+    description:
+      carPlay.status === "available" ? "Browse and play safely while driving" : platformStatusLabels[carPlay.status],
+  },
+  {
+    id: "privacy",
+    icon: "🔒",
+    title: "Your library, your server",
+    description: "All data stays on your own server",
+  },
+];
@@ -0,0 +1,16 @@
+export { audioFormats, streamRequests, TRANSCODE_BITRATE } from "./audioFormats";
+export { defaultSourceMix, sourceProfiles } from "./downloads";
+export { capabilities, supportLevelLabels } from "./capabilities";
+export { faqCategoryLabels, faqs } from "./faqs";
+export { featureSections } from "./features";
+export { contentTranslations, getContent, getPageMeta, type SiteContent } from "./localized";
+export { faqPages, pages } from "./pages";
+export { getPlatform, platforms, platformStatusLabels } from "./platforms";
+export { highlights } from "./highlights";
+export { privacySections } from "./privacy";
+export { byAppState, byReview, release } from "./release";
+export { screenshots } from "./screenshots";
+export { setupNotes, setupPrerequisites, setupSteps } from "./setup";
+export { site } from "./site";
+export { TROUBLESHOOT_START, troubleshootSteps } from "./troubleshooting";
+export { umbrellaGenreMap } from "./umbrellaGenres";
@@ -0,0 +1,658 @@
+import type { ContentTranslation, PlatformStatus } from "../../types/content";
+import { TRANSCODE_BITRATE } from "../audioFormats";
+import { getPlatform } from "../platforms";
+import { byAppState, byReview } from "../release";
+
+const carPlay = getPlatform("carplay");
+
+const platformStatusLabels: Record<PlatformStatus, string> = {
+  available: "Saadaval",
+  pending: "Ootab Apple'i ülevaatust",
+  future: "Kaalumisel",
+};
+
+const carPlayDescription = byReview("carplay", {
+  pending:
+    "CarPlay tugi on Kartunesis täielikult valmis ja ootab praegu Apple'i heakskiitu. Pärast heakskiitu saad oma muusikakogu sirvida ja taasesitust juhtida otse auto meelelahutussüsteemist.",
+  approved:
+    "CarPlay tugi on Kartunesisse sisse ehitatud. Sirvi oma muusikakogu ja juhi taasesitust otse auto meelelahutussüsteemist.",
+});
+
+export const et: ContentTranslation = {
+  site: {
+    title: "Kartunes - natiivne muusikamängija Jellyfinile ja Embyle",
+    imageAlt: "Kartunesi logo",
+  },
+
+  pages: {
+    "/": {
+      description:
+        "Kuula oma muusikakogu kiire ja natiivse kogemusega iPhone'is ning Apple Watchis. Natiivne Jellyfini ja Emby muusikamängija iOS-ile.",
+    },
+    "/features": {
+      title: "Võimalused",
+      description:
+        "Muusikakogu sirvimine, otsing, esitusjärjekord, Instant Mix, segamine esitaja või žanri järgi, Dynamic Island, Apple Watch ja CarPlay: kõik, mida Kartunes oskab.",
+    },
+    "/screenshots": {
+      title: "Kuvatõmmised",
+      description:
+        "Vaata Kartunesi töös: avaleht, muusikakogu, Praegu mängib, minimängija, otsing ja seaded heledas ning tumedas režiimis.",
+    },
+    "/demo": {
+      title: "Interaktiivne demo",
+      description:
+        "Proovi Kartunesi mängijat oma brauseris: sirvi näidismuusikakogu, koosta esitusjärjekord, sega, korda ja jälgi minimängijat, ilma et serverit oleks vaja.",
+    },
+    "/setup": {
+      title: "Seadistamine",
+      description:
+        "Ühenda Kartunes mõne minutiga oma Jellyfini või Emby serveriga ja kontrolli juba enne paigaldamist, kas sinu serveri aadress tuvastatakse.",
+    },
+    "/troubleshoot": {
+      title: "Veaotsing",
+      description:
+        "Kartunes ei saa serveriga ühendust? Vasta mõnele küsimusele ja leia põhjus, alates sertifikaatidest ja pöördpuhverserveritest kuni rakenduse enda veateadeteni.",
+    },
+    "/platforms": {
+      title: "Platvormid",
+      description: "Kartunes iPhone'is, Apple Watchis ja CarPlays ning platvormid, mida kaalutakse järgmisena.",
+    },
+    "/capabilities": {
+      title: "Võimaluste tabel",
+      description:
+        "Kõik Kartunesi võimalused ja see, kas need töötavad iPhone'is, Apple Watchis ja CarPlays ning Jellyfini ja Embyga.",
+    },
+    "/genres": {
+      title: "Žanrid",
+      description:
+        "Vaata, millisesse katusžanrisse Kartunes iga žanrisildi paigutab, kontrolli oma silte ja paku vaste siltidele, mis satuvad kategooriasse Unknown.",
+    },
+    "/downloads": {
+      title: "Allalaadimised",
+      description:
+        "Kuidas Kartunes laadib lugusid võrguühenduseta kuulamiseks alla ning kalkulaator, mis hindab allalaadimiste mahtu ja voogedastuse andmekasutust.",
+    },
+    "/tools/playlists": {
+      title: "Esitusloendite tööriistad",
+      description:
+        "Impordi M3U-, XSPF- ja CSV-esitusloendid oma Jellyfini või Emby kogusse, kus iga lugu leitakse sinu eest, ning ekspordi Kartunesi meeldivad lood ja esitusloendid.",
+    },
+    "/tools/library-health": {
+      title: "Kogu tervis",
+      description:
+        "Skanni oma Jellyfini või Emby muusikakogu puuduvate albumi artistide, kokku liidetud või tundmatute žanrisiltide, kaanepildita albumite ja kahel viisil kirjutatud artistide suhtes ning paranda need linkide kaudu.",
+    },
+    "/remote": {
+      title: "Kaugjuhtimine",
+      description:
+        "Vaata, mida Kartunes su telefonis mängib, koos kaanepildi ja edenemisega, ning märgi lugu Jellyfini või Emby serveri kaudu mis tahes brauserist meeldivaks.",
+    },
+    "/stats": {
+      title: "Kuulamisstatistika",
+      description:
+        "Sinu enim kuulatud artistid, albumid ja lood, kuulamisaeg ja žanrid sinu Jellyfini või Emby serverist ning ülevaade kogu vormingutest, bitikiirustest ja puuduvatest siltidest.",
+    },
+    "/siri": {
+      title: "Siri häälkäsklused",
+      description:
+        "Mida Sirile öelda, et Kartunesis artiste, albumeid, lugusid ja esitusloendeid esitada või mängiv lugu meeldivaks märkida, koos fraasitestijaga, mis näitab, mida Siri sinu kogust leiaks.",
+    },
+    "/formats": {
+      title: "Helivormingud",
+      description:
+        "Kontrolli, kas Kartunes esitab helifaili muutmata või laseb sinu Jellyfini või Emby serveril selle transkodeerida, ja mida see serveri koormuse ning andmekasutuse mõttes maksab.",
+    },
+    "/privacy": {
+      title: "Privaatsus",
+      description:
+        "Kartunes suhtleb ainult sinu enda Jellyfini või Emby serveriga. Ei mingit analüütikat, jälgimist ega Kartunesi taustserverit.",
+    },
+    "/faq": {
+      title: "KKK",
+      description:
+        "Vastused levinud küsimustele Kartunesi kohta: toetatud serverid, CarPlay, võrguühenduseta kasutus, kaugjuurdepääs, mitu muusikakogu ja vigadest teatamine.",
+    },
+    "/changelog": {
+      title: "Muudatuste logi",
+      description:
+        "Mis on igas Kartunesi versioonis uut: uued võimalused, parandused ning Jellyfini ja Emby ühilduvuse muudatused, koos Atomi ja RSS-voogudega.",
+    },
+    "/support": {
+      title: "Tugi",
+      description: "Teata veast, paku uut võimalust või panusta Kartunesi arendusse GitHubis.",
+    },
+  },
+
+  platformStatusLabels,
+
+  platforms: {
+    iphone: {
+      description:
+        "Kartunesi põhikogemus on loodud iPhone'ile. Naudi täisfunktsionaalset muusikamängijat natiivse SwiftUI liidese, sujuva muusikakogu sirvimise ja võimekate taasesitusjuhikutega. Kõik võimalused on saadaval iOS 16.0 ja uuemates versioonides.",
+    },
+    watch: {
+      description:
+        "Juhi taasesitust randmelt Kartunesi Watchi rakendusega. Ideaalne trenni ja jooksu ajal või siis, kui ei taha telefoni järele haarata.",
+    },
+    carplay: {
+      description: carPlayDescription,
+      note: byReview("carplay", {
+        pending: "CarPlay funktsionaalsus on valmis, kuid selle saadavus sõltub Apple'i App Store'i ülevaatusest.",
+        approved: undefined,
+      }),
+    },
+    ipad: {
+      description: "Uurime natiivset iPadi tuge, et suuremat ekraani paremini ära kasutada.",
+    },
+    tvos: {
+      description: "Apple TV tuge kaalutakse kodus kuulamise jaoks.",
+    },
+  },
+
+  supportLevelLabels: {
+    full: "Toetatud",
+    partial: "Osaliselt toetatud",
+    pending: "Ootab Apple'i ülevaatust",
+    planned: "Plaanis",
+  },
+
+  capabilities: {
+    "library-browsing": {
+      title: "Esitajate, albumite, lugude, žanrite ja esitusloendite sirvimine",
+      notes: { carplay: "Vahekaart Library, kus on Playlists, Genres, Artists, Albums ja Songs" },
+    },
+    search: { title: "Otsing" },
+    recent: {
+      title: "Hiljuti kuulatud ja hiljuti lisatud",
+      notes: { carplay: "Vahekaardil Home" },
+    },
+    "liked-tracks": {
+      title: "Lugude meeldivaks märkimine",
+      notes: { watch: "Märgi meeldivaks parajasti mängiv lugu", carplay: "Ainult Shuffle Liked vahekaardil Home" },
+    },
+    "playlist-editing": { title: "Esitusloendite loomine ja muutmine" },
+    shuffle: {
+      title: "Kõigi lugude, esitaja ja žanri kaupa segamine",
+      notes: { carplay: "Shuffle All ja žanrite segamine vahekaardil Home" },
+    },
+    "instant-mix": {
+      title: "Instant Mix",
+      notes: { watch: "Alusta miksi parajasti mängivast loost", carplay: "Esitajast või albumist" },
+    },
+    queue: { title: "Järjekorra Up Next muutmine" },
+    "playback-controls": {
+      title: "Praegu mängib vaade ja taasesituse juhtimine",
+      notes: { watch: "Esitamine, paus ja vahelejätmine; muusikat mängib iPhone, mis peab olema läheduses" },
+    },
+    "system-controls": {
+      title: "Lukustuskuva, juhtimiskeskus ja Dynamic Island",
+      notes: { iphone: "Dynamic Island iPhone 14 Pro ja uuematel" },
+    },
+    siri: { title: "Muusika esitamine ja lugude meeldivaks märkimine Siriga" },
+    "offline-downloads": {
+      title: "Allalaadimised",
+      notes: { carplay: "Downloads loend vahekaardil Library" },
+    },
+    "all-formats": {
+      title: "Vormingud, mida iOS dekodeerida ei oska, nagu Ogg Vorbis või WMA",
+      notes: {
+        jellyfin: "Server transkodeerib need",
+        emby: "Emby saadab alati algse faili, nii et need vormingud ei mängi",
+      },
+    },
+    "library-sync": { title: "Muusikakogu sünkroonimine koos edenemisega" },
+  },
+
+  featureSections: {
+    library: {
+      title: "Muusikakogu",
+      features: {
+        "browse-by-artists-albums-tracks-genres-and-playlists": {
+          title: "Sirvi esitajate, albumite, lugude, žanrite ja esitusloendite kaupa",
+          description: "Liigu oma muusikakogus hõlpsalt. Korrasta ja avasta oma kogu just nii, nagu soovid.",
+        },
+        search: {
+          title: "Otsing",
+          description: "Leia kiire ja intuitiivse otsinguga lugusid, esitajaid, albumeid ja esitusloendeid.",
+        },
+        "recently-played-recently-added": {
+          title: "Hiljuti mängitud ja hiljuti lisatud",
+          description: "Kiire juurdepääs sinu viimasele muusikale ja hiljuti avastatud lugudele.",
+        },
+        "liked-tracks": {
+          title: "Meeldivad lood",
+          description: "Koosta ja halda oma lemmiklugude loendit ühe puudutusega.",
+        },
+        "genre-browsing": {
+          title: "Žanrite sirvimine",
+          description: "Avasta muusikat žanrite kaupa, mis on koondatud laiematesse kategooriatesse.",
+        },
+      },
+    },
+    playback: {
+      title: "Taasesitus ja kasutajaliides",
+      features: {
+        "native-swiftui-interface": {
+          title: "Natiivne SwiftUI liides",
+          description: "Kaunis ja kaasaegne SwiftUI-ga ehitatud liides tõeliselt natiivse iOS-i kogemuse jaoks.",
+        },
+        "queue-management": {
+          title: "Esitusjärjekorra haldus",
+          description: "Koosta ja halda oma esitusjärjekorda ning otsusta ise, mis järgmisena mängib.",
+        },
+        "shuffle-repeat": {
+          title: "Segamine ja kordamine",
+          description: "Juhi taasesitust segamis- ja kordusrežiimidega just nii, nagu sulle meeldib.",
+        },
+        "shuffle-by-artist": {
+          title: "Segamine esitaja järgi",
+          description: "Avasta muusikat, segades kokku esitaja kogu loomingu.",
+        },
+        "shuffle-by-genre": {
+          title: "Segamine žanri järgi",
+          description: "Avasta muusikat, esitades oma kogust juhuslikke lugusid valitud žanrist.",
+        },
+        "instant-mix": {
+          title: "Instant Mix",
+          description: "Loo esitajate, lugude või albumite põhjal nutikaid esitusloendeid.",
+        },
+        "now-playing": {
+          title: "Praegu mängib",
+          description: "Kaunis täisekraanil Praegu mängib vaade albumikujunduse ja taasesitusjuhikutega.",
+        },
+        "mini-player": {
+          title: "Minimängija",
+          description: "Kiire juurdepääsuga mängija, mis on rakenduses alati käepärast.",
+        },
+        "dynamic-island-lock-screen-controls": {
+          title: "Dynamic Island ja lukustuskuva juhikud",
+          description:
+            "Taasesitusjuhikud Dynamic Islandis (iPhone 14 Pro ja uuemad) ning taasesituse juhtimine lukustuskuvalt.",
+        },
+        "control-center": {
+          title: "Juhtimiskeskus",
+          description: "Kiire juurdepääs juhtimiskeskusest sujuvaks taasesituse juhtimiseks.",
+        },
+        siri: {
+          title: "Siri",
+          description:
+            "Palu Siril esitada artisti, albumit, lugu või esitusloendit, soovi korral segatult, või märkida mängiv lugu meeldivaks.",
+        },
+        "theme-support": {
+          title: "Teemad",
+          description: "Hele, tume ja süsteemi teema vastavalt sinu eelistustele.",
+        },
+      },
+    },
+    servers: {
+      title: "Serverite tugi",
+      features: {
+        "jellyfin-emby": {
+          title: "Jellyfin ja Emby",
+          description:
+            "Töötab sujuvalt nii Jellyfini kui ka Emby muusikakogudega. Rakendus tuvastab serveri tüübi automaatselt ja kohandub vastavalt.",
+        },
+        "your-existing-library": {
+          title: "Sinu olemasolev muusikakogu",
+          description: "Loeb sinu olemasolevad esitajad, albumid, lood ja esitusloendid otse sinu meediaserverist.",
+        },
+      },
+    },
+    companions: {
+      title: "Kaasseadmed",
+      features: {
+        "apple-watch": {
+          description:
+            "Juhi taasesitust randmelt. Vaata praegu mängiva loo teavet ja halda taasesitust ilma telefoni järele haaramata. Ideaalne trenni ajal ja liikvel olles kuulamiseks.",
+        },
+        carplay: {
+          description:
+            "Täielik CarPlay lõimimine ohutuks ja käed-vabaks muusika juhtimiseks sõidu ajal. Sirvi oma muusikakogu ja juhi taasesitust otse auto meelelahutussüsteemist.",
+        },
+      },
+    },
+    sync: {
+      title: "Sünkroonimine ja salvestus",
+      features: {
+        "automatic-library-sync": {
+          title: "Automaatne muusikakogu sünkroonimine",
+          description: "Hoia oma muusikakogu meediaserveriga automaatselt ajakohasena.",
+        },
+        "progress-tracking": {
+          title: "Edenemise jälgimine",
+          description: "Sünkroonimise edenemine reaalajas koos etappide üksikasjadega, et teaksid alati, mis toimub.",
+        },
+        "core-data-storage": {
+          title: "Core Data salvestus",
+          description:
+            "Tõhus kohalik vahemälu kiireks juurdepääsuks sinu muusikakogule; metaandmed on saadaval ka võrguühenduseta.",
+        },
+        "offline-downloads": {
+          title: "Allalaadimised",
+          description: `Laadi lugusid alla vaadetest Songs, Artists, Search või Up Next ja esita neid ilma ühenduseta vaatest Library → Downloads. Server teisendab allalaadimised ${TRANSCODE_BITRATE / 1000} kbit/s AAC-vormingusse, nii et need võtavad palju vähem ruumi kui kadudeta originaalid.`,
+        },
+      },
+    },
+  },
+
+  highlights: {
+    servers: {
+      title: "Jellyfini ja Emby tugi",
+      description: "Töötab sujuvalt sinu olemasoleva meediaserveriga",
+    },
+    native: {
+      title: "Natiivsed iOS-i ja watchOS-i rakendused",
+      description: "Ehitatud SwiftUI-ga natiivse kogemuse jaoks",
+    },
+    carplay: {
+      title: "CarPlay tugi",
+      description:
+        carPlay.status === "available" ? "Sirvi ja kuula ohutult sõidu ajal" : platformStatusLabels[carPlay.status],
+    },
+    privacy: {
+      title: "Sinu muusikakogu, sinu server",
+      description: "Kõik andmed jäävad sinu enda serverisse",
+    },
+  },
+
+  faqCategoryLabels: {
+    servers: "Serverid",
+    playback: "Taasesitus",
+    privacy: "Privaatsus",
+    platforms: "Platvormid",
+    troubleshooting: "Veaotsing",
+  },
+
+  faqs: {
+    "supported-servers": {
+      question: "Milliseid servereid Kartunes toetab?",
+      answer:
+        "Kartunes toetab nii Jellyfini kui ka Emby meediaservereid. Rakendus tuvastab ühendamisel serveri tüübi automaatselt ja kohandub vastavalt. Vajad serverit, kus on seadistatud vähemalt üks muusikakogu.\n\nPole kindel, kas sinu aadress töötab? Proovi seadistamise lehel [serveri kontrolli](/setup).",
+    },
+    account: {
+      question: "Kas mul on vaja veel üht kontot?",
+      answer:
+        "Ei, Kartunesi kontot pole vaja. Kasutad ainult oma olemasolevaid Jellyfini või Emby sisselogimisandmeid. Kartunes ühendub sinu olemasoleva kontoga otse sinu serveriga.",
+    },
+    carplay: {
+      question: "Kas CarPlay on toetatud?",
+      answer: `${carPlayDescription} Lahendus sisaldab muusikakogu sirvimist ja täielikke taasesitusjuhikuid.`,
+    },
+    "library-storage": {
+      question: "Kas Kartunes salvestab või laadib mu muusikakogu kuhugi üles?",
+      answer:
+        "Ei. Kartunes ei salvesta ega laadi sinu meediat ega muusikakogu metaandmeid ühessegi välisesse teenusesse. Kogu muusika voogedastatakse otse sinu enda Jellyfini või Emby serverist. Muusikakogu metaandmed puhverdatakse kiireks juurdepääsuks sinu seadmes, kuid need andmed ei lahku kunagi sinu seadmest.",
+    },
+    android: {
+      question: "Kas Androidi tugi on olemas?",
+      answer:
+        "Ei, Kartunes on praegu ainult iOS-ile. Rakendus on ehitatud SwiftUI-ga ja loodud spetsiaalselt iOS-i ökosüsteemi jaoks, sealhulgas iPhone'i, Apple Watchi ja CarPlay jaoks. Androidi tuge praegu ei plaanita.",
+    },
+    offline: {
+      question: "Kas Kartunesi saab kasutada võrguühenduseta?",
+      answer: `Jah, allalaadimistega. Ava loo menüü vaates Songs, Artists, Search või Up Next ja vali Download Offline. Allalaaditud lood on loendis Library → Downloads, kus Play All Offline ja Shuffle Offline esitavad neid sinu seadmest ilma ühenduseta.\n\nServer teisendab allalaadimised ${TRANSCODE_BITRATE / 1000} kbit/s AAC-vormingusse. [Allalaadimiste kalkulaator](/downloads) hindab, kui palju ruumi need võtavad ja kui palju andmeid kuluks selle asemel voogedastusele.\n\nPuhverdatud muusikakogu metaandmed (esitajad, albumid, lugude loendid) on võrguühenduseta sirvitavad, kuid lood, mida ei käivitata allalaadimiste vaatest, voogedastatakse serverist ja vajavad ühendust.`,
+    },
+    "ios-version": {
+      question: "Millist iOS-i versiooni on vaja?",
+      answer:
+        "Kartunes vajab iOS 16.0 või uuemat versiooni. See tagab ühilduvuse kaasaegsete SwiftUI võimaluste ja rakenduses kasutatavate uusimate iOS-i liidestega.",
+    },
+    "remote-access": {
+      question: "Kuidas oma serveriga väljastpoolt koduvõrku ühenduda?",
+      answer:
+        "Väljastpoolt kohtvõrku ühendumiseks pead seadistama oma Jellyfini või Emby serverile kaugjuurdepääsu. Tavaliselt tähendab see üht järgmistest:\n\n- Pordi suunamine ruuteris\n- Pöördpuhverserver, näiteks nginx või Caddy\n- VPN-ühendus koduvõrku\n\nKodus saad kasutada kohalikku aadressi, näiteks `http://192.168.1.100:8096`. Kodust eemal veendu turvaliste ühenduste jaoks, et server on kättesaadav HTTPS-i kaudu, näiteks `https://jellyfin.example.com`.",
+    },
+    "multiple-libraries": {
+      question: "Kas Kartunes töötab mitme muusikakoguga?",
+      answer:
+        "Jah. Kui sinu Jellyfini või Emby serveris on seadistatud mitu muusikakogu, laseb Kartunes esimesel ühendamisel valida, millist kasutada. Muusikakogu vahetamiseks eemalda serveri seadistus ja lisa see uuesti.",
+    },
+    "genre-categories": {
+      question: "Miks on žanr vales kategoorias?",
+      answer:
+        "Kartunes rühmitab žanrisildid avalehe ja žanripõhise segamise jaoks katusžanritesse, nagu Electronic, Rock või Jazz. Silte normaliseeritakse enne otsingut, nii et „Techno (Peak Time)” otsitakse kui „techno” ja see satub kategooriasse Electronic. Sildid, mida rakendus ei tunne, satuvad kategooriasse Unknown.\n\n[Žanrikaart](/genres) näitab kõiki kategooriaid ja seda, kuhu sinu sildid satuvad, ning laseb pakkuda vaste siltidele, mis satuvad kategooriasse Unknown.",
+    },
+    "report-a-bug": {
+      question: "Kuidas veast teatada või uut võimalust soovida?",
+      answer:
+        "Ava palun GitHubis teema aadressil https://github.com/KartulUdus/Kartunes/issues. Enne teema avamist veendu, et kasutad rakenduse uusimat versiooni, ja kontrolli, kas sarnane teema on juba olemas. Veast teatades lisa:\n\n- Oma seadme mudel ja iOS-i versioon\n- Serveri tüüp (Jellyfin või Emby) ja versioon\n- Sammud probleemi taasesitamiseks",
+    },
+  },
+
+  screenshots: {
+    "home-view": { name: "Avaleht", caption: "Sirvi oma muusikakogu hõlpsalt" },
+    "library-view": { name: "Muusikakogu", caption: "Liigu esitajate, albumite ja lugude vahel" },
+    "now-playing": { name: "Praegu mängib", caption: "Täisekraanil Praegu mängib vaade albumikujundusega" },
+    "mini-player": { name: "Minimängija", caption: "Kiire juurdepääsuga mängija kogu rakenduses" },
+    search: { name: "Otsing", caption: "Leia kiiresti lugusid, esitajaid ja albumeid" },
+    settings: { name: "Seaded", caption: "Kohanda rakendust oma maitse järgi" },
+  },
+
+  setupPrerequisites: [
+    "Töötav Jellyfini või Emby server, kus on seadistatud muusikakogu",
+    "Võrguühendus sinu meediaserveriga (kohtvõrgus või kaugjuurdepääsuga)",
+    "iOS-i seade, milles on iOS 16.0 või uuem",
+  ],
+
+  setupSteps: {
+    install: {
+      title: "Paigalda Kartunes",
+      body: byAppState({
+        unreleased:
+          "Kartunes jõuab peagi App Store'i. Seni saad selle [lähtekoodist](https://github.com/KartulUdus/Kartunes) ise ehitada.",
+        testflight:
+          "Kartunes on avalikus beetatestis. Liitu TestFlightis alloleva nupuga või ehita see [lähtekoodist](https://github.com/KartulUdus/Kartunes).",
+        appStore:
+          "Laadi Kartunes alla App Store'ist alloleva nupuga või ehita see [lähtekoodist](https://github.com/KartulUdus/Kartunes).",
+      }),
+    },
+    "server-url": {
+      title: "Sisesta serveri URL",
+      body: "Ava rakendus ja sisesta oma Jellyfini või Emby serveri URL. See võib olla kohalik IP-aadress (nt `http://192.168.1.100:8096`) või domeen (nt `https://jellyfin.example.com`).",
+    },
+    "log-in": {
+      title: "Logi sisse",
+      body: "Sisesta oma Jellyfini või Emby kasutajanimi ja parool. Rakendus tuvastab serveri tüübi automaatselt.",
+    },
+    "choose-library": {
+      title: "Vali muusikakogu",
+      body: "Kui serveris on seadistatud mitu muusikakogu, vali, millist neist soovid kasutada.",
+    },
+    "start-playing": {
+      title: "Hakka kuulama",
+      body: "Sinu muusikakogu sünkroonimine algab automaatselt. Kui see on valmis, saad oma muusikat avastama ja kuulama hakata!",
+    },
+  },
+
+  setupNotes: {
+    "your-data": {
+      title: "Sinu andmed, sinu server",
+      body: "Kartunes ühendub otse sinu Jellyfini/Emby serveriga ega hosti ega salvesta sinu meediat. Kõik voogedastatakse sinu enda serverist. Ühtegi meediafaili ega metaandmeid ei laadita Kartunesi taustserverisse.",
+    },
+    "remote-access": {
+      title: "Kaugjuurdepääs",
+      body: "Väljastpoolt kohtvõrku ühendumiseks pead seadistama oma serverile kaugjuurdepääsu. Tavaliselt tähendab see pordi suunamist, pöördpuhverserverit või VPN-i. Turvaliste ühenduste jaoks veendu, et server on kättesaadav HTTPS-i kaudu.\n\n[Pöördpuhverserveri seadistuse generaator](/setup#proxy-config) kirjutab sinu serverile valmis nginxi, Caddy, Traefiku või Apache seadistuse.",
+    },
+    https: {
+      title: "SSL/HTTPS",
+      body: "Kuigi kohtvõrgus pole see rangelt vajalik, on HTTPS-i kasutamine turvalisuse huvides soovitatav, eriti kui pöördud serveri poole väljastpoolt. Enamik kaasaegseid Jellyfini ja Emby seadistusi toetab SSL-sertifikaate. Lihtsaim viis need lisada on pöördpuhverserver; [seadistuse generaator](/setup#proxy-config) seab selle üles tasuta Let's Encrypti sertifikaadiga.",
+    },
+  },
+
+  troubleshootSteps: {
+    lan: {
+      question: "Kas serveri veebiliides avaneb kodus?",
+      detail:
+        "Ava serveriga samas võrgus oleva arvuti või telefoni brauseris serveri kohalik aadress, nt http://192.168.1.100:8096.",
+      answers: {
+        "lan-ok": "Jah, see avaneb",
+        "lan-fails": "Ei, see ei avane",
+      },
+    },
+    remote: {
+      question: "Kas see avaneb HTTPS-i kaudu väljastpoolt kodu?",
+      detail: "Lülita telefonis Wi-Fi välja ja ava Safaris serveri avalik aadress, nt https://music.example.com.",
+      answers: {
+        "https-ok": "Jah, ilma hoiatusteta",
+        "https-warning": "Avaneb, kuid Safari hoiatab sertifikaadi eest",
+        "https-fails": "Ei, see ei avane",
+        "home-only": "Kasutan Kartunesi ainult kodus",
+      },
+    },
+    "remote-setup": {
+      question: "Kuidas on server väljastpoolt kättesaadav?",
+      answers: {
+        "no-remote": "Ei olegi, ma pole midagi seadistanud",
+        "reverse-proxy": "Pöördpuhverserveriga minu domeenil",
+        "port-forward": "Suunan ruuteris serveri pordi edasi",
+      },
+    },
+    "app-message": {
+      question: "Mis juhtub, kui sisestad aadressi Kartunesis?",
+      detail: "Vali teade, mida rakendus serveri aadressi all näitab.",
+      answers: {
+        "invalid-url": "Aadress lükatakse tagasi",
+        "network-error": "Võrguviga",
+        "invalid-response": "Vigane vastus",
+        "not-found": "Serverit ei leitud",
+        "http-error": "HTTP veakood",
+        "parse-error": "Vastust ei õnnestu lugeda",
+        "unknown-type": "Serveri tüüpi ei tunta ära",
+        "no-server": "Ühilduvat serverit pole",
+        connects: "Ühendus õnnestub ja saan sisse logida",
+      },
+    },
+    playback: {
+      question: "Kas muusika mängib?",
+      answers: {
+        plays: "Jah, kõik töötab",
+        stalls: "Taasesitus algab, kuid takerdub või hüppab",
+        "never-starts": "Midagi ei hakka kunagi mängima",
+        "some-tracks": "Mõned lood mängivad, teised mitte",
+      },
+    },
+
+    "server-down": {
+      title: "Pane server kõigepealt kodus tööle",
+      body: "Kartunes saab ühenduda ainult serveriga, mis töötab ja on kättesaadav. Kontrolli, et:\n\n- Jellyfini või Emby teenus töötab. Taaskäivita see või kontrolli konteineris töötamisel käsuga `docker ps`\n- kasutad serveri praegust IP-aadressi ja porti. Nii Jellyfin kui ka Emby kuulavad HTTP-d vaikimisi pordil `8096`\n- ükski serverimasina tulemüür ei blokeeri seda porti\n\nKui veebiliides kodus avaneb, alusta veaotsingut uuesti.",
+    },
+    "local-only": {
+      title: "Kasuta kohalikku aadressi või seadista kaugjuurdepääs",
+      body: "Ilma kaugjuurdepääsuta on server kättesaadav ainult kodus. Sisesta Kartunesis selle kohalik aadress, nt `http://192.168.1.100:8096`.\n\nEt kodust eemal kuulata, kas:\n\n- ühendu koduvõrguga VPN-iga, nt WireGuardi või Tailscale'iga, ja kasuta edasi kohalikku aadressi, või\n- pane server HTTPS-iga pöördpuhverserveri taha. [Seadistuse generaator](/setup#proxy-config) kirjutab seadistuse sinu eest",
+    },
+    "proxy-unreachable": {
+      title: "Tee pöördpuhverserver kättesaadavaks",
+      body: "- Kontrolli, et domeeni DNS-kirje osutab sinu praegusele avalikule IP-aadressile. Koduaadressid muutuvad; dünaamilise DNS-i teenus hoiab kirje ajakohasena\n- Suuna ruuteris pordid 80 ja 443 puhverserverit käitavale masinale\n- Mõned internetiteenuse pakkujad kasutavad CGNAT-i, mis blokeerib sissetulevad ühendused täielikult. Kui ruuteri WAN-aadress erineb sellest, mida näitavad „mis on minu IP” saidid, kasuta hoopis VPN-i või tunnelit\n- Testi mobiilse andmesidega, mitte kodu Wi-Fi kaudu: paljud ruuterid ei oska enda avalikule aadressile tagasi ühenduda\n\nKui puhverserver ise võib olla valesti seadistatud, võrdle seda [generaatori](/setup#proxy-config) loodud seadistusega.",
+    },
+    "port-forwarding": {
+      title: "Pane suunatud pordi ette HTTPS",
+      body: "Pordi `8096` otse serverisse suunamine saadab sinu parooli ja muusika krüptimata ning iOS võib avalikele aadressidele tavalised HTTP-ühendused keelata. Pane selle asemel ette HTTPS-iga pöördpuhverserver ([seadistuse generaator](/setup#proxy-config) kirjutab selle) või kasuta VPN-i.\n\nKui jätad pordisuunamise alles, kontrolli, et reegel osutab serveri praegusele kohalikule IP-le, ja testi mobiilse andmesidega, mitte kodu Wi-Fi kaudu.",
+    },
+    certificate: {
+      title: "Paranda sertifikaat",
+      body: "iOS keeldub ühendustest, mis annavad sertifikaadihoiatuse, nii et Kartunes teatab võrguveast.\n\n- Iseallkirjastatud sertifikaadid ei tööta. Kasuta tasuta Let's Encrypti sertifikaati: Caddy hangib selle ise ja [seadistuse generaator](/setup#proxy-config) näitab teiste puhverserverite puhul, kuhu see käib\n- Sertifikaat peab katma täpselt selle domeeni, mille rakendusse sisestad\n- Uuenda aegunud sertifikaadid ja serveeri kogu ahelat (nginxiga `fullchain.pem`), mitte ainult serveri sertifikaati",
+    },
+    "invalid-url": {
+      title: "Kontrolli, kuidas aadress on kirjutatud",
+      body: "Sisesta aadress nii, nagu avaksid selle brauseris, nt `https://music.example.com` või `http://192.168.1.100:8096`. Otsi trükivigu ja üleliigseid tühikuid ning lisa port, kui sa ei kasuta puhverserverit. Ära lisa `/web` ega muid teid, välja arvatud juhul, kui server asub alamteel, nt `/jellyfin`.",
+    },
+    "network-error": {
+      title: "Rakendus ei jõudnud serverini",
+      body: "Ühendus katkes enne, kui server vastas. Levinud põhjused:\n\n- Oled kodust eemal, kuid sisestasid kohaliku aadressi, nt `192.168.x.x`. Kasuta avalikku aadressi või ühendu VPN-i kaudu\n- HTTPS-sertifikaat on iseallkirjastatud, aegunud või välja antud teisele nimele\n- Aadress kasutab avaliku serveri puhul tavalist `http://`, mille iOS võib blokeerida\n- Server või puhverserver ei tööta või tulemüür blokeerib pordi\n\n[Serveri kontrollija](/setup#check-server) proovib samu aadresse nagu rakendus ja näitab, milline neist see on.",
+    },
+    "invalid-response": {
+      title: "Vastas midagi muud kui sinu server",
+      body: "Aadress vastas, kuid mitte kasutatava HTTP-vastusega. Tavaliselt on ees puhverserver, sisselogimisportaal või ruuteri sisselogimisleht või kasutatakse `https://` pordil, mis räägib ainult HTTP-d (või vastupidi). Proovi teist skeemi ja kontrolli, et puhverserver suunab meediaserveri HTTP-pordile.",
+    },
+    "not-found": {
+      title: "Sellel teel pole Jellyfini ega Embyt",
+      body: "Aadress vastas päringule `/System/Info/Public` veaga 404, nii et veebiserver on olemas, kuid sinu meediaserver pole sellel teel.\n\n- Kui server asub alamteel, lisa see, nt `https://example.com/jellyfin`. Jellyfini puhul peab sama alamtee olema seatud Base URL-iks jaotises Dashboard → Networking\n- Kontrolli, et puhverserver edastab tee muutmata\n- Kartunes proovib ise uuesti teel `/emby`, nii et Emby vaiketeel töötab ka ilma selleta",
+    },
+    "http-error": {
+      title: "Server või puhverserver tagastas vea",
+      body: "- **401 või 403**: serveri ees olev autentimiskiht (basic auth, Authelia, Cloudflare Access) blokeerib rakenduse. Lase meediaserveri API läbi või kasuta hoopis VPN-i\n- **502, 503 või 504**: puhverserver töötab, kuid ei jõua meediaserverini. Kontrolli sihthosti ja -porti ning seda, et server töötab\n- **500**: viga tekkis meediaserveris endas; selle logi ütleb, miks",
+    },
+    "decoding-error": {
+      title: "Vastus polnud serveri teave",
+      body: "Aadress tagastas midagi, mida Kartunes ei saanud lugeda Jellyfini ega Emby serveri teabena, tavaliselt samal aadressil oleva puhverserveri, ruuteri või muu veebirakenduse HTML-lehe. Ava brauseris `<sinu aadress>/System/Info/Public`: see peaks näitama lühikest JSON-dokumenti väljadega `ProductName` ja `Version`.",
+    },
+    "unknown-server-type": {
+      title: "See pole Jellyfini ega Emby server",
+      body: "Server vastas, kuid selle `ProductName` pole Jellyfin ega Emby ja Kartunes toetab ainult neid kahte. Kontrolli, et aadress ei osuta samas masinas või pordil töötavale muule teenusele.",
+    },
+    "no-compatible-server": {
+      title: "Ükski aadress ei töötanud",
+      body: "Kartunes proovis sinu aadressi nii `https://` kui ka `http://` skeemiga, mõlemat nii koos teega `/emby` kui ka ilma, ja ükski neist ei vastanud nagu Jellyfin või Emby. Käivita [serveri kontrollija](/setup#check-server): see proovib samu aadresse ja näitab, mida igaüks neist tagastas.",
+    },
+    "all-good": {
+      title: "Kõik on valmis",
+      body: "Tore, et see töötab! [KKK](/faq) vastab levinud küsimustele ja kui miski muu on valesti, saad sellest teatada [tugilehel](/support).",
+    },
+    stalls: {
+      title: "Hoia voog liikumas",
+      body: "- Lülita pöördpuhverserveris vastuste puhverdamine välja (nginxis `proxy_buffering off`) ja suurenda lugemise ajalõppu. [Seadistuse generaator](/setup#proxy-config) teeb mõlemat\n- Kui server ei saa faili muutmata voogedastada, palub Kartunes sel transkodeerida 320 kbit/s AAC-vormingusse. Kontrolli, et serveril jätkub taasesituse ajal protsessori jõudu\n- Nõrga ühenduse korral laadi albumid enne lahkumist võrguühenduseta kuulamiseks alla",
+    },
+    "no-playback": {
+      title: "Taasesitus ei alga kunagi",
+      body: "- Veendu serveri kasutajaseadetes, et sinu kasutajal on lubatud meediat esitada ja, kui server seda nõuab, transkodeerida\n- Otsi serveri juhtpaneelilt või logist transkodeerimisvigu, näiteks puuduvat või katkist FFmpegi\n- Puhverserveri puhul veendu, et see ei piira vastuste suurust ega eemalda päist `Range`",
+    },
+    "some-tracks": {
+      title: "Mõnda faili ei saa esitada",
+      body: "Faile, mida iOS otse esitada ei saa, transkodeerib Jellyfin, kuid Emby saadab need muutmata ja need ei mängi. Kontrolli mõnda mittemängivat faili lehel [Helivormingud](/formats), et näha, kumb juhtum kehtib.\n\nJellyfini puhul otsi serveri logist nende failide transkodeerimisvigu ja kontrolli, et sinu kasutajal on transkodeerimine lubatud. Fail, mis ei mängi ka serveri enda veebiliideses, on tavaliselt vigane.",
+    },
+  },
+
+  privacySections: {
+    "data-sources": {
+      title: "Andmeallikad",
+      body: "Kartunes ühendub otse sinu Jellyfini või Emby serveriga ega hosti ega salvesta sinu meediat. Kogu muusika, metaandmed ja muusikakogu teave laaditakse otse sinu enda serverist. Ühtegi meediafaili ega metaandmeid ei laadita Kartunesi taustserverisse ega kolmanda osapoole teenusesse.",
+    },
+    analytics: {
+      title: "Analüütika ja jälgimine",
+      body: "**Kartunes ei kasuta kolmanda osapoole analüütikat ega reklaami.** Rakendus ei kogu kasutusstatistikat, krahhiraporteid ega muid kasutaja käitumise andmeid. Sinu kuulamisharjumused ja rakenduse kasutus jäävad täiesti privaatseks.",
+    },
+    "personal-data": {
+      title: "Isikuandmed",
+      body: `Kartunes salvestab sinu seadmes järgmist teavet:
+
+- **Serveri sisselogimisandmed:** sinu serveri URL, kasutajanimi ja autentimislubad hoitakse turvaliselt seadme võtmehoidjas. Neid ei edastata kunagi ühelegi teisele serverile peale sinu enda Jellyfini või Emby.
+- **Muusikakogu metaandmed:** esitajate, albumite, lugude ja esitusloendite teave puhverdatakse kiireks juurdepääsuks Core Data abil. Need andmed sünkroonitakse sinu serverist ja neid hoitakse ainult sinu seadmes.
+- **Rakenduse eelistused:** seaded, nagu teema, sortimine ja taasesituse eelistused, salvestatakse sinu seadmes.
+
+Kõik need andmed jäävad sinu seadmesse ja neid ei jagata kunagi kolmandate osapooltega ega laadita ühessegi välisesse teenusesse.`,
+    },
+    network: {
+      title: "Võrgusuhtlus",
+      body: `Kartunes suhtleb ainult:
+
+- sinu Jellyfini või Emby serveriga (muusikakogu andmete ja meedia voogedastuse jaoks)
+- GitHubiga (uuenduste kontrollimiseks, kui paigaldasid rakenduse lähtekoodist)
+
+Muid võrguühendusi rakendus ei loo.`,
+    },
+    "third-party": {
+      title: "Kolmanda osapoole teenused",
+      body: "Kartunes ei kasuta ühtegi kolmanda osapoole analüütika-, reklaami- ega jälgimisteenust. Rakendus on loodud täiesti iseseisvaks ja privaatsust hoidvaks.",
+    },
+    website: {
+      title: "See veebisait",
+      body: `See sait on majutatud GitHub Pagesis ja laadib oma skripte, stiile ja pilte ainult sealt. Sait ei sea küpsiseid ega kasuta analüütikat. Sinu teema- ja keelevalik ning pooleli jäänud veateade hoitakse sinu brauseri kohalikus salvestusruumis.
+
+- Serveri kontrollija ja teised seadistustööriistad ühenduvad otse sinu brauserist ainult serveriga, mille sa sisestad.
+- Ko-fi annetuspaneel ja GitHubi tähtede arv näidatakse kohatäidetena ning need laaditakse alles siis, kui klõpsad **Laadi**. [Allpool olevad seaded](/privacy#consent) näitavad, milliseid palusid alati laadida.`,
+    },
+    "your-rights": {
+      title: "Sinu õigused",
+      body: `Kuna kõik andmed on salvestatud sinu seadmes, on kontroll täielikult sinu käes:
+
+- Võid rakenduse igal ajal kustutada, mis eemaldab kõik salvestatud andmed
+- Võid puhverdatud muusikakogu andmed rakenduse seadetes tühjendada
+- Võid serveri juurdepääsu tühistada, eemaldades serveri seadistuse`,
+    },
+    questions: {
+      title: "Küsimused",
+      body: "Kui sul on küsimusi privaatsuse või andmete käsitlemise kohta, ava palun teema [GitHubis](https://github.com/KartulUdus/Kartunes/issues).",
+    },
+  },
+};
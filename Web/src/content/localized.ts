@@ -0,0 +1,130 @@
+import { DEFAULT_LOCALE, type Locale } from "../i18n/locales";
+import type {
+  Capability,
+  CapabilityTarget,
+  ContentTranslation,
+  FAQCategory,
+  FAQItem,
+  FeatureSection,
+  Highlight,
+  InfoSection,
+  PageMeta,
+  Platform,
+  PlatformStatus,
+  Screenshot,
+  SetupStep,
+  SupportLevel,
+  TroubleshootStep,
+} from "../types/content";
+import { capabilities, supportLevelLabels } from "./capabilities";
+import { faqCategoryLabels, faqs } from "./faqs";
+import { featureSections } from "./features";
+import { highlights } from "./highlights";
+import { faqPagesFor, pages } from "./pages";
+import { platforms, platformStatusLabels } from "./platforms";
+import { privacySections } from "./privacy";
+import { screenshots } from "./screenshots";
+import { setupNotes, setupPrerequisites, setupSteps } from "./setup";
+import { site } from "./site";
+import { troubleshootSteps } from "./troubleshooting";
+import { et } from "./locales/et";
+
+/** Content translations by locale; English is the content modules themselves */
+export const contentTranslations: Partial<Record<Locale, ContentTranslation>> = { et };
+
+export interface SiteContent {
+  site: typeof site;
+  pages: PageMeta[];
+  faqPages: PageMeta[];
+  platformStatusLabels: Record<PlatformStatus, string>;
+  platforms: Platform[];
+  supportLevelLabels: Record<SupportLevel, string>;
+  capabilities: Capability[];
+  featureSections: FeatureSection[];
+  highlights: Highlight[];
+  faqCategoryLabels: Record<FAQCategory, string>;
+  faqs: FAQItem[];
+  screenshots: Screenshot[];
+  setupPrerequisites: string[];
+  setupSteps: SetupStep[];
+  setupNotes: InfoSection[];
+  privacySections: InfoSection[];
+  troubleshootSteps: TroubleshootStep[];
+}
+
+function localize<T>(entries: T[], key: (entry: T) => string, translations?: Record<string, Partial<NoInfer<T>>>): T[] {
+  return entries.map((entry) => ({ ...entry, ...translations?.[key(entry)] }));
+}
+
+function translateContent(translation: ContentTranslation = {}): SiteContent {
+  const localizedFAQs = localize(faqs, (faq) => faq.slug, translation.faqs);
+
+  return {
+    site: { ...site, ...translation.site },
+    pages: localize(pages, (page) => page.path, translation.pages),
+    faqPages: faqPagesFor(localizedFAQs),
+    platformStatusLabels: { ...platformStatusLabels, ...translation.platformStatusLabels },
+    platforms: localize(platforms, (platform) => platform.id, translation.platforms),
+    supportLevelLabels: { ...supportLevelLabels, ...translation.supportLevelLabels },
+    capabilities: capabilities.map((capability) => {
+      const { title, notes } = translation.capabilities?.[capability.id] ?? {};
+      return {
+        ...capability,
+        title: title ?? capability.title,
+        support: Object.fromEntries(
+          Object.entries(capability.support).map(([target, support]) => [
+            target,
+            { ...support, note: notes?.[target as CapabilityTarget] ?? support.note },
+          ])
+        ),
+      };
+    }),
+    featureSections: featureSections.map((section) => {
+      const sectionTranslation = translation.featureSections?.[section.id];
+      return {
+        ...section,
+        title: sectionTranslation?.title ?? section.title,
+        features: localize(section.features, (feature) => feature.id, sectionTranslation?.features),
+      };
+    }),
+    highlights: localize(highlights, (highlight) => highlight.id, translation.highlights),
+    faqCategoryLabels: { ...faqCategoryLabels, ...translation.faqCategoryLabels },
+    faqs: localizedFAQs,
+    screenshots: localize(screenshots, (screenshot) => screenshot.id, translation.screenshots),
+    setupPrerequisites: setupPrerequisites.map((item, index) => translation.setupPrerequisites?.[index] ?? item),
+    setupSteps: localize(setupSteps, (step) => step.id, translation.setupSteps),
+    setupNotes: localize(setupNotes, (note) => note.id, translation.setupNotes),
+    privacySections: localize(privacySections, (section) => section.id, translation.privacySections),
+    troubleshootSteps: troubleshootSteps.map((step) => {
+      const { answers, ...text } = translation.troubleshootSteps?.[step.id] ?? {};
+      if (step.kind === "fix") {
+        return { ...step, title: text.title ?? step.title, body: text.body ?? step.body };
+      }
+      return {
+        ...step,
+        question: text.question ?? step.question,
+        detail: text.detail ?? step.detail,
+        answers: step.answers.map((answer) => ({ ...answer, label: answers?.[answer.id] ?? answer.label })),
+      };
+    }),
+  };
+}
+
+const cache = new Map<Locale, SiteContent>();
+
+/** The site content in a locale, falling back to English for anything untranslated */
+export function getContent(locale: Locale): SiteContent {
+  let content = cache.get(locale);
+  if (!content) {
+    content = translateContent(contentTranslations[locale]);
+    cache.set(locale, content);
+  }
+  return content;
+}
+
+/** Metadata for an unprefixed route path, e.g. `/faq` or `/faq/offline` */
+export function getPageMeta(path: string, locale: Locale = DEFAULT_LOCALE): PageMeta | undefined {
+  const normalized = path.length > 1 ? path.replace(/\/+$/, "") : path;
+  const content = getContent(locale);
+  return [...content.pages, ...content.faqPages].find((page) => page.path === normalized);
+}
@@ -0,0 +1,163 @@
+import type { Locale } from "../i18n/locales";
+import { translator } from "../i18n/messages";
+import type { ChangelogEntry } from "../types/changelog";
+import type { FAQItem, PageMeta } from "../types/content";
+import { changelogPageCount, changelogPagePath, releasePath } from "../utils/changelog";
+import { richTextToPlainText } from "../utils/richText";
+import { faqs } from "./faqs";
+
+export const pages: PageMeta[] = [
+  {
+    path: "/",
+    title: "Kartunes",
+    description:
+      "Stream your own music library with a fast, native experience on iPhone and Apple Watch. A native Jellyfin & Emby music player for iOS.",
+  },
+  {
+    path: "/features",
+    title: "Features",
+    description:
+      "Library browsing, search, queue management, Instant Mix, shuffle by artist or genre, Dynamic Island, Apple Watch and CarPlay: everything Kartunes can do.",
+  },
+  {
+    path: "/screenshots",
+    title: "Screenshots",
+    description: "See Kartunes in action: home, library, Now Playing, mini player, search and settings in light and dark mode.",
+  },
+  {
+    path: "/demo",
+    title: "Interactive Demo",
+    description:
+      "Try the Kartunes player in your browser: browse a sample library, build a queue, shuffle, repeat and follow the mini player, with no server needed.",
+  },
+  {
+    path: "/setup",
+    title: "Setup",
+    description:
+      "Connect Kartunes to your Jellyfin or Emby server in minutes, and check that your server address will be detected before you install.",
+  },
+  {
+    path: "/troubleshoot",
+    title: "Troubleshooting",
+    description:
+      "Can't connect Kartunes to your server? Answer a few questions to find the cause, from certificates and reverse proxies to the app's own error messages.",
+  },
+  {
+    path: "/platforms",
+    title: "Platforms",
+    description: "Kartunes on iPhone, Apple Watch and CarPlay, plus the platforms being considered next.",
+  },
+  {
+    path: "/capabilities",
+    title: "Feature Matrix",
+    description:
+      "Every Kartunes feature and whether it works on iPhone, Apple Watch and CarPlay, and with Jellyfin and Emby.",
+  },
+  {
+    path: "/genres",
+    title: "Genres",
+    description:
+      "See which umbrella category Kartunes sorts each genre tag into, check your own tags, and suggest a mapping for tags that end up in Unknown.",
+  },
+  {
+    path: "/downloads",
+    title: "Offline Downloads",
+    description:
+      "How Kartunes downloads tracks for offline listening, with a calculator for the storage downloads take and the data streaming uses instead.",
+  },
+  {
+    path: "/tools/playlists",
+    title: "Playlist Tools",
+    description:
+      "Import M3U, XSPF and CSV playlists into your Jellyfin or Emby library, matching each track for you, and export your Kartunes Liked Tracks and playlists.",
+  },
+  {
+    path: "/tools/library-health",
+    title: "Library Health",
+    description:
+      "Scan your Jellyfin or Emby music library for missing album artists, joined or unknown genre tags, albums without artwork and artists spelled two ways, with links to fix each one.",
+  },
+  {
+    path: "/remote",
+    title: "Remote",
+    description:
+      "See what Kartunes is playing on your phone, with artwork and progress, and like the track from any browser through your Jellyfin or Emby server.",
+  },
+  {
+    path: "/stats",
+    title: "Listening Stats",
+    description:
+      "Your top artists, albums and tracks, listening time and genres from your Jellyfin or Emby server, with a breakdown of your library's formats, bitrates and missing tags.",
+  },
+  {
+    path: "/siri",
+    title: "Siri Voice Commands",
+    description:
+      "What to say to Siri to play artists, albums, songs and playlists in Kartunes or like the song that's playing, with a phrase tester that shows what Siri would find in your library.",
+  },
+  {
+    path: "/formats",
+    title: "Audio Formats",
+    description:
+      "Check whether Kartunes plays an audio file as is or has your Jellyfin or Emby server transcode it, and what that costs in server load and data.",
+  },
+  {
+    path: "/privacy",
+    title: "Privacy",
+    description:
+      "Kartunes talks only to your own Jellyfin or Emby server. No analytics, no tracking, and no Kartunes backend.",
+  },
+  {
+    path: "/faq",
+    title: "FAQ",
+    description:
+      "Answers to common questions about Kartunes: supported servers, CarPlay, offline use, remote access, multiple libraries and reporting bugs.",
+  },
+  {
+    path: "/changelog",
+    title: "Changelog",
+    description:
+      "What's new in each Kartunes release: new features, fixes and Jellyfin and Emby compatibility changes, with Atom and RSS feeds.",
+  },
+  {
+    path: "/support",
+    title: "Support",
+    description: "Report a bug, request a feature, or contribute to Kartunes on GitHub.",
+  },
+];
+
+const DESCRIPTION_LENGTH = 160;
+
+function truncate(text: string, length: number): string {
+  return text.length <= length ? text : `${text.slice(0, length - 1).replace(/\s+\S*$/, "")}…`;
+}
+
+/** One page per FAQ answer, so `/faq/<slug>` links get their own preview */
+export function faqPagesFor(items: FAQItem[]): PageMeta[] {
+  return items.map((faq) => ({
+    path: `/faq/${faq.slug}`,
+    title: faq.question,
+    description: truncate(richTextToPlainText(faq.answer), DESCRIPTION_LENGTH),
+  }));
+}
+
+export const faqPages = faqPagesFor(faqs);
+
+/** One page per release, and one for each page of the changelog after the first */
+export function changelogPagesFor(entries: ChangelogEntry[], locale: Locale): PageMeta[] {
+  const t = translator(locale);
+  const pageCount = changelogPageCount(entries.length);
+  const listPages = Array.from({ length: pageCount - 1 }, (_, index) => ({
+    path: changelogPagePath(index + 2),
+    title: t("changelog.pageTitle", { page: index + 2 }),
+    description: t("changelog.pageDescription", { page: index + 2, count: pageCount }),
+  }));
+  return [
+    ...listPages,
+    ...entries.map((entry) => ({
+      path: releasePath(entry.version),
+      title: t("changelog.releaseTitle", { version: entry.version, title: entry.title }),
+      description: truncate(richTextToPlainText(entry.body), DESCRIPTION_LENGTH),
+    })),
+  ];
+}
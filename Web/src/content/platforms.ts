@@ -0,0 +1,65 @@
+import type { Platform, PlatformId, PlatformStatus } from "../types/content";
+import { byReview } from "./release";
+
+export const platformStatusLabels: Record<PlatformStatus, string> = {
+  available: "Available",
+  pending: "Pending Apple Review",
+  future: "Under Consideration",
+};
+
+export const platforms: Platform[] = [
+  {
+    id: "iphone",
+    name: "iPhone",
+    icon: "📱",
+    status: "available",
+    description:
+      "The main Kartunes experience is built for iPhone. Enjoy a full-featured music player with native SwiftUI interface, seamless library browsing, and powerful playback controls. All features are available on iOS 16.0 and later.",
+  },
+  {
+    id: "watch",
+    name: "Apple Watch",
+    icon: "⌚",
+    status: "available",
+    description:
+      "Control playback from your wrist with the Kartunes Watch app. Perfect for workouts, running, or any time you want to control your music without reaching for your phone.",
+  },
+  {
+    id: "carplay",
+    name: "CarPlay",
+    icon: "🚗",
+    status: byReview("carplay", { pending: "pending", approved: "available" }),
+    description: byReview("carplay", {
+      pending:
+        "CarPlay support is fully implemented in Kartunes and is currently pending approval from Apple. Once approved, you'll be able to browse your library and control playback directly from your car's infotainment system.",
+      approved:
+        "CarPlay support is built into Kartunes. Browse your library and control playback directly from your car's infotainment system.",
+    }),
+    note: byReview("carplay", {
+      pending: "CarPlay functionality is complete but availability depends on Apple's App Store review process.",
+      approved: undefined,
+    }),
+  },
+  {
+    id: "ipad",
+    name: "iPad",
+    icon: "📲",
+    status: "future",
+    description: "Native iPad support is being explored to take advantage of the larger screen.",
+  },
+  {
+    id: "tvos",
+    name: "tvOS",
+    icon: "📺",
+    status: "future",
+    description: "Apple TV support is under consideration for home listening experiences.",
+  },
+];
+
+export function getPlatform(id: PlatformId): Platform {
+  const platform = platforms.find((p) => p.id === id);
+  if (!platform) {
+    throw new Error(`Unknown platform "${id}"`);
+  }
+  return platform;
+}
@@ -0,0 +1,62 @@
+import type { InfoSection } from "../types/content";
+
+export const privacySections: InfoSection[] = [
+  {
+    id: "data-sources",
+    title: "Data Sources",
+    body: "Kartunes connects directly to your Jellyfin or Emby server and does not host or store your media. All music, metadata, and library information is retrieved directly from your own server. No media files or metadata are uploaded to any Kartunes backend or third-party service.",
+  },
+  {
+    id: "analytics",
+    title: "Analytics & Tracking",
+    body: "**Kartunes does not use third-party analytics or advertising.** The app does not collect usage statistics, crash reports, or any user behavior data. Your listening habits and app usage remain completely private.",
+  },
+  {
+    id: "personal-data",
+    title: "Personal Data",
+    body: `Kartunes stores the following information locally on your device:
+
+- **Server credentials:** Your server URL, username, and authentication tokens are stored securely in your device's keychain. These are never transmitted to any server other than your own Jellyfin or Emby instance.
+- **Library metadata:** Artist, album, track, and playlist information is cached locally using Core Data for fast access. This data is synced from your server and stored only on your device.
+- **App preferences:** Settings such as theme preference, sort options, and playback preferences are stored locally on your device.
+
+All of this data remains on your device and is never shared with third parties or uploaded to any external service.`,
+  },
+  {
+    id: "network",
+    title: "Network Communication",
+    body: `Kartunes only communicates with:
+
+- Your Jellyfin or Emby server (for library data and media streaming)
+- GitHub (for checking app updates, if you installed from source)
+
+No other network connections are made by the app.`,
+  },
+  {
+    id: "third-party",
+    title: "Third-Party Services",
+    body: "Kartunes does not integrate with any third-party analytics, advertising, or tracking services. The app is designed to be completely self-contained and privacy-focused.",
+  },
+  {
+    id: "website",
+    title: "This Website",
+    body: `This site is hosted on GitHub Pages and loads its scripts, styles and images only from there. It sets no cookies and uses no analytics. Your theme and language choices, and any bug report you haven't finished, are kept in your browser's local storage.
+
+- The server checker and other setup tools connect only to the server you enter, straight from your browser.
+- The Ko-fi donation panel and the GitHub star count are shown as placeholders and only load when you click **Load**. The [settings below](/privacy#consent) show which ones you asked to always load.`,
+  },
+  {
+    id: "your-rights",
+    title: "Your Rights",
+    body: `Since all data is stored locally on your device, you have complete control:
+
+- You can delete the app at any time, which removes all stored data
+- You can clear cached library data through the app settings
+- You can revoke server access by removing your server configuration`,
+  },
+  {
+    id: "questions",
+    title: "Questions",
+    body: "If you have questions about privacy or data handling, please open an issue on [GitHub](https://github.com/KartulUdus/Kartunes/issues).",
+  },
+];
@@ -0,0 +1,26 @@
+import type { AppState, ReleaseConfig, ReviewedFeature, ReviewState } from "../types/release";
+
+/**
+ * Where the app stands. Every download button, QR code and status badge on
+ * the site reads from here, so going from beta to the App Store is a change
+ * to `app` and nothing else:
+ *
+ *     app: { state: "testflight", testFlightURL: "https://testflight.apple.com/join/AbCd1234" },
+ *     app: { state: "appStore", appId: "1234567890" },
+ */
+export const release: ReleaseConfig = {
+  app: { state: "unreleased" },
+  features: {
+    carplay: "pending",
+  },
+};
+
+/** Picks the copy for the current app state */
+export function byAppState<T>(choices: Record<AppState, T>): T {
+  return choices[release.app.state];
+}
+
+/** Picks the copy for where a feature's review stands */
+export function byReview<T>(feature: ReviewedFeature, choices: Record<ReviewState, T>): T {
+  return choices[release.features[feature]];
+}
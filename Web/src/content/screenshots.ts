@@ -0,0 +1,46 @@
+import type { Screenshot } from "../types/content";
+
+export const screenshots: Screenshot[] = [
+  {
+    id: "home-view",
+    name: "Home View",
+    caption: "Browse your library with ease",
+    lightMode: "Assets/LightMode/homeView.png",
+    darkMode: "Assets/DarkMode/homeView.png",
+  },
+  {
+    id: "library-view",
+    name: "Library View",
+    caption: "Navigate artists, albums, and tracks",
+    lightMode: "Assets/LightMode/libraryView.png",
+    darkMode: "Assets/DarkMode/libraryView.png",
+  },
+  {
+    id: "now-playing",
+    name: "Now Playing",
+    caption: "Full-screen Now Playing with album art",
+    lightMode: "Assets/LightMode/nowPlayingView.png",
+    darkMode: "Assets/DarkMode/nowPlayingView.png",
+  },
+  {
+    id: "mini-player",
+    name: "Mini Player",
+    caption: "Quick access player throughout the app",
+    lightMode: "Assets/LightMode/miniPlayerView.png",
+    darkMode: "Assets/DarkMode/miniPlayerView.png",
+  },
+  {
+    id: "search",
+    name: "Search",
+    caption: "Quickly find songs, artists, and albums",
+    lightMode: "Assets/LightMode/searchView.png",
+    darkMode: "Assets/DarkMode/searchView.png",
+  },
+  {
+    id: "settings",
+    name: "Settings",
+    caption: "Customize your experience",
+    lightMode: "Assets/LightMode/settingsView.png",
+    darkMode: "Assets/DarkMode/settingsView.png",
+  },
+];
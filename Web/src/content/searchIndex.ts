@@ -0,0 +1,147 @@
+import type { Locale } from "../i18n/locales";
+import { translator } from "../i18n/messages";
+import { UMBRELLA_GENRES } from "../types/genres";
+import type { SearchDocument } from "../types/search";
+import { platformCapabilities } from "../utils/capabilities";
+import { releasePath } from "../utils/changelog";
+import { richTextToPlainText } from "../utils/richText";
+import { umbrellaAnchor } from "../utils/umbrellaGenres";
+import { getChangelog } from "./changelog";
+import { getContent } from "./localized";
+import { umbrellaGenreMap } from "./umbrellaGenres";
+
+/**
+ * Flattens the site content in one language into searchable sections. Paths
+ * are unprefixed; the search palette adds the locale. Written to
+ * `search-index.<locale>.json` by the prerender step; the dev server builds
+ * it on demand.
+ */
+export function buildSearchIndex(locale: Locale): SearchDocument[] {
+  const t = translator(locale);
+  const {
+    pages,
+    featureSections,
+    faqs,
+    setupSteps,
+    setupNotes,
+    platforms,
+    platformStatusLabels,
+    capabilities,
+    privacySections,
+    screenshots,
+  } = getContent(locale);
+  const pageTitle = (path: string) => pages.find((page) => page.path === path)?.title ?? path;
+
+  const documents: SearchDocument[] = pages.map((page) => ({
+    id: `page:${page.path}`,
+    path: page.path,
+    page: page.path === "/" ? t("nav.home") : page.title,
+    title: page.path === "/" ? t("nav.home") : page.title,
+    text: page.description,
+  }));
+
+  for (const section of featureSections) {
+    for (const feature of section.features) {
+      documents.push({
+        id: `feature:${section.id}:${feature.id}`,
+        path: "/features",
+        anchor: feature.id,
+        page: pageTitle("/features"),
+        title: feature.title,
+        text: `${section.title}. ${feature.description}`,
+      });
+    }
+  }
+
+  for (const faq of faqs) {
+    documents.push({
+      id: `faq:${faq.slug}`,
+      path: `/faq/${faq.slug}`,
+      page: pageTitle("/faq"),
+      title: faq.question,
+      text: richTextToPlainText(faq.answer),
+    });
+  }
+
+  setupSteps.forEach((step, index) => {
+    documents.push({
+      id: `setup:${step.id}`,
+      path: "/setup",
+      anchor: step.id,
+      page: pageTitle("/setup"),
+      title: t("setup.stepTitle", { number: index + 1, title: step.title }),
+      text: richTextToPlainText(step.body),
+    });
+  });
+
+  for (const note of setupNotes) {
+    documents.push({
+      id: `setup:${note.id}`,
+      path: "/setup",
+      anchor: note.id,
+      page: pageTitle("/setup"),
+      title: note.title,
+      text: richTextToPlainText(note.body),
+    });
+  }
+
+  for (const platform of platforms) {
+    documents.push({
+      id: `platform:${platform.id}`,
+      path: "/platforms",
+      anchor: platform.status === "future" ? undefined : platform.id,
+      page: pageTitle("/platforms"),
+      title: `${platform.name} (${platformStatusLabels[platform.status]})`,
+      text: [
+        platform.description,
+        ...platformCapabilities(capabilities, platform.id).map(({ capability }) => capability.title),
+        platform.note ?? "",
+      ].join(" "),
+    });
+  }
+
+  for (const section of privacySections) {
+    documents.push({
+      id: `privacy:${section.id}`,
+      path: "/privacy",
+      anchor: section.id,
+      page: pageTitle("/privacy"),
+      title: section.title,
+      text: richTextToPlainText(section.body),
+    });
+  }
+
+  for (const screenshot of screenshots) {
+    documents.push({
+      id: `screenshot:${screenshot.id}`,
+      path: "/screenshots",
+      page: pageTitle("/screenshots"),
+      title: screenshot.name,
+      text: screenshot.caption,
+    });
+  }
+
+  for (const entry of getChangelog(locale)) {
+    documents.push({
+      id: `release:${entry.version}`,
+      path: releasePath(entry.version),
+      page: pageTitle("/changelog"),
+      title: t("changelog.releaseTitle", { version: entry.version, title: entry.title }),
+      text: richTextToPlainText(entry.body),
+    });
+  }
+
+  for (const umbrella of UMBRELLA_GENRES) {
+    const tags = Object.keys(umbrellaGenreMap).filter((key) => key && umbrellaGenreMap[key] === umbrella);
+    documents.push({
+      id: `genre:${umbrella}`,
+      path: "/genres",
+      anchor: umbrellaAnchor(umbrella),
+      page: pageTitle("/genres"),
+      title: umbrella,
+      text: tags.join(", "),
+    });
+  }
+
+  return documents;
+}
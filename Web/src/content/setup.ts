@@ -0,0 +1,64 @@
+import type { InfoSection, SetupStep } from "../types/content";
+import { byAppState } from "./release";
+
+export const setupPrerequisites: string[] = [
+  "A running Jellyfin or Emby server with a music library configured",
+  "Network access to your media server (local network or remote access)",
+  "An iOS device running iOS 16.0 or later",
+];
+
+export const setupSteps: SetupStep[] = [
+  {
+    id: "install",
+    title: "Install Kartunes",
+    body: byAppState({
+      unreleased:
+        "Kartunes is coming to the App Store soon. Until then, you can build it yourself from [source](https://github.com/KartulUdus/Kartunes).",
+      testflight:
+        "Kartunes is in public beta. Join on TestFlight with the button below, or build it from [source](https://github.com/KartulUdus/Kartunes).",
+      appStore:
+        "Download Kartunes from the App Store with the button below, or build it from [source](https://github.com/KartulUdus/Kartunes).",
+    }),
+  },
+  {
+    id: "server-url",
+    title: "Enter Your Server URL",
+    body: "Open the app and enter your Jellyfin or Emby server URL. This can be a local IP address (e.g., `http://192.168.1.100:8096`) or a remote domain (e.g., `https://jellyfin.example.com`).",
+  },
+  {
+    id: "log-in",
+    title: "Log In",
+    body: "Enter your Jellyfin or Emby username and password. The app will automatically detect your server type.",
+  },
+  {
+    id: "choose-library",
+    title: "Choose Your Music Library",
+    body: "Select which music library you want to use if your server has multiple libraries configured.",
+  },
+  {
+    id: "start-playing",
+    title: "Start Playing",
+    body: "Your library will begin syncing automatically. Once complete, you can start exploring and playing your music!",
+  },
+];
+
+export const setupNotes: InfoSection[] = [
+  {
+    id: "your-data",
+    icon: "🔒",
+    title: "Your Data, Your Server",
+    body: "Kartunes connects directly to your Jellyfin/Emby server and does not host or store your media. Everything is streamed from your own server. No media or metadata is uploaded to any Kartunes backend.",
+  },
+  {
+    id: "remote-access",
+    icon: "🌐",
+    title: "Remote Access",
+    body: "To connect from outside your local network, you'll need to set up remote access to your server. This typically involves configuring port forwarding, using a reverse proxy, or setting up a VPN. Make sure your server is accessible via HTTPS for secure connections.\n\nThe [reverse proxy config generator](/setup#proxy-config) writes a ready-made nginx, Caddy, Traefik or Apache config for your server.",
+  },
+  {
+    id: "https",
+    icon: "🔐",
+    title: "SSL/HTTPS",
+    body: "While not strictly required for local network access, using HTTPS is recommended for security, especially when accessing your server remotely. Most modern Jellyfin and Emby setups support SSL certificates. A reverse proxy is the easiest way to add them; the [config generator](/setup#proxy-config) sets one up with a free Let's Encrypt certificate.",
+  },
+];
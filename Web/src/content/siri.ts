@@ -0,0 +1,78 @@
+import type { SiriLibrary, SiriPhraseGroup } from "../types/siri";
+import { demoAlbums, demoArtists, demoTracks, getDemoAlbum, getDemoArtist } from "./demoLibrary";
+
+/**
+ * Phrases that reach the app's Intents extension, by intent. Siri does not
+ * speak Estonian, so they stay in English in every language. Each phrase must
+ * come out as its group's kind in the phrase tester and find something in the
+ * sample library, which the build checks.
+ */
+export const siriPhraseGroups: SiriPhraseGroup[] = [
+  {
+    id: "artist",
+    intent: "playMedia",
+    phrases: [
+      "Play music by Aurora Fields in Kartunes",
+      "Play the artist Neon Parade in Kartunes",
+      "Play songs by Mira Sol on Kartunes",
+    ],
+  },
+  {
+    id: "album",
+    intent: "playMedia",
+    phrases: [
+      "Play the album Northern Lights in Kartunes",
+      "Play the album Blue Hour by Mira Sol in Kartunes",
+      "Play the Winter Etudes album in Kartunes",
+    ],
+  },
+  {
+    id: "song",
+    intent: "playMedia",
+    phrases: [
+      "Play the song Fog Bell in Kartunes",
+      "Play Lighthouse Keeper by The Copper Lanterns in Kartunes",
+      "Play the track Cassette in Kartunes",
+    ],
+  },
+  {
+    id: "playlist",
+    intent: "playMedia",
+    phrases: ["Play the playlist Road Trip in Kartunes", "Play my Rainy Sunday playlist in Kartunes"],
+  },
+  {
+    id: "shuffle",
+    intent: "playMedia",
+    phrases: [
+      "Shuffle music by Old Town Quartet in Kartunes",
+      "Shuffle the album Afterglow in Kartunes",
+      "Play my Road Trip playlist on shuffle in Kartunes",
+    ],
+  },
+  {
+    id: "like",
+    intent: "updateMediaAffinity",
+    phrases: ["I like this song", "Like this track in Kartunes"],
+  },
+  {
+    id: "dislike",
+    intent: "updateMediaAffinity",
+    phrases: ["I don't like this song", "Dislike this track"],
+  },
+];
+
+/** The demo library has no playlists, so the sample library brings its own */
+const samplePlaylists = ["Road Trip", "Rainy Sunday", "Focus"];
+
+/** The demo's artists, albums and songs, as the phrase tester searches them */
+export const sampleSiriLibrary: SiriLibrary = {
+  artists: demoArtists.map(({ id, name }) => ({ id, name })),
+  albums: demoAlbums.map((album) => ({ id: album.id, title: album.title, artist: getDemoArtist(album.artistId).name })),
+  tracks: demoTracks.map((track) => ({
+    id: track.id,
+    title: track.title,
+    artist: getDemoArtist(track.artistId).name,
+    album: getDemoAlbum(track.albumId).title,
+  })),
+  playlists: samplePlaylists.map((name) => ({ id: name.toLowerCase().replace(/\s+/g, "-"), name })),
+};
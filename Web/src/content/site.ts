@@ -0,0 +1,12 @@
+export const site = {
+  name: "Kartunes",
+  title: "Kartunes - Native Music Player for Jellyfin & Emby",
+  /** Public URL of the deployed site, without a trailing slash */
+  url: "https://kartuludus.github.io/Kartunes",
+  repository: "https://github.com/KartulUdus/Kartunes",
+  /** Ko-fi page for donations */
+  kofi: "https://ko-fi.com/Y8Y21PQBY8",
+  /** Social preview image, relative to `public/` */
+  image: "Assets/Kartunes-logo.png",
+  imageAlt: "Kartunes logo",
+};
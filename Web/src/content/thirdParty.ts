@@ -0,0 +1,30 @@
+import type { EmbedId, ThirdPartyEmbed } from "../types/consent";
+
+/**
+ * Everything the site may load from another origin. These are the only
+ * origins the Content-Security-Policy lets through, and nothing here loads
+ * before the visitor allows it: the build fails if a prerendered page
+ * references any other origin.
+ */
+export const thirdPartyEmbeds: ThirdPartyEmbed[] = [
+  {
+    id: "kofi",
+    name: "Ko-fi",
+    origins: { "frame-src": ["https://ko-fi.com"] },
+    privacyPolicy: "https://more.ko-fi.com/privacy",
+  },
+  {
+    id: "github",
+    name: "GitHub",
+    origins: { "connect-src": ["https://api.github.com"] },
+    privacyPolicy: "https://docs.github.com/site-policy/privacy-policies/github-general-privacy-statement",
+  },
+];
+
+export function getThirdPartyEmbed(id: EmbedId): ThirdPartyEmbed {
+  const embed = thirdPartyEmbeds.find((e) => e.id === id);
+  if (!embed) {
+    throw new Error(`Unknown embed "${id}"`);
+  }
+  return embed;
+}
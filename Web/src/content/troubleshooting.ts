@@ -0,0 +1,203 @@
+import type { TroubleshootStep } from "../types/content";
+
+/** Where the `/troubleshoot` wizard starts */
+export const TROUBLESHOOT_START = "lan";
+
+/**
+ * The `/troubleshoot` decision tree. Each answer leads to another question or
+ * to a fix. Answers with an `appMessage` quote `ServerDetectionError` in the
+ * app word for word (`…` stands for the interpolated part), and the build
+ * fails if they drift apart.
+ */
+export const troubleshootSteps: TroubleshootStep[] = [
+  {
+    kind: "question",
+    id: "lan",
+    question: "Can you open your server's web interface at home?",
+    detail:
+      "On a computer or phone connected to the same network as the server, open its local address in a browser, e.g. http://192.168.1.100:8096.",
+    answers: [
+      { id: "lan-ok", label: "Yes, it loads", next: "remote" },
+      { id: "lan-fails", label: "No, it doesn't load", next: "server-down" },
+    ],
+  },
+  {
+    kind: "question",
+    id: "remote",
+    question: "Does it load over HTTPS from outside your home?",
+    detail: "Turn off Wi-Fi on your phone and open your server's public address, e.g. https://music.example.com, in Safari.",
+    answers: [
+      { id: "https-ok", label: "Yes, without any warnings", next: "app-message" },
+      { id: "https-warning", label: "It loads, but Safari warns about the certificate", next: "certificate" },
+      { id: "https-fails", label: "No, it doesn't load", next: "remote-setup" },
+      { id: "home-only", label: "I only use Kartunes at home", next: "app-message" },
+    ],
+  },
+  {
+    kind: "question",
+    id: "remote-setup",
+    question: "How is your server made reachable from outside?",
+    answers: [
+      { id: "no-remote", label: "It isn't; I haven't set anything up", next: "local-only" },
+      { id: "reverse-proxy", label: "With a reverse proxy on my domain", next: "proxy-unreachable" },
+      { id: "port-forward", label: "By forwarding the server's port on my router", next: "port-forwarding" },
+    ],
+  },
+  {
+    kind: "question",
+    id: "app-message",
+    question: "What happens when you enter the address in Kartunes?",
+    detail: "Pick the message the app shows under the server address.",
+    answers: [
+      { id: "invalid-url", label: "The address is rejected", appMessage: "Invalid server URL", next: "invalid-url" },
+      { id: "network-error", label: "A network error", appMessage: "Network error: …", next: "network-error" },
+      {
+        id: "invalid-response",
+        label: "An invalid response",
+        appMessage: "Invalid response from server",
+        next: "invalid-response",
+      },
+      {
+        id: "not-found",
+        label: "Server not found",
+        appMessage: "Server not found at this address",
+        next: "not-found",
+      },
+      { id: "http-error", label: "An HTTP error code", appMessage: "HTTP error …", next: "http-error" },
+      {
+        id: "parse-error",
+        label: "The response can't be read",
+        appMessage: "Failed to parse server response: …",
+        next: "decoding-error",
+      },
+      {
+        id: "unknown-type",
+        label: "The server type is not recognized",
+        appMessage: "Could not determine server type. The server responded but ProductName was not recognized.",
+        next: "unknown-server-type",
+      },
+      {
+        id: "no-server",
+        label: "No compatible server",
+        appMessage:
+          "No compatible server detected. Please check the server URL and ensure it's a Jellyfin or Emby server.",
+        next: "no-compatible-server",
+      },
+      { id: "connects", label: "It connects and I can log in", next: "playback" },
+    ],
+  },
+  {
+    kind: "question",
+    id: "playback",
+    question: "Does music play?",
+    answers: [
+      { id: "plays", label: "Yes, everything works", next: "all-good" },
+      { id: "stalls", label: "Playback starts but stalls or skips", next: "stalls" },
+      { id: "never-starts", label: "Nothing ever starts playing", next: "no-playback" },
+      { id: "some-tracks", label: "Some tracks play, others don't", next: "some-tracks" },
+    ],
+  },
+
+  {
+    kind: "fix",
+    id: "server-down",
+    title: "Get the server running at home first",
+    body: "Kartunes can only connect to a server that is running and reachable. Check that:\n\n- The Jellyfin or Emby service is running. Restart it, or check `docker ps` if it runs in a container\n- You are using the server's current IP address and port. Both Jellyfin and Emby listen on `8096` for HTTP by default\n- No firewall on the server machine blocks that port\n\nOnce the web interface loads at home, start the wizard again.",
+  },
+  {
+    kind: "fix",
+    id: "local-only",
+    title: "Use the local address, or set up remote access",
+    body: "Without remote access your server is only reachable at home. In Kartunes, enter its local address, e.g. `http://192.168.1.100:8096`.\n\nTo listen away from home, either:\n\n- Connect to your home network with a VPN such as WireGuard or Tailscale and keep using the local address, or\n- Put the server behind a reverse proxy with HTTPS. The [config generator](/setup#proxy-config) writes the config for you",
+  },
+  {
+    kind: "fix",
+    id: "proxy-unreachable",
+    title: "Make your reverse proxy reachable",
+    body: "- Check that your domain's DNS record points at your current public IP address. Home addresses change; a dynamic DNS service keeps the record up to date\n- Forward ports 80 and 443 on your router to the machine running the proxy\n- Some internet providers use CGNAT, which blocks incoming connections entirely. If the WAN address on your router differs from the one \"what is my IP\" sites show, use a VPN or a tunnel instead\n- Test over mobile data, not your home Wi-Fi: many routers cannot loop back to their own public address\n\nIf the proxy itself may be misconfigured, compare it with a config from the [generator](/setup#proxy-config).",
+  },
+  {
+    kind: "fix",
+    id: "port-forwarding",
+    title: "Put HTTPS in front of the forwarded port",
+    body: "Forwarding `8096` straight to your server sends your password and music unencrypted, and iOS may refuse plain HTTP connections to public addresses. Put a reverse proxy with HTTPS in front instead (the [config generator](/setup#proxy-config) writes one), or use a VPN.\n\nIf you keep the port forward, check that the rule points at the server's current local IP, and test over mobile data rather than your home Wi-Fi.",
+  },
+  {
+    kind: "fix",
+    id: "certificate",
+    title: "Fix the certificate",
+    body: "iOS refuses connections that show certificate warnings, so Kartunes reports a network error.\n\n- Self-signed certificates don't work. Use a free Let's Encrypt certificate: Caddy gets one on its own, and the [config generator](/setup#proxy-config) shows where it goes for the other proxies\n- The certificate must cover the exact domain you enter in the app\n- Renew expired certificates, and serve the full chain (`fullchain.pem` with nginx), not just the server certificate",
+  },
+  {
+    kind: "fix",
+    id: "invalid-url",
+    title: "Check how the address is written",
+    body: "Enter the address the way you would open it in a browser, e.g. `https://music.example.com` or `http://192.168.1.100:8096`. Look for typos and stray spaces, and include the port when you are not going through a proxy. Don't add `/web` or other paths unless your server lives under a subpath such as `/jellyfin`.",
+  },
+  {
+    kind: "fix",
+    id: "network-error",
+    title: "The app could not reach the server",
+    body: "The connection failed before the server answered. Common causes:\n\n- You are away from home but entered a local address such as `192.168.x.x`. Use your public address or connect over a VPN\n- The HTTPS certificate is self-signed, expired or issued for another name\n- The address uses plain `http://` to a public server, which iOS may block\n- The server or proxy is down, or a firewall blocks the port\n\nThe [server checker](/setup#check-server) tries the same addresses as the app and shows which of these it is.",
+  },
+  {
+    kind: "fix",
+    id: "invalid-response",
+    title: "Something other than your server answered",
+    body: "The address answered, but not with a usable HTTP response. Usually a proxy, captive portal or router login page is in the way, or `https://` is used on a port that only speaks HTTP (or the other way round). Try the other scheme, and check that your proxy forwards to the media server's HTTP port.",
+  },
+  {
+    kind: "fix",
+    id: "not-found",
+    title: "Nothing serves Jellyfin or Emby at this path",
+    body: "The address answered 404 for `/System/Info/Public`, so a web server is there, but your media server isn't at that path.\n\n- If the server lives under a subpath, include it, e.g. `https://example.com/jellyfin`. For Jellyfin the same subpath must be set as the Base URL under Dashboard → Networking\n- Check that your proxy passes the path on unchanged\n- Kartunes retries under `/emby` by itself, so Emby on its default path works without it",
+  },
+  {
+    kind: "fix",
+    id: "http-error",
+    title: "The server or proxy returned an error",
+    body: "- **401 or 403**: an authentication layer in front of the server (basic auth, Authelia, Cloudflare Access) is blocking the app. Let the media server's API through, or use a VPN instead\n- **502, 503 or 504**: the proxy is up but cannot reach the media server. Check the upstream host and port and that the server is running\n- **500**: the media server itself failed; its log says why",
+  },
+  {
+    kind: "fix",
+    id: "decoding-error",
+    title: "The reply was not server information",
+    body: "The address returned something Kartunes could not read as Jellyfin or Emby server information, typically an HTML page from a proxy, router or another web app at the same address. Open `<your address>/System/Info/Public` in a browser: it should show a short JSON document with `ProductName` and `Version`.",
+  },
+  {
+    kind: "fix",
+    id: "unknown-server-type",
+    title: "This is not a Jellyfin or Emby server",
+    body: "The server answered, but its `ProductName` is neither Jellyfin nor Emby, and Kartunes supports only those two. Check that the address doesn't point at another service on the same machine or port.",
+  },
+  {
+    kind: "fix",
+    id: "no-compatible-server",
+    title: "None of the addresses worked",
+    body: "Kartunes tried your address with `https://` and `http://`, each with and without `/emby`, and none of them answered like Jellyfin or Emby. Run the [server checker](/setup#check-server): it tries the same addresses and shows what each one returned.",
+  },
+  {
+    kind: "fix",
+    id: "all-good",
+    title: "You're all set",
+    body: "Glad it works! The [FAQ](/faq) covers common questions, and if something else is wrong you can report it on the [Support page](/support).",
+  },
+  {
+    kind: "fix",
+    id: "stalls",
+    title: "Keep the stream flowing",
+    body: "- Turn off response buffering in your reverse proxy (`proxy_buffering off` in nginx) and raise its read timeout. The [config generator](/setup#proxy-config) does both\n- When the server cannot stream a file as is, Kartunes asks it to transcode to 320 kbps AAC. Check that the server has the CPU to spare while you play\n- On a weak connection, download albums for offline listening before you leave",
+  },
+  {
+    kind: "fix",
+    id: "no-playback",
+    title: "Playback never starts",
+    body: "- Make sure your user is allowed to play media, and to transcode if your server requires it, in the server's user settings\n- Check the server's dashboard or log for transcoding errors, such as a missing or broken FFmpeg\n- Behind a proxy, make sure it doesn't cap response sizes or strip the `Range` header",
+  },
+  {
+    kind: "fix",
+    id: "some-tracks",
+    title: "Some files can't be played",
+    body: "Jellyfin transcodes files iOS can't play directly, but Emby sends them unchanged, so they won't play. Check a failing file on the [Audio Formats](/formats) page to see which applies.\n\nOn Jellyfin, look in the server log for transcoding errors on those files, and check that transcoding is enabled for your user. A file that won't play in the server's own web interface is usually damaged.",
+  },
+];
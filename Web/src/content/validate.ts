@@ -0,0 +1,476 @@
+import { DEFAULT_LOCALE, isLocale, type Locale } from "../i18n/locales";
+import { CHANGELOG_TAGS } from "../types/changelog";
+import { REVIEW_STATES } from "../types/release";
+import {
+  CAPABILITY_TARGETS,
+  FAQ_CATEGORIES,
+  PLATFORM_STATUSES,
+  type CapabilityTarget,
+  type ContentTranslation,
+} from "../types/content";
+import { platformCapabilities } from "../utils/capabilities";
+import { parseChangelogFile, readChangelog } from "../utils/changelog";
+import { parseRichText } from "../utils/richText";
+import { parseSiriPhrase, searchSiriLibrary, siriPhraseKind, siriSearch } from "../utils/siriPhrases";
+import { audioFormats } from "./audioFormats";
+import { capabilities } from "./capabilities";
+import { defaultSourceMix, sourceProfiles } from "./downloads";
+import { featureSections } from "./features";
+import { faqs } from "./faqs";
+import { highlights } from "./highlights";
+import { contentTranslations, getPageMeta } from "./localized";
+import { pages } from "./pages";
+import { platforms } from "./platforms";
+import { privacySections } from "./privacy";
+import { release } from "./release";
+import { screenshots } from "./screenshots";
+import { setupNotes, setupPrerequisites, setupSteps } from "./setup";
+import { sampleSiriLibrary, siriPhraseGroups } from "./siri";
+import { TROUBLESHOOT_START, troubleshootSteps } from "./troubleshooting";
+
+/**
+ * Checks the content module for mistakes the type system cannot catch.
+ * Runs at build time through `plugins/contentValidation.ts`; returns one
+ * message per problem.
+ */
+export function validateContent(): string[] {
+  const errors: string[] = [];
+  const requireText = (value: string, where: string) => {
+    if (!value.trim()) errors.push(`${where} is empty`);
+  };
+  const requireUnique = (values: string[], what: string) => {
+    const seen = new Set<string>();
+    for (const value of values) {
+      if (seen.has(value)) errors.push(`Duplicate ${what} "${value}"`);
+      seen.add(value);
+    }
+  };
+
+  const { app } = release;
+  if (app.state === "testflight" && !/^https:\/\/testflight\.apple\.com\/join\/[A-Za-z0-9]+$/.test(app.testFlightURL)) {
+    errors.push(`Release config TestFlight link "${app.testFlightURL}" is not a public https://testflight.apple.com/join/… link`);
+  }
+  if (app.state === "appStore" && !/^\d+$/.test(app.appId)) {
+    errors.push(`Release config App Store id "${app.appId}" should be the digits after "id" in the listing URL`);
+  }
+  for (const [feature, state] of Object.entries(release.features)) {
+    if (!REVIEW_STATES.includes(state)) {
+      errors.push(`Release config feature "${feature}" has unknown review state "${state}"`);
+    }
+  }
+
+  requireUnique(platforms.map((p) => p.id), "platform id");
+  for (const platform of platforms) {
+    const where = `Platform "${platform.id}"`;
+    requireText(platform.name, `${where} name`);
+    requireText(platform.description, `${where} description`);
+    if (!PLATFORM_STATUSES.includes(platform.status)) {
+      errors.push(`${where} has unknown status "${platform.status}"`);
+    }
+    if (platform.status !== "future" && platformCapabilities(capabilities, platform.id).length === 0) {
+      errors.push(`${where} is ${platform.status} but has no capabilities`);
+    }
+    if (platform.status === "pending" && !platform.note) {
+      errors.push(`${where} is pending but has no note explaining why`);
+    }
+  }
+
+  const platformIds = new Set(platforms.map((p) => p.id));
+  requireUnique(
+    featureSections.flatMap((s) => s.features.map((f) => f.id)),
+    "feature id"
+  );
+  requireUnique(featureSections.map((s) => s.id), "feature section id");
+  for (const section of featureSections) {
+    requireText(section.title, `Feature section "${section.id}" title`);
+    if (section.features.length === 0) {
+      errors.push(`Feature section "${section.id}" has no features`);
+    }
+    requireUnique(section.features.map((f) => f.title), `feature title in "${section.id}"`);
+    for (const feature of section.features) {
+      requireText(feature.title, `Feature in "${section.id}" title`);
+      requireText(feature.description, `Feature "${feature.title}" description`);
+      if (feature.platform && !platformIds.has(feature.platform)) {
+        errors.push(`Feature "${feature.title}" references unknown platform "${feature.platform}"`);
+      }
+      if (feature.link && !getPageMeta(feature.link)) {
+        errors.push(`Feature "${feature.title}" links to "${feature.link}", which is not a page on this site`);
+      }
+    }
+  }
+
+  errors.push(...capabilityErrors(requireText, requireUnique));
+
+  requireUnique(highlights.map((h) => h.id), "highlight id");
+  for (const highlight of highlights) {
+    requireText(highlight.title, "Highlight title");
+    requireText(highlight.description, `Highlight "${highlight.title}" description`);
+  }
+
+  requireUnique(faqs.map((f) => f.question), "FAQ question");
+  requireUnique(faqs.map((f) => f.slug), "FAQ slug");
+  for (const faq of faqs) {
+    requireText(faq.question, "FAQ question");
+    requireText(faq.answer, `FAQ "${faq.question}" answer`);
+    if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(faq.slug)) {
+      errors.push(`FAQ slug "${faq.slug}" must be lowercase words joined by hyphens`);
+    }
+    if (!FAQ_CATEGORIES.includes(faq.category)) {
+      errors.push(`FAQ "${faq.slug}" has unknown category "${faq.category}"`);
+    }
+    errors.push(...linkErrors(faq.answer, `FAQ "${faq.slug}"`));
+  }
+
+  for (const section of [...setupSteps, ...setupNotes]) {
+    errors.push(...linkErrors(section.body, `Setup "${section.id}"`));
+  }
+
+  errors.push(...troubleshootErrors(requireText, requireUnique));
+
+  requireUnique(sourceProfiles.map((p) => p.id), "source profile id");
+  const formatIds = new Set(audioFormats.map((f) => f.id));
+  for (const profile of sourceProfiles) {
+    if (!formatIds.has(profile.formatId)) {
+      errors.push(`Source profile "${profile.id}" refers to unknown audio format "${profile.formatId}"`);
+    }
+    if (!(profile.bitrate > 0)) {
+      errors.push(`Source profile "${profile.id}" needs a positive bitrate`);
+    }
+  }
+  for (const id of Object.keys(defaultSourceMix)) {
+    if (!sourceProfiles.some((p) => p.id === id)) {
+      errors.push(`Default source mix refers to unknown source profile "${id}"`);
+    }
+  }
+
+  requireUnique(screenshots.map((s) => s.id), "screenshot id");
+  requireUnique(screenshots.map((s) => s.name), "screenshot name");
+  for (const screenshot of screenshots) {
+    requireText(screenshot.caption, `Screenshot "${screenshot.name}" caption`);
+    for (const path of [screenshot.lightMode, screenshot.darkMode]) {
+      if (path.startsWith("/")) {
+        errors.push(`Screenshot "${screenshot.name}" path "${path}" must be relative to public/`);
+      }
+    }
+  }
+
+  errors.push(...siriPhraseErrors(requireUnique));
+
+  for (const [locale, translation] of Object.entries(contentTranslations)) {
+    errors.push(...translationErrors(locale, translation));
+  }
+
+  return errors;
+}
+
+/** Capabilities must point at real features, and agree with the status of their platform */
+function capabilityErrors(
+  requireText: (value: string, where: string) => void,
+  requireUnique: (values: string[], what: string) => void
+): string[] {
+  const errors: string[] = [];
+  requireUnique(capabilities.map((c) => c.id), "capability id");
+  requireUnique(capabilities.map((c) => c.title), "capability title");
+  const featureIds = new Set(featureSections.flatMap((s) => s.features.map((f) => f.id)));
+  const platformStatus = new Map<CapabilityTarget, string>(platforms.map((p) => [p.id as CapabilityTarget, p.status]));
+
+  for (const capability of capabilities) {
+    const where = `Capability "${capability.id}"`;
+    requireText(capability.title, `${where} title`);
+    if (capability.featureId && !featureIds.has(capability.featureId)) {
+      errors.push(`${where} refers to unknown feature "${capability.featureId}"`);
+    }
+    for (const [target, support] of Object.entries(capability.support)) {
+      if (!CAPABILITY_TARGETS.includes(target as CapabilityTarget)) {
+        errors.push(`${where} has support for unknown target "${target}"`);
+      }
+      if (support.note !== undefined) requireText(support.note, `${where} note for ${target}`);
+      if (support.level === "partial" && !support.note) {
+        errors.push(`${where} is partly supported on ${target} but has no note saying what's missing`);
+      }
+      const status = platformStatus.get(target as CapabilityTarget);
+      if (status === "pending" && (support.level === "full" || support.level === "partial")) {
+        errors.push(`${where} is ${support.level} on ${target}, which is still pending`);
+      }
+      if (status === "future" && support.level !== "planned") {
+        errors.push(`${where} is ${support.level} on ${target}, which is only under consideration`);
+      }
+    }
+  }
+  return errors;
+}
+
+/** Listed phrases must read as their group's kind in the phrase tester, and find something in the sample library */
+function siriPhraseErrors(requireUnique: (values: string[], what: string) => void): string[] {
+  const errors: string[] = [];
+  requireUnique(siriPhraseGroups.map((g) => g.id), "Siri phrase group");
+  requireUnique(siriPhraseGroups.flatMap((g) => g.phrases), "Siri phrase");
+  for (const group of siriPhraseGroups) {
+    for (const phrase of group.phrases) {
+      const request = parseSiriPhrase(phrase)?.request;
+      const kind = request && siriPhraseKind(request);
+      if (kind !== group.id) {
+        errors.push(`Siri phrase "${phrase}" reads as ${kind ?? "unsupported"} but is listed under ${group.id}`);
+        continue;
+      }
+      const search = request?.intent === "playMedia" ? siriSearch(request) : undefined;
+      if (search && searchSiriLibrary(search, sampleSiriLibrary).total === 0) {
+        errors.push(`Siri phrase "${phrase}" finds nothing in the sample library`);
+      }
+    }
+  }
+  return errors;
+}
+
+/** Every answer must lead somewhere, every step must be reachable, and no path may loop back on itself */
+function troubleshootErrors(
+  requireText: (value: string, where: string) => void,
+  requireUnique: (values: string[], what: string) => void
+): string[] {
+  const errors: string[] = [];
+  const steps = new Map(troubleshootSteps.map((step) => [step.id, step]));
+  requireUnique(troubleshootSteps.map((s) => s.id), "troubleshooting step id");
+  if (!steps.has(TROUBLESHOOT_START)) {
+    errors.push(`Troubleshooting start "${TROUBLESHOOT_START}" does not exist`);
+  }
+
+  const reached = new Set<string>();
+  for (const step of troubleshootSteps) {
+    if (step.kind === "fix") {
+      requireText(step.title, `Troubleshooting fix "${step.id}" title`);
+      requireText(step.body, `Troubleshooting fix "${step.id}" body`);
+      errors.push(...linkErrors(step.body, `Troubleshooting fix "${step.id}"`));
+      continue;
+    }
+    requireText(step.question, `Troubleshooting question "${step.id}"`);
+    requireUnique(step.answers.map((a) => a.id), `answer id in troubleshooting question "${step.id}"`);
+    for (const answer of step.answers) {
+      requireText(answer.label, `Troubleshooting answer "${step.id}.${answer.id}" label`);
+      if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(answer.id)) {
+        errors.push(`Troubleshooting answer id "${answer.id}" must be lowercase words joined by hyphens`);
+      }
+      if (!steps.has(answer.next)) {
+        errors.push(`Troubleshooting answer "${step.id}.${answer.id}" leads to unknown step "${answer.next}"`);
+      }
+      reached.add(answer.next);
+    }
+  }
+
+  for (const step of troubleshootSteps) {
+    if (step.id !== TROUBLESHOOT_START && !reached.has(step.id)) {
+      errors.push(`Troubleshooting step "${step.id}" cannot be reached`);
+    }
+  }
+
+  const visit = (id: string, path: string[]) => {
+    const step = steps.get(id);
+    if (path.includes(id)) {
+      errors.push(`Troubleshooting path loops: ${[...path, id].join(" → ")}`);
+    } else if (step?.kind === "question") {
+      step.answers.forEach((answer) => visit(answer.next, [...path, id]));
+    }
+  };
+  visit(TROUBLESHOOT_START, []);
+  return errors;
+}
+
+/**
+ * The release notes in `src/content/changelog/`, keyed by file path. They are
+ * loaded through Vite, so the build plugin reads the files and passes them in.
+ */
+export function changelogErrors(sources: Record<string, string>): string[] {
+  const errors: string[] = [];
+  const { entries } = readChangelog(sources);
+  const versions = new Set(entries.map((entry) => entry.version));
+  const platformIds = new Set<string>(platforms.map((p) => p.id));
+  if (entries.length === 0) errors.push("The changelog has no releases");
+
+  for (const [path, source] of Object.entries(sources)) {
+    const file = parseChangelogFile(path, source);
+    if (!file) {
+      errors.push(`Changelog file "${path}" should be named <version>.md or <version>.<locale>.md`);
+      continue;
+    }
+    const where = `Changelog "${path}"`;
+    if (file.locale) {
+      if (!isLocale(file.locale) || file.locale === DEFAULT_LOCALE) {
+        errors.push(`${where} is a translation into unknown locale "${file.locale}"`);
+      }
+      if (!versions.has(file.version)) {
+        errors.push(`${where} translates release "${file.version}", which does not exist`);
+      }
+      errors.push(...linkErrors(file.body, where));
+      continue;
+    }
+
+    const { fields } = file;
+    if (fields.version !== file.version) {
+      errors.push(`${where} has version "${fields.version ?? ""}", which does not match its file name`);
+    }
+    if (!/^\d+\.\d+\.\d+$/.test(file.version)) {
+      errors.push(`${where} version must be major.minor.patch`);
+    }
+    const date = fields.date ?? "";
+    const parsed = new Date(`${date}T00:00:00Z`);
+    if (Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+      errors.push(`${where} date "${date}" must be a real YYYY-MM-DD date`);
+    }
+    if (!fields.title) errors.push(`${where} has no title`);
+    if (!file.body) errors.push(`${where} has no release notes`);
+    errors.push(...linkErrors(file.body, where));
+  }
+
+  for (const entry of entries) {
+    const where = `Release "${entry.version}"`;
+    if (entry.platforms.length === 0) errors.push(`${where} lists no platforms`);
+    for (const platform of entry.platforms.filter((id) => !platformIds.has(id))) {
+      errors.push(`${where} lists unknown platform "${platform}"`);
+    }
+    if (entry.tags.length === 0) errors.push(`${where} has no tags`);
+    for (const tag of entry.tags.filter((tag) => !CHANGELOG_TAGS.includes(tag))) {
+      errors.push(`${where} has unknown tag "${tag}"; use ${CHANGELOG_TAGS.join(", ")}`);
+    }
+  }
+  entries.forEach((entry, index) => {
+    const older = entries[index + 1];
+    if (older && older.date > entry.date) {
+      errors.push(`Release "${entry.version}" is dated before the older release "${older.version}"`);
+    }
+  });
+  return errors;
+}
+
+/** Releases a locale has no `<version>.<locale>.md` for; they show in English */
+export function untranslatedChangelog(locale: Locale, sources: Record<string, string>): string[] {
+  const { entries, translations } = readChangelog(sources);
+  return entries
+    .filter((entry) => !translations[locale]?.[entry.version])
+    .map((entry) => `changelog.${entry.version}`);
+}
+
+function linkErrors(source: string, where: string): string[] {
+  return richTextLinks(source)
+    .filter((href) => (href.startsWith("/") ? !getPageMeta(href.split("#")[0]) : !/^https?:\/\//.test(href)))
+    .map((href) => `${where} links to "${href}", which is neither a page on this site nor an http(s) URL`);
+}
+
+/** Ids each translatable section of the content is keyed by */
+function translatableIds(): Record<string, string[]> {
+  return {
+    pages: pages.map((p) => p.path),
+    platforms: platforms.map((p) => p.id),
+    capabilities: capabilities.map((c) => c.id),
+    ...Object.fromEntries(
+      capabilities.map((c) => [
+        `capabilities.${c.id}.notes`,
+        Object.entries(c.support).flatMap(([target, support]) => (support.note ? [target] : [])),
+      ])
+    ),
+    featureSections: featureSections.map((s) => s.id),
+    ...Object.fromEntries(
+      featureSections.map((s) => [`featureSections.${s.id}.features`, s.features.map((f) => f.id)])
+    ),
+    highlights: highlights.map((h) => h.id),
+    faqs: faqs.map((f) => f.slug),
+    screenshots: screenshots.map((s) => s.id),
+    setupSteps: setupSteps.map((s) => s.id),
+    setupNotes: setupNotes.map((n) => n.id),
+    privacySections: privacySections.map((s) => s.id),
+    troubleshootSteps: troubleshootSteps.map((s) => s.id),
+    ...Object.fromEntries(
+      troubleshootSteps.map((s) => [`troubleshootSteps.${s.id}.answers`, s.kind === "question" ? s.answers.map((a) => a.id) : []])
+    ),
+  };
+}
+
+function translatedIds(translation: ContentTranslation): Record<string, string[]> {
+  const keys = (record?: object) => Object.keys(record ?? {});
+  return {
+    pages: keys(translation.pages),
+    platforms: keys(translation.platforms),
+    capabilities: keys(translation.capabilities),
+    ...Object.fromEntries(
+      Object.entries(translation.capabilities ?? {}).map(([id, capability]) => [
+        `capabilities.${id}.notes`,
+        keys(capability.notes),
+      ])
+    ),
+    featureSections: keys(translation.featureSections),
+    ...Object.fromEntries(
+      Object.entries(translation.featureSections ?? {}).map(([id, section]) => [
+        `featureSections.${id}.features`,
+        keys(section.features),
+      ])
+    ),
+    highlights: keys(translation.highlights),
+    faqs: keys(translation.faqs),
+    screenshots: keys(translation.screenshots),
+    setupSteps: keys(translation.setupSteps),
+    setupNotes: keys(translation.setupNotes),
+    privacySections: keys(translation.privacySections),
+    troubleshootSteps: keys(translation.troubleshootSteps),
+    ...Object.fromEntries(
+      Object.entries(translation.troubleshootSteps ?? {}).map(([id, step]) => [
+        `troubleshootSteps.${id}.answers`,
+        keys(step.answers),
+      ])
+    ),
+  };
+}
+
+/** Translations of entries that no longer exist, or with broken links */
+function translationErrors(locale: string, translation: ContentTranslation): string[] {
+  const errors: string[] = [];
+  const known = translatableIds();
+  for (const [section, ids] of Object.entries(translatedIds(translation))) {
+    for (const id of ids) {
+      if (!known[section]?.includes(id)) {
+        errors.push(`"${locale}" translation of ${section} has unknown id "${id}"`);
+      }
+    }
+  }
+  if ((translation.setupPrerequisites?.length ?? 0) > setupPrerequisites.length) {
+    errors.push(`"${locale}" translation has more setup prerequisites than the English content`);
+  }
+  for (const [slug, faq] of Object.entries(translation.faqs ?? {})) {
+    if (faq.answer) errors.push(...linkErrors(faq.answer, `"${locale}" FAQ "${slug}"`));
+  }
+  const setupSections = { ...translation.setupSteps, ...translation.setupNotes };
+  for (const [id, section] of Object.entries(setupSections)) {
+    if (section.body) errors.push(...linkErrors(section.body, `"${locale}" setup "${id}"`));
+  }
+  for (const [id, step] of Object.entries(translation.troubleshootSteps ?? {})) {
+    if (step.body) errors.push(...linkErrors(step.body, `"${locale}" troubleshooting step "${id}"`));
+  }
+  return errors;
+}
+
+/**
+ * Entries a locale has not translated yet. They show in English, so the
+ * build only warns about them.
+ */
+export function untranslatedContent(locale: Locale): string[] {
+  const translation = contentTranslations[locale];
+  if (!translation) return [];
+
+  const translated = translatedIds(translation);
+  const missing = Object.entries(translatableIds()).flatMap(([section, ids]) =>
+    ids.filter((id) => !translated[section]?.includes(id)).map((id) => `${section}.${id}`)
+  );
+  if ((translation.setupPrerequisites?.length ?? 0) < setupPrerequisites.length) {
+    missing.push("setupPrerequisites");
+  }
+  return missing;
+}
+
+function richTextLinks(source: string): string[] {
+  return parseRichText(source)
+    .flatMap((block) => (block.type === "paragraph" ? [block.children] : block.items))
+    .flat()
+    .flatMap((node) => (node.type === "link" ? [node.href] : []));
+}
+
+/** Every file under `public/` the content refers to */
+export function referencedAssets(): string[] {
+  return screenshots.flatMap((s) => [s.lightMode, s.darkMode]);
+}
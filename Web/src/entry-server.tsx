@@ -0,0 +1,111 @@
+import React from "react";
+import { renderToString } from "react-dom/server";
+import { StaticRouter } from "react-router-dom/server";
+import App, { routes } from "./App";
+import { faqPages, getPageMeta } from "./content";
+import { getChangelog, getChangelogPageMeta } from "./content/changelog";
+import { buildSearchIndex } from "./content/searchIndex";
+import { DEFAULT_LOCALE, LOCALES, localizePath, type Locale } from "./i18n/locales";
+import { translate } from "./i18n/messages";
+import type { SearchDocument } from "./types/search";
+import { changelogPageCount, changelogPagePath, FEED_FORMATS, feedPath, releasePath } from "./utils/changelog";
+import { renderChangelogFeed } from "./utils/feed";
+import { routerBasename } from "./utils/paths";
+import { canonicalURL, renderHeadTags } from "./utils/seo";
+
+export interface PrerenderedPage {
+  path: string;
+  lang: Locale;
+  head: string;
+  html: string;
+  url: string;
+}
+
+/** Concrete paths to prerender for each route with a `:param` */
+const dynamicRoutePaths: Record<string, string[]> = {
+  "/faq/:slug": faqPages.map((page) => page.path),
+  "/changelog/page/:page": Array.from(
+    { length: changelogPageCount(getChangelog(DEFAULT_LOCALE).length) - 1 },
+    (_, index) => changelogPagePath(index + 2)
+  ),
+  "/changelog/:version": getChangelog(DEFAULT_LOCALE).map((entry) => releasePath(entry.version)),
+};
+
+function prerenderPaths(): string[] {
+  return routes.flatMap((route) => {
+    if (route.path === "*") return [];
+    if (!route.path.includes(":")) return [route.path];
+
+    const paths = dynamicRoutePaths[route.path];
+    if (!paths) {
+      throw new Error(`Dynamic route "${route.path}" has no entry in dynamicRoutePaths`);
+    }
+    return paths;
+  });
+}
+
+/** Renders every route declared in `App.tsx`, in every locale, for `plugins/prerender.ts` */
+export function prerenderPages(): PrerenderedPage[] {
+  return LOCALES.flatMap((locale) =>
+    prerenderPaths().map((path) => {
+      const meta = getPageMeta(path, locale) ?? getChangelogPageMeta(path, locale);
+      if (!meta) {
+        throw new Error(`Route "${path}" has no entry in src/content/pages.ts`);
+      }
+
+      const localizedPath = localizePath(path, locale);
+      return {
+        path: localizedPath,
+        lang: locale,
+        head: renderHeadTags(meta, { locale }),
+        html: renderRoute(localizedPath),
+        url: canonicalURL(localizedPath),
+      };
+    })
+  );
+}
+
+/** The site search index for each locale, keyed by locale */
+export function buildSearchIndexes(): Record<Locale, SearchDocument[]> {
+  return Object.fromEntries(LOCALES.map((locale) => [locale, buildSearchIndex(locale)])) as Record<
+    Locale,
+    SearchDocument[]
+  >;
+}
+
+/** Atom and RSS feeds of the changelog in every locale, keyed by path */
+export function buildFeeds(): Record<string, string> {
+  return Object.fromEntries(
+    LOCALES.flatMap((locale) =>
+      FEED_FORMATS.map((format) => [feedPath(format, locale), renderChangelogFeed(format, getChangelog(locale), locale)])
+    )
+  );
+}
+
+/**
+ * GitHub Pages serves `404.html` for any path without a file. It shows the
+ * not-found page, and the client router takes over for routes that exist
+ * only in the browser.
+ */
+export function prerenderNotFoundPage(): Omit<PrerenderedPage, "url"> {
+  const path = "/404";
+  const head = renderHeadTags(
+    {
+      path,
+      title: translate(DEFAULT_LOCALE, "notFound.title"),
+      description: translate(DEFAULT_LOCALE, "notFound.description"),
+    },
+    { indexable: false }
+  );
+  return { path, lang: DEFAULT_LOCALE, head, html: renderRoute(path) };
+}
+
+function renderRoute(path: string): string {
+  return renderToString(
+    <React.StrictMode>
+      <StaticRouter basename={routerBasename} location={`${routerBasename}${path}`}>
+        <App />
+      </StaticRouter>
+    </React.StrictMode>
+  );
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react";
+import { ServerRequestError } from "../services/mediaServer";
+import { fetchAppSessions } from "../services/remote";
+import type { ServerRequestFailure, ServerSession } from "../types/mediaServer";
+import type { SessionInfo } from "../types/remote";
+
+/** How often the list is fetched again; the app reports progress about as often */
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * The signed-in user's Kartunes sessions, fetched again every few seconds.
+ * Polling stops on a failed request until `refresh()` is called.
+ */
+export function useAppSessions(session: ServerSession | null) {
+  const [sessions, setSessions] = useState<SessionInfo[] | null>(null);
+  const [fetchedAt, setFetchedAt] = useState(0);
+  const [failure, setFailure] = useState<ServerRequestFailure | null>(null);
+  const [generation, setGeneration] = useState(0);
+
+  useEffect(() => {
+    setSessions(null);
+    setFailure(null);
+  }, [session]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    let cancelled = false;
+    let timer: number | undefined;
+    const poll = async () => {
+      try {
+        const next = await fetchAppSessions(session);
+        if (cancelled) return;
+        setSessions(next);
+        setFetchedAt(Date.now());
+        setFailure(null);
+        timer = window.setTimeout(poll, POLL_INTERVAL_MS);
+      } catch (error) {
+        if (!cancelled) setFailure(error instanceof ServerRequestError ? error.failure : { kind: "network" });
+      }
+    };
+    poll();
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [session, generation]);
+
+  // Restarting the effect fetches at once, so a command's effect shows without waiting for the next poll
+  const refresh = useCallback(() => setGeneration((value) => value + 1), []);
+
+  return { sessions, fetchedAt, failure, refresh };
+}
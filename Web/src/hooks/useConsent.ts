@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { storeConsent, storedConsent } from "../services/consent";
+import type { EmbedId } from "../types/consent";
+
+interface Consent {
+  /** Whether the embed may load on this page */
+  allowed: boolean;
+  /** Whether it loads on every visit without asking */
+  remembered: boolean;
+  allow(remember: boolean): void;
+  revoke(): void;
+}
+
+/**
+ * The visitor's choice for a third-party embed. Prerendered pages always start
+ * with the placeholder; a remembered choice applies once hydrated.
+ */
+export function useConsent(id: EmbedId): Consent {
+  const [allowed, setAllowed] = useState(false);
+  const [remembered, setRemembered] = useState(false);
+
+  useEffect(() => {
+    const stored = storedConsent().includes(id);
+    setAllowed(stored);
+    setRemembered(stored);
+  }, [id]);
+
+  const allow = useCallback(
+    (remember: boolean) => {
+      if (remember) storeConsent(id, true);
+      setAllowed(true);
+      setRemembered(remember);
+    },
+    [id]
+  );
+
+  const revoke = useCallback(() => {
+    storeConsent(id, false);
+    setAllowed(false);
+    setRemembered(false);
+  }, [id]);
+
+  return { allowed, remembered, allow, revoke };
+}
@@ -0,0 +1,8 @@
+import { getContent, type SiteContent } from "../content";
+import { useI18n } from "../i18n/I18nProvider";
+
+/** The site content in the current locale */
+export function useContent(): SiteContent {
+  const { locale } = useI18n();
+  return getContent(locale);
+}
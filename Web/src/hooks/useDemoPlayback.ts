@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from "react";
+import { initiallyLikedTrackIds } from "../content/demoLibrary";
+import { demoClipURL } from "../services/demoAudio";
+import {
+  currentTrack,
+  demoPlaybackReducer,
+  initialDemoPlaybackState,
+  instantMix,
+  newShuffleSeed,
+  shuffled,
+  type DemoPlaybackState,
+} from "../services/demoPlayback";
+import type { DemoPlaybackContext, DemoTrack } from "../types/demo";
+
+/** Like the app, "previous" restarts the track once it has played this long */
+const RESTART_THRESHOLD_SECONDS = 5;
+const RECENTLY_PLAYED_LIMIT = 50;
+
+export interface DemoPlayback {
+  state: DemoPlaybackState;
+  track?: DemoTrack;
+  currentTime: number;
+  likedTrackIds: Set<string>;
+  recentlyPlayed: DemoTrack[];
+  play: (tracks: DemoTrack[], index: number, context: DemoPlaybackContext) => void;
+  shufflePlay: (tracks: DemoTrack[], context: DemoPlaybackContext) => void;
+  togglePlayPause: () => void;
+  next: () => void;
+  previous: () => void;
+  seek: (seconds: number) => void;
+  skipTo: (trackId: string) => void;
+  playNext: (track: DemoTrack) => void;
+  toggleShuffle: () => void;
+  toggleRepeat: () => void;
+  toggleLike: (trackId: string) => void;
+  startInstantMix: () => void;
+}
+
+/**
+ * Drives the `/demo` player: queue state from `services/demoPlayback.ts`, and
+ * one `<audio>` element playing generated clips. The element only exists in
+ * the browser, so the prerendered page shows an idle player.
+ */
+export function useDemoPlayback(): DemoPlayback {
+  const [state, dispatch] = useReducer(demoPlaybackReducer, initialDemoPlaybackState);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [likedTrackIds, setLikedTrackIds] = useState(() => new Set(initiallyLikedTrackIds));
+  const [recentlyPlayed, setRecentlyPlayed] = useState<DemoTrack[]>([]);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const track = currentTrack(state);
+
+  useEffect(() => {
+    const audio = new Audio();
+    const handleTimeUpdate = () => setCurrentTime(audio.currentTime);
+    const handleEnded = () => dispatch({ type: "trackFinished", shuffleSeed: newShuffleSeed() });
+    audio.addEventListener("timeupdate", handleTimeUpdate);
+    audio.addEventListener("ended", handleEnded);
+    audioRef.current = audio;
+
+    return () => {
+      audio.pause();
+      audio.removeEventListener("timeupdate", handleTimeUpdate);
+      audio.removeEventListener("ended", handleEnded);
+      audioRef.current = null;
+    };
+  }, []);
+
+  // A new playbackId means the current track starts over, even if it is the same track
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !track) {
+      return;
+    }
+    audio.src = demoClipURL(track);
+    setCurrentTime(0);
+    setRecentlyPlayed((tracks) =>
+      [track, ...tracks.filter((candidate) => candidate.id !== track.id)].slice(0, RECENTLY_PLAYED_LIMIT)
+    );
+  }, [state.playbackId]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !audio.src) {
+      return;
+    }
+    if (state.isPlaying) {
+      // Browsers refuse to play without a user gesture; show the player as paused instead
+      audio.play().catch(() => dispatch({ type: "pause" }));
+    } else {
+      audio.pause();
+    }
+  }, [state.isPlaying, state.playbackId]);
+
+  const seek = useCallback((seconds: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = seconds;
+      setCurrentTime(seconds);
+    }
+  }, []);
+
+  return {
+    state,
+    track,
+    currentTime,
+    likedTrackIds,
+    recentlyPlayed,
+    play: (tracks, index, context) =>
+      dispatch({ type: "startQueue", tracks, index, context, shuffleSeed: newShuffleSeed() }),
+    shufflePlay: (tracks, context) =>
+      dispatch({ type: "startQueue", tracks: shuffled(tracks), index: 0, context, shuffleSeed: newShuffleSeed() }),
+    togglePlayPause: () => dispatch({ type: "togglePlayPause" }),
+    next: () => dispatch({ type: "next", shuffleSeed: newShuffleSeed() }),
+    previous: () => {
+      if (currentTime >= RESTART_THRESHOLD_SECONDS) {
+        seek(0);
+      } else {
+        dispatch({ type: "previous" });
+      }
+    },
+    seek,
+    skipTo: (trackId) => dispatch({ type: "skipTo", trackId }),
+    playNext: (track) => dispatch({ type: "playNext", track, shuffleSeed: newShuffleSeed() }),
+    toggleShuffle: () => dispatch({ type: "toggleShuffle", shuffleSeed: newShuffleSeed() }),
+    toggleRepeat: () => dispatch({ type: "toggleRepeat" }),
+    toggleLike: (trackId) =>
+      setLikedTrackIds((ids) => {
+        const updated = new Set(ids);
+        if (!updated.delete(trackId)) {
+          updated.add(trackId);
+        }
+        return updated;
+      }),
+    startInstantMix: () => {
+      if (track) {
+        dispatch({
+          type: "startQueue",
+          tracks: instantMix(track),
+          index: 0,
+          context: { kind: "instantMix", seedTrackId: track.id },
+          shuffleSeed: newShuffleSeed(),
+        });
+      }
+    },
+  };
+}
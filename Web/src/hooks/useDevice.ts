@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+import { detectDevice, type DeviceKind } from "../utils/device";
+
+/**
+ * The visitor's device, or `undefined` until hydrated: prerendered pages have
+ * no user agent, so anything that depends on it renders on the client only.
+ */
+export function useDevice(): DeviceKind | undefined {
+  const [device, setDevice] = useState<DeviceKind>();
+
+  useEffect(() => setDevice(detectDevice(navigator.userAgent, navigator.maxTouchPoints)), []);
+
+  return device;
+}
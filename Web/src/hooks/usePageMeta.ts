@@ -0,0 +1,20 @@
+import { useEffect } from "react";
+import { useLocation } from "react-router-dom";
+import { getPageMeta } from "../content";
+import { getChangelogPageMeta } from "../content/changelog";
+import { parseLocalePath } from "../i18n/locales";
+import { pageTitle } from "../utils/seo";
+
+/** Keeps the document title and description in step with client-side navigation */
+export function usePageMeta() {
+  const { pathname } = useLocation();
+
+  useEffect(() => {
+    const { locale, path } = parseLocalePath(pathname);
+    const meta = getPageMeta(path, locale) ?? getChangelogPageMeta(path, locale);
+    if (!meta) return;
+
+    document.title = pageTitle(meta, locale);
+    document.querySelector('meta[name="description"]')?.setAttribute("content", meta.description);
+  }, [pathname]);
+}
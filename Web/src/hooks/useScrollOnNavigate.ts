@@ -0,0 +1,25 @@
+import { useEffect, useRef } from "react";
+import { useLocation } from "react-router-dom";
+import { parseLocalePath } from "../i18n/locales";
+
+/**
+ * Scrolls to `#anchor` targets after client-side navigation, and back to the
+ * top when moving to a different page. Sub-routes such as `/faq/<slug>` handle
+ * their own scrolling.
+ */
+export function useScrollOnNavigate() {
+  const { pathname, hash } = useLocation();
+  const previousPage = useRef<string | null>(null);
+
+  useEffect(() => {
+    const page = parseLocalePath(pathname).path.split("/")[1] ?? "";
+    const isNewPage = previousPage.current !== null && previousPage.current !== page;
+    previousPage.current = page;
+
+    if (hash) {
+      document.getElementById(decodeURIComponent(hash.slice(1)))?.scrollIntoView({ behavior: "smooth", block: "start" });
+    } else if (isNewPage) {
+      window.scrollTo(0, 0);
+    }
+  }, [pathname, hash]);
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import { signOut as endSession } from "../services/mediaServer";
+import type { ServerSession } from "../types/mediaServer";
+
+const STORAGE_KEY = "kartunes.serverSession";
+
+function storedSession(): ServerSession | null {
+  try {
+    const value = window.sessionStorage.getItem(STORAGE_KEY);
+    return value ? (JSON.parse(value) as ServerSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeSession(session: ServerSession | null) {
+  try {
+    if (session) {
+      window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    } else {
+      window.sessionStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage can be unavailable; the visitor just signs in again on the next tool.
+  }
+}
+
+/**
+ * The server the browser tools are signed in to. Kept in `sessionStorage`, so
+ * moving between tools keeps it and closing the tab forgets the token.
+ */
+export function useServerSession() {
+  const [session, setSession] = useState<ServerSession | null>(null);
+
+  useEffect(() => setSession(storedSession()), []);
+
+  const signIn = useCallback((next: ServerSession) => {
+    storeSession(next);
+    setSession(next);
+  }, []);
+
+  const signOut = useCallback(() => {
+    if (session) {
+      // The token is forgotten either way; ending it on the server is a courtesy
+      endSession(session).catch(() => undefined);
+    }
+    storeSession(null);
+    setSession(null);
+  }, [session]);
+
+  return { session, signIn, signOut };
+}
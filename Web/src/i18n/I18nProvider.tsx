@@ -0,0 +1,48 @@
+import { createContext, Fragment, ReactNode, useContext, useEffect, useMemo } from "react";
+import { Locale, localizePath } from "./locales";
+import { MessageKey, Translate, translator } from "./messages";
+
+interface I18nContextValue {
+  locale: Locale;
+  t: Translate;
+  /** Like `t()`, but placeholders can be filled with elements such as links */
+  tx: (key: MessageKey, values: Record<string, ReactNode>) => ReactNode;
+  /** Prefixes an unprefixed route path with the current locale */
+  localizePath: (path: string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+interface I18nProviderProps {
+  locale: Locale;
+  children: ReactNode;
+}
+
+export function I18nProvider({ locale, children }: I18nProviderProps) {
+  const value = useMemo<I18nContextValue>(() => {
+    const t = translator(locale);
+    return {
+      locale,
+      t,
+      tx: (key, values) =>
+        t(key)
+          .split(/\{(\w+)\}/)
+          .map((part, index) => <Fragment key={index}>{index % 2 === 1 ? values[part] ?? `{${part}}` : part}</Fragment>),
+      localizePath: (path) => localizePath(path, locale),
+    };
+  }, [locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useI18n must be used inside an I18nProvider");
+  }
+  return context;
+}
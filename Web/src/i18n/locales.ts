@@ -0,0 +1,31 @@
+export const LOCALES = ["en", "et"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+/** Served without a path prefix; every other locale lives under `/<locale>/` */
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Each language's name in that language, for the switcher */
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  et: "Eesti",
+};
+
+export function isLocale(value: string): value is Locale {
+  return (LOCALES as readonly string[]).includes(value);
+}
+
+/** Splits a router path such as `/et/faq` into its locale and the unprefixed path */
+export function parseLocalePath(path: string): { locale: Locale; path: string } {
+  const [, first = "", ...rest] = path.split("/");
+  if (isLocale(first) && first !== DEFAULT_LOCALE) {
+    return { locale: first, path: `/${rest.join("/")}` };
+  }
+  return { locale: DEFAULT_LOCALE, path };
+}
+
+/** Adds the locale prefix to an unprefixed router path */
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
@@ -0,0 +1,841 @@
+/**
+ * English UI strings, and the source of truth for message keys: every other
+ * catalogue is checked against this one. `{name}` placeholders are filled in
+ * by `t()`.
+ */
+export const en = {
+  "nav.home": "Home",
+  "nav.features": "Features",
+  "nav.screenshots": "Screenshots",
+  "nav.setup": "Setup",
+  "nav.faq": "FAQ",
+  "nav.support": "Support",
+  "nav.toggleMenu": "Toggle menu",
+  "nav.search": "Search",
+  "nav.searchLabel": "Search the site",
+  "nav.github": "View on GitHub",
+  "nav.kofiAlt": "Support me on Ko-fi",
+  "nav.language": "Language",
+  "nav.theme": "Theme: {mode}. Switch to {next}",
+
+  "theme.system": "System default",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+
+  "footer.tagline":
+    "Made with ❤️ for music lovers who want a beautiful, native iOS experience for their self-hosted music libraries.",
+  "footer.copyright": "© {year} Kartunes. All rights reserved.",
+
+  "home.subtitle": "A native Jellyfin & Emby music player for iOS",
+  "home.description": "Stream your own music library with a fast, native experience on iPhone and Apple Watch.",
+  "home.tryDemo": "Try the Demo",
+  "home.latestRelease": "New in {version}: {title}",
+  "home.cta": "Want more details? {link}",
+  "home.ctaLink": "Explore the Features page",
+
+  "download.appStore": "Download on the App Store",
+  "download.comingSoon": "Coming Soon",
+  "download.testFlight": "Join the TestFlight Beta",
+  "download.publicBeta": "Public Beta",
+  "download.qrLabel": "QR code linking to {url}",
+  "download.qr.testflight": "Scan with your iPhone camera to join the beta on TestFlight",
+  "download.qr.appStore": "Scan with your iPhone camera to open Kartunes on the App Store",
+
+  "features.title": "Features",
+  "features.subtitle": "Everything you need to enjoy your music library on iOS",
+  "features.status": "Status: {status}",
+  "features.learnMore": "Learn more →",
+
+  "screenshots.title": "Screenshots",
+  "screenshots.subtitle": "See Kartunes in action",
+  "screenshots.lightMode": "Light Mode",
+  "screenshots.darkMode": "Dark Mode",
+  "screenshots.matchSite": "Match Site Theme",
+  "screenshots.themeLabel": "Screenshot theme",
+  "screenshots.viewFullScreen": "View {name} in full screen",
+  "screenshots.clickToView": "Click to view full size",
+  "screenshots.close": "Close",
+  "screenshots.previous": "Previous image",
+  "screenshots.next": "Next image",
+
+  "demo.title": "Interactive Demo",
+  "demo.subtitle": "Try the Kartunes player right in your browser",
+  "demo.tryTitle": "Things to try",
+  "demo.tryBrowse": "Browse artists, albums and genres in the Library tab, then tap a song to start a queue.",
+  "demo.tryQueue": "Use ↪ on any song to play it next, then open Up Next from Now Playing to see the queue.",
+  "demo.tryShuffle": "Turn on shuffle and repeat in Now Playing, or start an Instant Mix from the current song.",
+  "demo.tryMiniPlayer": "Close Now Playing and keep browsing: the mini player follows you between screens.",
+  "demo.aboutTitle": "How the demo works",
+  "demo.aboutBody":
+    "Everything runs on this page. The library is made up, and each song is a short tune generated by your browser, so nothing connects to a server. The queue, shuffle and repeat follow the same rules as the app.",
+  "demo.aboutScreenshots": "The real app is native SwiftUI and looks sharper than this sketch. {link}.",
+  "demo.aboutScreenshotsLink": "See the screenshots",
+  "demo.tabsLabel": "Demo app tabs",
+  "demo.home": "Home",
+  "demo.library": "Library",
+  "demo.shuffleLiked": "Shuffle Liked",
+  "demo.likedCount": "Random from {count} liked tracks",
+  "demo.recentlyPlayed": "Recently Played",
+  "demo.recentlyPlayedDetail": "Last 50 tracks",
+  "demo.recentlyPlayedEmpty": "Nothing played yet",
+  "demo.recentlyAdded": "Recently Added",
+  "demo.recentlyAddedDetail": "Newest albums first",
+  "demo.shuffleAll": "Shuffle All",
+  "demo.shuffleAllDetail": "Random from your entire library",
+  "demo.genres": "Genres",
+  "demo.artists": "Artists",
+  "demo.albums": "Albums",
+  "demo.songs": "Songs",
+  "demo.trackCount": "{count} tracks",
+  "demo.back": "Back",
+  "demo.play": "Play",
+  "demo.pause": "Pause",
+  "demo.shuffle": "Shuffle",
+  "demo.next": "Next",
+  "demo.previous": "Previous",
+  "demo.playNext": "Play Next",
+  "demo.playNextLabel": "Play “{title}” next",
+  "demo.nowPlaying": "Now Playing",
+  "demo.openNowPlaying": "Open Now Playing",
+  "demo.playingFrom": "Playing from {context}",
+  "demo.context.allSongs": "All Songs",
+  "demo.context.liked": "Liked Tracks",
+  "demo.context.instantMix": "Instant Mix",
+  "demo.context.custom": "Your queue",
+  "demo.close": "Close",
+  "demo.like": "Like",
+  "demo.position": "Playback position",
+  "demo.repeat": "Repeat: {mode}",
+  "demo.repeat.off": "Off",
+  "demo.repeat.all": "All",
+  "demo.repeat.one": "One",
+  "demo.instantMix": "Instant Mix",
+  "demo.upNext": "Up Next",
+  "demo.done": "Done",
+  "demo.noUpcoming": "No upcoming tracks",
+
+  "setup.title": "Setup",
+  "setup.subtitle": "Get started with Kartunes in minutes",
+  "setup.prerequisites": "Prerequisites",
+  "setup.prerequisitesIntro": "Before you begin, make sure you have:",
+  "setup.checkServer": "Check Your Server",
+  "setup.checkServerIntro":
+    "Paste the address of your Jellyfin or Emby server to see whether Kartunes will be able to detect it. The checker probes the same endpoints as the app and explains anything that goes wrong.",
+  "setup.troubleshootHint":
+    "Still can't connect? {link} walks you through the usual causes one question at a time.",
+  "setup.troubleshootLink": "The troubleshooting wizard",
+  "setup.steps": "Step-by-Step Setup",
+  "setup.stepTitle": "Step {number}: {title}",
+  "setup.notes": "Technical Notes",
+  "setup.proxyConfig": "Reverse Proxy Config",
+  "setup.proxyConfigIntro":
+    "Reaching your server from outside your home usually means putting it behind a reverse proxy with HTTPS. Pick your server and proxy, fill in your address, and copy a config that handles TLS, websockets, large uploads and streaming.",
+
+  "serverCheck.label": "Server URL",
+  "serverCheck.submit": "Check Server",
+  "serverCheck.checking": "Checking…",
+  "serverCheck.hint": "The check runs in your browser and talks only to the address you enter.",
+  "serverCheck.detected": "{server} server detected",
+  "serverCheck.serverName": "Server name",
+  "serverCheck.version": "Version",
+  "serverCheck.address": "Address to use in Kartunes",
+  "serverCheck.notReported": "Not reported",
+  "serverCheck.attempts": "Addresses tried",
+  "serverCheck.responded": "Responded as a media server",
+  "serverCheck.invalidURL.title": "Invalid server URL",
+  "serverCheck.invalidURL.detail":
+    "Enter the address you use to open your server's web interface, for example http://192.168.1.100:8096.",
+  "serverCheck.mixedContent.title": "Blocked by the browser (mixed content)",
+  "serverCheck.mixedContent.detail":
+    "This site is served over HTTPS, so your browser refuses to contact an http:// address. The app is not affected by this; to check from here, use an HTTPS address for your server.",
+  "serverCheck.cors.title": "Server answered, but the browser was not allowed to read the reply (CORS)",
+  "serverCheck.cors.detail":
+    "Something is listening at this address, but it did not send Access-Control-Allow-Origin. Jellyfin and Emby send it by default, so a reverse proxy or another service may be answering instead.",
+  "serverCheck.unreachable.title": "Could not reach the server",
+  "serverCheck.unreachable.detail":
+    "The address did not respond. Check the host name and port, that the server is running, and that this device can reach it (local addresses only work on the same network).",
+  "serverCheck.timeout.title": "The server took too long to respond",
+  "serverCheck.timeout.detail":
+    "No response within 10 seconds. A firewall may be dropping the connection, or the port may be wrong.",
+  "serverCheck.invalidResponse.title": "Invalid response from server",
+  "serverCheck.invalidResponse.detail": "The server replied with something that is not an HTTP response.",
+  "serverCheck.notFound.title": "Server not found at this address",
+  "serverCheck.notFound.detail":
+    "Something answered, but there is no System/Info/Public endpoint here. Check the port, and whether your server lives under a sub-path such as /jellyfin or /emby.",
+  "serverCheck.httpError.title": "HTTP error {statusCode}",
+  "serverCheck.httpError.detail": "The server refused the request. A reverse proxy or firewall rule may be blocking it.",
+  "serverCheck.decodingError.title": "Failed to parse server response",
+  "serverCheck.decodingError.detail":
+    "The address returned something other than Jellyfin or Emby server information, such as a login or router page.",
+  "serverCheck.unknownServerType.title":
+    "Could not determine server type. The server responded but ProductName was not recognized.",
+  "serverCheck.unknownServerType.detail":
+    'The server reports itself as "{productName}". Kartunes only supports Jellyfin and Emby.',
+  "serverCheck.unknownServerType.detailNoName":
+    "The server did not report a ProductName. Kartunes only supports Jellyfin and Emby.",
+  "serverCheck.noCompatibleServer.title":
+    "No compatible server detected. Please check the server URL and ensure it's a Jellyfin or Emby server.",
+  "serverCheck.noCompatibleServer.detail": "None of the addresses tried responded like a Jellyfin or Emby server.",
+
+  "proxy.mediaServer": "Media server",
+  "proxy.proxy": "Reverse proxy",
+  "proxy.domain": "Public domain",
+  "proxy.upstreamHost": "Server host (as the proxy sees it)",
+  "proxy.upstreamPort": "Server port",
+  "proxy.subpath": "Subpath (optional)",
+  "proxy.maxBody": "Max upload size in MB (0 for no limit)",
+  "proxy.toggle.tls": "HTTPS",
+  "proxy.toggle.tls.detail": "Serve over TLS and redirect plain HTTP",
+  "proxy.toggle.websockets": "Websockets",
+  "proxy.toggle.websockets.detail": "Live updates for now playing and remote control",
+  "proxy.toggle.unbufferedStreaming": "Streaming-friendly buffering",
+  "proxy.toggle.unbufferedStreaming.detail": "Pass audio through as it arrives so tracks start at once",
+  "proxy.toggle.allowSiteChecks": "Allow this site's checks",
+  "proxy.toggle.allowSiteChecks.detail": "CORS headers so the server checker and web tools can reach your server",
+  "proxy.error.required": "Required",
+  "proxy.error.invalidDomain": "Enter a domain such as music.example.com",
+  "proxy.error.invalidHost": "Enter a host name or IP address, without http://",
+  "proxy.error.invalidPort": "Enter a port between 1 and 65535",
+  "proxy.error.invalidSubpath": "Use letters, digits, dots, dashes and slashes only",
+  "proxy.error.invalidBodySize": "Enter a whole number of megabytes",
+  "proxy.enterDomain": "Enter your domain to generate a config.",
+  "proxy.fixErrors": "Fix the highlighted fields to generate a config.",
+  "proxy.copy": "Copy",
+  "proxy.copied": "Copied!",
+  "proxy.download": "Download",
+  "proxy.serverURL": "Server URL to enter in Kartunes:",
+  "proxy.note.jellyfinBaseURL":
+    "In Jellyfin, set Dashboard → Networking → Base URL to {subpath} and restart the server, or it will answer 404 under the subpath.",
+  "proxy.note.embyStripsPrefix":
+    "Emby always serves under /emby, so this config strips {subpath} before passing requests on.",
+  "proxy.note.certbot":
+    "The certificate paths are where Let's Encrypt's certbot puts them. Get one first, e.g. with: certbot certonly --standalone -d {domain}",
+  "proxy.note.caddyAutomaticTLS": "Caddy gets and renews the certificate itself as long as ports 80 and 443 reach it.",
+  "proxy.note.traefikStaticConfig":
+    "Load this with Traefik's file provider. The web and websecure entry points and the letsencrypt certificate resolver must exist in your static configuration.",
+  "proxy.note.apacheModules":
+    "Enable the modules first: a2enmod proxy proxy_http headers rewrite ssl. The websocket upgrade needs Apache 2.4.47 or later.",
+  "proxy.note.noTLS":
+    "Without HTTPS your password and music cross the network unencrypted. Only use this inside your home network or a VPN.",
+
+  "troubleshoot.title": "Troubleshooting",
+  "troubleshoot.subtitle": "Answer a few questions to find out why Kartunes can't reach your server",
+  "troubleshoot.yourAnswers": "Your answers",
+  "troubleshoot.change": "Change",
+  "troubleshoot.appSays": "The app says",
+  "troubleshoot.fix": "Suggested fix",
+  "troubleshoot.back": "Back",
+  "troubleshoot.startOver": "Start over",
+  "troubleshoot.shareTitle": "Share this result",
+  "troubleshoot.shareIntro": "The link brings back these answers, so whoever helps you sees what you already checked.",
+  "troubleshoot.copyLink": "Copy link",
+  "troubleshoot.copied": "Copied!",
+  "troubleshoot.stillStuck": "Still stuck? {link} and paste the link into it.",
+  "troubleshoot.openIssue": "Open an issue on GitHub",
+  "troubleshoot.checkerHint": "Not sure what your server returns? Try the {link}.",
+  "troubleshoot.checkerLink": "server checker",
+
+  "genres.title": "Genres",
+  "genres.subtitle": "How Kartunes sorts your genre tags into umbrella categories",
+  "genres.checkTitle": "Check your tags",
+  "genres.checkIntro":
+    "Paste genre tags as your server shows them, one per line. Comma-separated tags are split the same way the app splits them, and each one is looked up exactly as the app looks it up.",
+  "genres.tagsLabel": "Genre tags",
+  "genres.tagsPlaceholder": "Techno (Peak Time)\nDeep-House, Drum & Bass\nGerman Hip Hop",
+  "genres.colTag": "Tag",
+  "genres.colNormalized": "Looked up as",
+  "genres.colUmbrella": "Umbrella",
+  "genres.emptyTag": "(empty)",
+  "genres.suggested": "Suggested: {umbrella}, because {reason}.",
+  "genres.reason.unreachable": "the map has “{key}”, but no tag can match it after normalization",
+  "genres.reason.contains": "the tag contains “{key}”",
+  "genres.reason.similar": "it looks like a misspelling of “{key}”",
+  "genres.noSuggestion": "No suggestion. Pick the umbrella it belongs in.",
+  "genres.choose": "Choose an umbrella…",
+  "genres.chooseUmbrella": "Umbrella for “{tag}”",
+  "genres.submitMapping": "Suggest this mapping on GitHub",
+  "genres.mapTitle": "The umbrella map",
+  "genres.mapIntro":
+    "Before lookup, each tag is lowercased, everything from the first “(” is dropped, hyphens and dots become spaces, “&” becomes “and”, and accents are removed. The result is looked up in the map below; tags that are not in it land in Unknown.",
+  "genres.unreachableLegend":
+    "⚠️ marks entries that no tag can ever match, because normalization changes them before lookup (for example “post-hardcore” is looked up as “post hardcore”).",
+  "genres.unreachable": "Never matches: tags are looked up as “{normalized}”",
+  "genres.searchLabel": "Search the umbrella map",
+  "genres.searchPlaceholder": "Search tags…",
+  "genres.filterLabel": "Filter by umbrella",
+  "genres.all": "All",
+  "genres.tagCount": "{count} tags",
+  "genres.noMatches": "No tags in the map match your search.",
+
+  "capabilities.title": "Feature Matrix",
+  "capabilities.subtitle": "What works on each device and with each server",
+  "capabilities.intro":
+    "Every feature of Kartunes and where you can use it. Pick what you need to find the features that work there; several choices only show features that work on all of them. The cards on the {platforms} page are drawn from the same list.",
+  "capabilities.platformsLink": "Platforms",
+  "capabilities.filterLabel": "Only show features that",
+  "capabilities.worksOn.iphone": "Work on iPhone",
+  "capabilities.worksOn.watch": "Work on Apple Watch",
+  "capabilities.worksOn.carplay": "Work while driving",
+  "capabilities.worksOn.jellyfin": "Work with Jellyfin",
+  "capabilities.worksOn.emby": "Work with Emby",
+  "capabilities.search": "Filter features",
+  "capabilities.showing": "Showing {count} of {total} features",
+  "capabilities.clear": "Clear filters",
+  "capabilities.colFeature": "Feature",
+  "capabilities.notSupported": "Not supported",
+  "capabilities.empty": "No feature matches all of these filters.",
+  "capabilities.legend": "Legend",
+
+  "platforms.title": "Platforms",
+  "platforms.subtitleWithPending": "Available on {available}, and coming soon to {pending}",
+  "platforms.subtitle": "Available on {available}",
+  "platforms.listAnd": "and",
+  "platforms.note": "Note:",
+  "platforms.future": "Future Platforms",
+  "platforms.compare": "Compare {platform} with the other platforms →",
+
+  "privacy.title": "Privacy",
+  "privacy.subtitle": "Your data stays yours",
+  "privacy.consentTitle": "Third-Party Content on This Site",
+  "privacy.consentIntro":
+    "These embeds stay as placeholders until you load them. If you asked for one to always load, that choice is kept in this browser only, and you can take it back here.",
+
+  "faq.title": "Frequently Asked Questions",
+  "faq.subtitle": "Everything you need to know about Kartunes",
+  "faq.searchPlaceholder": "Search questions and answers…",
+  "downloads.title": "Offline Downloads",
+  "downloads.subtitle": "How much space downloads take, and how much data streaming uses instead",
+  "downloads.howTitle": "How Downloads Work",
+  "downloads.howStart":
+    "Open the menu on a track in Songs, Artists, Search or Up Next and choose Download Offline. The same menu cancels a download or removes it again.",
+  "downloads.howPlay":
+    "Downloaded tracks are listed under Library → Downloads. Play All Offline and Shuffle Offline play them from your device, with no connection to your server.",
+  "downloads.howFormat":
+    "Your server converts every download to {kbps} kbps AAC, whatever the original format, so downloads play on every device. The {formats} page shows what happens to each format when it's streamed instead.",
+  "downloads.howMetadata":
+    "Your library stays browsable offline, but tracks started outside Downloads are streamed from your server as usual.",
+  "downloads.formatsLink": "Audio Formats",
+  "downloads.calcTitle": "Storage and Data Calculator",
+  "downloads.calcIntro":
+    "Enter how much music you want to take with you and what your library is made of. The estimate compares the space downloads take with the size of your original files, and the data needed to stream the same music over a cellular connection.",
+  "downloads.amount": "How much music",
+  "downloads.unit": "Unit",
+  "downloads.unit.tracks": "tracks",
+  "downloads.unit.albums": "albums",
+  "downloads.unit.hours": "hours",
+  "downloads.listeningTime": "About {hours} hours of music",
+  "downloads.server": "Server",
+  "downloads.mixTitle": "What your library is made of",
+  "downloads.mixHint": "Move the sliders to match your files. They're weighed against each other, so they don't have to add up to 100.",
+  "downloads.empty": "Enter an amount and move at least one slider to see an estimate.",
+  "downloads.kartunesDownloads": "Kartunes downloads",
+  "downloads.originalFiles": "Original files",
+  "downloads.streamingOnce": "Streaming once",
+  "downloads.downloadingOnce": "Downloading",
+  "downloads.storageChart": "Storage on your device",
+  "downloads.storageNote":
+    "Downloads are estimated at {kbps} kbps. Kartunes doesn't keep original files; they're shown to compare what the conversion saves. Servers may keep the lower bitrate of tracks encoded below that, so their downloads can come out smaller.",
+  "downloads.dataChart": "Data to listen once with {server}",
+  "downloads.dataNote":
+    "Kartunes has no separate quality setting for cellular connections: it streams and downloads the same way on Wi-Fi and cellular. Streaming uses the data again every time you play a track; a download only uses it once.",
+  "downloads.hourlyChart": "Streaming data per hour of listening",
+  "downloads.perHour": "{size}/h",
+  "downloads.wontPlay": "Won't play",
+  "downloads.unplayableNote":
+    "{server} sends some of these formats unchanged, and iOS can't play them, so they can only be listened to as downloads. See {formats} for details.",
+
+  "formats.title": "Audio Formats",
+  "formats.subtitle": "Why a track streams as is, or why your server converts it first",
+  "formats.checkTitle": "Check a File",
+  "formats.checkIntro":
+    "Pick or drop an audio file, or type its codec and container. The file is read in your browser and never uploaded; only its first few kilobytes are looked at.",
+  "formats.dropTitle": "Choose an audio file or drop it here",
+  "formats.dropHint": "FLAC, MP3, M4A, WAV, AIFF, Ogg, Opus, WMA, APE, WavPack, DSD…",
+  "formats.reading": "Reading {file}…",
+  "formats.unrecognized": "{file} doesn't look like an audio format this page knows. Type its codec and container instead.",
+  "formats.codec": "Codec",
+  "formats.container": "Container",
+  "formats.server": "Server",
+  "formats.unknownCodec": "“{codec}” isn't a codec this page knows. Pick one from the list.",
+  "formats.unknownContainer": "“{container}” isn't a container this page knows. Pick one from the list.",
+  "formats.codecUnknown": "This is a {container} file, but its codec couldn't be read. Type the codec your server reports for it.",
+  "formats.streaming": "Streaming",
+  "formats.download": "Offline download",
+  "formats.sampleRate": "Sample rate",
+  "formats.kHz": "{value} kHz",
+  "formats.bitDepth": "Bit depth",
+  "formats.bits": "{value}-bit",
+  "formats.channels": "Channels",
+  "formats.duration": "Duration",
+  "formats.bitrate": "Bitrate",
+  "formats.kbps": "{value} kbps",
+  "formats.method.directStream": "Direct stream",
+  "formats.method.transcode": "Transcode",
+  "formats.method.unplayable": "Won't play",
+  "formats.explain.directStream":
+    "iOS plays {format} itself, so Kartunes asks {server} for the original file and plays it unchanged.",
+  "formats.explain.transcode":
+    "iOS can't play {format}, so {server} reports that the file can't be streamed as is and Kartunes asks for an HLS stream in 320 kbps AAC instead.",
+  "formats.explain.unplayable":
+    "Kartunes always asks {server} for the original file, and iOS can't play {format}, so the track fails to start. Convert these files to a format iOS plays, such as FLAC or AAC.",
+  "formats.explain.download":
+    "Downloads are always converted to 320 kbps AAC in an M4A file, whatever the original, so they play offline on every device.",
+  "formats.jellyfinCaveat":
+    "Jellyfin makes the final call: with a streaming bitrate limit set for your user, it may still send a transcode.",
+  "formats.hiResCapped": "Transcodes are capped at 44.1 kHz and 16-bit, so the extra resolution of this file is lost.",
+  "formats.downloadLossy": "The download is lossy even though the original is lossless.",
+  "formats.request": "What Kartunes requests",
+  "formats.serverLoad": "Server load",
+  "formats.load.none": "Light: the server only reads the file from disk.",
+  "formats.load.realtime":
+    "Moderate: the server decodes and re-encodes the track in real time every time it's played, and keeps a core busy while it does.",
+  "formats.load.once": "Once per track: the server converts each track while it downloads, as fast as it can.",
+  "formats.bandwidth": "Data used",
+  "formats.bandwidthValue": "About {kbps} kbps, {mb} MB per minute",
+  "formats.referenceTitle": "Format Reference",
+  "formats.referenceIntro":
+    "What happens to each format on each server. Pick a format to see the details above.",
+  "formats.colFormat": "Format",
+  "formats.colExtensions": "Extensions",
+  "formats.colLossless": "Lossless",
+  "formats.colNative": "iOS plays it",
+  "formats.colStreaming": "{server} streaming",
+  "formats.colDownload": "Download",
+  "formats.yes": "Yes",
+  "formats.no": "No",
+  "formats.containerFootnote":
+    "The container matters as well as the codec: iOS opens MP3, MPEG-4, ADTS, CAF, FLAC, WAV and AIFF files, so a codec it knows inside another container, such as {example}, is treated like one it doesn't.",
+
+  "faq.searchLabel": "Search the FAQ",
+  "faq.categoriesLabel": "Filter by category",
+  "faq.all": "All",
+  "faq.expandAll": "Expand all",
+  "faq.collapseAll": "Collapse all",
+  "faq.permalink": "Link to this answer",
+  "faq.noResults": "No questions match your search.",
+  "faq.askSupport": "Can't find an answer? {link}.",
+  "faq.askSupportLink": "Ask on the Support page",
+
+  "changelog.title": "Changelog",
+  "changelog.subtitle": "What's new in each Kartunes release",
+  "changelog.subscribe":
+    "Follow new releases in your feed reader with the {atom} or {rss} feed. Changes that affect Jellyfin or Emby servers are tagged Server compatibility, so you can see at a glance whether a release matters for your server.",
+  "changelog.filterTags": "Filter by type",
+  "changelog.filterPlatforms": "Filter by platform",
+  "changelog.tag.feature": "New features",
+  "changelog.tag.fix": "Fixes",
+  "changelog.tag.server-compat": "Server compatibility",
+  "changelog.tags": "Release type",
+  "changelog.platforms": "Platforms",
+  "changelog.showing": "Showing {count} of {total} releases",
+  "changelog.clear": "Clear filters",
+  "changelog.empty": "No release matches these filters.",
+  "changelog.firstPage": "There are no releases on this page. Go to the first page",
+  "changelog.pagination": "Changelog pages",
+  "changelog.newer": "← Newer",
+  "changelog.older": "Older →",
+  "changelog.pageTitle": "Changelog, page {page}",
+  "changelog.pageDescription":
+    "Earlier Kartunes releases, page {page} of {count}: new features, fixes and Jellyfin and Emby compatibility changes.",
+  "changelog.releaseTitle": "Version {version}: {title}",
+  "changelog.allReleases": "← All releases",
+  "changelog.otherReleases": "Other releases",
+  "changelog.newerRelease": "← Newer: version {version}",
+  "changelog.olderRelease": "Older: version {version} →",
+  "changelog.feedTitle": "{name} changelog",
+  "changelog.feedDescription": "New Kartunes releases: features, fixes and Jellyfin and Emby compatibility changes.",
+
+  "support.title": "Support",
+  "support.subtitle": "Need help or want to request a feature?",
+  "support.intro":
+    "Kartunes is an independent project hosted on GitHub. If you encounter a bug, have feedback, or want to suggest a feature, please open an issue on GitHub.",
+  "support.openIssues": "Open GitHub Issues",
+  "support.viewRepository": "View Repository",
+  "support.reportTitle": "Report a Bug",
+  "support.reportIntro":
+    "Fill in the form and it opens a GitHub issue with everything needed to track the problem down. Please {link} first, and check that you're on the latest version of the app.",
+  "support.reportExisting": "look for an existing issue",
+  "support.helpTitle": "Getting Help",
+  "support.helpBody":
+    "The best way to get help is through GitHub Issues. This allows the community to see questions and answers, and helps others who might have the same issue. Please be patient as this is an independent project maintained in spare time.",
+  "support.troubleshootHint":
+    "Can't connect to your server? Try the {link} before opening an issue; it covers the usual causes and every error message the app shows.",
+  "support.troubleshootLink": "troubleshooting wizard",
+  "support.contributingTitle": "Contributing",
+  "support.contributingBody":
+    "Kartunes is open source! If you're interested in contributing code, documentation, or translations, please check out the repository and open a pull request. All contributions are welcome and appreciated.",
+  "support.githubLink": "View on GitHub →",
+  "support.donateTitle": "Support Development",
+  "support.donateBody":
+    "Kartunes is free and developed in spare time. If it makes your music library better, you can buy the developer a coffee on {link}.",
+
+  "consent.kofi.title": "Ko-fi donation panel",
+  "consent.github.title": "GitHub star count",
+  "consent.notice":
+    "This loads from {origin}, which lets {name} see your IP address and set its own cookies. Nothing is loaded until you choose to. See the {policy}.",
+  "consent.privacyPolicy": "{name} privacy policy",
+  "consent.load": "Load",
+  "consent.remember": "Always load {name} content",
+  "consent.remembered": "Always loads",
+  "consent.asks": "Asks first",
+  "consent.forget": "Ask again",
+  "consent.alwaysLoad": "Always load",
+
+  "githubStars.loading": "Loading star count…",
+  "githubStars.count": "★ {count} stars on GitHub",
+  "githubStars.failed": "Could not load the star count from GitHub.",
+
+  "serverSession.serverURL": "Server URL",
+  "serverSession.username": "Username",
+  "serverSession.password": "Password",
+  "serverSession.signIn": "Sign In",
+  "serverSession.signingIn": "Signing in…",
+  "serverSession.signOut": "Sign Out",
+  "serverSession.signedIn": "Signed in to {server} as {user}",
+  "serverSession.hint":
+    "Your password goes only to your server, from this browser. The sign-in lasts until you close the tab. If the server cannot be reached from here, {link}.",
+  "serverSession.hintLink": "allow this site in your reverse proxy",
+  "serverSession.network.title": "Could not reach the server",
+  "serverSession.network.detail":
+    "The request did not get through. Check that the server is running and that it allows requests from this site (CORS).",
+  "serverSession.unauthorized.title": "The server refused the sign-in",
+  "serverSession.unauthorized.detail":
+    "Check the username and password. If you were already signed in, the session may have ended; sign out and in again.",
+  "serverSession.httpError.title": "HTTP error {statusCode}",
+  "serverSession.httpError.detail": "The server turned the request down. A reverse proxy or firewall rule may be blocking it.",
+  "serverSession.invalidResponse.title": "The server sent an unexpected response",
+  "serverSession.invalidResponse.detail": "The response was not the JSON Jellyfin and Emby send. Check the server address.",
+
+  "playlists.title": "Playlist Tools",
+  "playlists.subtitle": "Bring playlists from other players into your library, and take your Kartunes playlists with you",
+  "playlists.signInTitle": "Sign In to Your Server",
+  "playlists.signInIntro":
+    "The tools work on your own Jellyfin or Emby server, with the account you use in Kartunes. Everything happens in your browser; nothing is sent to this site.",
+  "playlists.importTitle": "Import a Playlist",
+  "playlists.importIntro":
+    "Open an M3U, M3U8, XSPF or CSV playlist. Each line is matched to a track in your library by title, artist, album and length; you choose where the match is unsure, then the playlist is created on your server and shows up in Kartunes.",
+  "playlists.exportTitle": "Export a Playlist",
+  "playlists.exportIntro":
+    "Save your Liked Tracks or any playlist on your server as a file other players can open. Tracks keep the file paths your server reports.",
+  "playlists.import.file": "Playlist file",
+  "playlists.import.fileHint": "M3U, M3U8, XSPF or CSV with a header row",
+  "playlists.import.name": "Playlist name",
+  "playlists.import.entries": "{count} tracks in the file",
+  "playlists.import.unsupported": "This file is not a playlist the tool can read",
+  "playlists.import.unsupportedDetail": "Choose an M3U, M3U8, XSPF or CSV file.",
+  "playlists.import.empty": "The playlist has no tracks",
+  "playlists.import.emptyDetail": "No track lines were found. CSV files need a header row with at least a title column.",
+  "playlists.import.match": "Match with My Library",
+  "playlists.import.loading": "Loading your library…",
+  "playlists.import.loadingCount": "Loading your library… {loaded} of {total} tracks",
+  "playlists.import.summary": "{chosen} of {total} tracks will be added.",
+  "playlists.import.unresolved": "{count} unsure matches are left out until you choose one.",
+  "playlists.import.creating": "Adding tracks… {added} of {total}",
+  "playlists.import.create": "Create Playlist",
+  "playlists.import.created": "Created “{name}”",
+  "playlists.import.createdAll": "All {added} tracks were added. The playlist is now under Playlists in Kartunes.",
+  "playlists.import.createdSkipped":
+    "{added} tracks were added and {skipped} left out. The playlist is now under Playlists in Kartunes.",
+  "playlists.filter.ambiguous": "Unsure ({count})",
+  "playlists.filter.unmatched": "Not found ({count})",
+  "playlists.filter.matched": "Matched ({count})",
+  "playlists.status.ambiguous": "Unsure",
+  "playlists.status.unmatched": "Not found",
+  "playlists.status.matched": "Matched",
+  "playlists.review.filter": "Show tracks by match",
+  "playlists.review.empty": "No tracks with this status.",
+  "playlists.review.choose": "Library track for “{title}”",
+  "playlists.review.skip": "Leave out",
+  "playlists.review.noCandidates": "Nothing close in your library; left out",
+  "playlists.export.playlist": "Playlist",
+  "playlists.export.liked": "Liked Tracks",
+  "playlists.export.likedHint": "Liked Tracks are the tracks you liked in Kartunes, newest first.",
+  "playlists.export.loading": "Loading your playlists…",
+  "playlists.export.format": "Format",
+  "playlists.export.download": "Download",
+  "playlists.export.exporting": "Exporting…",
+  "playlists.export.done": "Saved “{name}” with {count} tracks.",
+
+  "remote.title": "Remote",
+  "remote.subtitle": "See what Kartunes is playing on your phone and like it from another screen",
+  "remote.loading": "Looking for Kartunes sessions…",
+  "remote.noSessions":
+    "No active Kartunes sessions on this server. Start playing something in the app, signed in with this account, and it shows up here within a few seconds.",
+  "remote.retry": "Try Again",
+  "remote.devices": "Device",
+  "remote.nowPlayingOn": "Now Playing on {device}",
+  "remote.idle": "Kartunes on {device} is open but not playing anything.",
+  "remote.playing": "Playing",
+  "remote.paused": "Paused",
+  "remote.play": "Play",
+  "remote.pause": "Pause",
+  "remote.previous": "Previous",
+  "remote.next": "Next",
+  "remote.position": "Playback position",
+  "remote.favourite": "Like",
+  "remote.howTitle": "How It Works",
+  "remote.how":
+    "Kartunes reports what it plays to your server, and this page reads those reports every few seconds. Liking a track marks it as a favourite on the server, which Kartunes syncs with its likes.",
+  "remote.limitation":
+    "Play/pause, previous, next and seeking stay off for now: the server sends them to the app over a live connection that the current Kartunes release does not open yet, so they would not reach the phone. Now Playing and likes already work.",
+
+  "stats.title": "Listening Stats",
+  "stats.subtitle": "What you play most and what your library is made of, read from your Jellyfin or Emby server",
+  "stats.signInIntro":
+    "Sign in to your server to see your stats. Everything is read and worked out in this browser; nothing is stored or sent anywhere else.",
+  "stats.loading": "Reading your library…",
+  "stats.loadingProgress": "Reading your library… {loaded} of {total} tracks",
+  "stats.retry": "Try Again",
+  "stats.empty": "Your library has no tracks yet.",
+  "stats.listeningTitle": "Your Listening",
+  "stats.range": "Time range",
+  "stats.range.week": "Past 7 Days",
+  "stats.range.month": "Past 30 Days",
+  "stats.range.year": "Past Year",
+  "stats.range.all": "All Time",
+  "stats.totals.plays": "Plays",
+  "stats.totals.time": "Listening time",
+  "stats.totals.timeOnce": "Listening time, one play per track",
+  "stats.totals.tracks": "Tracks played",
+  "stats.totals.favourites": "Liked tracks",
+  "stats.noPlays": "Nothing played in this time range. Plays show up once Kartunes or another player has reported them to your server.",
+  "stats.topArtists": "Top Artists",
+  "stats.topAlbums": "Top Albums",
+  "stats.topTracks": "Top Tracks",
+  "stats.playCount": "{count} plays",
+  "stats.playCountAllTime": "{count} plays all time",
+  "stats.topHint": "Ranked by all-time plays of the tracks you played in this range.",
+  "stats.timeline.day": "Listening per day",
+  "stats.timeline.month": "Listening per month",
+  "stats.genres": "Plays by umbrella genre",
+  "stats.genresTracks": "Tracks played by umbrella genre",
+  "stats.genresHint":
+    "Genre tags are sorted into the umbrella categories of the app's Genres tab, and a track counts towards each umbrella its tags fall into.",
+  "stats.libraryTitle": "Your Library",
+  "stats.library.tracks": "Tracks",
+  "stats.library.albums": "Albums",
+  "stats.library.duration": "Total length",
+  "stats.library.size": "Size on disk",
+  "stats.unknown": "Unknown",
+  "stats.trackCount": "{count} tracks",
+  "stats.formats": "Tracks by format",
+  "stats.bitrates": "Tracks by bitrate (kbps)",
+  "stats.missingTitle": "Missing Artwork and Tags",
+  "stats.missing.artwork": "Albums without artwork",
+  "stats.missing.album": "Tracks without an album",
+  "stats.missing.artist": "Tracks without an artist",
+  "stats.missing.genre": "Tracks without a genre",
+  "stats.missing.year": "Tracks without a year",
+  "stats.missingHint":
+    "Fix tags in the files or in your server's metadata editor, then rescan the library so the server and Kartunes pick them up.",
+  "stats.exportTitle": "Export",
+  "stats.exportIntro":
+    "Download the tracks played in the chosen time range as CSV, for a spreadsheet, or everything on this page as JSON.",
+  "stats.exportCSV": "Download CSV",
+  "stats.exportJSON": "Download JSON",
+  "stats.howTitle": "How Plays Are Counted",
+  "stats.how":
+    "Your server keeps a play count and the date of the latest play for each track, not a list of every play. A time range therefore covers the tracks you last played in it, and the timeline places each track on the day or month of its latest play. Within a range each track counts as one play, since the server cannot say how many of its plays fell there; only the top lists go by all-time plays. All Time adds up every play. A track you played last year and again yesterday counts only towards yesterday.",
+
+  "health.title": "Library Health",
+  "health.subtitle": "Find the tagging problems that make Kartunes look broken, and fix them on your server",
+  "health.signInTitle": "Sign In to Your Server",
+  "health.signInIntro":
+    "The scan reads your library's tags from your Jellyfin or Emby server in this browser. Nothing is changed on the server, and nothing is sent anywhere else.",
+  "health.reportTitle": "Scan Your Library",
+  "health.reportIntro":
+    "Kartunes imports whatever your server has. Missing album artists, genre tags it has to split or cannot place, albums without artwork and artists spelled two ways all come through as they are, and show up in the app as Unknown Artist, Unknown genre, blank covers or the same artist twice.",
+  "health.scan": "Scan Library",
+  "health.scanAgain": "Scan Again",
+  "health.scanning": "Scanning your library…",
+  "health.progress.tracks": "Reading tracks… {loaded} of {total}",
+  "health.progress.albums": "Reading albums… {loaded} of {total}",
+  "health.progress.artists": "Reading artists… {loaded} of {total}",
+  "health.clean": "No problems found in {tracks} tracks, {albums} albums and {artists} artists.",
+  "health.summary": "Found {count} problems in {tracks} tracks, {albums} albums and {artists} artists.",
+  "health.exportCSV": "Download CSV",
+  "health.exportJSON": "Download JSON",
+  "health.searchPlaceholder": "Search albums, tags and artists…",
+  "health.searchLabel": "Search the report",
+  "health.filterLabel": "Filter by problem",
+  "health.all": "All",
+  "health.noMatches": "Nothing in the report matches your search.",
+  "health.groupCount": "{count} problems · {tracks} tracks",
+  "health.trackCount": "{count} tracks",
+  "health.moreItems": "and {count} more in the export",
+  "health.showAll": "Show all {count}",
+  "health.showFewer": "Show fewer",
+  "health.untitled": "(no name)",
+  "health.type.track": "track",
+  "health.type.album": "album",
+  "health.type.artist": "artist",
+  "health.check.missingAlbumArtist.title": "Missing album artist",
+  "health.check.missingAlbumArtist.why":
+    "Without an album artist the app files the album under Unknown Artist, away from the rest of the artist's albums. Set the album artist tag on these albums.",
+  "health.check.missingAlbumArtist.detail": "Track artists: {detail}",
+  "health.check.joinedGenres.title": "Joined genre tags",
+  "health.check.joinedGenres.why":
+    "These genre tags hold several genres in one string. The app splits them at commas, but your server and other players see one odd genre. Split them into separate tags.",
+  "health.check.joinedGenres.detail": "Read as: {detail}",
+  "health.check.unknownGenre.title": "Genres in Unknown",
+  "health.check.unknownGenre.why":
+    "The app has no umbrella category for these tags, so their tracks land in the Unknown genre. Rename the tag to a common spelling, or suggest a mapping on the Genres page.",
+  "health.check.unknownGenre.detail": "Could go in {detail}",
+  "health.check.missingArtwork.title": "Albums without artwork",
+  "health.check.missingArtwork.why":
+    "These albums have no Primary image on the server, so the app, CarPlay and the lock screen show a placeholder. Add a cover file to the album folder or pick an image on the server.",
+  "health.check.missingArtwork.detail": "By {detail}",
+  "health.check.duplicateArtist.title": "Artists spelled two ways",
+  "health.check.duplicateArtist.why":
+    "These artists differ only by accents. The app matches artist names regardless of case but not of accents, so each spelling becomes its own artist. Use one spelling in the tags.",
+  "health.check.duplicateArtist.detail": "{detail}",
+
+  "siri.title": "Siri Voice Commands",
+  "siri.subtitle": "What to say to Siri to play your music and like tracks in Kartunes, hands-free and in the car",
+  "siri.tipsTitle": "Before You Ask",
+  "siri.tip.appName":
+    "End with “in Kartunes”. Until Siri has learned that you listen in Kartunes, it sends requests without the app's name to Apple Music.",
+  "siri.tip.type":
+    "Say what you are after: “the album”, “the song”, “the artist” or “the playlist”. A bare name leaves Siri guessing, and Kartunes then searches song titles and artists.",
+  "siri.tip.sync":
+    "Siri searches the library Kartunes has synced to your phone, from the first server you added. Sync after adding music so Siri can find it.",
+  "siri.tip.permission":
+    "Kartunes asks for Siri access the first time it opens. If you declined, turn it back on in the Kartunes section of Settings.",
+  "siri.tip.shortcuts":
+    "Kartunes has no actions of its own in the Shortcuts app, so these phrases are the way to reach it by voice.",
+  "siri.phrasesTitle": "What You Can Say",
+  "siri.phrasesIntro":
+    "Siri understands these in English. The names come from the sample library; use your own. Select a phrase to try it in the tester.",
+  "siri.tryPhrase": "Try “{phrase}” in the phrase tester",
+  "siri.intent.playMedia.title": "Play music",
+  "siri.intent.playMedia.detail":
+    "Siri hands Kartunes what to search for. When several things match, Siri reads out up to five and asks which one you mean.",
+  "siri.intent.updateMediaAffinity.title": "Like and unlike",
+  "siri.intent.updateMediaAffinity.detail":
+    "Works on the song Kartunes is playing, with or without the app's name. With nothing playing, Siri says Kartunes can't do that.",
+  "siri.group.artist.title": "Artists",
+  "siri.group.artist.detail": "Plays every song by the artist.",
+  "siri.group.album.title": "Albums",
+  "siri.group.album.detail":
+    "Plays the album from the first song. Add “by” and the artist when two albums share a name.",
+  "siri.group.song.title": "Songs",
+  "siri.group.song.detail": "Plays the song's album, starting at that song.",
+  "siri.group.music.title": "Anything by name",
+  "siri.group.music.detail": "Searches song titles and artists, since Siri does not say which it is.",
+  "siri.group.playlist.title": "Playlists",
+  "siri.group.playlist.detail": "Plays the playlist from the top.",
+  "siri.group.shuffle.title": "Shuffled",
+  "siri.group.shuffle.detail":
+    "Start with “Shuffle” or end with “on shuffle”. Kartunes turns shuffle on, and turns it off again for requests that don't ask for it.",
+  "siri.group.like.title": "Like",
+  "siri.group.like.detail": "Adds the song that's playing to your Liked Tracks.",
+  "siri.group.dislike.title": "Unlike",
+  "siri.group.dislike.detail": "Takes the song that's playing out of your Liked Tracks.",
+  "siri.testerTitle": "Phrase Tester",
+  "siri.testerIntro":
+    "Type what you would say. The tester shows what Siri would most likely hand Kartunes, what the app searches for and what it finds. Siri has the last word on how it reads a sentence, so take this as a guide.",
+  "siri.inputLabel": "What would you say to Siri?",
+  "siri.inputPlaceholder": "Play the album Blue Hour in Kartunes",
+  "siri.idle": "Type a sentence, or select one of the phrases above.",
+  "siri.source": "Search in",
+  "siri.source.sample": "Sample library",
+  "siri.source.server": "Your library",
+  "siri.source.serverHint": "Sign in and load your library below to search it.",
+  "siri.result.intent": "Siri asks Kartunes to",
+  "siri.result.mediaType": "Media type",
+  "siri.result.search": "Kartunes searches for",
+  "siri.result.shuffle": "Shuffle",
+  "siri.result.plays": "And plays",
+  "siri.result.affinity": "What happens",
+  "siri.intentName.playMedia": "Play media",
+  "siri.intentName.updateMediaAffinity": "Change a like",
+  "siri.search.artist": "Artists named “{term}”",
+  "siri.search.album": "Albums named “{term}”",
+  "siri.search.track": "Songs named “{term}”",
+  "siri.search.playlist": "Playlists named “{term}”",
+  "siri.search.byArtist": "by “{artist}”",
+  "siri.search.orArtist": "or by an artist named that",
+  "siri.search.note": "Names match anywhere in the title, ignoring case and accents.",
+  "siri.shuffle.on": "On",
+  "siri.shuffle.off": "Off",
+  "siri.plays.artist": "Every song by the artist",
+  "siri.plays.album": "The album from the first song",
+  "siri.plays.track": "The song's album, starting at that song",
+  "siri.plays.playlist": "The playlist from the top",
+  "siri.affinity.like":
+    "Kartunes likes the song that's playing and adds it to your Liked Tracks the next time the app comes to the front.",
+  "siri.affinity.dislike":
+    "Kartunes takes the song that's playing out of your Liked Tracks the next time the app comes to the front.",
+  "siri.note.noApp": "This doesn't name Kartunes, so Siri may play it from Apple Music. Add “in Kartunes”.",
+  "siri.note.music":
+    "Siri decides whether a bare name is an artist, album or song. When it leaves that open, Kartunes searches song titles and artists. Say “the album”, “the artist” or “the playlist” to be sure.",
+  "siri.unsupported.notMedia.title": "Kartunes can't do this",
+  "siri.unsupported.notMedia.detail":
+    "Siri passes Kartunes requests to play something or to like what's playing. Start with “Play” or “Shuffle”, or say “I like this song”.",
+  "siri.unsupported.noName.title": "Nothing to search for",
+  "siri.unsupported.noName.detail":
+    "Kartunes needs a name to look up, and doesn't pick music by itself. Name an artist, album, song or playlist.",
+  "siri.unsupported.genre.title": "Genres aren't supported",
+  "siri.unsupported.genre.detail":
+    "“{term}” is a genre, and Kartunes doesn't search genres for Siri. Shuffle the genre from the Genres tab in the app instead.",
+  "siri.matches.sample": "In the sample library",
+  "siri.matches.server": "In your library",
+  "siri.matches.none": "Nothing matches, so Siri says Kartunes couldn't find it.",
+  "siri.matches.one": "One match, so Siri plays it straight away:",
+  "siri.matches.many": "{count} matches, so Siri asks which one you mean:",
+  "siri.matches.more":
+    "{count} more match, but Siri only offers the first {limit}. Say more of the name to narrow it down.",
+  "siri.libraryTitle": "Test With Your Library",
+  "siri.libraryIntro":
+    "Sign in to your Jellyfin or Emby server to run the tester against your own artists, albums, songs and playlists. The library is read in this browser and sent nowhere else.",
+  "siri.load": "Load Library",
+  "siri.reload": "Load Again",
+  "siri.loading": "Reading your library…",
+  "siri.loaded": "Loaded {artists} artists, {albums} albums, {tracks} songs and {playlists} playlists.",
+
+  "bugReport.device": "Your device",
+  "bugReport.server": "Your server",
+  "bugReport.description": "What happened",
+  "bugReport.surfaces": "Also involves",
+  "bugReport.field.title": "Summary",
+  "bugReport.field.title.placeholder": "Playback stops when the screen locks",
+  "bugReport.field.title.hint": "One line that describes the problem; it becomes the issue title.",
+  "bugReport.field.appVersion": "App version",
+  "bugReport.field.appVersion.hint": "Shown in TestFlight or the App Store. If you built the app yourself, give the commit.",
+  "bugReport.field.deviceModel": "Device model",
+  "bugReport.field.deviceModel.hint": "Settings → General → About → Model Name",
+  "bugReport.field.iosVersion": "iOS version",
+  "bugReport.field.iosVersion.hint": "Settings → General → About → iOS Version",
+  "bugReport.field.watchOSVersion": "watchOS version",
+  "bugReport.field.watchOSVersion.hint": "Watch app on your iPhone → General → About → Version",
+  "bugReport.field.serverType": "Server",
+  "bugReport.field.serverVersion": "Server version",
+  "bugReport.field.serverVersion.hint": "Shown in the server's dashboard, or by the server checker on the Setup page.",
+  "bugReport.field.steps": "Steps to reproduce",
+  "bugReport.field.steps.hint": "What you did, one step per line, starting from opening the app.",
+  "bugReport.field.expected": "Expected behaviour",
+  "bugReport.field.expected.hint": "What you expected to happen.",
+  "bugReport.field.actual": "Actual behaviour",
+  "bugReport.field.actual.hint": "What happened instead, including any error message the app showed.",
+  "bugReport.error.required": "Required",
+  "bugReport.error.tooShort": "Add a few more words so the issue can be told apart from others",
+  "bugReport.fixErrors": "Fill in the highlighted fields to open the issue.",
+  "bugReport.tooLong":
+    "This report is too long to fit in a link. Copy it as Markdown, open the issue, and paste it into the description.",
+  "bugReport.openIssue": "Open Issue on GitHub",
+  "bugReport.copyMarkdown": "Copy as Markdown",
+  "bugReport.copied": "Copied!",
+  "bugReport.clear": "Clear form",
+  "bugReport.preview": "Preview the issue",
+  "bugReport.draftNote": "Your draft is saved in this browser until you clear it.",
+
+  "notFound.title": "Page Not Found",
+  "notFound.description": "The page you're looking for doesn't exist.",
+  "notFound.goHome": "Go Home",
+
+  "search.placeholder": "Search features, FAQ, setup, privacy…",
+  "search.unavailable": "Search is unavailable right now.",
+  "search.loading": "Loading…",
+  "search.noResults": "No results for “{query}”.",
+  "search.hint": "Try “offline”, “Emby”, “CarPlay” or “reverse proxy”. Use {up} {down} and {enter}.",
+};
@@ -0,0 +1,835 @@
+import type { Catalogue } from "./index";
+
+export const et: Catalogue = {
+  "nav.home": "Avaleht",
+  "nav.features": "Võimalused",
+  "nav.screenshots": "Kuvatõmmised",
+  "nav.setup": "Seadistamine",
+  "nav.faq": "KKK",
+  "nav.support": "Tugi",
+  "nav.toggleMenu": "Ava või sulge menüü",
+  "nav.search": "Otsi",
+  "nav.searchLabel": "Otsi saidilt",
+  "nav.github": "Vaata GitHubis",
+  "nav.kofiAlt": "Toeta mind Ko-fis",
+  "nav.language": "Keel",
+  "nav.theme": "Teema: {mode}. Vaheta: {next}",
+
+  "theme.system": "Süsteemi vaikimisi",
+  "theme.light": "Hele",
+  "theme.dark": "Tume",
+
+  "footer.tagline":
+    "Tehtud ❤️-ga muusikasõpradele, kes soovivad oma isehostitud muusikakogu jaoks ilusat ja natiivset iOS-i kogemust.",
+  "footer.copyright": "© {year} Kartunes. Kõik õigused kaitstud.",
+
+  "home.subtitle": "Natiivne Jellyfini ja Emby muusikamängija iOS-ile",
+  "home.description": "Kuula oma muusikakogu kiire ja natiivse kogemusega iPhone'is ning Apple Watchis.",
+  "home.tryDemo": "Proovi demot",
+  "home.latestRelease": "Uut versioonis {version}: {title}",
+  "home.cta": "Tahad rohkem teada? {link}",
+  "home.ctaLink": "Vaata võimaluste lehte",
+
+  "download.appStore": "Laadi alla App Store'ist",
+  "download.comingSoon": "Varsti saadaval",
+  "download.testFlight": "Liitu TestFlighti beetaga",
+  "download.publicBeta": "Avalik beeta",
+  "download.qrLabel": "QR-kood, mis viib aadressile {url}",
+  "download.qr.testflight": "Skanni iPhone'i kaameraga, et liituda TestFlightis beetaga",
+  "download.qr.appStore": "Skanni iPhone'i kaameraga, et avada Kartunes App Store'is",
+
+  "features.title": "Võimalused",
+  "features.subtitle": "Kõik, mida vajad oma muusikakogu nautimiseks iOS-is",
+  "features.status": "Olek: {status}",
+  "features.learnMore": "Loe lähemalt →",
+
+  "screenshots.title": "Kuvatõmmised",
+  "screenshots.subtitle": "Vaata Kartunesi töös",
+  "screenshots.lightMode": "Hele režiim",
+  "screenshots.darkMode": "Tume režiim",
+  "screenshots.matchSite": "Nagu saidil",
+  "screenshots.themeLabel": "Kuvatõmmiste teema",
+  "screenshots.viewFullScreen": "Ava „{name}” täisekraanil",
+  "screenshots.clickToView": "Klõpsa täissuuruses vaatamiseks",
+  "screenshots.close": "Sulge",
+  "screenshots.previous": "Eelmine pilt",
+  "screenshots.next": "Järgmine pilt",
+
+  "demo.title": "Interaktiivne demo",
+  "demo.subtitle": "Proovi Kartunesi mängijat otse oma brauseris",
+  "demo.tryTitle": "Mida proovida",
+  "demo.tryBrowse": "Sirvi vahekaardil Muusikakogu esitajaid, albumeid ja žanre ning puuduta lugu, et alustada esitusjärjekorda.",
+  "demo.tryQueue": "Vajuta mõne loo juures ↪, et see järgmisena mängiks, ja ava siis Praegu mängib vaatest Järgmisena, et järjekorda näha.",
+  "demo.tryShuffle": "Lülita vaates Praegu mängib sisse segamine ja kordus või alusta praegusest loost Instant Mixi.",
+  "demo.tryMiniPlayer": "Sulge Praegu mängib ja sirvi edasi: minimängija liigub sinuga ekraanilt ekraanile kaasa.",
+  "demo.aboutTitle": "Kuidas demo töötab",
+  "demo.aboutBody":
+    "Kõik toimub sellel lehel. Muusikakogu on välja mõeldud ja iga lugu on sinu brauseri loodud lühike viis, nii et midagi ei ühendu serveriga. Esitusjärjekord, segamine ja kordus järgivad samu reegleid nagu rakendus.",
+  "demo.aboutScreenshots": "Päris rakendus on natiivne SwiftUI ja näeb sellest visandist kenam välja. {link}.",
+  "demo.aboutScreenshotsLink": "Vaata kuvatõmmiseid",
+  "demo.tabsLabel": "Demorakenduse vahekaardid",
+  "demo.home": "Avaleht",
+  "demo.library": "Muusikakogu",
+  "demo.shuffleLiked": "Sega meeldivad",
+  "demo.likedCount": "Juhuslikult {count} meeldivast loost",
+  "demo.recentlyPlayed": "Hiljuti mängitud",
+  "demo.recentlyPlayedDetail": "Viimased 50 lugu",
+  "demo.recentlyPlayedEmpty": "Veel pole midagi mängitud",
+  "demo.recentlyAdded": "Hiljuti lisatud",
+  "demo.recentlyAddedDetail": "Uusimad albumid eespool",
+  "demo.shuffleAll": "Sega kõik",
+  "demo.shuffleAllDetail": "Juhuslikult kogu muusikakogust",
+  "demo.genres": "Žanrid",
+  "demo.artists": "Esitajad",
+  "demo.albums": "Albumid",
+  "demo.songs": "Lood",
+  "demo.trackCount": "{count} lugu",
+  "demo.back": "Tagasi",
+  "demo.play": "Esita",
+  "demo.pause": "Paus",
+  "demo.shuffle": "Sega",
+  "demo.next": "Järgmine",
+  "demo.previous": "Eelmine",
+  "demo.playNext": "Esita järgmisena",
+  "demo.playNextLabel": "Esita „{title}” järgmisena",
+  "demo.nowPlaying": "Praegu mängib",
+  "demo.openNowPlaying": "Ava Praegu mängib",
+  "demo.playingFrom": "Mängib: {context}",
+  "demo.context.allSongs": "Kõik lood",
+  "demo.context.liked": "Meeldivad lood",
+  "demo.context.instantMix": "Instant Mix",
+  "demo.context.custom": "Sinu järjekord",
+  "demo.close": "Sulge",
+  "demo.like": "Meeldib",
+  "demo.position": "Esituse asukoht",
+  "demo.repeat": "Kordus: {mode}",
+  "demo.repeat.off": "Väljas",
+  "demo.repeat.all": "Kõik",
+  "demo.repeat.one": "Üks",
+  "demo.instantMix": "Instant Mix",
+  "demo.upNext": "Järgmisena",
+  "demo.done": "Valmis",
+  "demo.noUpcoming": "Järgmisi lugusid pole",
+
+  "setup.title": "Seadistamine",
+  "setup.subtitle": "Alusta Kartunesiga mõne minutiga",
+  "setup.prerequisites": "Eeldused",
+  "setup.prerequisitesIntro": "Enne alustamist veendu, et sul on:",
+  "setup.checkServer": "Kontrolli oma serverit",
+  "setup.checkServerIntro":
+    "Kleebi oma Jellyfini või Emby serveri aadress, et näha, kas Kartunes suudab selle tuvastada. Kontroll pöördub samade otspunktide poole nagu rakendus ja selgitab, kui midagi läheb valesti.",
+  "setup.troubleshootHint":
+    "Ühendus ikka ei õnnestu? {link} aitab sul küsimus-küsimuse haaval levinud põhjused läbi käia.",
+  "setup.troubleshootLink": "Veaotsingu viisard",
+  "setup.steps": "Seadistamine samm-sammult",
+  "setup.stepTitle": "{number}. samm: {title}",
+  "setup.notes": "Tehnilised märkused",
+  "setup.proxyConfig": "Pöördpuhverserveri seadistus",
+  "setup.proxyConfigIntro":
+    "Serverile kodust väljast ligipääsuks pannakse see tavaliselt HTTPS-iga pöördpuhverserveri taha. Vali oma server ja puhverserver, sisesta aadress ning kopeeri seadistus, mis hoolitseb TLS-i, veebisoklite, suurte üleslaadimiste ja voogedastuse eest.",
+
+  "serverCheck.label": "Serveri URL",
+  "serverCheck.submit": "Kontrolli serverit",
+  "serverCheck.checking": "Kontrollin…",
+  "serverCheck.hint": "Kontroll toimub sinu brauseris ja suhtleb ainult sisestatud aadressiga.",
+  "serverCheck.detected": "Tuvastati {server} server",
+  "serverCheck.serverName": "Serveri nimi",
+  "serverCheck.version": "Versioon",
+  "serverCheck.address": "Kartunesis kasutatav aadress",
+  "serverCheck.notReported": "Pole teada",
+  "serverCheck.attempts": "Proovitud aadressid",
+  "serverCheck.responded": "Vastas meediaserverina",
+  "serverCheck.invalidURL.title": "Vigane serveri URL",
+  "serverCheck.invalidURL.detail":
+    "Sisesta aadress, millega avad oma serveri veebiliidese, näiteks http://192.168.1.100:8096.",
+  "serverCheck.mixedContent.title": "Brauser blokeeris päringu (segasisu)",
+  "serverCheck.mixedContent.detail":
+    "See sait kasutab HTTPS-i, seega keeldub sinu brauser http://-aadressiga ühendust võtmast. Rakendust see ei mõjuta; siit kontrollimiseks kasuta oma serveri HTTPS-aadressi.",
+  "serverCheck.cors.title": "Server vastas, kuid brauser ei lubanud vastust lugeda (CORS)",
+  "serverCheck.cors.detail":
+    "Sellel aadressil vastab midagi, kuid see ei saatnud päist Access-Control-Allow-Origin. Jellyfin ja Emby saadavad selle vaikimisi, nii et vastata võib hoopis pöördpuhverserver või mõni muu teenus.",
+  "serverCheck.unreachable.title": "Serveriga ei õnnestunud ühendust saada",
+  "serverCheck.unreachable.detail":
+    "Aadress ei vastanud. Kontrolli hostinime ja porti, et server töötab ning et see seade ulatub serverini (kohalikud aadressid töötavad ainult samas võrgus).",
+  "serverCheck.timeout.title": "Server vastas liiga aeglaselt",
+  "serverCheck.timeout.detail":
+    "10 sekundi jooksul vastust ei tulnud. Tulemüür võib ühendust blokeerida või on port vale.",
+  "serverCheck.invalidResponse.title": "Serverilt tuli vigane vastus",
+  "serverCheck.invalidResponse.detail": "Server vastas millegagi, mis pole HTTP-vastus.",
+  "serverCheck.notFound.title": "Sellelt aadressilt serverit ei leitud",
+  "serverCheck.notFound.detail":
+    "Midagi vastas, kuid siin puudub otspunkt System/Info/Public. Kontrolli porti ja seda, kas server asub alamteel, näiteks /jellyfin või /emby.",
+  "serverCheck.httpError.title": "HTTP viga {statusCode}",
+  "serverCheck.httpError.detail": "Server keeldus päringust. Seda võib blokeerida pöördpuhverserver või tulemüüri reegel.",
+  "serverCheck.decodingError.title": "Serveri vastust ei õnnestunud lugeda",
+  "serverCheck.decodingError.detail":
+    "Aadress tagastas midagi muud kui Jellyfini või Emby serveri teabe, näiteks sisselogimis- või ruuteri lehe.",
+  "serverCheck.unknownServerType.title": "Serveri tüüpi ei õnnestunud tuvastada. Server vastas, kuid ProductName oli tundmatu.",
+  "serverCheck.unknownServerType.detail":
+    "Server nimetab end „{productName}”. Kartunes toetab ainult Jellyfini ja Embyt.",
+  "serverCheck.unknownServerType.detailNoName": "Server ei teatanud ProductName'i. Kartunes toetab ainult Jellyfini ja Embyt.",
+  "serverCheck.noCompatibleServer.title":
+    "Ühilduvat serverit ei tuvastatud. Kontrolli serveri URL-i ja veendu, et see on Jellyfini või Emby server.",
+  "serverCheck.noCompatibleServer.detail": "Ükski proovitud aadress ei vastanud nagu Jellyfini või Emby server.",
+
+  "proxy.mediaServer": "Meediaserver",
+  "proxy.proxy": "Pöördpuhverserver",
+  "proxy.domain": "Avalik domeen",
+  "proxy.upstreamHost": "Serveri host (nagu puhverserver seda näeb)",
+  "proxy.upstreamPort": "Serveri port",
+  "proxy.subpath": "Alamtee (valikuline)",
+  "proxy.maxBody": "Suurim üleslaadimine MB-des (0 = piiranguta)",
+  "proxy.toggle.tls": "HTTPS",
+  "proxy.toggle.tls.detail": "Kasuta TLS-i ja suuna tavaline HTTP ümber",
+  "proxy.toggle.websockets": "Veebisoklid",
+  "proxy.toggle.websockets.detail": "Reaalajas uuendused praegu mängiva loo ja kaugjuhtimise jaoks",
+  "proxy.toggle.unbufferedStreaming": "Voogedastusele sobiv puhverdus",
+  "proxy.toggle.unbufferedStreaming.detail": "Edasta heli kohe, et lood hakkaksid kiiresti mängima",
+  "proxy.toggle.allowSiteChecks": "Luba selle saidi kontrollid",
+  "proxy.toggle.allowSiteChecks.detail": "CORS-päised, et serverikontroll ja veebitööriistad jõuaksid sinu serverini",
+  "proxy.error.required": "Kohustuslik",
+  "proxy.error.invalidDomain": "Sisesta domeen, näiteks music.example.com",
+  "proxy.error.invalidHost": "Sisesta hostinimi või IP-aadress ilma http:// osata",
+  "proxy.error.invalidPort": "Sisesta port vahemikus 1–65535",
+  "proxy.error.invalidSubpath": "Kasuta ainult tähti, numbreid, punkte, sidekriipse ja kaldkriipse",
+  "proxy.error.invalidBodySize": "Sisesta megabaitide arv täisarvuna",
+  "proxy.enterDomain": "Seadistuse loomiseks sisesta oma domeen.",
+  "proxy.fixErrors": "Seadistuse loomiseks paranda esiletõstetud väljad.",
+  "proxy.copy": "Kopeeri",
+  "proxy.copied": "Kopeeritud!",
+  "proxy.download": "Laadi alla",
+  "proxy.serverURL": "Kartunesi sisestatav serveri URL:",
+  "proxy.note.jellyfinBaseURL":
+    "Määra Jellyfinis Juhtpaneel → Võrk → Base URL väärtuseks {subpath} ja taaskäivita server, muidu vastab see alamteel veaga 404.",
+  "proxy.note.embyStripsPrefix":
+    "Emby töötab alati aadressil /emby, seega eemaldab see seadistus enne päringute edastamist alamtee {subpath}.",
+  "proxy.note.certbot":
+    "Sertifikaadi asukohad on need, kuhu Let's Encrypti certbot need paneb. Hangi sertifikaat esmalt, näiteks: certbot certonly --standalone -d {domain}",
+  "proxy.note.caddyAutomaticTLS": "Caddy hangib ja uuendab sertifikaati ise, kui pordid 80 ja 443 temani jõuavad.",
+  "proxy.note.traefikStaticConfig":
+    "Laadi see Traefiku failipakkujaga. Staatilises seadistuses peavad olemas olema sisenemispunktid web ja websecure ning sertifikaadilahendaja letsencrypt.",
+  "proxy.note.apacheModules":
+    "Luba esmalt moodulid: a2enmod proxy proxy_http headers rewrite ssl. Veebisokli üleminek vajab Apache 2.4.47 või uuemat.",
+  "proxy.note.noTLS":
+    "Ilma HTTPS-ita liiguvad sinu parool ja muusika võrgus krüpteerimata. Kasuta seda ainult koduvõrgus või VPN-i kaudu.",
+
+  "troubleshoot.title": "Veaotsing",
+  "troubleshoot.subtitle": "Vasta mõnele küsimusele, et teada saada, miks Kartunes sinu serverini ei jõua",
+  "troubleshoot.yourAnswers": "Sinu vastused",
+  "troubleshoot.change": "Muuda",
+  "troubleshoot.appSays": "Rakendus ütleb",
+  "troubleshoot.fix": "Soovitatud lahendus",
+  "troubleshoot.back": "Tagasi",
+  "troubleshoot.startOver": "Alusta uuesti",
+  "troubleshoot.shareTitle": "Jaga seda tulemust",
+  "troubleshoot.shareIntro": "Link taastab need vastused, nii et abistaja näeb, mida oled juba kontrollinud.",
+  "troubleshoot.copyLink": "Kopeeri link",
+  "troubleshoot.copied": "Kopeeritud!",
+  "troubleshoot.stillStuck": "Ikka ei tööta? {link} ja kleebi link sinna.",
+  "troubleshoot.openIssue": "Ava GitHubis teema",
+  "troubleshoot.checkerHint": "Pole kindel, mida sinu server tagastab? Proovi {link}.",
+  "troubleshoot.checkerLink": "serveri kontrollijat",
+
+  "genres.title": "Žanrid",
+  "genres.subtitle": "Kuidas Kartunes sinu žanrisildid katusžanritesse jaotab",
+  "genres.checkTitle": "Kontrolli oma silte",
+  "genres.checkIntro":
+    "Kleebi žanrisildid nii, nagu server neid näitab, üks rea kohta. Komaga eraldatud sildid jagatakse samamoodi nagu rakenduses ja igaüht otsitakse täpselt nii, nagu rakendus seda teeb.",
+  "genres.tagsLabel": "Žanrisildid",
+  "genres.tagsPlaceholder": "Techno (Peak Time)\nDeep-House, Drum & Bass\nGerman Hip Hop",
+  "genres.colTag": "Silt",
+  "genres.colNormalized": "Otsitakse kui",
+  "genres.colUmbrella": "Katusžanr",
+  "genres.emptyTag": "(tühi)",
+  "genres.suggested": "Soovitus: {umbrella}, sest {reason}.",
+  "genres.reason.unreachable": "kaardis on „{key}”, kuid pärast normaliseerimist ei sobi sellega ükski silt",
+  "genres.reason.contains": "silt sisaldab sõna „{key}”",
+  "genres.reason.similar": "see näib olevat „{key}” kirjaviga",
+  "genres.noSuggestion": "Soovitust pole. Vali katusžanr, kuhu see kuulub.",
+  "genres.choose": "Vali katusžanr…",
+  "genres.chooseUmbrella": "Katusžanr sildile „{tag}”",
+  "genres.submitMapping": "Paku see vaste GitHubis välja",
+  "genres.mapTitle": "Katusžanrite kaart",
+  "genres.mapIntro":
+    "Enne otsingut muudetakse iga silt väiketähtedeks, kõik alates esimesest „(”-st jäetakse välja, sidekriipsud ja punktid asendatakse tühikutega, „&” asendatakse sõnaga „and” ja diakriitikud eemaldatakse. Tulemust otsitakse allolevast kaardist; sildid, mida seal pole, satuvad kategooriasse Unknown.",
+  "genres.unreachableLegend":
+    "⚠️ tähistab kirjeid, millega ükski silt kunagi ei sobi, sest normaliseerimine muudab need enne otsingut (näiteks „post-hardcore” otsitakse kui „post hardcore”).",
+  "genres.unreachable": "Ei sobi kunagi: silte otsitakse kui „{normalized}”",
+  "genres.searchLabel": "Otsi katusžanrite kaardist",
+  "genres.searchPlaceholder": "Otsi silte…",
+  "genres.filterLabel": "Filtreeri katusžanri järgi",
+  "genres.all": "Kõik",
+  "genres.tagCount": "{count} silti",
+  "genres.noMatches": "Otsingule ei vasta kaardis ükski silt.",
+
+  "capabilities.title": "Võimaluste tabel",
+  "capabilities.subtitle": "Mis töötab millises seadmes ja millise serveriga",
+  "capabilities.intro":
+    "Kõik Kartunesi võimalused ja see, kus neid kasutada saab. Vali, mida vajad, et näha seal töötavaid võimalusi; mitme valiku korral näidatakse ainult neid, mis töötavad kõigil. Lehe {platforms} kaardid on koostatud samast loendist.",
+  "capabilities.platformsLink": "Platvormid",
+  "capabilities.filterLabel": "Näita ainult võimalusi, mis",
+  "capabilities.worksOn.iphone": "Töötavad iPhone'is",
+  "capabilities.worksOn.watch": "Töötavad Apple Watchis",
+  "capabilities.worksOn.carplay": "Töötavad sõidu ajal",
+  "capabilities.worksOn.jellyfin": "Töötavad Jellyfiniga",
+  "capabilities.worksOn.emby": "Töötavad Embyga",
+  "capabilities.search": "Filtreeri võimalusi",
+  "capabilities.showing": "Näidatakse {count} võimalust {total}-st",
+  "capabilities.clear": "Tühjenda filtrid",
+  "capabilities.colFeature": "Võimalus",
+  "capabilities.notSupported": "Ei toeta",
+  "capabilities.empty": "Ükski võimalus ei vasta kõigile neile filtritele.",
+  "capabilities.legend": "Selgitus",
+
+  "platforms.title": "Platvormid",
+  "platforms.subtitleWithPending": "Saadaval: {available}; varsti ka {pending}",
+  "platforms.subtitle": "Saadaval: {available}",
+  "platforms.listAnd": "ja",
+  "platforms.note": "Märkus:",
+  "platforms.future": "Tulevased platvormid",
+  "platforms.compare": "Võrdle platvormi {platform} teistega →",
+
+  "privacy.title": "Privaatsus",
+  "privacy.subtitle": "Sinu andmed jäävad sinu omaks",
+  "privacy.consentTitle": "Kolmandate osapoolte sisu sellel saidil",
+  "privacy.consentIntro":
+    "Need manused jäävad kohatäideteks, kuni sa need laadid. Kui palusid mõnel alati laadida, jäetakse see valik meelde ainult selles brauseris ja siin saad selle tagasi võtta.",
+
+  "faq.title": "Korduma kippuvad küsimused",
+  "faq.subtitle": "Kõik, mida pead Kartunesi kohta teadma",
+  "faq.searchPlaceholder": "Otsi küsimustest ja vastustest…",
+  "downloads.title": "Allalaadimised",
+  "downloads.subtitle": "Kui palju ruumi allalaadimised võtavad ja kui palju andmeid kulub selle asemel voogedastusele",
+  "downloads.howTitle": "Kuidas allalaadimised töötavad",
+  "downloads.howStart":
+    "Ava loo menüü vaates Songs, Artists, Search või Up Next ja vali Download Offline. Samast menüüst saab allalaadimise tühistada või uuesti eemaldada.",
+  "downloads.howPlay":
+    "Allalaaditud lood on loendis Library → Downloads. Play All Offline ja Shuffle Offline esitavad neid sinu seadmest, ilma serveriga ühenduseta.",
+  "downloads.howFormat":
+    "Server teisendab iga allalaadimise {kbps} kbit/s AAC-vormingusse, olenemata algsest vormingust, nii et allalaadimised mängivad igas seadmes. Lehel {formats} on näha, mis iga vorminguga voogedastamisel juhtub.",
+  "downloads.howMetadata":
+    "Teeki saab ka võrguühenduseta sirvida, kuid lood, mida ei käivitata allalaadimiste vaatest, voogedastatakse serverist nagu tavaliselt.",
+  "downloads.formatsLink": "Helivormingud",
+  "downloads.calcTitle": "Salvestusruumi ja andmekasutuse kalkulaator",
+  "downloads.calcIntro":
+    "Sisesta, kui palju muusikat tahad kaasa võtta ja millest sinu teek koosneb. Hinnang võrdleb allalaadimiste mahtu algsete failide suurusega ning andmemahtu, mis kuluks sama muusika voogedastamiseks mobiilse andmesidega.",
+  "downloads.amount": "Kui palju muusikat",
+  "downloads.unit": "Ühik",
+  "downloads.unit.tracks": "lugu",
+  "downloads.unit.albums": "albumit",
+  "downloads.unit.hours": "tundi",
+  "downloads.listeningTime": "Umbes {hours} tundi muusikat",
+  "downloads.server": "Server",
+  "downloads.mixTitle": "Millest sinu teek koosneb",
+  "downloads.mixHint": "Sea liugurid vastavalt oma failidele. Neid võrreldakse omavahel, nii et kokku ei pea tulema 100.",
+  "downloads.empty": "Hinnangu nägemiseks sisesta kogus ja liiguta vähemalt üht liugurit.",
+  "downloads.kartunesDownloads": "Kartunesi allalaadimised",
+  "downloads.originalFiles": "Algsed failid",
+  "downloads.streamingOnce": "Üks voogedastus",
+  "downloads.downloadingOnce": "Allalaadimine",
+  "downloads.storageChart": "Salvestusruum seadmes",
+  "downloads.storageNote":
+    "Allalaadimiste hinnang põhineb kiirusel {kbps} kbit/s. Kartunes algseid faile ei säilita; need on näidatud, et võrrelda, kui palju teisendamine säästab. Sellest madalama bitikiirusega lugude puhul võib server algse kiiruse säilitada, nii et nende allalaadimised võivad tulla väiksemad.",
+  "downloads.dataChart": "Andmekasutus ühe kuulamise kohta serveriga {server}",
+  "downloads.dataNote":
+    "Kartunesil pole mobiilse andmeside jaoks eraldi kvaliteedisätet: see voogedastab ja laadib alla samamoodi nii Wi-Fi kui ka mobiilse andmesidega. Voogedastus kulutab andmeid iga kord, kui lugu esitad; allalaadimine ainult ühe korra.",
+  "downloads.hourlyChart": "Voogedastuse andmekasutus kuulamistunni kohta",
+  "downloads.perHour": "{size}/h",
+  "downloads.wontPlay": "Ei mängi",
+  "downloads.unplayableNote":
+    "{server} saadab mõned neist vormingutest muutmata kujul ja iOS ei oska neid esitada, nii et neid saab kuulata ainult allalaadituna. Üksikasjad leiad lehelt {formats}.",
+
+  "formats.title": "Helivormingud",
+  "formats.subtitle": "Miks lugu voogedastatakse muutmata või miks server selle enne teisendab",
+  "formats.checkTitle": "Kontrolli faili",
+  "formats.checkIntro":
+    "Vali või lohista siia helifail või sisesta selle koodek ja konteiner. Fail loetakse sinu brauseris ja seda ei laadita kuhugi üles; vaadatakse ainult selle esimesi kilobaite.",
+  "formats.dropTitle": "Vali helifail või lohista see siia",
+  "formats.dropHint": "FLAC, MP3, M4A, WAV, AIFF, Ogg, Opus, WMA, APE, WavPack, DSD…",
+  "formats.reading": "Loen faili {file}…",
+  "formats.unrecognized": "{file} ei paista olevat sellele lehele tuttav helivorming. Sisesta selle asemel koodek ja konteiner.",
+  "formats.codec": "Koodek",
+  "formats.container": "Konteiner",
+  "formats.server": "Server",
+  "formats.unknownCodec": "„{codec}” pole sellele lehele tuttav koodek. Vali see loendist.",
+  "formats.unknownContainer": "„{container}” pole sellele lehele tuttav konteiner. Vali see loendist.",
+  "formats.codecUnknown": "See on {container}-fail, kuid selle koodekit ei õnnestunud lugeda. Sisesta koodek, mida server selle kohta näitab.",
+  "formats.streaming": "Voogedastus",
+  "formats.download": "Allalaadimine",
+  "formats.sampleRate": "Diskreetimissagedus",
+  "formats.kHz": "{value} kHz",
+  "formats.bitDepth": "Bitisügavus",
+  "formats.bits": "{value}-bitine",
+  "formats.channels": "Kanalid",
+  "formats.duration": "Kestus",
+  "formats.bitrate": "Bitikiirus",
+  "formats.kbps": "{value} kbit/s",
+  "formats.method.directStream": "Otsevoog",
+  "formats.method.transcode": "Transkodeerimine",
+  "formats.method.unplayable": "Ei mängi",
+  "formats.explain.directStream":
+    "iOS esitab vormingut {format} ise, nii et Kartunes küsib serverilt {server} algse faili ja esitab selle muutmata.",
+  "formats.explain.transcode":
+    "iOS ei oska vormingut {format} esitada, nii et {server} teatab, et faili ei saa muutmata voogedastada, ja Kartunes küsib selle asemel 320 kbit/s AAC-vormingus HLS-voogu.",
+  "formats.explain.unplayable":
+    "Kartunes küsib serverilt {server} alati algse faili ja iOS ei oska vormingut {format} esitada, nii et lugu ei hakka mängima. Teisenda need failid vormingusse, mida iOS esitab, näiteks FLAC või AAC.",
+  "formats.explain.download":
+    "Allalaadimised teisendatakse alati 320 kbit/s AAC-vormingus M4A-failiks, olenemata algsest vormingust, nii et need mängivad võrguühenduseta igas seadmes.",
+  "formats.jellyfinCaveat":
+    "Lõpliku otsuse teeb Jellyfin: kui sinu kasutajale on seatud voogedastuse bitikiiruse piirang, võib see ikkagi saata transkodeeritud voo.",
+  "formats.hiResCapped": "Transkodeeritud voog on piiratud 44,1 kHz ja 16 bitiga, nii et selle faili lisaresolutsioon läheb kaotsi.",
+  "formats.downloadLossy": "Allalaaditud fail on kadudega, kuigi originaal on kadudeta.",
+  "formats.request": "Mida Kartunes küsib",
+  "formats.serverLoad": "Serveri koormus",
+  "formats.load.none": "Kerge: server loeb faili ainult kettalt.",
+  "formats.load.realtime":
+    "Mõõdukas: server dekodeerib ja kodeerib loo reaalajas igal esitamisel ning hoiab selle ajal üht protsessorituuma hõivatuna.",
+  "formats.load.once": "Üks kord loo kohta: server teisendab iga loo allalaadimise ajal nii kiiresti, kui suudab.",
+  "formats.bandwidth": "Andmekasutus",
+  "formats.bandwidthValue": "Umbes {kbps} kbit/s, {mb} MB minutis",
+  "formats.referenceTitle": "Vormingute ülevaade",
+  "formats.referenceIntro": "Mis juhtub iga vorminguga kummaski serveris. Vali vorming, et näha üksikasju ülal.",
+  "formats.colFormat": "Vorming",
+  "formats.colExtensions": "Laiendid",
+  "formats.colLossless": "Kadudeta",
+  "formats.colNative": "iOS esitab",
+  "formats.colStreaming": "{server}: voogedastus",
+  "formats.colDownload": "Allalaadimine",
+  "formats.yes": "Jah",
+  "formats.no": "Ei",
+  "formats.containerFootnote":
+    "Oluline on nii koodek kui ka konteiner: iOS avab MP3-, MPEG-4-, ADTS-, CAF-, FLAC-, WAV- ja AIFF-faile, nii et tuttav koodek mõnes muus konteineris, näiteks {example}, on sama hea kui tundmatu.",
+
+  "faq.searchLabel": "Otsi KKK-st",
+  "faq.categoriesLabel": "Filtreeri kategooria järgi",
+  "faq.all": "Kõik",
+  "faq.expandAll": "Ava kõik",
+  "faq.collapseAll": "Sulge kõik",
+  "faq.permalink": "Link sellele vastusele",
+  "faq.noResults": "Otsingule ei vasta ükski küsimus.",
+  "faq.askSupport": "Ei leia vastust? {link}.",
+  "faq.askSupportLink": "Küsi tugilehel",
+
+  "changelog.title": "Muudatuste logi",
+  "changelog.subtitle": "Mis on Kartunesi igas versioonis uut",
+  "changelog.subscribe":
+    "Jälgi uusi versioone oma uudistelugejas {atom}- või {rss}-voo kaudu. Jellyfini ja Emby servereid puudutavad muudatused on märgitud sildiga Serveri ühilduvus, nii et näed kohe, kas versioon puudutab sinu serverit.",
+  "changelog.filterTags": "Filtreeri tüübi järgi",
+  "changelog.filterPlatforms": "Filtreeri platvormi järgi",
+  "changelog.tag.feature": "Uued võimalused",
+  "changelog.tag.fix": "Parandused",
+  "changelog.tag.server-compat": "Serveri ühilduvus",
+  "changelog.tags": "Versiooni tüüp",
+  "changelog.platforms": "Platvormid",
+  "changelog.showing": "Näidatakse {count} versiooni {total}-st",
+  "changelog.clear": "Tühjenda filtrid",
+  "changelog.empty": "Ükski versioon ei vasta neile filtritele.",
+  "changelog.firstPage": "Sellel lehel versioone pole. Mine esimesele lehele",
+  "changelog.pagination": "Muudatuste logi lehed",
+  "changelog.newer": "← Uuemad",
+  "changelog.older": "Vanemad →",
+  "changelog.pageTitle": "Muudatuste logi, leht {page}",
+  "changelog.pageDescription":
+    "Kartunesi varasemad versioonid, leht {page}/{count}: uued võimalused, parandused ning Jellyfini ja Emby ühilduvuse muudatused.",
+  "changelog.releaseTitle": "Versioon {version}: {title}",
+  "changelog.allReleases": "← Kõik versioonid",
+  "changelog.otherReleases": "Teised versioonid",
+  "changelog.newerRelease": "← Uuem: versioon {version}",
+  "changelog.olderRelease": "Vanem: versioon {version} →",
+  "changelog.feedTitle": "{name}i muudatuste logi",
+  "changelog.feedDescription": "Kartunesi uued versioonid: võimalused, parandused ning Jellyfini ja Emby ühilduvuse muudatused.",
+
+  "support.title": "Tugi",
+  "support.subtitle": "Vajad abi või soovid uut võimalust?",
+  "support.intro":
+    "Kartunes on iseseisev projekt, mida hostitakse GitHubis. Kui leiad vea, soovid tagasisidet anda või uut võimalust pakkuda, ava palun GitHubis teema (issue).",
+  "support.openIssues": "Ava GitHubi teemad",
+  "support.viewRepository": "Vaata repositooriumi",
+  "support.reportTitle": "Teata veast",
+  "support.reportIntro":
+    "Täida vorm ja see avab GitHubis teema kõige vajalikuga, et probleemi põhjus üles leida. Palun {link} ja veendu, et kasutad rakenduse uusimat versiooni.",
+  "support.reportExisting": "otsi enne olemasolevat teemat",
+  "support.helpTitle": "Abi saamine",
+  "support.helpBody":
+    "Parim viis abi saada on GitHubi teemade kaudu. Nii näeb kogukond küsimusi ja vastuseid ning see aitab ka teisi, kellel on sama probleem. Palun ole kannatlik, sest seda iseseisvat projekti arendatakse vabast ajast.",
+  "support.troubleshootHint":
+    "Ei saa serveriga ühendust? Enne teema avamist proovi {link}; see katab levinud põhjused ja kõik rakenduse veateated.",
+  "support.troubleshootLink": "veaotsingu viisardit",
+  "support.contributingTitle": "Kaasaaitamine",
+  "support.contributingBody":
+    "Kartunes on avatud lähtekoodiga! Kui soovid panustada koodi, dokumentatsiooni või tõlgetega, vaata repositooriumi ja ava tõmbetaotlus (pull request). Kõik panused on teretulnud ja hinnatud.",
+  "support.githubLink": "Vaata GitHubis →",
+  "support.donateTitle": "Toeta arendust",
+  "support.donateBody":
+    "Kartunes on tasuta ja seda arendatakse vabast ajast. Kui see teeb su muusikakogu paremaks, saad arendajale kohvi välja teha {link}.",
+
+  "consent.kofi.title": "Ko-fi annetuspaneel",
+  "consent.github.title": "GitHubi tähtede arv",
+  "consent.notice":
+    "See laaditakse aadressilt {origin}, mis võimaldab teenusel {name} näha sinu IP-aadressi ja seada oma küpsiseid. Midagi ei laadita enne, kui sa seda ise valid. Vaata: {policy}.",
+  "consent.privacyPolicy": "{name} privaatsuspoliitika",
+  "consent.load": "Laadi",
+  "consent.remember": "Laadi {name} sisu alati",
+  "consent.remembered": "Laaditakse alati",
+  "consent.asks": "Küsib enne",
+  "consent.forget": "Küsi uuesti",
+  "consent.alwaysLoad": "Laadi alati",
+
+  "githubStars.loading": "Tähtede arvu laadimine…",
+  "githubStars.count": "★ {count} tähte GitHubis",
+  "githubStars.failed": "Tähtede arvu ei õnnestunud GitHubist laadida.",
+
+  "serverSession.serverURL": "Serveri URL",
+  "serverSession.username": "Kasutajanimi",
+  "serverSession.password": "Parool",
+  "serverSession.signIn": "Logi sisse",
+  "serverSession.signingIn": "Login sisse…",
+  "serverSession.signOut": "Logi välja",
+  "serverSession.signedIn": "Sisse logitud serverisse {server} kasutajana {user}",
+  "serverSession.hint":
+    "Parool läheb sellest brauserist ainult sinu serverisse. Sisselogimine kehtib, kuni sulged vahekaardi. Kui server siit kätte ei paista, {link}.",
+  "serverSession.hintLink": "luba see sait oma pöördpuhverserveris",
+  "serverSession.network.title": "Serveriga ei õnnestunud ühendust saada",
+  "serverSession.network.detail":
+    "Päring ei jõudnud kohale. Kontrolli, et server töötab ja lubab sellelt saidilt tulevaid päringuid (CORS).",
+  "serverSession.unauthorized.title": "Server ei lubanud sisse logida",
+  "serverSession.unauthorized.detail":
+    "Kontrolli kasutajanime ja parooli. Kui olid juba sisse logitud, võis seanss lõppeda; logi välja ja uuesti sisse.",
+  "serverSession.httpError.title": "HTTP viga {statusCode}",
+  "serverSession.httpError.detail": "Server keeldus päringust. Seda võib blokeerida pöördpuhverserver või tulemüüri reegel.",
+  "serverSession.invalidResponse.title": "Server saatis ootamatu vastuse",
+  "serverSession.invalidResponse.detail": "Vastus polnud Jellyfini ja Emby saadetav JSON. Kontrolli serveri aadressi.",
+
+  "playlists.title": "Esitusloendite tööriistad",
+  "playlists.subtitle": "Too teiste mängijate esitusloendid oma kogusse ja võta Kartunesi esitusloendid endaga kaasa",
+  "playlists.signInTitle": "Logi oma serverisse sisse",
+  "playlists.signInIntro":
+    "Tööriistad töötavad sinu enda Jellyfini või Emby serveriga, sama kontoga, mida kasutad Kartunesis. Kõik toimub sinu brauseris; sellele saidile ei saadeta midagi.",
+  "playlists.importTitle": "Impordi esitusloend",
+  "playlists.importIntro":
+    "Ava M3U-, M3U8-, XSPF- või CSV-esitusloend. Iga rida seotakse sinu kogu looga pealkirja, esitaja, albumi ja pikkuse järgi; kus vaste pole kindel, valid ise. Seejärel luuakse esitusloend sinu serverisse ja see ilmub Kartunesi.",
+  "playlists.exportTitle": "Ekspordi esitusloend",
+  "playlists.exportIntro":
+    "Salvesta meeldivad lood või mis tahes serveris olev esitusloend failiks, mida teised mängijad avada oskavad. Lood säilitavad serveri teatatud failiteed.",
+  "playlists.import.file": "Esitusloendi fail",
+  "playlists.import.fileHint": "M3U, M3U8, XSPF või päisereaga CSV",
+  "playlists.import.name": "Esitusloendi nimi",
+  "playlists.import.entries": "Failis on {count} lugu",
+  "playlists.import.unsupported": "Seda faili ei oska tööriist esitusloendina lugeda",
+  "playlists.import.unsupportedDetail": "Vali M3U-, M3U8-, XSPF- või CSV-fail.",
+  "playlists.import.empty": "Esitusloendis pole lugusid",
+  "playlists.import.emptyDetail": "Ühtegi loo rida ei leitud. CSV-failil peab olema päiserida, milles on vähemalt pealkirja veerg.",
+  "playlists.import.match": "Otsi lood minu kogust",
+  "playlists.import.loading": "Laadin sinu kogu…",
+  "playlists.import.loadingCount": "Laadin sinu kogu… {loaded} / {total} lugu",
+  "playlists.import.summary": "Lisatakse {chosen} lugu {total}-st.",
+  "playlists.import.unresolved": "{count} ebakindlat vastet jäetakse välja, kuni valid neile loo.",
+  "playlists.import.creating": "Lisan lugusid… {added} / {total}",
+  "playlists.import.create": "Loo esitusloend",
+  "playlists.import.created": "Loodud „{name}”",
+  "playlists.import.createdAll": "Kõik {added} lugu lisati. Esitusloend on nüüd Kartunesis jaotises Playlists.",
+  "playlists.import.createdSkipped":
+    "Lisati {added} lugu ja {skipped} jäeti välja. Esitusloend on nüüd Kartunesis jaotises Playlists.",
+  "playlists.filter.ambiguous": "Ebakindel ({count})",
+  "playlists.filter.unmatched": "Ei leitud ({count})",
+  "playlists.filter.matched": "Leitud ({count})",
+  "playlists.status.ambiguous": "Ebakindel",
+  "playlists.status.unmatched": "Ei leitud",
+  "playlists.status.matched": "Leitud",
+  "playlists.review.filter": "Näita lugusid vaste järgi",
+  "playlists.review.empty": "Selle olekuga lugusid pole.",
+  "playlists.review.choose": "Kogu lugu rea „{title}” jaoks",
+  "playlists.review.skip": "Jäta välja",
+  "playlists.review.noCandidates": "Kogus pole midagi sarnast; jäetakse välja",
+  "playlists.export.playlist": "Esitusloend",
+  "playlists.export.liked": "Meeldivad lood",
+  "playlists.export.likedHint": "Meeldivad lood on lood, mis märkisid Kartunesis meeldivaks, uuemad eespool.",
+  "playlists.export.loading": "Laadin sinu esitusloendeid…",
+  "playlists.export.format": "Vorming",
+  "playlists.export.download": "Laadi alla",
+  "playlists.export.exporting": "Ekspordin…",
+  "playlists.export.done": "Salvestatud „{name}” ({count} lugu).",
+
+  "remote.title": "Kaugjuhtimine",
+  "remote.subtitle": "Vaata, mida Kartunes su telefonis mängib, ja märgi see teiselt ekraanilt meeldivaks",
+  "remote.loading": "Otsin Kartunesi seansse…",
+  "remote.noSessions":
+    "Selles serveris pole aktiivseid Kartunesi seansse. Alusta rakenduses selle kontoga esitamist ja see ilmub siia mõne sekundi jooksul.",
+  "remote.retry": "Proovi uuesti",
+  "remote.devices": "Seade",
+  "remote.nowPlayingOn": "Praegu mängib seadmes {device}",
+  "remote.idle": "Kartunes seadmes {device} on avatud, kuid ei mängi midagi.",
+  "remote.playing": "Mängib",
+  "remote.paused": "Peatatud",
+  "remote.play": "Esita",
+  "remote.pause": "Peata",
+  "remote.previous": "Eelmine",
+  "remote.next": "Järgmine",
+  "remote.position": "Esituskoht",
+  "remote.favourite": "Meeldib",
+  "remote.howTitle": "Kuidas see töötab",
+  "remote.how":
+    "Kartunes teatab serverile, mida ta mängib, ja see leht loeb neid teateid iga paari sekundi tagant. Loo meeldivaks märkimine teeb selle serveris lemmikuks ja Kartunes sünkroniseerib selle oma meeldimistega.",
+  "remote.limitation":
+    "Esitus/paus, eelmine, järgmine ja kerimine on praegu välja lülitatud: server saadab need rakendusele püsiühenduse kaudu, mida praegune Kartunesi versioon veel ei ava, seega ei jõuaks need telefonini. Praegu mängiv lugu ja meeldimised töötavad juba.",
+
+  "stats.title": "Kuulamisstatistika",
+  "stats.subtitle": "Mida sa enim kuulad ja millest su kogu koosneb, loetuna sinu Jellyfini või Emby serverist",
+  "stats.signInIntro":
+    "Statistika nägemiseks logi oma serverisse sisse. Kõik loetakse ja arvutatakse selles brauseris; midagi ei salvestata ega saadeta mujale.",
+  "stats.loading": "Loen sinu kogu…",
+  "stats.loadingProgress": "Loen sinu kogu… {loaded} / {total} lugu",
+  "stats.retry": "Proovi uuesti",
+  "stats.empty": "Sinu kogus pole veel ühtegi lugu.",
+  "stats.listeningTitle": "Sinu kuulamine",
+  "stats.range": "Ajavahemik",
+  "stats.range.week": "Viimased 7 päeva",
+  "stats.range.month": "Viimased 30 päeva",
+  "stats.range.year": "Viimane aasta",
+  "stats.range.all": "Kogu aeg",
+  "stats.totals.plays": "Esitusi",
+  "stats.totals.time": "Kuulamisaeg",
+  "stats.totals.timeOnce": "Kuulamisaeg, üks esitus loo kohta",
+  "stats.totals.tracks": "Esitatud lugusid",
+  "stats.totals.favourites": "Meeldivaid lugusid",
+  "stats.noPlays": "Selles ajavahemikus pole midagi esitatud. Esitused ilmuvad siia, kui Kartunes või mõni muu mängija on need serverile teatanud.",
+  "stats.topArtists": "Enim kuulatud artistid",
+  "stats.topAlbums": "Enim kuulatud albumid",
+  "stats.topTracks": "Enim kuulatud lood",
+  "stats.playCount": "{count} esitust",
+  "stats.playCountAllTime": "{count} esitust kokku",
+  "stats.topHint": "Järjestatud selles vahemikus kuulatud lugude kõigi aegade esituste järgi.",
+  "stats.timeline.day": "Kuulamine päevade kaupa",
+  "stats.timeline.month": "Kuulamine kuude kaupa",
+  "stats.genres": "Esitused žanrirühmade kaupa",
+  "stats.genresTracks": "Esitatud lood žanrirühmade kaupa",
+  "stats.genresHint":
+    "Žanrisildid jagatakse rakenduse žanrivaate žanrirühmadesse ja lugu loetakse iga rühma alla, kuhu selle sildid kuuluvad.",
+  "stats.libraryTitle": "Sinu kogu",
+  "stats.library.tracks": "Lugusid",
+  "stats.library.albums": "Albumeid",
+  "stats.library.duration": "Kogupikkus",
+  "stats.library.size": "Maht kettal",
+  "stats.unknown": "Teadmata",
+  "stats.trackCount": "{count} lugu",
+  "stats.formats": "Lood vormingu kaupa",
+  "stats.bitrates": "Lood bitikiiruse kaupa (kbit/s)",
+  "stats.missingTitle": "Puuduvad kaanepildid ja sildid",
+  "stats.missing.artwork": "Kaanepildita albumid",
+  "stats.missing.album": "Albumita lood",
+  "stats.missing.artist": "Artistita lood",
+  "stats.missing.genre": "Žanrita lood",
+  "stats.missing.year": "Aastata lood",
+  "stats.missingHint":
+    "Paranda sildid failides või serveri metaandmete redaktoris ja skanni kogu uuesti, et server ja Kartunes need üles leiaksid.",
+  "stats.exportTitle": "Eksport",
+  "stats.exportIntro":
+    "Laadi valitud ajavahemikus esitatud lood alla CSV-failina tabelarvutuse jaoks või kogu selle lehe sisu JSON-failina.",
+  "stats.exportCSV": "Laadi alla CSV",
+  "stats.exportJSON": "Laadi alla JSON",
+  "stats.howTitle": "Kuidas esitusi loetakse",
+  "stats.how":
+    "Server hoiab iga loo kohta esituste arvu ja viimase esituse kuupäeva, mitte iga esituse loendit. Seega hõlmab ajavahemik lugusid, mida sa viimati selles vahemikus kuulasid, ja ajajoon paigutab iga loo selle viimase esituse päeva või kuu alla. Vahemiku sees loeb iga lugu üheks esituseks, sest server ei tea, mitu selle esitust sinna jäi; ainult edetabelid lähtuvad kõigi aegade esitustest. „Kogu aeg“ liidab kokku kõik esitused. Lugu, mida kuulasid eelmisel aastal ja uuesti eile, läheb arvesse ainult eilse all.",
+
+  "health.title": "Kogu tervis",
+  "health.subtitle": "Leia siltide vead, mille tõttu Kartunes näib katki olevat, ja paranda need oma serveris",
+  "health.signInTitle": "Logi oma serverisse sisse",
+  "health.signInIntro":
+    "Skannimine loeb sinu kogu sildid Jellyfini või Emby serverist selles brauseris. Serveris ei muudeta midagi ja midagi ei saadeta mujale.",
+  "health.reportTitle": "Skanni oma kogu",
+  "health.reportIntro":
+    "Kartunes impordib kõik, mis serveris on. Puuduvad albumi artistid, žanrisildid, mida rakendus peab tükeldama või mida ta ei oska paigutada, kaanepildita albumid ja kahel viisil kirjutatud artistid tulevad üle nii, nagu need on, ning paistavad rakenduses kui tundmatu artist, tundmatu žanr, tühjad kaaned või sama artist kaks korda.",
+  "health.scan": "Skanni kogu",
+  "health.scanAgain": "Skanni uuesti",
+  "health.scanning": "Skannin sinu kogu…",
+  "health.progress.tracks": "Loen lugusid… {loaded} / {total}",
+  "health.progress.albums": "Loen albumeid… {loaded} / {total}",
+  "health.progress.artists": "Loen artiste… {loaded} / {total}",
+  "health.clean": "{tracks} loost, {albums} albumist ja {artists} artistist ei leitud ühtegi probleemi.",
+  "health.summary": "{tracks} loost, {albums} albumist ja {artists} artistist leiti {count} probleemi.",
+  "health.exportCSV": "Laadi alla CSV",
+  "health.exportJSON": "Laadi alla JSON",
+  "health.searchPlaceholder": "Otsi albumeid, silte ja artiste…",
+  "health.searchLabel": "Otsi aruandest",
+  "health.filterLabel": "Filtreeri probleemi järgi",
+  "health.all": "Kõik",
+  "health.noMatches": "Aruandes pole midagi, mis sinu otsingule vastaks.",
+  "health.groupCount": "{count} probleemi · {tracks} lugu",
+  "health.trackCount": "{count} lugu",
+  "health.moreItems": "ja veel {count} ekspordis",
+  "health.showAll": "Näita kõiki {count}",
+  "health.showFewer": "Näita vähem",
+  "health.untitled": "(nimeta)",
+  "health.type.track": "lugu",
+  "health.type.album": "album",
+  "health.type.artist": "artist",
+  "health.check.missingAlbumArtist.title": "Puuduv albumi artist",
+  "health.check.missingAlbumArtist.why":
+    "Albumi artistita paneb rakendus albumi tundmatu artisti alla, artisti ülejäänud albumitest eraldi. Lisa neile albumitele albumi artisti silt.",
+  "health.check.missingAlbumArtist.detail": "Lugude artistid: {detail}",
+  "health.check.joinedGenres.title": "Kokku liidetud žanrisildid",
+  "health.check.joinedGenres.why":
+    "Need žanrisildid sisaldavad mitut žanrit ühes tekstis. Rakendus tükeldab need komade kohalt, kuid server ja teised mängijad näevad ühte kummalist žanrit. Jaga need eraldi siltideks.",
+  "health.check.joinedGenres.detail": "Loetakse kui: {detail}",
+  "health.check.unknownGenre.title": "Tundmatu žanri all",
+  "health.check.unknownGenre.why":
+    "Rakendusel pole neile siltidele žanrirühma, seega satuvad nende lood tundmatu žanri alla. Nimeta silt levinud kirjapildi järgi ümber või soovita vastet žanrite lehel.",
+  "health.check.unknownGenre.detail": "Sobiks rühma {detail}",
+  "health.check.missingArtwork.title": "Kaanepildita albumid",
+  "health.check.missingArtwork.why":
+    "Neil albumitel pole serveris Primary-pilti, seega näitavad rakendus, CarPlay ja lukustuskuva asenduspilti. Lisa albumi kausta kaanepildi fail või vali serveris pilt.",
+  "health.check.missingArtwork.detail": "Artist: {detail}",
+  "health.check.duplicateArtist.title": "Kahel viisil kirjutatud artistid",
+  "health.check.duplicateArtist.why":
+    "Need artistid erinevad ainult diakriitikute poolest. Rakendus võrdleb artistide nimesid tõstutundetult, kuid mitte diakriitikuid eirates, seega saab igast kirjapildist eraldi artist. Kasuta siltides üht kirjapilti.",
+  "health.check.duplicateArtist.detail": "{detail}",
+
+  "siri.title": "Siri häälkäsklused",
+  "siri.subtitle":
+    "Mida Sirile öelda, et Kartunesis muusikat esitada ja lugusid meeldivaks märkida, käed vabad ja ka autos",
+  "siri.tipsTitle": "Enne küsimist",
+  "siri.tip.appName":
+    "Lõpeta sõnadega „in Kartunes”. Kuni Siri pole õppinud, et kuulad Kartunesis, saadab ta rakenduse nimeta päringud Apple Musicule.",
+  "siri.tip.type":
+    "Ütle, mida soovid: „the album”, „the song”, „the artist” või „the playlist”. Paljas nimi jätab Siri arvama ning siis otsib Kartunes lugude pealkirjadest ja artistidest.",
+  "siri.tip.sync":
+    "Siri otsib kogust, mille Kartunes on su telefoni sünkrooninud, esimesena lisatud serverist. Sünkrooni pärast muusika lisamist, et Siri selle üles leiaks.",
+  "siri.tip.permission":
+    "Kartunes küsib Siri luba esimesel avamisel. Kui keeldusid, lülita see seadetes Kartunesi jaotises uuesti sisse.",
+  "siri.tip.shortcuts":
+    "Kartunesil pole rakenduses Shortcuts omaenda toiminguid, nii et häälega jõuab selleni nende fraaside kaudu.",
+  "siri.phrasesTitle": "Mida saab öelda",
+  "siri.phrasesIntro":
+    "Siri ei räägi eesti keelt, seega on fraasid inglise keeles. Nimed on näidiskogust; kasuta enda omi. Vali fraas, et seda testijas proovida.",
+  "siri.tryPhrase": "Proovi fraasitestijas „{phrase}”",
+  "siri.intent.playMedia.title": "Muusika esitamine",
+  "siri.intent.playMedia.detail":
+    "Siri annab Kartunesile ette, mida otsida. Kui sobib mitu, loeb Siri ette kuni viis ja küsib, kumba mõtled.",
+  "siri.intent.updateMediaAffinity.title": "Meeldivaks märkimine ja märke eemaldamine",
+  "siri.intent.updateMediaAffinity.detail":
+    "Käib loo kohta, mida Kartunes parajasti mängib, rakenduse nimega või ilma. Kui midagi ei mängi, ütleb Siri, et Kartunes seda teha ei saa.",
+  "siri.group.artist.title": "Artistid",
+  "siri.group.artist.detail": "Esitab kõik artisti lood.",
+  "siri.group.album.title": "Albumid",
+  "siri.group.album.detail": "Esitab albumi algusest. Kui kahel albumil on sama nimi, lisa „by” ja artist.",
+  "siri.group.song.title": "Lood",
+  "siri.group.song.detail": "Esitab loo albumi, alustades sellest loost.",
+  "siri.group.music.title": "Ükskõik mis nime järgi",
+  "siri.group.music.detail": "Otsib lugude pealkirjadest ja artistidest, sest Siri ei ütle, kumb see on.",
+  "siri.group.playlist.title": "Esitusloendid",
+  "siri.group.playlist.detail": "Esitab esitusloendi algusest.",
+  "siri.group.shuffle.title": "Segatult",
+  "siri.group.shuffle.detail":
+    "Alusta sõnaga „Shuffle” või lõpeta sõnadega „on shuffle”. Kartunes lülitab segamise sisse ja päringute puhul, mis seda ei palu, jälle välja.",
+  "siri.group.like.title": "Meeldib",
+  "siri.group.like.detail": "Lisab mängiva loo sinu meeldivate lugude hulka.",
+  "siri.group.dislike.title": "Ei meeldi",
+  "siri.group.dislike.detail": "Eemaldab mängiva loo sinu meeldivate lugude hulgast.",
+  "siri.testerTitle": "Fraasitestija",
+  "siri.testerIntro":
+    "Kirjuta, mida ütleksid. Testija näitab, mida Siri tõenäoliselt Kartunesile edastab, mida rakendus otsib ja mida leiab. Viimane sõna, kuidas lauset mõista, jääb Sirile, nii et võta seda juhisena.",
+  "siri.inputLabel": "Mida sa Sirile ütleksid?",
+  "siri.inputPlaceholder": "Play the album Blue Hour in Kartunes",
+  "siri.idle": "Kirjuta lause või vali mõni ülaltoodud fraas.",
+  "siri.source": "Otsi kogust",
+  "siri.source.sample": "Näidiskogu",
+  "siri.source.server": "Sinu kogu",
+  "siri.source.serverHint": "Logi allpool sisse ja laadi oma kogu, et sellest otsida.",
+  "siri.result.intent": "Siri palub Kartunesil",
+  "siri.result.mediaType": "Meedia tüüp",
+  "siri.result.search": "Kartunes otsib",
+  "siri.result.shuffle": "Segamine",
+  "siri.result.plays": "Ja esitab",
+  "siri.result.affinity": "Mis juhtub",
+  "siri.intentName.playMedia": "Meediat esitada",
+  "siri.intentName.updateMediaAffinity": "Meeldimist muuta",
+  "siri.search.artist": "Artiste nimega „{term}”",
+  "siri.search.album": "Albumeid nimega „{term}”",
+  "siri.search.track": "Lugusid nimega „{term}”",
+  "siri.search.playlist": "Esitusloendeid nimega „{term}”",
+  "siri.search.byArtist": "artistilt „{artist}”",
+  "siri.search.orArtist": "või sellenimeliselt artistilt",
+  "siri.search.note": "Nimi sobib, kui see on pealkirjas ükskõik kus, tähesuurust ja diakriitikuid arvestamata.",
+  "siri.shuffle.on": "Sees",
+  "siri.shuffle.off": "Väljas",
+  "siri.plays.artist": "Kõik artisti lood",
+  "siri.plays.album": "Albumi algusest",
+  "siri.plays.track": "Loo albumi, alustades sellest loost",
+  "siri.plays.playlist": "Esitusloendi algusest",
+  "siri.affinity.like":
+    "Kartunes märgib mängiva loo meeldivaks ja lisab selle meeldivate lugude hulka, kui rakendus järgmine kord esiplaanile tuleb.",
+  "siri.affinity.dislike":
+    "Kartunes eemaldab mängiva loo meeldivate lugude hulgast, kui rakendus järgmine kord esiplaanile tuleb.",
+  "siri.note.noApp": "Siin pole Kartunesi nime, nii et Siri võib selle esitada Apple Musicust. Lisa „in Kartunes”.",
+  "siri.note.music":
+    "Siri otsustab, kas paljas nimi on artist, album või lugu. Kui ta jätab selle lahtiseks, otsib Kartunes lugude pealkirjadest ja artistidest. Kindluse mõttes ütle „the album”, „the artist” või „the playlist”.",
+  "siri.unsupported.notMedia.title": "Kartunes ei oska seda",
+  "siri.unsupported.notMedia.detail":
+    "Siri edastab Kartunesile palved midagi esitada või mängiv lugu meeldivaks märkida. Alusta sõnaga „Play” või „Shuffle” või ütle „I like this song”.",
+  "siri.unsupported.noName.title": "Pole midagi otsida",
+  "siri.unsupported.noName.detail":
+    "Kartunes vajab otsimiseks nime ega vali muusikat ise. Nimeta artist, album, lugu või esitusloend.",
+  "siri.unsupported.genre.title": "Žanrid pole toetatud",
+  "siri.unsupported.genre.detail":
+    "„{term}” on žanr ja Kartunes ei otsi Sirile žanre. Sega žanr hoopis rakenduse žanrite vahekaardilt.",
+  "siri.matches.sample": "Näidiskogus",
+  "siri.matches.server": "Sinu kogus",
+  "siri.matches.none": "Midagi ei sobi, nii et Siri ütleb, et Kartunes ei leidnud seda.",
+  "siri.matches.one": "Üks vaste, nii et Siri esitab selle kohe:",
+  "siri.matches.many": "{count} vastet, nii et Siri küsib, kumba mõtled:",
+  "siri.matches.more":
+    "Sobib veel {count}, kuid Siri pakub ainult esimest {limit}. Ütle nimest rohkem, et valikut kitsendada.",
+  "siri.libraryTitle": "Testi oma koguga",
+  "siri.libraryIntro":
+    "Logi sisse oma Jellyfini või Emby serverisse, et testida fraase oma artistide, albumite, lugude ja esitusloenditega. Kogu loetakse selles brauseris ega saadeta kuhugi mujale.",
+  "siri.load": "Laadi kogu",
+  "siri.reload": "Laadi uuesti",
+  "siri.loading": "Loen sinu kogu…",
+  "siri.loaded": "Laaditud {artists} artisti, {albums} albumit, {tracks} lugu ja {playlists} esitusloendit.",
+
+  "bugReport.device": "Sinu seade",
+  "bugReport.server": "Sinu server",
+  "bugReport.description": "Mis juhtus",
+  "bugReport.surfaces": "Puudutab ka",
+  "bugReport.field.title": "Kokkuvõte",
+  "bugReport.field.title.placeholder": "Taasesitus peatub, kui ekraan lukustub",
+  "bugReport.field.title.hint": "Üks rida, mis kirjeldab probleemi; sellest saab teema pealkiri.",
+  "bugReport.field.appVersion": "Rakenduse versioon",
+  "bugReport.field.appVersion.hint": "Näha TestFlightis või App Store'is. Kui ehitasid rakenduse ise, lisa commit.",
+  "bugReport.field.deviceModel": "Seadme mudel",
+  "bugReport.field.deviceModel.hint": "Seaded → Üldine → Teave → Mudeli nimi",
+  "bugReport.field.iosVersion": "iOS-i versioon",
+  "bugReport.field.iosVersion.hint": "Seaded → Üldine → Teave → iOS-i versioon",
+  "bugReport.field.watchOSVersion": "watchOS-i versioon",
+  "bugReport.field.watchOSVersion.hint": "iPhone'i rakendus Watch → Üldine → Teave → Versioon",
+  "bugReport.field.serverType": "Server",
+  "bugReport.field.serverVersion": "Serveri versioon",
+  "bugReport.field.serverVersion.hint": "Näha serveri juhtpaneelil või seadistuslehe serveri kontrollijas.",
+  "bugReport.field.steps": "Taasesitamise sammud",
+  "bugReport.field.steps.hint": "Mida tegid, üks samm rea kohta, alates rakenduse avamisest.",
+  "bugReport.field.expected": "Oodatud käitumine",
+  "bugReport.field.expected.hint": "Mida ootasid, et juhtub.",
+  "bugReport.field.actual": "Tegelik käitumine",
+  "bugReport.field.actual.hint": "Mis juhtus selle asemel, sealhulgas rakenduse näidatud veateated.",
+  "bugReport.error.required": "Kohustuslik",
+  "bugReport.error.tooShort": "Lisa veel mõni sõna, et teemat teistest eristada",
+  "bugReport.fixErrors": "Teema avamiseks täida esiletõstetud väljad.",
+  "bugReport.tooLong":
+    "See raport on lingi jaoks liiga pikk. Kopeeri see Markdownina, ava teema ja kleebi see kirjeldusse.",
+  "bugReport.openIssue": "Ava teema GitHubis",
+  "bugReport.copyMarkdown": "Kopeeri Markdownina",
+  "bugReport.copied": "Kopeeritud!",
+  "bugReport.clear": "Tühjenda vorm",
+  "bugReport.preview": "Teema eelvaade",
+  "bugReport.draftNote": "Sinu mustand salvestatakse selles brauseris, kuni selle tühjendad.",
+
+  "notFound.title": "Lehte ei leitud",
+  "notFound.description": "Otsitavat lehte ei ole olemas.",
+  "notFound.goHome": "Avalehele",
+
+  "search.placeholder": "Otsi võimalusi, KKK-d, seadistust, privaatsust…",
+  "search.unavailable": "Otsing pole praegu saadaval.",
+  "search.loading": "Laadin…",
+  "search.noResults": "Päringule „{query}” tulemusi ei leitud.",
+  "search.hint": "Proovi „võrguühenduseta”, „Emby”, „CarPlay” või „pöördpuhverserver”. Kasuta klahve {up} {down} ja {enter}.",
+};
@@ -0,0 +1,35 @@
+import type { Locale } from "../locales";
+import { en } from "./en";
+import { et } from "./et";
+
+export type MessageKey = keyof typeof en;
+
+/** A complete translation; leaving out a key is a type error */
+export type Catalogue = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Catalogues by locale. A language that is still being translated can be
+ * registered as a `Partial<Catalogue>`; its missing keys fall back to English.
+ */
+const catalogues: Record<Locale, Partial<Catalogue>> = { en, et };
+
+/** Keys a locale has not translated yet; the build reports them as warnings */
+export function missingMessageKeys(locale: Locale): MessageKey[] {
+  return (Object.keys(en) as MessageKey[]).filter((key) => catalogues[locale][key] === undefined);
+}
+
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const template = catalogues[locale][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+export function translator(locale: Locale): Translate {
+  return (key, params) => translate(locale, key, params);
+}
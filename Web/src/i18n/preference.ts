@@ -0,0 +1,33 @@
+import { DEFAULT_LOCALE, isLocale, type Locale } from "./locales";
+
+const STORAGE_KEY = "kartunes.locale";
+
+/** The language the visitor picked, or the one detected on their first visit */
+export function storedLocale(): Locale | null {
+  try {
+    const value = window.localStorage.getItem(STORAGE_KEY);
+    return value && isLocale(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeLocale(locale: Locale) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies); the choice just won't persist.
+  }
+}
+
+/**
+ * Picks the first supported language from the browser's preferences, which
+ * mirror its `Accept-Language` header. `et-EE` matches `et`.
+ */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split("-")[0];
+    if (isLocale(primary)) return primary;
+  }
+  return DEFAULT_LOCALE;
+}
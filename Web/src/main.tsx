@@ -1,14 +1,46 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
-import { HashRouter } from "react-router-dom";
+import { BrowserRouter } from "react-router-dom";
 import App from "./App";
+import { DEFAULT_LOCALE, localizePath, parseLocalePath } from "./i18n/locales";
+import { detectLocale, storedLocale, storeLocale } from "./i18n/preference";
+import { normalizePath, routerBasename } from "./utils/paths";
 import "./styles/globals.css";
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
+// Links from the hash-routing era (e.g. /#/features) move to their clean URL.
+const { hash } = window.location;
+if (hash.startsWith("#/")) {
+  window.history.replaceState(null, "", `${routerBasename}${hash.slice(1)}`);
+}
+
+const routePath = () => normalizePath(window.location.pathname.slice(routerBasename.length) || "/");
+
+// English pages have no prefix. Visitors who chose another language, or whose
+// browser asks for one on their first visit, are sent to that version instead.
+const requested = parseLocalePath(routePath());
+let preferred = storedLocale();
+if (!preferred) {
+  preferred = requested.locale !== DEFAULT_LOCALE ? requested.locale : detectLocale(navigator.languages);
+  storeLocale(preferred);
+}
+if (requested.locale === DEFAULT_LOCALE && preferred !== DEFAULT_LOCALE) {
+  const { search, hash: anchor } = window.location;
+  window.history.replaceState(null, "", `${routerBasename}${localizePath(requested.path, preferred)}${search}${anchor}`);
+}
+
+const root = document.getElementById("root")!;
+const app = (
   <React.StrictMode>
-    <HashRouter>
+    <BrowserRouter basename={routerBasename}>
       <App />
-    </HashRouter>
+    </BrowserRouter>
   </React.StrictMode>
 );
 
+// Prerendered pages already contain the markup for their route; the 404.html
+// fallback is served for other paths and gets replaced instead.
+if (root.dataset.prerenderedPath === routePath()) {
+  ReactDOM.hydrateRoot(root, app);
+} else {
+  ReactDOM.createRoot(root).render(app);
+}
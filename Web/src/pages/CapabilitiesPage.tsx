@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useContent } from "../hooks/useContent";
+import { useI18n } from "../i18n/I18nProvider";
+import { CAPABILITY_TARGETS, SUPPORT_LEVELS, type CapabilityTarget, type SupportLevel } from "../types/content";
+import { mediaServerDisplayNames, type MediaServerType } from "../types/server";
+import { filterCapabilities, sortCapabilities, type CapabilitySort } from "../utils/capabilities";
+import "./CapabilitiesPage.css";
+
+const WORKS_PARAM = "works";
+const SORT_PARAM = "sort";
+const ORDER_PARAM = "order";
+const QUERY_PARAM = "q";
+
+const levelSymbols: Record<SupportLevel | "none", string> = {
+  full: "✓",
+  partial: "◐",
+  pending: "⏳",
+  planned: "○",
+  none: "—",
+};
+
+function isTarget(value: string): value is CapabilityTarget {
+  return (CAPABILITY_TARGETS as readonly string[]).includes(value);
+}
+
+export default function CapabilitiesPage() {
+  const { t, tx, locale, localizePath } = useI18n();
+  const { capabilities, platforms, supportLevelLabels } = useContent();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The prerendered page has no query string, so filters are only read once hydrated
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  useEffect(() => setIsHydrated(true), []);
+
+  const params = isHydrated ? searchParams : new URLSearchParams();
+  const works = (params.get(WORKS_PARAM) ?? "").split(",").filter(isTarget);
+  const sortParam = params.get(SORT_PARAM) ?? "";
+  const sort: CapabilitySort = isTarget(sortParam) ? sortParam : "title";
+  const isSorted = sortParam === "title" || isTarget(sortParam);
+  const descending = params.get(ORDER_PARAM) === "desc";
+  const query = params.get(QUERY_PARAM) ?? "";
+
+  const filtered = filterCapabilities(capabilities, works, query);
+  const rows = isSorted ? sortCapabilities(filtered, sort, descending, locale) : filtered;
+
+  const targetName = (target: CapabilityTarget) =>
+    platforms.find((platform) => platform.id === target)?.name ??
+    mediaServerDisplayNames[target as MediaServerType];
+
+  const update = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [name, value] of Object.entries(changes)) {
+      if (value) next.set(name, value);
+      else next.delete(name);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const toggleWorks = (target: CapabilityTarget) => {
+    const next = works.includes(target) ? works.filter((other) => other !== target) : [...works, target];
+    update({ [WORKS_PARAM]: CAPABILITY_TARGETS.filter((other) => next.includes(other)).join(",") || null });
+  };
+
+  const sortBy = (column: CapabilitySort) => {
+    const sameColumn = isSorted && sort === column;
+    update({ [SORT_PARAM]: column, [ORDER_PARAM]: sameColumn && !descending ? "desc" : null });
+  };
+
+  const ariaSort = (column: CapabilitySort) =>
+    isSorted && sort === column ? (descending ? "descending" : "ascending") : undefined;
+
+  const sortButton = (column: CapabilitySort, label: string) => (
+    <button type="button" className="capabilities-sort" onClick={() => sortBy(column)}>
+      {label}
+      <span aria-hidden="true">{isSorted && sort === column ? (descending ? " ↓" : " ↑") : ""}</span>
+    </button>
+  );
+
+  return (
+    <div className="capabilities-page">
+      <div className="page-header">
+        <h1>{t("capabilities.title")}</h1>
+        <p className="page-subtitle">{t("capabilities.subtitle")}</p>
+      </div>
+
+      <p className="capabilities-intro">
+        {tx("capabilities.intro", {
+          platforms: <Link to={localizePath("/platforms")}>{t("capabilities.platformsLink")}</Link>,
+        })}
+      </p>
+
+      <div className="capabilities-filters">
+        <div className="capabilities-chips" role="group" aria-label={t("capabilities.filterLabel")}>
+          {CAPABILITY_TARGETS.map((target) => (
+            <button
+              key={target}
+              type="button"
+              className="capabilities-chip"
+              aria-pressed={works.includes(target)}
+              onClick={() => toggleWorks(target)}
+            >
+              {t(`capabilities.worksOn.${target}`)}
+            </button>
+          ))}
+        </div>
+        <input
+          type="search"
+          className="capabilities-search"
+          aria-label={t("capabilities.search")}
+          placeholder={t("capabilities.search")}
+          value={query}
+          onChange={(e) => update({ [QUERY_PARAM]: e.target.value || null })}
+        />
+      </div>
+
+      <p className="capabilities-count" aria-live="polite">
+        {t("capabilities.showing", { count: rows.length, total: capabilities.length })}
+        {(works.length > 0 || query) && (
+          <button
+            type="button"
+            className="capabilities-clear"
+            onClick={() => update({ [WORKS_PARAM]: null, [QUERY_PARAM]: null })}
+          >
+            {t("capabilities.clear")}
+          </button>
+        )}
+      </p>
+
+      <div className="capabilities-table-wrapper">
+        <table className="capabilities-table">
+          <thead>
+            <tr>
+              <th scope="col" aria-sort={ariaSort("title")}>
+                {sortButton("title", t("capabilities.colFeature"))}
+              </th>
+              {CAPABILITY_TARGETS.map((target) => (
+                <th key={target} scope="col" aria-sort={ariaSort(target)}>
+                  {sortButton(target, targetName(target))}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((capability) => (
+              <tr key={capability.id}>
+                <th scope="row">
+                  {capability.featureId ? (
+                    <Link to={`${localizePath("/features")}#${capability.featureId}`}>{capability.title}</Link>
+                  ) : (
+                    capability.title
+                  )}
+                </th>
+                {CAPABILITY_TARGETS.map((target) => {
+                  const support = capability.support[target];
+                  const level = support?.level ?? "none";
+                  return (
+                    <td key={target} className={`capabilities-cell ${level}`}>
+                      <span className="capabilities-level">
+                        <span aria-hidden="true">{levelSymbols[level]}</span>{" "}
+                        {support ? supportLevelLabels[support.level] : t("capabilities.notSupported")}
+                      </span>
+                      {support?.note && <span className="capabilities-note">{support.note}</span>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={CAPABILITY_TARGETS.length + 1} className="capabilities-empty">
+                  {t("capabilities.empty")}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <ul className="capabilities-legend" aria-label={t("capabilities.legend")}>
+        {SUPPORT_LEVELS.map((level) => (
+          <li key={level} className={`capabilities-cell ${level}`}>
+            <span aria-hidden="true">{levelSymbols[level]}</span> {supportLevelLabels[level]}
+          </li>
+        ))}
+        <li className="capabilities-cell none">
+          <span aria-hidden="true">{levelSymbols.none}</span> {t("capabilities.notSupported")}
+        </li>
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { ReleaseNotes } from "../components/ReleaseNotes/ReleaseNotes";
+import { getChangelog } from "../content/changelog";
+import { useContent } from "../hooks/useContent";
+import { useI18n } from "../i18n/I18nProvider";
+import { CHANGELOG_TAGS, type ChangelogTag } from "../types/changelog";
+import type { PlatformId } from "../types/content";
+import {
+  changelogPage,
+  changelogPageCount,
+  changelogPagePath,
+  feedPath,
+  filterChangelog,
+  releasePath,
+} from "../utils/changelog";
+import { assetPath } from "../utils/paths";
+import "./ChangelogPage.css";
+
+const TAG_PARAM = "tag";
+const PLATFORM_PARAM = "platform";
+
+function isTag(value: string): value is ChangelogTag {
+  return (CHANGELOG_TAGS as readonly string[]).includes(value);
+}
+
+export default function ChangelogPage() {
+  const { t, tx, locale, localizePath } = useI18n();
+  const { platforms } = useContent();
+  const { page: pageParam } = useParams();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // The prerendered page has no query string, so filters are only read once hydrated
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  useEffect(() => setIsHydrated(true), []);
+
+  const entries = getChangelog(locale);
+  const releasePlatforms = platforms.filter((platform) => entries.some((entry) => entry.platforms.includes(platform.id)));
+  const params = isHydrated ? searchParams : new URLSearchParams();
+  const tags = (params.get(TAG_PARAM) ?? "").split(",").filter(isTag);
+  const platformIds = (params.get(PLATFORM_PARAM) ?? "")
+    .split(",")
+    .filter((id): id is PlatformId => releasePlatforms.some((platform) => platform.id === id));
+  const isFiltered = tags.length > 0 || platformIds.length > 0;
+
+  const filtered = filterChangelog(entries, { tags, platforms: platformIds });
+  const page = Number(pageParam ?? 1);
+  const pageCount = changelogPageCount(filtered.length);
+  const visible = Number.isInteger(page) && page >= 1 ? changelogPage(filtered, page) : [];
+  const search = isHydrated ? searchParams.toString() : "";
+  const pageLink = (number: number) => `${localizePath(changelogPagePath(number))}${search ? `?${search}` : ""}`;
+
+  // A different filter starts again from the first page
+  const filter = (changes: { tags?: ChangelogTag[]; platforms?: PlatformId[] }) => {
+    const next = new URLSearchParams();
+    const nextTags = changes.tags ?? tags;
+    const nextPlatforms = changes.platforms ?? platformIds;
+    if (nextTags.length > 0) next.set(TAG_PARAM, nextTags.join(","));
+    if (nextPlatforms.length > 0) next.set(PLATFORM_PARAM, nextPlatforms.join(","));
+    navigate({ pathname: localizePath("/changelog"), search: next.toString() }, { replace: true });
+  };
+
+  const toggle = <T extends string>(values: T[], value: T, order: readonly T[]) =>
+    order.filter((other) => (other === value ? !values.includes(value) : values.includes(other)));
+
+  return (
+    <div className="changelog-page">
+      <div className="page-header">
+        <h1>{t("changelog.title")}</h1>
+        <p className="page-subtitle">{t("changelog.subtitle")}</p>
+      </div>
+
+      <p className="changelog-feeds">
+        {tx("changelog.subscribe", {
+          atom: <a href={assetPath(feedPath("atom", locale))}>Atom</a>,
+          rss: <a href={assetPath(feedPath("rss", locale))}>RSS</a>,
+        })}
+      </p>
+
+      <div className="changelog-filters">
+        <div className="changelog-chips" role="group" aria-label={t("changelog.filterTags")}>
+          {CHANGELOG_TAGS.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              className="changelog-chip"
+              aria-pressed={tags.includes(tag)}
+              onClick={() => filter({ tags: toggle(tags, tag, CHANGELOG_TAGS) })}
+            >
+              {t(`changelog.tag.${tag}`)}
+            </button>
+          ))}
+        </div>
+        <div className="changelog-chips" role="group" aria-label={t("changelog.filterPlatforms")}>
+          {releasePlatforms.map((platform) => (
+            <button
+              key={platform.id}
+              type="button"
+              className="changelog-chip"
+              aria-pressed={platformIds.includes(platform.id)}
+              onClick={() =>
+                filter({ platforms: toggle(platformIds, platform.id, releasePlatforms.map((other) => other.id)) })
+              }
+            >
+              {platform.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="changelog-count" aria-live="polite">
+        {t("changelog.showing", { count: filtered.length, total: entries.length })}
+        {isFiltered && (
+          <button type="button" className="changelog-clear" onClick={() => filter({ tags: [], platforms: [] })}>
+            {t("changelog.clear")}
+          </button>
+        )}
+      </p>
+
+      {visible.length === 0 ? (
+        <p className="changelog-empty">
+          {filtered.length === 0 ? (
+            t("changelog.empty")
+          ) : (
+            <Link to={pageLink(1)}>{t("changelog.firstPage")}</Link>
+          )}
+        </p>
+      ) : (
+        <ol className="changelog-list">
+          {visible.map((entry) => (
+            <li key={entry.version}>
+              <article className="changelog-entry">
+                <h2>
+                  <Link to={localizePath(releasePath(entry.version))}>
+                    {t("changelog.releaseTitle", { version: entry.version, title: entry.title })}
+                  </Link>
+                </h2>
+                <ReleaseNotes entry={entry} />
+              </article>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {pageCount > 1 && (
+        <nav className="changelog-pagination" aria-label={t("changelog.pagination")}>
+          {page > 1 && page <= pageCount && (
+            <Link to={pageLink(page - 1)} rel="prev">
+              {t("changelog.newer")}
+            </Link>
+          )}
+          <ol>
+            {Array.from({ length: pageCount }, (_, index) => index + 1).map((number) => (
+              <li key={number}>
+                <Link to={pageLink(number)} aria-current={number === page ? "page" : undefined}>
+                  {number}
+                </Link>
+              </li>
+            ))}
+          </ol>
+          {page < pageCount && page >= 1 && (
+            <Link to={pageLink(page + 1)} rel="next">
+              {t("changelog.older")}
+            </Link>
+          )}
+        </nav>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { Link } from "react-router-dom";
+import { DemoPlayer } from "../components/DemoPlayer/DemoPlayer";
+import { useI18n } from "../i18n/I18nProvider";
+import { MessageKey } from "../i18n/messages";
+import "./DemoPage.css";
+
+const tryItems: MessageKey[] = ["demo.tryBrowse", "demo.tryQueue", "demo.tryShuffle", "demo.tryMiniPlayer"];
+
+export default function DemoPage() {
+  const { t, tx, localizePath } = useI18n();
+
+  return (
+    <div className="demo-page">
+      <div className="page-header">
+        <h1>{t("demo.title")}</h1>
+        <p className="page-subtitle">{t("demo.subtitle")}</p>
+      </div>
+
+      <div className="demo-layout">
+        <DemoPlayer />
+
+        <aside className="demo-notes">
+          <section>
+            <h2>{t("demo.tryTitle")}</h2>
+            <ul>
+              {tryItems.map((key) => (
+                <li key={key}>{t(key)}</li>
+              ))}
+            </ul>
+          </section>
+          <section>
+            <h2>{t("demo.aboutTitle")}</h2>
+            <p>{t("demo.aboutBody")}</p>
+            <p>
+              {tx("demo.aboutScreenshots", {
+                link: <Link to={localizePath("/screenshots")}>{t("demo.aboutScreenshotsLink")}</Link>,
+              })}
+            </p>
+          </section>
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { BarChart, type BarChartRow } from "../components/BarChart/BarChart";
+import { defaultSourceMix, sourceProfiles, TRANSCODE_BITRATE } from "../content";
+import { useI18n } from "../i18n/I18nProvider";
+import { DOWNLOAD_AMOUNT_UNITS, type DownloadAmountUnit, type SourceMix } from "../types/downloads";
+import { mediaServerDisplayNames, type MediaServerType } from "../types/server";
+import { estimateDownloads, listeningSeconds } from "../utils/downloads";
+import { formatBytes } from "../utils/format";
+import "./DownloadsPage.css";
+
+const MEDIA_SERVERS: MediaServerType[] = ["jellyfin", "emby"];
+const DEFAULT_AMOUNT = 50;
+const MAX_WEIGHT = 100;
+
+export default function DownloadsPage() {
+  const { t, tx, locale, localizePath } = useI18n();
+  const [amountInput, setAmountInput] = useState(String(DEFAULT_AMOUNT));
+  const [unit, setUnit] = useState<DownloadAmountUnit>("albums");
+  const [server, setServer] = useState<MediaServerType>("jellyfin");
+  const [mix, setMix] = useState<SourceMix>(defaultSourceMix);
+
+  const amount = Number(amountInput.replace(",", "."));
+  const seconds = Number.isFinite(amount) ? listeningSeconds(amount, unit) : 0;
+  const estimate = estimateDownloads(seconds, mix, server);
+  const hours = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(seconds / 3600);
+  const bytes = (value: number) => formatBytes(value, locale);
+  const kbps = TRANSCODE_BITRATE / 1000;
+
+  const segments = (value: (source: (typeof estimate.sources)[number]) => number) =>
+    estimate.sources.map((source) => ({ key: source.profile.id, label: source.profile.name, value: value(source) }));
+
+  const storageRows: BarChartRow[] = [
+    { label: t("downloads.originalFiles"), segments: segments((source) => source.originalBytes) },
+    { label: t("downloads.kartunesDownloads"), segments: segments((source) => source.downloadBytes) },
+  ];
+  const dataRows: BarChartRow[] = [
+    { label: t("downloads.streamingOnce"), segments: segments((source) => source.streamingBytes) },
+    { label: t("downloads.downloadingOnce"), segments: segments((source) => source.downloadBytes) },
+  ];
+  const hourlyRows: BarChartRow[] = estimate.sources.map((source) => ({
+    label: source.profile.name,
+    segments: [{ key: source.profile.id, label: source.profile.name, value: source.streamingBytesPerHour }],
+    note: source.streamMethod === "unplayable" ? t("downloads.wontPlay") : undefined,
+  }));
+  const hasUnplayable = estimate.sources.some((source) => source.streamMethod === "unplayable");
+
+  return (
+    <div className="downloads-page">
+      <div className="page-header">
+        <h1>{t("downloads.title")}</h1>
+        <p className="page-subtitle">{t("downloads.subtitle")}</p>
+      </div>
+
+      <section className="downloads-how">
+        <h2>{t("downloads.howTitle")}</h2>
+        <ul>
+          <li>{t("downloads.howStart")}</li>
+          <li>{t("downloads.howPlay")}</li>
+          <li>
+            {tx("downloads.howFormat", {
+              kbps,
+              formats: <Link to={localizePath("/formats")}>{t("downloads.formatsLink")}</Link>,
+            })}
+          </li>
+          <li>{t("downloads.howMetadata")}</li>
+        </ul>
+      </section>
+
+      <section className="downloads-calculator">
+        <h2>{t("downloads.calcTitle")}</h2>
+        <p>{t("downloads.calcIntro")}</p>
+
+        <div className="downloads-inputs">
+          <div className="downloads-field">
+            <label htmlFor="downloads-amount">{t("downloads.amount")}</label>
+            <div className="downloads-amount">
+              <input
+                id="downloads-amount"
+                type="number"
+                inputMode="decimal"
+                min={0}
+                value={amountInput}
+                onChange={(e) => setAmountInput(e.target.value)}
+              />
+              <select
+                aria-label={t("downloads.unit")}
+                value={unit}
+                onChange={(e) => setUnit(e.target.value as DownloadAmountUnit)}
+              >
+                {DOWNLOAD_AMOUNT_UNITS.map((option) => (
+                  <option key={option} value={option}>
+                    {t(`downloads.unit.${option}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {unit !== "hours" && <p className="downloads-hint">{t("downloads.listeningTime", { hours })}</p>}
+          </div>
+
+          <fieldset className="downloads-servers">
+            <legend>{t("downloads.server")}</legend>
+            {MEDIA_SERVERS.map((option) => (
+              <label key={option} className={server === option ? "selected" : undefined}>
+                <input
+                  type="radio"
+                  name="downloads-server"
+                  value={option}
+                  checked={server === option}
+                  onChange={() => setServer(option)}
+                />
+                {mediaServerDisplayNames[option]}
+              </label>
+            ))}
+          </fieldset>
+        </div>
+
+        <fieldset className="downloads-mix">
+          <legend>{t("downloads.mixTitle")}</legend>
+          <p className="downloads-hint">{t("downloads.mixHint")}</p>
+          {sourceProfiles.map((profile) => {
+            const share = estimate.sources.find((source) => source.profile.id === profile.id)?.share ?? 0;
+            return (
+              <div key={profile.id} className="downloads-mix-row">
+                <label htmlFor={`downloads-mix-${profile.id}`}>{profile.name}</label>
+                <input
+                  id={`downloads-mix-${profile.id}`}
+                  type="range"
+                  min={0}
+                  max={MAX_WEIGHT}
+                  value={mix[profile.id] ?? 0}
+                  onChange={(e) => setMix({ ...mix, [profile.id]: Number(e.target.value) })}
+                />
+                <output htmlFor={`downloads-mix-${profile.id}`}>{Math.round(share * 100)}%</output>
+              </div>
+            );
+          })}
+        </fieldset>
+
+        {estimate.sources.length === 0 || seconds === 0 ? (
+          <p className="downloads-empty">{t("downloads.empty")}</p>
+        ) : (
+          <div className="downloads-results" aria-live="polite">
+            <dl className="downloads-summary">
+              <div>
+                <dt>{t("downloads.kartunesDownloads")}</dt>
+                <dd>{bytes(estimate.downloadBytes)}</dd>
+              </div>
+              <div>
+                <dt>{t("downloads.originalFiles")}</dt>
+                <dd>{bytes(estimate.originalBytes)}</dd>
+              </div>
+              <div>
+                <dt>{t("downloads.streamingOnce")}</dt>
+                <dd>{bytes(estimate.streamingBytes)}</dd>
+              </div>
+            </dl>
+
+            <BarChart title={t("downloads.storageChart")} rows={storageRows} formatValue={bytes} />
+            <p className="downloads-note">{t("downloads.storageNote", { kbps })}</p>
+
+            <BarChart
+              title={t("downloads.dataChart", { server: mediaServerDisplayNames[server] })}
+              rows={dataRows}
+              formatValue={bytes}
+            />
+            <p className="downloads-note">{t("downloads.dataNote")}</p>
+
+            <BarChart
+              title={t("downloads.hourlyChart")}
+              rows={hourlyRows}
+              formatValue={(value) => t("downloads.perHour", { size: bytes(value) })}
+              showLegend={false}
+            />
+            {hasUnplayable && (
+              <p className="downloads-note">
+                {tx("downloads.unplayableNote", {
+                  server: mediaServerDisplayNames[server],
+                  formats: <Link to={localizePath("/formats")}>{t("downloads.formatsLink")}</Link>,
+                })}
+              </p>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
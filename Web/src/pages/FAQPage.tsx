@@ -1,88 +1,190 @@
-import { useState } from "react";
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { FAQ_CATEGORIES, FAQCategory, FAQItem } from "../types/content";
+import { HighlightedText } from "../components/RichText/HighlightedText";
+import { RichText } from "../components/RichText/RichText";
+import { useContent } from "../hooks/useContent";
+import { useI18n } from "../i18n/I18nProvider";
+import { richTextToPlainText } from "../utils/richText";
+import { matchesAllTerms, searchTerms } from "../utils/search";
 import "./FAQPage.css";
 
-interface FAQItem {
-  question: string;
-  answer: string;
-}
+export default function FAQPage() {
+  const { slug } = useParams();
+  const navigate = useNavigate();
+  const { t, tx, localizePath } = useI18n();
+  const { faqs, faqCategoryLabels } = useContent();
+  const searchableText = useMemo(
+    () => new Map(faqs.map((faq) => [faq.slug, `${faq.question} ${richTextToPlainText(faq.answer)}`])),
+    [faqs]
+  );
+  const [openSlugs, setOpenSlugs] = useState<Set<string>>(() => new Set(slug ? [slug] : []));
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<FAQCategory | "all">("all");
+  const itemRefs = useRef(new Map<string, HTMLDivElement>());
+  // Opening an answer updates the URL; only links from elsewhere should scroll.
+  const shouldScrollToSlug = useRef(true);
 
-const faqs: FAQItem[] = [
-  {
-    question: "What servers does Kartunes support?",
-    answer: "Kartunes supports both Jellyfin and Emby media servers. The app automatically detects your server type when you connect and adapts accordingly. You need a server with at least one music library configured.",
-  },
-  {
-    question: "Do I need another account?",
-    answer: "No, you don't need a Kartunes account. You only use your existing Jellyfin or Emby login credentials. Kartunes connects directly to your server using your existing account.",
-  },
-  {
-    question: "Is CarPlay supported?",
-    answer: "CarPlay support is fully implemented in Kartunes but is currently pending approval from Apple. Once approved through the App Store review process, CarPlay functionality will be available. The implementation includes library browsing and full playback controls.",
-  },
-  {
-    question: "Does Kartunes store or upload my library?",
-    answer: "No. Kartunes does not store or upload your media or library metadata to any external service. All music is streamed directly from your own Jellyfin or Emby server. Library metadata is cached locally on your device for fast access, but this data never leaves your device.",
-  },
-  {
-    question: "Is there Android support?",
-    answer: "No, Kartunes is iOS-only for now. The app is built with SwiftUI and is designed specifically for the iOS ecosystem, including iPhone, Apple Watch, and CarPlay. Android support is not currently planned.",
-  },
-  {
-    question: "Can I use Kartunes offline?",
-    answer: "Kartunes requires an active connection to your media server to stream music. However, cached library metadata (artists, albums, track lists) remains available when offline, so you can browse your library structure. Actual playback requires a connection to stream from your server.",
-  },
-  {
-    question: "What iOS version do I need?",
-    answer: "Kartunes requires iOS 16.0 or later. This ensures compatibility with modern SwiftUI features and the latest iOS APIs used throughout the app.",
-  },
-  {
-    question: "How do I connect to my server remotely?",
-    answer: "To connect from outside your local network, you'll need to set up remote access to your Jellyfin or Emby server. This typically involves configuring port forwarding, using a reverse proxy (like nginx or Caddy), or setting up a VPN. Make sure your server is accessible via HTTPS for secure connections.",
-  },
-  {
-    question: "Does Kartunes work with multiple libraries?",
-    answer: "Yes, if your Jellyfin or Emby server has multiple music libraries configured, Kartunes will let you choose which library to use when you first connect. You can switch libraries by removing and re-adding your server configuration.",
-  },
-  {
-    question: "How do I report a bug or request a feature?",
-    answer: "Please open an issue on GitHub at https://github.com/KartulUdus/Kartunes/issues. Before opening an issue, make sure you're on the latest version of the app and check if a similar issue already exists. Include your device model, iOS version, and server type/version when reporting bugs.",
-  },
-];
+  const terms = searchTerms(query);
+  const visibleFAQs = faqs.filter(
+    (faq) =>
+      (category === "all" || faq.category === category) &&
+      matchesAllTerms(searchableText.get(faq.slug) ?? "", terms)
+  );
 
-export default function FAQPage() {
-  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  useEffect(() => {
+    if (!slug) return;
+    setOpenSlugs((prev) => (prev.has(slug) ? prev : new Set(prev).add(slug)));
+    if (shouldScrollToSlug.current) {
+      itemRefs.current.get(slug)?.scrollIntoView({ behavior: "smooth", block: "start" });
+    }
+    shouldScrollToSlug.current = true;
+  }, [slug]);
+
+  const updateURL = (nextSlug: string | null) => {
+    shouldScrollToSlug.current = false;
+    navigate(localizePath(nextSlug ? `/faq/${nextSlug}` : "/faq"), { replace: true });
+  };
+
+  const toggleFAQ = (faq: FAQItem) => {
+    const isOpen = openSlugs.has(faq.slug);
+    setOpenSlugs((prev) => {
+      const next = new Set(prev);
+      if (isOpen) {
+        next.delete(faq.slug);
+      } else {
+        next.add(faq.slug);
+      }
+      return next;
+    });
+
+    if (!isOpen) {
+      updateURL(faq.slug);
+    } else if (faq.slug === slug) {
+      updateURL(null);
+    }
+  };
 
-  const toggleFAQ = (index: number) => {
-    setOpenIndex(openIndex === index ? null : index);
+  const handleSearch = (e: ChangeEvent<HTMLInputElement>) => {
+    const nextQuery = e.target.value;
+    const nextTerms = searchTerms(nextQuery);
+    setQuery(nextQuery);
+    if (nextTerms.length > 0) {
+      setOpenSlugs(
+        new Set(
+          faqs
+            .filter((faq) => matchesAllTerms(searchableText.get(faq.slug) ?? "", nextTerms))
+            .map((faq) => faq.slug)
+        )
+      );
+    }
   };
 
+  const expandAll = () => setOpenSlugs(new Set(visibleFAQs.map((faq) => faq.slug)));
+
+  const collapseAll = () => {
+    setOpenSlugs(new Set());
+    if (slug) updateURL(null);
+  };
+
+  const categoryCount = (value: FAQCategory) => faqs.filter((faq) => faq.category === value).length;
+
   return (
     <div className="faq-page">
       <div className="page-header">
-        <h1>Frequently Asked Questions</h1>
-        <p className="page-subtitle">Everything you need to know about Kartunes</p>
+        <h1>{t("faq.title")}</h1>
+        <p className="page-subtitle">{t("faq.subtitle")}</p>
       </div>
 
-      <div className="faq-content">
-        {faqs.map((faq, index) => (
-          <div key={index} className="faq-item">
+      <div className="faq-toolbar">
+        <input
+          type="search"
+          className="faq-search"
+          placeholder={t("faq.searchPlaceholder")}
+          aria-label={t("faq.searchLabel")}
+          value={query}
+          onChange={handleSearch}
+        />
+
+        <div className="faq-categories" role="group" aria-label={t("faq.categoriesLabel")}>
+          <button
+            className={`faq-category ${category === "all" ? "active" : ""}`}
+            onClick={() => setCategory("all")}
+            aria-pressed={category === "all"}
+          >
+            {t("faq.all")} <span className="faq-category-count">{faqs.length}</span>
+          </button>
+          {FAQ_CATEGORIES.map((value) => (
             <button
-              className={`faq-question ${openIndex === index ? "open" : ""}`}
-              onClick={() => toggleFAQ(index)}
-              aria-expanded={openIndex === index}
+              key={value}
+              className={`faq-category ${category === value ? "active" : ""}`}
+              onClick={() => setCategory(value)}
+              aria-pressed={category === value}
             >
-              <span>{faq.question}</span>
-              <span className="faq-icon">{openIndex === index ? "−" : "+"}</span>
+              {faqCategoryLabels[value]} <span className="faq-category-count">{categoryCount(value)}</span>
             </button>
-            {openIndex === index && (
-              <div className="faq-answer">
-                <p>{faq.answer}</p>
-              </div>
-            )}
+          ))}
+        </div>
+
+        <div className="faq-bulk-actions">
+          <button className="faq-bulk-button" onClick={expandAll}>
+            {t("faq.expandAll")}
+          </button>
+          <button className="faq-bulk-button" onClick={collapseAll}>
+            {t("faq.collapseAll")}
+          </button>
+        </div>
+      </div>
+
+      <div className="faq-content">
+        {visibleFAQs.map((faq) => {
+          const isOpen = openSlugs.has(faq.slug);
+          return (
+            <div
+              key={faq.slug}
+              id={faq.slug}
+              className="faq-item"
+              ref={(element) => {
+                if (element) {
+                  itemRefs.current.set(faq.slug, element);
+                } else {
+                  itemRefs.current.delete(faq.slug);
+                }
+              }}
+            >
+              <button
+                className={`faq-question ${isOpen ? "open" : ""}`}
+                onClick={() => toggleFAQ(faq)}
+                aria-expanded={isOpen}
+                aria-controls={`${faq.slug}-answer`}
+              >
+                <span>
+                  <HighlightedText text={faq.question} terms={terms} />
+                </span>
+                <span className="faq-icon">{isOpen ? "−" : "+"}</span>
+              </button>
+              {isOpen && (
+                <div className="faq-answer" id={`${faq.slug}-answer`}>
+                  <RichText source={faq.answer} highlight={terms} />
+                  <div className="faq-answer-meta">
+                    <span className="faq-answer-category">{faqCategoryLabels[faq.category]}</span>
+                    <Link to={localizePath(`/faq/${faq.slug}`)} className="faq-permalink">
+                      {t("faq.permalink")}
+                    </Link>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {visibleFAQs.length === 0 && (
+          <div className="faq-empty">
+            <p>{t("faq.noResults")}</p>
+            <p>{tx("faq.askSupport", { link: <Link to={localizePath("/support")}>{t("faq.askSupportLink")}</Link> })}</p>
           </div>
-        ))}
+        )}
       </div>
     </div>
   );
 }
-
@@ -0,0 +1,360 @@
+import { useRef, useState, type ChangeEvent, type DragEvent, type ReactNode } from "react";
+import { audioFormats } from "../content";
+import { useI18n } from "../i18n/I18nProvider";
+import { probeAudioFile } from "../services/audioProbe";
+import {
+  AUDIO_CODECS,
+  AUDIO_CONTAINERS,
+  audioCodecDisplayNames,
+  audioContainerDisplayNames,
+  type AudioFormat,
+  type AudioProbe,
+  type PlaybackPlan,
+} from "../types/audio";
+import { mediaServerDisplayNames, type MediaServerType } from "../types/server";
+import {
+  downloadPlan,
+  findAudioFormat,
+  formatPlaysNatively,
+  formatStreamRequest,
+  parseCodec,
+  parseContainer,
+  streamingPlan,
+} from "../utils/audioFormats";
+import { formatDuration } from "../utils/format";
+import "./FormatsPage.css";
+
+const MEDIA_SERVERS: MediaServerType[] = ["jellyfin", "emby"];
+/** The app's transcodes are capped at CD quality */
+const TRANSCODE_SAMPLE_RATE = 44100;
+const TRANSCODE_BIT_DEPTH = 16;
+
+type ProbeState = "idle" | "reading" | "done" | "unrecognized";
+
+function kbps(bitrate: number): number {
+  return Math.round(bitrate / 1000);
+}
+
+function megabytesPerMinute(bitrate: number): string {
+  return ((bitrate / 8) * 60 / 1000000).toFixed(1);
+}
+
+export default function FormatsPage() {
+  const { t } = useI18n();
+  const [server, setServer] = useState<MediaServerType>("jellyfin");
+  const [codecInput, setCodecInput] = useState("");
+  const [containerInput, setContainerInput] = useState("");
+  const [probeState, setProbeState] = useState<ProbeState>("idle");
+  const [probe, setProbe] = useState<AudioProbe | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [isDragging, setIsDragging] = useState(false);
+  // Only the last file picked may update the form, however long the earlier ones take to read
+  const latestFile = useRef(0);
+
+  const codec = parseCodec(codecInput);
+  const typedContainer = parseContainer(containerInput);
+  const format = codec ? findAudioFormat(codec, typedContainer) : undefined;
+  const container = typedContainer ?? format?.containers[0] ?? null;
+
+  const readFile = async (file: File) => {
+    const request = ++latestFile.current;
+    setFileName(file.name);
+    setProbeState("reading");
+    setProbe(null);
+    let result: AudioProbe | null = null;
+    try {
+      result = await probeAudioFile(file);
+    } catch {
+      // Truncated or damaged headers read past the end; treated like an unknown format
+    }
+    if (request !== latestFile.current) return;
+
+    setProbe(result);
+    setProbeState(result ? "done" : "unrecognized");
+    if (result) {
+      setContainerInput(result.container);
+      setCodecInput(result.codec ?? "");
+    }
+  };
+
+  const onFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) void readFile(file);
+    event.target.value = "";
+  };
+
+  const onDrop = (event: DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) void readFile(file);
+  };
+
+  const describeTyped = (nextCodec: string, nextContainer: string) => {
+    latestFile.current++;
+    setProbe(null);
+    setProbeState("idle");
+    setFileName("");
+    setCodecInput(nextCodec);
+    setContainerInput(nextContainer);
+  };
+
+  const pickFormat = (picked: AudioFormat) => {
+    describeTyped(picked.codec, picked.containers[0]);
+    document.getElementById("formats-result")?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  const stream = codec && container ? streamingPlan(server, codec, container, probe?.bitrate) : null;
+  const download = codec && container ? downloadPlan(server) : null;
+  const formatName = codec && container ? `${audioCodecDisplayNames[codec]} (${audioContainerDisplayNames[container]})` : "";
+  const isHiRes =
+    (probe?.sampleRate ?? 0) > TRANSCODE_SAMPLE_RATE || (probe?.bitDepth ?? 0) > TRANSCODE_BIT_DEPTH;
+
+  return (
+    <div className="formats-page">
+      <div className="page-header">
+        <h1>{t("formats.title")}</h1>
+        <p className="page-subtitle">{t("formats.subtitle")}</p>
+      </div>
+
+      <section className="formats-checker">
+        <h2>{t("formats.checkTitle")}</h2>
+        <p>{t("formats.checkIntro")}</p>
+
+        <label
+          className={`formats-drop${isDragging ? " dragging" : ""}`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={onDrop}
+        >
+          <input type="file" accept="audio/*,.flac,.ape,.wv,.dsf,.dff,.opus,.mka" onChange={onFileChange} />
+          <span className="formats-drop-title">{t("formats.dropTitle")}</span>
+          <span className="formats-drop-hint">{t("formats.dropHint")}</span>
+        </label>
+
+        {probeState === "reading" && <p className="formats-status">{t("formats.reading", { file: fileName })}</p>}
+        {probeState === "unrecognized" && (
+          <p className="formats-status error" role="alert">
+            {t("formats.unrecognized", { file: fileName })}
+          </p>
+        )}
+
+        <div className="formats-typed">
+          <div className="formats-field">
+            <label htmlFor="formats-codec">{t("formats.codec")}</label>
+            <input
+              id="formats-codec"
+              list="formats-codecs"
+              spellCheck={false}
+              placeholder="flac"
+              value={codecInput}
+              onChange={(e) => describeTyped(e.target.value, containerInput)}
+            />
+            <datalist id="formats-codecs">
+              {AUDIO_CODECS.map((option) => (
+                <option key={option} value={option}>
+                  {audioCodecDisplayNames[option]}
+                </option>
+              ))}
+            </datalist>
+          </div>
+          <div className="formats-field">
+            <label htmlFor="formats-container">{t("formats.container")}</label>
+            <input
+              id="formats-container"
+              list="formats-containers"
+              spellCheck={false}
+              placeholder="flac"
+              value={containerInput}
+              onChange={(e) => describeTyped(codecInput, e.target.value)}
+            />
+            <datalist id="formats-containers">
+              {AUDIO_CONTAINERS.map((option) => (
+                <option key={option} value={option}>
+                  {audioContainerDisplayNames[option]}
+                </option>
+              ))}
+            </datalist>
+          </div>
+          <fieldset className="formats-servers">
+            <legend>{t("formats.server")}</legend>
+            {MEDIA_SERVERS.map((option) => (
+              <label key={option} className={server === option ? "selected" : undefined}>
+                <input
+                  type="radio"
+                  name="formats-server"
+                  value={option}
+                  checked={server === option}
+                  onChange={() => setServer(option)}
+                />
+                {mediaServerDisplayNames[option]}
+              </label>
+            ))}
+          </fieldset>
+        </div>
+
+        <div id="formats-result" className="formats-result" aria-live="polite">
+          {codecInput.trim() !== "" && !codec && (
+            <p className="formats-status error">{t("formats.unknownCodec", { codec: codecInput.trim() })}</p>
+          )}
+          {containerInput.trim() !== "" && !typedContainer && (
+            <p className="formats-status error">{t("formats.unknownContainer", { container: containerInput.trim() })}</p>
+          )}
+          {probe && !probe.codec && (
+            <p className="formats-status">
+              {t("formats.codecUnknown", { container: audioContainerDisplayNames[probe.container] })}
+            </p>
+          )}
+
+          {probe && fileName && <ProbeDetails probe={probe} fileName={fileName} />}
+
+          {stream && download && (
+            <div className="formats-plans">
+              <PlanCard title={t("formats.streaming")} plan={stream} formatName={formatName}>
+                {stream.method === "directStream" && server === "jellyfin" && <p>{t("formats.jellyfinCaveat")}</p>}
+                {stream.method === "transcode" && isHiRes && <p>{t("formats.hiResCapped")}</p>}
+              </PlanCard>
+              <PlanCard title={t("formats.download")} plan={download} formatName={formatName}>
+                {format?.lossless && <p>{t("formats.downloadLossy")}</p>}
+              </PlanCard>
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="formats-reference">
+        <h2>{t("formats.referenceTitle")}</h2>
+        <p>{t("formats.referenceIntro")}</p>
+        <div className="formats-table-wrapper">
+          <table className="formats-table">
+            <thead>
+              <tr>
+                <th>{t("formats.colFormat")}</th>
+                <th>{t("formats.colExtensions")}</th>
+                <th>{t("formats.colLossless")}</th>
+                <th>{t("formats.colNative")}</th>
+                {MEDIA_SERVERS.map((option) => (
+                  <th key={option}>{t("formats.colStreaming", { server: mediaServerDisplayNames[option] })}</th>
+                ))}
+                <th>{t("formats.colDownload")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {audioFormats.map((row) => {
+                const plays = formatPlaysNatively(row);
+                return (
+                  <tr key={row.id}>
+                    <td>
+                      <button type="button" className="formats-row-pick" onClick={() => pickFormat(row)}>
+                        {row.name}
+                      </button>
+                    </td>
+                    <td>
+                      <code>{row.extensions.join(" ")}</code>
+                    </td>
+                    <td>{row.lossless ? t("formats.yes") : t("formats.no")}</td>
+                    <td>{plays ? t("formats.yes") : t("formats.no")}</td>
+                    {MEDIA_SERVERS.map((option) => {
+                      const method = streamingPlan(option, row.codec, row.containers[0]).method;
+                      return (
+                        <td key={option}>
+                          <span className={`formats-method ${method}`}>{t(`formats.method.${method}`)}</span>
+                        </td>
+                      );
+                    })}
+                    <td>
+                      <span className="formats-method transcode">{t("formats.method.transcode")}</span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <p className="formats-footnote">
+          {t("formats.containerFootnote", {
+            example: `${audioCodecDisplayNames.flac} (${audioContainerDisplayNames.ogg})`,
+          })}
+        </p>
+      </section>
+    </div>
+  );
+}
+
+function ProbeDetails({ probe, fileName }: { probe: AudioProbe; fileName: string }) {
+  const { t } = useI18n();
+  const details: [label: string, value: string][] = [
+    [t("formats.container"), audioContainerDisplayNames[probe.container]],
+    [t("formats.codec"), probe.codec ? audioCodecDisplayNames[probe.codec] : "?"],
+  ];
+  if (probe.sampleRate) details.push([t("formats.sampleRate"), t("formats.kHz", { value: probe.sampleRate / 1000 })]);
+  if (probe.bitDepth) details.push([t("formats.bitDepth"), t("formats.bits", { value: probe.bitDepth })]);
+  if (probe.channels) details.push([t("formats.channels"), String(probe.channels)]);
+  if (probe.durationSeconds) details.push([t("formats.duration"), formatDuration(probe.durationSeconds)]);
+  if (probe.bitrate) details.push([t("formats.bitrate"), t("formats.kbps", { value: kbps(probe.bitrate) })]);
+
+  return (
+    <div className="formats-probe">
+      <h3>{fileName}</h3>
+      <dl>
+        {details.map(([label, value]) => (
+          <div key={label}>
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+function PlanCard({
+  title,
+  plan,
+  formatName,
+  children,
+}: {
+  title: string;
+  plan: PlaybackPlan;
+  formatName: string;
+  children?: ReactNode;
+}) {
+  const { t } = useI18n();
+  const server = mediaServerDisplayNames[plan.server];
+
+  return (
+    <article className={`formats-plan ${plan.method}`}>
+      <p className="formats-plan-label">{title}</p>
+      <h3>{t(`formats.method.${plan.method}`)}</h3>
+      <p>
+        {plan.load === "once"
+          ? t("formats.explain.download", { server })
+          : t(`formats.explain.${plan.method}`, { format: formatName, server })}
+      </p>
+      {children}
+      <dl>
+        <div>
+          <dt>{t("formats.request")}</dt>
+          <dd>
+            <code>{formatStreamRequest(plan.request)}</code>
+          </dd>
+        </div>
+        <div>
+          <dt>{t("formats.serverLoad")}</dt>
+          <dd>{t(`formats.load.${plan.load}`)}</dd>
+        </div>
+        {plan.bitrate !== undefined && plan.method !== "unplayable" && (
+          <div>
+            <dt>{t("formats.bandwidth")}</dt>
+            <dd>
+              {t("formats.bandwidthValue", { kbps: kbps(plan.bitrate), mb: megabytesPerMinute(plan.bitrate) })}
+            </dd>
+          </div>
+        )}
+      </dl>
+    </article>
+  );
+}
@@ -0,0 +1,194 @@
+import { useMemo, useState } from "react";
+import { umbrellaGenreMap } from "../content";
+import { useI18n } from "../i18n/I18nProvider";
+import { UMBRELLA_GENRES, type GenreClassification, type UmbrellaGenre } from "../types/genres";
+import {
+  classifyGenres,
+  isReachableKey,
+  mappingIssueURL,
+  normalizeGenre,
+  suggestUmbrella,
+  umbrellaAnchor,
+} from "../utils/umbrellaGenres";
+import "./GenresPage.css";
+
+const mapEntries = Object.entries(umbrellaGenreMap);
+
+export default function GenresPage() {
+  const { t } = useI18n();
+  const [tags, setTags] = useState("");
+  const [query, setQuery] = useState("");
+  const [selectedUmbrella, setSelectedUmbrella] = useState<UmbrellaGenre | null>(null);
+
+  // Each line is one tag string from the server; the app splits commas itself
+  const classifications = useMemo(() => classifyGenres(tags.split("\n")), [tags]);
+
+  const normalizedQuery = normalizeGenre(query);
+  const matchingGroups = UMBRELLA_GENRES.map((umbrella) => ({
+    umbrella,
+    keys: mapEntries
+      .filter(([key, value]) => value === umbrella && (!normalizedQuery || normalizeGenre(key).includes(normalizedQuery)))
+      .map(([key]) => key),
+  }));
+  const groups = matchingGroups.filter(
+    (group) => group.keys.length > 0 && (!selectedUmbrella || group.umbrella === selectedUmbrella)
+  );
+
+  return (
+    <div className="genres-page">
+      <div className="page-header">
+        <h1>{t("genres.title")}</h1>
+        <p className="page-subtitle">{t("genres.subtitle")}</p>
+      </div>
+
+      <section className="genre-checker">
+        <h2>{t("genres.checkTitle")}</h2>
+        <p>{t("genres.checkIntro")}</p>
+        <label htmlFor="genre-tags" className="genre-label">
+          {t("genres.tagsLabel")}
+        </label>
+        <textarea
+          id="genre-tags"
+          className="genre-tags"
+          rows={4}
+          value={tags}
+          placeholder={t("genres.tagsPlaceholder")}
+          onChange={(e) => setTags(e.target.value)}
+          spellCheck={false}
+        />
+
+        {classifications.length > 0 && (
+          <table className="genre-results">
+            <thead>
+              <tr>
+                <th>{t("genres.colTag")}</th>
+                <th>{t("genres.colNormalized")}</th>
+                <th>{t("genres.colUmbrella")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {classifications.map((classification, index) => (
+                <ClassificationRow key={`${index}-${classification.raw}`} classification={classification} />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="genre-map">
+        <h2>{t("genres.mapTitle")}</h2>
+        <p>{t("genres.mapIntro")}</p>
+        <p className="genre-legend">{t("genres.unreachableLegend")}</p>
+
+        <div className="genre-map-controls">
+          <input
+            type="search"
+            className="genre-search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t("genres.searchPlaceholder")}
+            aria-label={t("genres.searchLabel")}
+          />
+          <div className="genre-filters" role="group" aria-label={t("genres.filterLabel")}>
+            <button
+              className={`genre-filter ${selectedUmbrella === null ? "active" : ""}`}
+              aria-pressed={selectedUmbrella === null}
+              onClick={() => setSelectedUmbrella(null)}
+            >
+              {t("genres.all")}
+            </button>
+            {matchingGroups.map(({ umbrella, keys }) => (
+              <button
+                key={umbrella}
+                className={`genre-filter ${selectedUmbrella === umbrella ? "active" : ""}`}
+                aria-pressed={selectedUmbrella === umbrella}
+                onClick={() => setSelectedUmbrella(umbrella)}
+              >
+                {umbrella} <span className="genre-filter-count">{keys.length}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {groups.length === 0 && <p className="genre-empty">{t("genres.noMatches")}</p>}
+
+        {groups.map((group) => (
+          <section key={group.umbrella} id={umbrellaAnchor(group.umbrella)} className="genre-group">
+            <h3>
+              {group.umbrella} <span className="genre-count">{t("genres.tagCount", { count: group.keys.length })}</span>
+            </h3>
+            <ul className="genre-keys">
+              {group.keys.map((key) =>
+                isReachableKey(key) ? (
+                  <li key={key} className="genre-key">
+                    {key || t("genres.emptyTag")}
+                  </li>
+                ) : (
+                  <li
+                    key={key}
+                    className="genre-key unreachable"
+                    title={t("genres.unreachable", { normalized: normalizeGenre(key) })}
+                  >
+                    ⚠️ {key}
+                  </li>
+                )
+              )}
+            </ul>
+          </section>
+        ))}
+      </section>
+    </div>
+  );
+}
+
+function ClassificationRow({ classification }: { classification: GenreClassification }) {
+  const { t } = useI18n();
+  const { raw, normalized, umbrella } = classification;
+  const suggestion = umbrella === "Unknown" ? suggestUmbrella(normalized) : undefined;
+  const [choice, setChoice] = useState<UmbrellaGenre | "">(suggestion?.umbrella ?? "");
+
+  return (
+    <tr className={umbrella === "Unknown" ? "unknown" : undefined}>
+      <td>{raw}</td>
+      <td>
+        <code>{normalized || t("genres.emptyTag")}</code>
+      </td>
+      <td>
+        <a href={`#${umbrellaAnchor(umbrella)}`} className="genre-umbrella">
+          {umbrella}
+        </a>
+        {umbrella === "Unknown" && normalized && (
+          <div className="genre-suggestion">
+            <p>
+              {suggestion
+                ? t("genres.suggested", {
+                    umbrella: suggestion.umbrella,
+                    reason: t(`genres.reason.${suggestion.reason}`, { key: suggestion.basedOn }),
+                  })
+                : t("genres.noSuggestion")}
+            </p>
+            <div className="genre-suggestion-actions">
+              <select
+                value={choice}
+                onChange={(e) => setChoice(e.target.value as UmbrellaGenre | "")}
+                aria-label={t("genres.chooseUmbrella", { tag: raw })}
+              >
+                <option value="">{t("genres.choose")}</option>
+                {UMBRELLA_GENRES.filter((candidate) => candidate !== "Unknown").map((candidate) => (
+                  <option key={candidate} value={candidate}>
+                    {candidate}
+                  </option>
+                ))}
+              </select>
+              {choice && (
+                <a href={mappingIssueURL(raw, normalized, choice)} target="_blank" rel="noopener noreferrer">
+                  {t("genres.submitMapping")}
+                </a>
+              )}
+            </div>
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+}
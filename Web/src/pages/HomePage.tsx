@@ -1,68 +1,68 @@
 import { Link } from "react-router-dom";
+import { AppDownloadButton, AppDownloadQRCode } from "../components/AppDownload/AppDownload";
+import { getChangelog } from "../content/changelog";
+import { useContent } from "../hooks/useContent";
+import { useI18n } from "../i18n/I18nProvider";
+import { releasePath } from "../utils/changelog";
+import { assetPath } from "../utils/paths";
 import "./HomePage.css";
 
 export default function HomePage() {
+  const { t, tx, locale, localizePath } = useI18n();
+  const { highlights, site } = useContent();
+  const [latestRelease] = getChangelog(locale);
+
   return (
     <div className="home-page">
       <section className="hero">
         <div className="hero-content">
           <img 
-            src={`${import.meta.env.BASE_URL}Assets/Kartunes-logo.png`} 
-            alt="Kartunes Logo" 
+            src={assetPath("Assets/Kartunes-logo.png")} 
+            alt={site.imageAlt} 
             className="hero-logo"
           />
+          {latestRelease && (
+            <Link to={localizePath(releasePath(latestRelease.version))} className="hero-release">
+              {t("home.latestRelease", { version: latestRelease.version, title: latestRelease.title })}
+              <span aria-hidden="true"> →</span>
+            </Link>
+          )}
           <h1 className="hero-title">Kartunes</h1>
-          <p className="hero-subtitle">
-            A native Jellyfin & Emby music player for iOS
-          </p>
-          <p className="hero-description">
-            Stream your own music library with a fast, native experience on iPhone and Apple Watch.
-          </p>
+          <p className="hero-subtitle">{t("home.subtitle")}</p>
+          <p className="hero-description">{t("home.description")}</p>
           <div className="hero-actions">
-            <button className="hero-button primary" disabled>
-              Download on the App Store
-              <span className="coming-soon">Coming Soon</span>
-            </button>
+            <AppDownloadButton className="hero-button primary" />
+            <Link to={localizePath("/demo")} className="hero-button secondary">
+              {t("home.tryDemo")}
+            </Link>
             <a
               href="https://github.com/KartulUdus/Kartunes"
               target="_blank"
               rel="noopener noreferrer"
               className="hero-button secondary"
             >
-              View on GitHub
+              {t("nav.github")}
             </a>
           </div>
+          <AppDownloadQRCode />
         </div>
       </section>
 
       <section className="highlights">
         <div className="highlights-grid">
-          <div className="highlight-card">
-            <div className="highlight-icon">🎵</div>
-            <h3>Jellyfin & Emby support</h3>
-            <p>Works seamlessly with your existing media server</p>
-          </div>
-          <div className="highlight-card">
-            <div className="highlight-icon">📱</div>
-            <h3>Native iOS & watchOS apps</h3>
-            <p>Built with SwiftUI for a native experience</p>
-          </div>
-          <div className="highlight-card">
-            <div className="highlight-icon">🚗</div>
-            <h3>CarPlay support</h3>
-            <p>Pending Apple review</p>
-          </div>
-          <div className="highlight-card">
-            <div className="highlight-icon">🔒</div>
-            <h3>Your library, your server</h3>
-            <p>All data stays on your own server</p>
-          </div>
+          {highlights.map((highlight) => (
+            <div key={highlight.id} className="highlight-card">
+              <div className="highlight-icon">{highlight.icon}</div>
+              <h3>{highlight.title}</h3>
+              <p>{highlight.description}</p>
+            </div>
+          ))}
         </div>
       </section>
 
       <section className="cta-section">
         <p className="cta-text">
-          Want more details? <Link to="/features">Explore the Features page</Link>
+          {tx("home.cta", { link: <Link to={localizePath("/features")}>{t("home.ctaLink")}</Link> })}
         </p>
       </section>
     </div>
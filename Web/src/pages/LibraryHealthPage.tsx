@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { LibraryHealthReport } from "../components/LibraryHealth/LibraryHealthReport";
+import { ServerSignIn } from "../components/ServerSignIn/ServerSignIn";
+import { useServerSession } from "../hooks/useServerSession";
+import { useI18n } from "../i18n/I18nProvider";
+import { fetchLibraryForScan, type LibraryScanStage } from "../services/libraryHealth";
+import { describeRequestFailure, ServerRequestError } from "../services/mediaServer";
+import type { HealthReport } from "../types/libraryHealth";
+import type { ServerRequestFailure } from "../types/mediaServer";
+import { scanLibrary } from "../utils/libraryHealth";
+import "./LibraryHealthPage.css";
+
+type ScanState =
+  | { kind: "idle" }
+  | { kind: "scanning"; stage: LibraryScanStage; loaded: number; total: number }
+  | { kind: "scanned"; userId: string; report: HealthReport }
+  | { kind: "failed"; failure: ServerRequestFailure };
+
+export default function LibraryHealthPage() {
+  const { t } = useI18n();
+  const { session, signIn, signOut } = useServerSession();
+  const [state, setState] = useState<ScanState>({ kind: "idle" });
+
+  const scan = async () => {
+    if (!session) return;
+    setState({ kind: "scanning", stage: "tracks", loaded: 0, total: 0 });
+    try {
+      const { tracks, albums, artists } = await fetchLibraryForScan(session, (stage, loaded, total) =>
+        setState({ kind: "scanning", stage, loaded, total })
+      );
+      setState({ kind: "scanned", userId: session.userId, report: scanLibrary(tracks, albums, artists) });
+    } catch (error) {
+      setState({ kind: "failed", failure: error instanceof ServerRequestError ? error.failure : { kind: "network" } });
+    }
+  };
+
+  // A report from another sign-in would link to the wrong server
+  const report = state.kind === "scanned" && state.userId === session?.userId ? state.report : null;
+
+  return (
+    <div className="library-health-page">
+      <div className="page-header">
+        <h1>{t("health.title")}</h1>
+        <p className="page-subtitle">{t("health.subtitle")}</p>
+      </div>
+
+      <section className="library-health-section">
+        <h2>{t("health.signInTitle")}</h2>
+        <p>{t("health.signInIntro")}</p>
+        <ServerSignIn session={session} onSignIn={signIn} onSignOut={signOut} />
+      </section>
+
+      {session && (
+        <section className="library-health-section" aria-live="polite">
+          <h2>{t("health.reportTitle")}</h2>
+          <p>{t("health.reportIntro")}</p>
+          <button type="button" className="library-health-scan" onClick={scan} disabled={state.kind === "scanning"}>
+            {report ? t("health.scanAgain") : t("health.scan")}
+          </button>
+
+          {state.kind === "scanning" && (
+            <p className="library-health-status">
+              {state.total > 0
+                ? t(`health.progress.${state.stage}`, { loaded: state.loaded, total: state.total })
+                : t("health.scanning")}
+            </p>
+          )}
+          {state.kind === "failed" && (
+            <div className="library-health-failure" role="alert">
+              <strong>{describeRequestFailure(state.failure, t).title}</strong>
+              <p>{describeRequestFailure(state.failure, t).detail}</p>
+            </div>
+          )}
+          {report && <LibraryHealthReport session={session} report={report} />}
+        </section>
+      )}
+    </div>
+  );
+}
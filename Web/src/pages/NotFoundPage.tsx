@@ -1,15 +1,18 @@
 import { Link } from "react-router-dom";
+import { useI18n } from "../i18n/I18nProvider";
 import "./NotFoundPage.css";
 
 export default function NotFoundPage() {
+  const { t, localizePath } = useI18n();
+
   return (
     <div className="not-found-page">
       <div className="not-found-content">
         <h1>404</h1>
-        <h2>Page Not Found</h2>
-        <p>The page you're looking for doesn't exist.</p>
-        <Link to="/" className="not-found-button">
-          Go Home
+        <h2>{t("notFound.title")}</h2>
+        <p>{t("notFound.description")}</p>
+        <Link to={localizePath("/")} className="not-found-button">
+          {t("notFound.goHome")}
         </Link>
       </div>
     </div>
@@ -1,90 +1,81 @@
+import { Link } from "react-router-dom";
+import { useContent } from "../hooks/useContent";
+import { useI18n } from "../i18n/I18nProvider";
+import { platformCapabilities } from "../utils/capabilities";
 import "./PlatformsPage.css";
 
+function listNames(names: string[], and: string): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(", ")} ${and} ${names[names.length - 1]}` : names.join("");
+}
+
 export default function PlatformsPage() {
+  const { t, localizePath } = useI18n();
+  const { platforms, platformStatusLabels, capabilities, supportLevelLabels } = useContent();
+
+  const currentPlatforms = platforms.filter((p) => p.status !== "future");
+  const futurePlatforms = platforms.filter((p) => p.status === "future");
+  const availableNames = currentPlatforms.filter((p) => p.status === "available").map((p) => p.name);
+  const pendingNames = currentPlatforms.filter((p) => p.status === "pending").map((p) => p.name);
+  const subtitle =
+    pendingNames.length > 0
+      ? t("platforms.subtitleWithPending", {
+          available: availableNames.join(", "),
+          pending: listNames(pendingNames, t("platforms.listAnd")),
+        })
+      : t("platforms.subtitle", { available: listNames(availableNames, t("platforms.listAnd")) });
+
   return (
     <div className="platforms-page">
       <div className="page-header">
-        <h1>Platforms</h1>
-        <p className="page-subtitle">Available on iOS, watchOS, and coming soon to CarPlay</p>
+        <h1>{t("platforms.title")}</h1>
+        <p className="page-subtitle">{subtitle}</p>
       </div>
 
       <div className="platforms-content">
-        <section className="platform-section">
-          <div className="platform-card">
-            <div className="platform-icon">📱</div>
-            <h2>iPhone</h2>
-            <p className="platform-status">Available</p>
-            <p>
-              The main Kartunes experience is built for iPhone. Enjoy a full-featured music player
-              with native SwiftUI interface, seamless library browsing, and powerful playback controls.
-              All features are available on iOS 16.0 and later.
-            </p>
-            <ul className="platform-features">
-              <li>Full library browsing and search</li>
-              <li>Queue management and playback controls</li>
-              <li>Dynamic Island support (iPhone 14 Pro+)</li>
-              <li>Lock screen and Control Center integration</li>
-              <li>Light and dark theme support</li>
-            </ul>
-          </div>
-        </section>
-
-        <section className="platform-section">
-          <div className="platform-card">
-            <div className="platform-icon">⌚</div>
-            <h2>Apple Watch</h2>
-            <p className="platform-status">Available</p>
-            <p>
-              Control playback from your wrist with the Kartunes Watch app. Perfect for workouts,
-              running, or any time you want to control your music without reaching for your phone.
-            </p>
-            <ul className="platform-features">
-              <li>Remote playback control</li>
-              <li>Now playing information</li>
-              <li>Play, pause, skip, and volume control</li>
-              <li>Works independently when iPhone is nearby</li>
-            </ul>
-          </div>
-        </section>
-
-        <section className="platform-section">
-          <div className="platform-card pending">
-            <div className="platform-icon">🚗</div>
-            <h2>CarPlay</h2>
-            <p className="platform-status pending">Pending Apple Review</p>
-            <p>
-              CarPlay support is fully implemented in Kartunes and is currently pending approval from Apple.
-              Once approved, you'll be able to browse your library and control playback directly from your
-              car's infotainment system.
-            </p>
-            <ul className="platform-features">
-              <li>Browse your music library</li>
-              <li>Full Now Playing view</li>
-              <li>Safe, hands-free music control</li>
-              <li>Voice control integration</li>
-            </ul>
-            <div className="pending-notice">
-              <strong>Note:</strong> CarPlay functionality is complete but availability depends on Apple's
-              App Store review process.
+        {currentPlatforms.map((platform) => (
+          <section key={platform.id} id={platform.id} className="platform-section">
+            <div className={`platform-card ${platform.status === "pending" ? "pending" : ""}`}>
+              <div className="platform-icon">{platform.icon}</div>
+              <h2>{platform.name}</h2>
+              <p className={`platform-status ${platform.status === "pending" ? "pending" : ""}`}>
+                {platformStatusLabels[platform.status]}
+              </p>
+              <p>{platform.description}</p>
+              <ul className="platform-features">
+                {platformCapabilities(capabilities, platform.id).map(({ capability, support }) => (
+                  <li key={capability.id} className={support.level}>
+                    {capability.title}
+                    {support.level === "partial" && (
+                      <span className="platform-feature-level">{supportLevelLabels.partial}</span>
+                    )}
+                    {support.note && <span className="platform-feature-note">{support.note}</span>}
+                  </li>
+                ))}
+              </ul>
+              <Link to={`${localizePath("/capabilities")}?sort=${platform.id}`} className="platform-compare">
+                {t("platforms.compare", { platform: platform.name })}
+              </Link>
+              {platform.status === "pending" && platform.note && (
+                <div className="pending-notice">
+                  <strong>{t("platforms.note")}</strong> {platform.note}
+                </div>
+              )}
             </div>
-          </div>
-        </section>
+          </section>
+        ))}
 
         <section className="platform-section">
-          <h2>Future Platforms</h2>
+          <h2>{t("platforms.future")}</h2>
           <div className="future-platforms">
-            <div className="future-platform-card">
-              <h3>iPad</h3>
-              <p>Native iPad support is being explored to take advantage of the larger screen.</p>
-            </div>
-            <div className="future-platform-card">
-              <h3>tvOS</h3>
-              <p>Apple TV support is under consideration for home listening experiences.</p>
-            </div>
+            {futurePlatforms.map((platform) => (
+              <div key={platform.id} className="future-platform-card">
+                <h3>{platform.name}</h3>
+                <p>{platform.description}</p>
+              </div>
+            ))}
           </div>
         </section>
       </div>
     </div>
   );
 }
-
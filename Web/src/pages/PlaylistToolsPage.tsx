@@ -0,0 +1,42 @@
+import { PlaylistExport } from "../components/PlaylistTools/PlaylistExport";
+import { PlaylistImport } from "../components/PlaylistTools/PlaylistImport";
+import { ServerSignIn } from "../components/ServerSignIn/ServerSignIn";
+import { useServerSession } from "../hooks/useServerSession";
+import { useI18n } from "../i18n/I18nProvider";
+import "./PlaylistToolsPage.css";
+
+export default function PlaylistToolsPage() {
+  const { t } = useI18n();
+  const { session, signIn, signOut } = useServerSession();
+
+  return (
+    <div className="playlist-tools-page">
+      <div className="page-header">
+        <h1>{t("playlists.title")}</h1>
+        <p className="page-subtitle">{t("playlists.subtitle")}</p>
+      </div>
+
+      <section className="playlist-tools-section">
+        <h2>{t("playlists.signInTitle")}</h2>
+        <p>{t("playlists.signInIntro")}</p>
+        <ServerSignIn session={session} onSignIn={signIn} onSignOut={signOut} />
+      </section>
+
+      {session && (
+        <>
+          <section className="playlist-tools-section">
+            <h2>{t("playlists.importTitle")}</h2>
+            <p>{t("playlists.importIntro")}</p>
+            <PlaylistImport key={session.accessToken} session={session} />
+          </section>
+
+          <section className="playlist-tools-section">
+            <h2>{t("playlists.exportTitle")}</h2>
+            <p>{t("playlists.exportIntro")}</p>
+            <PlaylistExport session={session} />
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Link, useParams } from "react-router-dom";
+import { ReleaseNotes } from "../components/ReleaseNotes/ReleaseNotes";
+import { getChangelog } from "../content/changelog";
+import { useI18n } from "../i18n/I18nProvider";
+import { feedPath, releasePath } from "../utils/changelog";
+import { assetPath } from "../utils/paths";
+import NotFoundPage from "./NotFoundPage";
+import "./ReleasePage.css";
+
+export default function ReleasePage() {
+  const { t, tx, locale, localizePath } = useI18n();
+  const { version } = useParams();
+  const entries = getChangelog(locale);
+  const index = entries.findIndex((entry) => entry.version === version);
+  if (index === -1) return <NotFoundPage />;
+
+  const entry = entries[index];
+  const newer = entries[index - 1];
+  const older = entries[index + 1];
+
+  return (
+    <div className="release-page">
+      <Link to={localizePath("/changelog")} className="release-back">
+        {t("changelog.allReleases")}
+      </Link>
+
+      <article>
+        <h1>{t("changelog.releaseTitle", { version: entry.version, title: entry.title })}</h1>
+        <ReleaseNotes entry={entry} />
+      </article>
+
+      {(newer || older) && (
+        <nav className="release-nav" aria-label={t("changelog.otherReleases")}>
+          {newer && (
+            <Link to={localizePath(releasePath(newer.version))} rel="next">
+              {t("changelog.newerRelease", { version: newer.version })}
+            </Link>
+          )}
+          {older && (
+            <Link to={localizePath(releasePath(older.version))} rel="prev" className="release-older">
+              {t("changelog.olderRelease", { version: older.version })}
+            </Link>
+          )}
+        </nav>
+      )}
+
+      <p className="release-feeds">
+        {tx("changelog.subscribe", {
+          atom: <a href={assetPath(feedPath("atom", locale))}>Atom</a>,
+          rss: <a href={assetPath(feedPath("rss", locale))}>RSS</a>,
+        })}
+      </p>
+    </div>
+  );
+}
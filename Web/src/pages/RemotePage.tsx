@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { RemoteControl } from "../components/RemoteControl/RemoteControl";
+import { ServerSignIn } from "../components/ServerSignIn/ServerSignIn";
+import { useAppSessions } from "../hooks/useAppSessions";
+import { useServerSession } from "../hooks/useServerSession";
+import { useI18n } from "../i18n/I18nProvider";
+import { describeRequestFailure } from "../services/mediaServer";
+import "./RemotePage.css";
+
+export default function RemotePage() {
+  const { t } = useI18n();
+  const { session, signIn, signOut } = useServerSession();
+  const { sessions, fetchedAt, failure, refresh } = useAppSessions(session);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Keep the chosen device while it stays active, otherwise show the most recent one
+  const target = sessions?.find((candidate) => candidate.Id === selectedId) ?? sessions?.[0];
+
+  return (
+    <div className="remote-page">
+      <div className="page-header">
+        <h1>{t("remote.title")}</h1>
+        <p className="page-subtitle">{t("remote.subtitle")}</p>
+      </div>
+
+      <section className="remote-section">
+        <ServerSignIn session={session} onSignIn={signIn} onSignOut={signOut} />
+      </section>
+
+      {session && (
+        <section className="remote-section" aria-live="polite">
+          {failure ? (
+            <div className="remote-failure" role="alert">
+              <strong>{describeRequestFailure(failure, t).title}</strong>
+              <p>{describeRequestFailure(failure, t).detail}</p>
+              <button type="button" onClick={refresh}>
+                {t("remote.retry")}
+              </button>
+            </div>
+          ) : !sessions ? (
+            <p className="remote-status">{t("remote.loading")}</p>
+          ) : sessions.length === 0 || !target ? (
+            <p className="remote-status">{t("remote.noSessions")}</p>
+          ) : (
+            <>
+              {sessions.length > 1 && (
+                <fieldset className="remote-devices">
+                  <legend>{t("remote.devices")}</legend>
+                  {sessions.map((candidate) => (
+                    <label key={candidate.Id} className={candidate.Id === target.Id ? "selected" : undefined}>
+                      <input
+                        type="radio"
+                        name="remote-device"
+                        checked={candidate.Id === target.Id}
+                        onChange={() => setSelectedId(candidate.Id)}
+                      />
+                      {candidate.DeviceName}
+                    </label>
+                  ))}
+                </fieldset>
+              )}
+              <h2>{t("remote.nowPlayingOn", { device: target.DeviceName })}</h2>
+              <RemoteControl session={session} target={target} fetchedAt={fetchedAt} onCommandSent={refresh} />
+            </>
+          )}
+        </section>
+      )}
+
+      <section className="remote-section remote-note">
+        <h2>{t("remote.howTitle")}</h2>
+        <p>{t("remote.how")}</p>
+      </section>
+    </div>
+  );
+}
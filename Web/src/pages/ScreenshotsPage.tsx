@@ -1,66 +1,23 @@
 import { useState, useEffect } from "react";
+import { useContent } from "../hooks/useContent";
+import { useI18n } from "../i18n/I18nProvider";
+import type { ResolvedTheme } from "../theme/theme";
+import { useTheme } from "../theme/ThemeProvider";
+import { assetPath } from "../utils/paths";
 import "./ScreenshotsPage.css";
 
-interface Screenshot {
-  name: string;
-  caption: string;
-  lightMode: string;
-  darkMode: string;
-}
-
-const getAssetPath = (path: string) => {
-  const base = import.meta.env.BASE_URL; // "/Kartunes/"
-  // Remove leading slash from path if present, then combine with base
-  const cleanPath = path.startsWith('/') ? path.slice(1) : path;
-  return `${base}${cleanPath}`;
-};
-
-const screenshots: Screenshot[] = [
-  {
-    name: "Home View",
-    caption: "Browse your library with ease",
-    lightMode: getAssetPath("/Assets/LightMode/homeView.png"),
-    darkMode: getAssetPath("/Assets/DarkMode/homeView.png"),
-  },
-  {
-    name: "Library View",
-    caption: "Navigate artists, albums, and tracks",
-    lightMode: getAssetPath("/Assets/LightMode/libraryView.png"),
-    darkMode: getAssetPath("/Assets/DarkMode/libraryView.png"),
-  },
-  {
-    name: "Now Playing",
-    caption: "Full-screen Now Playing with album art",
-    lightMode: getAssetPath("/Assets/LightMode/nowPlayingView.png"),
-    darkMode: getAssetPath("/Assets/DarkMode/nowPlayingView.png"),
-  },
-  {
-    name: "Mini Player",
-    caption: "Quick access player throughout the app",
-    lightMode: getAssetPath("/Assets/LightMode/miniPlayerView.png"),
-    darkMode: getAssetPath("/Assets/DarkMode/miniPlayerView.png"),
-  },
-  {
-    name: "Search",
-    caption: "Quickly find songs, artists, and albums",
-    lightMode: getAssetPath("/Assets/LightMode/searchView.png"),
-    darkMode: getAssetPath("/Assets/DarkMode/searchView.png"),
-  },
-  {
-    name: "Settings",
-    caption: "Customize your experience",
-    lightMode: getAssetPath("/Assets/LightMode/settingsView.png"),
-    darkMode: getAssetPath("/Assets/DarkMode/settingsView.png"),
-  },
-];
-
 export default function ScreenshotsPage() {
-  const [theme, setTheme] = useState<"light" | "dark">("dark");
+  const { t } = useI18n();
+  const { screenshots } = useContent();
+  const { theme: siteTheme } = useTheme();
+  // Follows the site theme unless the visitor picks one for the gallery
+  const [themeOverride, setThemeOverride] = useState<ResolvedTheme | null>(null);
+  const theme = themeOverride ?? siteTheme;
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
 
   const currentScreenshots = screenshots.map((screenshot) => ({
-    src: theme === "light" ? screenshot.lightMode : screenshot.darkMode,
+    src: assetPath(theme === "light" ? screenshot.lightMode : screenshot.darkMode),
     alt: screenshot.name,
   }));
 
@@ -110,28 +67,37 @@ export default function ScreenshotsPage() {
   return (
     <div className="screenshots-page">
       <div className="page-header">
-        <h1>Screenshots</h1>
-        <p className="page-subtitle">See Kartunes in action</p>
+        <h1>{t("screenshots.title")}</h1>
+        <p className="page-subtitle">{t("screenshots.subtitle")}</p>
       </div>
 
-      <div className="theme-toggle">
+      <div className="theme-toggle" role="group" aria-label={t("screenshots.themeLabel")}>
+        <button
+          className={`theme-button ${themeOverride === null ? "active" : ""}`}
+          onClick={() => setThemeOverride(null)}
+          aria-pressed={themeOverride === null}
+        >
+          {t("screenshots.matchSite")}
+        </button>
         <button
-          className={`theme-button ${theme === "light" ? "active" : ""}`}
-          onClick={() => setTheme("light")}
+          className={`theme-button ${themeOverride === "light" ? "active" : ""}`}
+          onClick={() => setThemeOverride("light")}
+          aria-pressed={themeOverride === "light"}
         >
-          Light Mode
+          {t("screenshots.lightMode")}
         </button>
         <button
-          className={`theme-button ${theme === "dark" ? "active" : ""}`}
-          onClick={() => setTheme("dark")}
+          className={`theme-button ${themeOverride === "dark" ? "active" : ""}`}
+          onClick={() => setThemeOverride("dark")}
+          aria-pressed={themeOverride === "dark"}
         >
-          Dark Mode
+          {t("screenshots.darkMode")}
         </button>
       </div>
 
       <div className="screenshots-grid">
         {screenshots.map((screenshot, index) => (
-          <div key={screenshot.name} className="screenshot-card">
+          <div key={screenshot.id} className="screenshot-card">
             <div 
               className="screenshot-image-container"
               onClick={() => handleImageClick(index)}
@@ -143,15 +109,15 @@ export default function ScreenshotsPage() {
                   handleImageClick(index);
                 }
               }}
-              aria-label={`View ${screenshot.name} in full screen`}
+              aria-label={t("screenshots.viewFullScreen", { name: screenshot.name })}
             >
               <img
-                src={theme === "light" ? screenshot.lightMode : screenshot.darkMode}
+                src={assetPath(theme === "light" ? screenshot.lightMode : screenshot.darkMode)}
                 alt={screenshot.name}
                 className="screenshot-image"
               />
               <div className="screenshot-overlay">
-                <span className="screenshot-view-text">Click to view full size</span>
+                <span className="screenshot-view-text">{t("screenshots.clickToView")}</span>
               </div>
             </div>
             <div className="screenshot-info">
@@ -167,7 +133,7 @@ export default function ScreenshotsPage() {
           <button 
             className="fullscreen-close" 
             onClick={handleClose} 
-            aria-label="Close"
+            aria-label={t("screenshots.close")}
             onMouseDown={(e) => e.stopPropagation()}
           >
             <span>×</span>
@@ -175,7 +141,7 @@ export default function ScreenshotsPage() {
           <button 
             className="fullscreen-nav fullscreen-prev" 
             onClick={handlePrev}
-            aria-label="Previous image"
+            aria-label={t("screenshots.previous")}
             onMouseDown={(e) => e.stopPropagation()}
           >
             <span>‹</span>
@@ -183,7 +149,7 @@ export default function ScreenshotsPage() {
           <button 
             className="fullscreen-nav fullscreen-next" 
             onClick={handleNext}
-            aria-label="Next image"
+            aria-label={t("screenshots.next")}
             onMouseDown={(e) => e.stopPropagation()}
           >
             <span>›</span>
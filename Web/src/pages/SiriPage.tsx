@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { ServerSignIn } from "../components/ServerSignIn/ServerSignIn";
+import { SiriPhraseList } from "../components/Siri/SiriPhraseList";
+import { SiriPhraseTester } from "../components/Siri/SiriPhraseTester";
+import { useServerSession } from "../hooks/useServerSession";
+import { useI18n } from "../i18n/I18nProvider";
+import { describeRequestFailure, ServerRequestError } from "../services/mediaServer";
+import { fetchSiriLibrary } from "../services/siri";
+import type { ServerRequestFailure } from "../types/mediaServer";
+import type { SiriLibrary } from "../types/siri";
+import "./SiriPage.css";
+
+const TIPS = ["appName", "type", "sync", "permission", "shortcuts"] as const;
+
+type LibraryState =
+  | { kind: "idle" }
+  | { kind: "loading" }
+  | { kind: "loaded"; userId: string; library: SiriLibrary }
+  | { kind: "failed"; failure: ServerRequestFailure };
+
+export default function SiriPage() {
+  const { t } = useI18n();
+  const { session, signIn, signOut } = useServerSession();
+  const [sentence, setSentence] = useState("");
+  const [state, setState] = useState<LibraryState>({ kind: "idle" });
+
+  const tryPhrase = (phrase: string) => {
+    setSentence(phrase);
+    document.getElementById("siri-tester")?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  const load = async () => {
+    if (!session) return;
+    setState({ kind: "loading" });
+    try {
+      setState({ kind: "loaded", userId: session.userId, library: await fetchSiriLibrary(session) });
+    } catch (error) {
+      setState({ kind: "failed", failure: error instanceof ServerRequestError ? error.failure : { kind: "network" } });
+    }
+  };
+
+  // A library from another sign-in is not the one the tester should search
+  const library = state.kind === "loaded" && state.userId === session?.userId ? state.library : null;
+
+  return (
+    <div className="siri-page">
+      <div className="page-header">
+        <h1>{t("siri.title")}</h1>
+        <p className="page-subtitle">{t("siri.subtitle")}</p>
+      </div>
+
+      <section className="siri-section">
+        <h2>{t("siri.tipsTitle")}</h2>
+        <ul className="siri-tips">
+          {TIPS.map((tip) => (
+            <li key={tip}>{t(`siri.tip.${tip}`)}</li>
+          ))}
+        </ul>
+      </section>
+
+      <section className="siri-section">
+        <h2>{t("siri.phrasesTitle")}</h2>
+        <p>{t("siri.phrasesIntro")}</p>
+        <SiriPhraseList onTry={tryPhrase} />
+      </section>
+
+      <section className="siri-section" id="siri-tester">
+        <h2>{t("siri.testerTitle")}</h2>
+        <p>{t("siri.testerIntro")}</p>
+        <SiriPhraseTester sentence={sentence} onSentenceChange={setSentence} serverLibrary={library} />
+      </section>
+
+      <section className="siri-section" aria-live="polite">
+        <h2>{t("siri.libraryTitle")}</h2>
+        <p>{t("siri.libraryIntro")}</p>
+        <ServerSignIn session={session} onSignIn={signIn} onSignOut={signOut} />
+
+        {session && (
+          <div className="siri-library">
+            <button type="button" className="siri-load" onClick={load} disabled={state.kind === "loading"}>
+              {library ? t("siri.reload") : t("siri.load")}
+            </button>
+            {state.kind === "loading" && <p className="siri-status">{t("siri.loading")}</p>}
+            {library && (
+              <p className="siri-status">
+                {t("siri.loaded", {
+                  artists: library.artists.length,
+                  albums: library.albums.length,
+                  tracks: library.tracks.length,
+                  playlists: library.playlists.length,
+                })}
+              </p>
+            )}
+            {state.kind === "failed" && (
+              <div className="siri-failure" role="alert">
+                <strong>{describeRequestFailure(state.failure, t).title}</strong>
+                <p>{describeRequestFailure(state.failure, t).detail}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
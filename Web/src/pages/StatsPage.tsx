@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState } from "react";
+import { ServerSignIn } from "../components/ServerSignIn/ServerSignIn";
+import { LibraryComposition } from "../components/Stats/LibraryComposition";
+import { ListeningStats } from "../components/Stats/ListeningStats";
+import { useServerSession } from "../hooks/useServerSession";
+import { useI18n } from "../i18n/I18nProvider";
+import { describeRequestFailure, ServerRequestError } from "../services/mediaServer";
+import { fetchLibraryTracks } from "../services/stats";
+import type { MediaItem, ServerRequestFailure } from "../types/mediaServer";
+import type { StatsRange } from "../types/stats";
+import { downloadFile } from "../utils/download";
+import { libraryComposition, listeningSummary, statsJSON, statsTracksCSV, tracksInRange } from "../utils/stats";
+import "./StatsPage.css";
+
+type LoadState =
+  | { kind: "loading"; loaded: number; total: number }
+  | { kind: "loaded"; tracks: MediaItem[] }
+  | { kind: "failed"; failure: ServerRequestFailure };
+
+export default function StatsPage() {
+  const { t } = useI18n();
+  const { session, signIn, signOut } = useServerSession();
+  const [state, setState] = useState<LoadState>({ kind: "loading", loaded: 0, total: 0 });
+  const [range, setRange] = useState<StatsRange>("month");
+  const [generation, setGeneration] = useState(0);
+
+  useEffect(() => {
+    if (!session) return;
+    let cancelled = false;
+    setState({ kind: "loading", loaded: 0, total: 0 });
+    fetchLibraryTracks(session, (loaded, total) => {
+      if (!cancelled) setState({ kind: "loading", loaded, total });
+    })
+      .then((tracks) => {
+        if (!cancelled) setState({ kind: "loaded", tracks });
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setState({
+            kind: "failed",
+            failure: error instanceof ServerRequestError ? error.failure : { kind: "network" },
+          });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [session, generation]);
+
+  const tracks = state.kind === "loaded" ? state.tracks : null;
+  const summary = useMemo(() => tracks && listeningSummary(tracks, range), [tracks, range]);
+  const composition = useMemo(() => tracks && libraryComposition(tracks), [tracks]);
+
+  const exportCSV = () => {
+    if (!tracks) return;
+    downloadFile(statsTracksCSV(tracksInRange(tracks, range)), `kartunes-stats-${range}.csv`, "text/csv");
+  };
+
+  const exportJSON = () => {
+    if (!summary || !composition) return;
+    downloadFile(statsJSON(summary, composition), `kartunes-stats-${range}.json`, "application/json");
+  };
+
+  return (
+    <div className="stats-page">
+      <div className="page-header">
+        <h1>{t("stats.title")}</h1>
+        <p className="page-subtitle">{t("stats.subtitle")}</p>
+      </div>
+
+      <section className="stats-section">
+        <p>{t("stats.signInIntro")}</p>
+        <ServerSignIn session={session} onSignIn={signIn} onSignOut={signOut} />
+      </section>
+
+      {session &&
+        (state.kind === "failed" ? (
+          <section className="stats-section">
+            <div className="stats-failure" role="alert">
+              <strong>{describeRequestFailure(state.failure, t).title}</strong>
+              <p>{describeRequestFailure(state.failure, t).detail}</p>
+              <button type="button" onClick={() => setGeneration((value) => value + 1)}>
+                {t("stats.retry")}
+              </button>
+            </div>
+          </section>
+        ) : !summary || !composition ? (
+          <section className="stats-section" aria-live="polite">
+            <p className="stats-status">
+              {state.kind === "loading" && state.total > 0
+                ? t("stats.loadingProgress", { loaded: state.loaded, total: state.total })
+                : t("stats.loading")}
+            </p>
+          </section>
+        ) : composition.tracks === 0 ? (
+          <section className="stats-section">
+            <p className="stats-status">{t("stats.empty")}</p>
+          </section>
+        ) : (
+          <>
+            <section className="stats-section">
+              <h2>{t("stats.listeningTitle")}</h2>
+              <ListeningStats summary={summary} onRangeChange={setRange} />
+            </section>
+
+            <section className="stats-section">
+              <h2>{t("stats.libraryTitle")}</h2>
+              <LibraryComposition composition={composition} />
+            </section>
+
+            <section className="stats-section">
+              <h2>{t("stats.exportTitle")}</h2>
+              <p>{t("stats.exportIntro")}</p>
+              <div className="stats-export">
+                <button type="button" onClick={exportCSV} disabled={summary.tracksPlayed === 0}>
+                  {t("stats.exportCSV")}
+                </button>
+                <button type="button" onClick={exportJSON}>
+                  {t("stats.exportJSON")}
+                </button>
+              </div>
+            </section>
+          </>
+        ))}
+
+      <section className="stats-section stats-note">
+        <h2>{t("stats.howTitle")}</h2>
+        <p>{t("stats.how")}</p>
+      </section>
+    </div>
+  );
+}
@@ -1,19 +1,24 @@
+import { Link } from "react-router-dom";
+import { BugReportForm } from "../components/BugReportForm/BugReportForm";
+import { ConsentGate } from "../components/ConsentGate/ConsentGate";
+import { GitHubStars } from "../components/GitHubStars/GitHubStars";
+import { site } from "../content";
+import { useI18n } from "../i18n/I18nProvider";
 import "./SupportPage.css";
 
 export default function SupportPage() {
+  const { t, tx, localizePath } = useI18n();
+
   return (
     <div className="support-page">
       <div className="page-header">
-        <h1>Support</h1>
-        <p className="page-subtitle">Need help or want to request a feature?</p>
+        <h1>{t("support.title")}</h1>
+        <p className="page-subtitle">{t("support.subtitle")}</p>
       </div>
 
       <div className="support-content">
         <section className="support-section">
-          <p className="support-intro">
-            Kartunes is an independent project hosted on GitHub. If you encounter a bug, have feedback,
-            or want to suggest a feature, please open an issue on GitHub.
-          </p>
+          <p className="support-intro">{t("support.intro")}</p>
 
           <div className="support-actions">
             <a
@@ -22,7 +27,7 @@ export default function SupportPage() {
               rel="noopener noreferrer"
               className="support-button"
             >
-              Open GitHub Issues
+              {t("support.openIssues")}
             </a>
             <a
               href="https://github.com/KartulUdus/Kartunes"
@@ -30,61 +35,72 @@ export default function SupportPage() {
               rel="noopener noreferrer"
               className="support-button secondary"
             >
-              View Repository
+              {t("support.viewRepository")}
             </a>
           </div>
         </section>
 
-        <section className="support-section">
-          <h2>Before You Open an Issue</h2>
-          <div className="checklist">
-            <div className="checklist-item">
-              <span className="checklist-icon">✓</span>
-              <span>Confirm you're on the latest version of the app</span>
-            </div>
-            <div className="checklist-item">
-              <span className="checklist-icon">✓</span>
-              <span>Check if a similar issue already exists</span>
-            </div>
-            <div className="checklist-item">
-              <span className="checklist-icon">✓</span>
-              <span>Include your device model and iOS version</span>
-            </div>
-            <div className="checklist-item">
-              <span className="checklist-icon">✓</span>
-              <span>Include your server type and version (Jellyfin/Emby)</span>
-            </div>
-            <div className="checklist-item">
-              <span className="checklist-icon">✓</span>
-              <span>Provide steps to reproduce the issue (if applicable)</span>
-            </div>
-          </div>
+        <section className="support-section" id="report-bug">
+          <h2>{t("support.reportTitle")}</h2>
+          <p>
+            {tx("support.reportIntro", {
+              link: (
+                <a href={`${site.repository}/issues`} target="_blank" rel="noopener noreferrer">
+                  {t("support.reportExisting")}
+                </a>
+              ),
+            })}
+          </p>
+          <BugReportForm />
         </section>
 
         <section className="support-section">
-          <h2>Getting Help</h2>
+          <h2>{t("support.helpTitle")}</h2>
           <p>
-            The best way to get help is through GitHub Issues. This allows the community to see
-            questions and answers, and helps others who might have the same issue. Please be patient
-            as this is an independent project maintained in spare time.
+            {tx("support.troubleshootHint", {
+              link: <Link to={localizePath("/troubleshoot")}>{t("support.troubleshootLink")}</Link>,
+            })}
           </p>
+          <p>{t("support.helpBody")}</p>
         </section>
 
         <section className="support-section">
-          <h2>Contributing</h2>
-          <p>
-            Kartunes is open source! If you're interested in contributing code, documentation, or
-            translations, please check out the repository and open a pull request. All contributions
-            are welcome and appreciated.
-          </p>
+          <h2>{t("support.contributingTitle")}</h2>
+          <p>{t("support.contributingBody")}</p>
           <a
             href="https://github.com/KartulUdus/Kartunes"
             target="_blank"
             rel="noopener noreferrer"
             className="support-link"
           >
-            View on GitHub →
+            {t("support.githubLink")}
           </a>
+          <div className="support-embed">
+            <ConsentGate embed="github">
+              <GitHubStars />
+            </ConsentGate>
+          </div>
+        </section>
+
+        <section className="support-section" id="donate">
+          <h2>{t("support.donateTitle")}</h2>
+          <p>
+            {tx("support.donateBody", {
+              link: (
+                <a href={site.kofi} target="_blank" rel="noopener noreferrer">
+                  Ko-fi
+                </a>
+              ),
+            })}
+          </p>
+          <ConsentGate embed="kofi">
+            <iframe
+              src={`${site.kofi}/?hidefeed=true&widget=true&embed=true&preview=true`}
+              title={t("consent.kofi.title")}
+              className="support-kofi"
+              height="712"
+            />
+          </ConsentGate>
         </section>
       </div>
     </div>
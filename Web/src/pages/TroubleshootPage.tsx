@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { RichText } from "../components/RichText/RichText";
+import { site, TROUBLESHOOT_START } from "../content";
+import { useContent } from "../hooks/useContent";
+import { useI18n } from "../i18n/I18nProvider";
+import type { TroubleshootAnswer, TroubleshootQuestion, TroubleshootStep } from "../types/content";
+import "./TroubleshootPage.css";
+
+const PATH_PARAM = "path";
+const PATH_SEPARATOR = ".";
+const COPIED_RESET_MS = 2000;
+
+interface TakenAnswer {
+  question: TroubleshootQuestion;
+  answer: TroubleshootAnswer;
+}
+
+/** Follows the answer ids in `?path=` from the first question, ignoring anything that doesn't fit */
+function followPath(steps: TroubleshootStep[], path: string | null): { taken: TakenAnswer[]; current: TroubleshootStep } {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  let current = byId.get(TROUBLESHOOT_START)!;
+  const taken: TakenAnswer[] = [];
+
+  for (const answerId of path ? path.split(PATH_SEPARATOR) : []) {
+    const answer = current.kind === "question" ? current.answers.find((a) => a.id === answerId) : undefined;
+    const next = answer && byId.get(answer.next);
+    if (current.kind !== "question" || !answer || !next) break;
+    taken.push({ question: current, answer });
+    current = next;
+  }
+  return { taken, current };
+}
+
+export default function TroubleshootPage() {
+  const { t, tx, localizePath } = useI18n();
+  const { troubleshootSteps } = useContent();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The prerendered page has no query string, so the path is only read once hydrated
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => setIsHydrated(true), []);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = window.setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    return () => window.clearTimeout(timeout);
+  }, [copied]);
+
+  const { taken, current } = followPath(troubleshootSteps, isHydrated ? searchParams.get(PATH_PARAM) : null);
+  const answerIds = taken.map(({ answer }) => answer.id);
+  const shareURL = `${site.url}${localizePath("/troubleshoot")}?${PATH_PARAM}=${answerIds.join(PATH_SEPARATOR)}`;
+
+  const goTo = (ids: string[]) => {
+    setCopied(false);
+    setSearchParams(ids.length > 0 ? { [PATH_PARAM]: ids.join(PATH_SEPARATOR) } : {});
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareURL);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the link is still shown to select by hand
+    }
+  };
+
+  return (
+    <div className="troubleshoot-page">
+      <div className="page-header">
+        <h1>{t("troubleshoot.title")}</h1>
+        <p className="page-subtitle">{t("troubleshoot.subtitle")}</p>
+      </div>
+
+      <div className="troubleshoot-content">
+        {taken.length > 0 && (
+          <ol className="troubleshoot-trail" aria-label={t("troubleshoot.yourAnswers")}>
+            {taken.map(({ question, answer }, index) => (
+              <li key={question.id}>
+                <span className="troubleshoot-trail-question">{question.question}</span>
+                <span className="troubleshoot-trail-answer">{answer.appMessage ? `“${answer.appMessage}”` : answer.label}</span>
+                <button type="button" className="troubleshoot-change" onClick={() => goTo(answerIds.slice(0, index))}>
+                  {t("troubleshoot.change")}
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {current.kind === "question" ? (
+          <section className="troubleshoot-step" aria-live="polite">
+            <h2>{current.question}</h2>
+            {current.detail && <p className="troubleshoot-detail">{current.detail}</p>}
+            <div className="troubleshoot-answers">
+              {current.answers.map((answer) => (
+                <button
+                  key={answer.id}
+                  type="button"
+                  className="troubleshoot-answer"
+                  onClick={() => goTo([...answerIds, answer.id])}
+                >
+                  <span className="troubleshoot-answer-label">{answer.label}</span>
+                  {answer.appMessage && (
+                    <span className="troubleshoot-app-message">
+                      {t("troubleshoot.appSays")} <q>{answer.appMessage}</q>
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </section>
+        ) : (
+          <section className="troubleshoot-step fix" aria-live="polite">
+            <p className="troubleshoot-fix-label">{t("troubleshoot.fix")}</p>
+            <h2>{current.title}</h2>
+            <RichText source={current.body} />
+
+            <div className="troubleshoot-share">
+              <h3>{t("troubleshoot.shareTitle")}</h3>
+              <p>{t("troubleshoot.shareIntro")}</p>
+              <div className="troubleshoot-share-row">
+                <code>{shareURL}</code>
+                <button type="button" onClick={copyLink}>
+                  {copied ? t("troubleshoot.copied") : t("troubleshoot.copyLink")}
+                </button>
+              </div>
+              <p>
+                {tx("troubleshoot.stillStuck", {
+                  link: (
+                    <a href={`${site.repository}/issues/new`} target="_blank" rel="noopener noreferrer">
+                      {t("troubleshoot.openIssue")}
+                    </a>
+                  ),
+                })}
+              </p>
+            </div>
+          </section>
+        )}
+
+        {taken.length > 0 && (
+          <div className="troubleshoot-nav">
+            <button type="button" onClick={() => goTo(answerIds.slice(0, -1))}>
+              ← {t("troubleshoot.back")}
+            </button>
+            <button type="button" onClick={() => goTo([])}>
+              {t("troubleshoot.startOver")}
+            </button>
+          </div>
+        )}
+
+        <p className="troubleshoot-footer">
+          {tx("troubleshoot.checkerHint", {
+            link: <Link to={`${localizePath("/setup")}#check-server`}>{t("troubleshoot.checkerLink")}</Link>,
+          })}
+        </p>
+      </div>
+    </div>
+  );
+}
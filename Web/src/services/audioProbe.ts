@@ -0,0 +1,338 @@
+import type { AudioCodec, AudioProbe } from "../types/audio";
+
+/** Enough for every header below; MP4 boxes and the end of Ogg files are read separately */
+const HEADER_BYTES = 64 * 1024;
+/** `moov` holds the sample tables too, so long files can have a large one; codec info comes first */
+const MAX_MOOV_BYTES = 4 * 1024 * 1024;
+
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+const MP4_CONTAINER_BOXES = new Set(["moov", "trak", "mdia", "minf", "stbl"]);
+const MP4_CODECS: Record<string, AudioCodec> = {
+  mp4a: "aac",
+  alac: "alac",
+  fLaC: "flac",
+  Opus: "opus",
+  ".mp3": "mp3",
+};
+const CAF_CODECS: Record<string, AudioCodec> = {
+  lpcm: "pcm",
+  alac: "alac",
+  "aac ": "aac",
+  ".mp3": "mp3",
+  flac: "flac",
+  opus: "opus",
+};
+const MATROSKA_CODECS: [id: string, codec: AudioCodec][] = [
+  ["A_OPUS", "opus"],
+  ["A_VORBIS", "vorbis"],
+  ["A_FLAC", "flac"],
+  ["A_AAC", "aac"],
+  ["A_MPEG/L3", "mp3"],
+  ["A_PCM", "pcm"],
+];
+
+async function read(file: Blob, start: number, length: number): Promise<DataView> {
+  return new DataView(await file.slice(start, start + length).arrayBuffer());
+}
+
+function ascii(view: DataView, offset: number, length: number): string {
+  if (offset + length > view.byteLength) return "";
+  let text = "";
+  for (let i = 0; i < length; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  return text;
+}
+
+/** 80-bit IEEE 754 extended float, which AIFF uses for its sample rate */
+function extendedFloat(view: DataView, offset: number): number {
+  const exponent = view.getUint16(offset) & 0x7fff;
+  const mantissa = view.getUint32(offset + 2) * 2 ** 32 + view.getUint32(offset + 6);
+  return exponent === 0 && mantissa === 0 ? 0 : mantissa * 2 ** (exponent - 16383 - 63);
+}
+
+/** The STREAMINFO fields, starting right after its block header */
+function flacStreamInfo(view: DataView, offset: number): Omit<AudioProbe, "container"> {
+  const b = (i: number) => view.getUint8(offset + i);
+  const sampleRate = (b(10) << 12) | (b(11) << 4) | (b(12) >> 4);
+  const totalSamples = (b(13) & 0x0f) * 2 ** 32 + view.getUint32(offset + 14);
+  return {
+    codec: "flac",
+    sampleRate,
+    channels: ((b(12) >> 1) & 0x07) + 1,
+    bitDepth: (((b(12) & 0x01) << 4) | (b(13) >> 4)) + 1,
+    durationSeconds: totalSamples > 0 && sampleRate > 0 ? totalSamples / sampleRate : undefined,
+  };
+}
+
+function probeWAV(view: DataView): AudioProbe {
+  const probe: AudioProbe = { container: "wav" };
+  let byteRate = 0;
+  for (let offset = 12; offset + 8 <= view.byteLength; ) {
+    const id = ascii(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === "fmt " && offset + 24 <= view.byteLength) {
+      const format = view.getUint16(offset + 8, true);
+      // 1 is integer PCM, 3 floating point and 0xFFFE the extensible header in front of either
+      if (format === 1 || format === 3 || format === 0xfffe) probe.codec = "pcm";
+      probe.channels = view.getUint16(offset + 10, true);
+      probe.sampleRate = view.getUint32(offset + 12, true);
+      byteRate = view.getUint32(offset + 16, true);
+      probe.bitDepth = view.getUint16(offset + 22, true);
+    } else if (id === "data") {
+      if (byteRate > 0) probe.durationSeconds = size / byteRate;
+      break;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return probe;
+}
+
+function probeAIFF(view: DataView): AudioProbe {
+  const probe: AudioProbe = { container: "aiff" };
+  const isCompressed = ascii(view, 8, 4) === "AIFC";
+  for (let offset = 12; offset + 8 <= view.byteLength; ) {
+    const id = ascii(view, offset, 4);
+    const size = view.getUint32(offset + 4);
+    if (id === "COMM" && offset + 26 <= view.byteLength) {
+      const compression = isCompressed ? ascii(view, offset + 26, 4) : "NONE";
+      if (["NONE", "sowt", "twos", "fl32", "fl64"].includes(compression)) probe.codec = "pcm";
+      probe.channels = view.getUint16(offset + 8);
+      const frames = view.getUint32(offset + 10);
+      probe.bitDepth = view.getUint16(offset + 14);
+      probe.sampleRate = extendedFloat(view, offset + 16);
+      if (probe.sampleRate > 0) probe.durationSeconds = frames / probe.sampleRate;
+      break;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return probe;
+}
+
+function probeCAF(view: DataView): AudioProbe {
+  const probe: AudioProbe = { container: "caf" };
+  if (ascii(view, 8, 4) === "desc" && view.byteLength >= 52) {
+    probe.sampleRate = view.getFloat64(20);
+    probe.codec = CAF_CODECS[ascii(view, 28, 4)];
+    probe.channels = view.getUint32(44);
+    probe.bitDepth = view.getUint32(48) || undefined;
+  }
+  return probe;
+}
+
+function probeDSF(view: DataView): AudioProbe {
+  const probe: AudioProbe = { container: "dsf", codec: "dsd" };
+  if (ascii(view, 28, 4) === "fmt " && view.byteLength >= 72) {
+    probe.channels = view.getUint32(52, true);
+    probe.sampleRate = view.getUint32(56, true);
+    probe.bitDepth = 1;
+    const samples = view.getUint32(64, true) + view.getUint32(68, true) * 2 ** 32;
+    if (probe.sampleRate > 0) probe.durationSeconds = samples / probe.sampleRate;
+  }
+  return probe;
+}
+
+async function probeOgg(file: Blob, view: DataView): Promise<AudioProbe> {
+  const probe: AudioProbe = { container: "ogg" };
+  const packet = 27 + view.getUint8(26);
+  // Opus always decodes at 48 kHz and counts its pre-skip in the granule position
+  let granuleRate = 0;
+  let preSkip = 0;
+
+  if (ascii(view, packet, 7) === "\x01vorbis") {
+    probe.codec = "vorbis";
+    probe.channels = view.getUint8(packet + 11);
+    probe.sampleRate = granuleRate = view.getUint32(packet + 12, true);
+  } else if (ascii(view, packet, 8) === "OpusHead") {
+    probe.codec = "opus";
+    probe.channels = view.getUint8(packet + 9);
+    preSkip = view.getUint16(packet + 10, true);
+    probe.sampleRate = view.getUint32(packet + 12, true) || 48000;
+    granuleRate = 48000;
+  } else if (ascii(view, packet, 5) === "\x7fFLAC" && ascii(view, packet + 9, 4) === "fLaC") {
+    Object.assign(probe, flacStreamInfo(view, packet + 17));
+    granuleRate = probe.sampleRate ?? 0;
+  }
+
+  if (granuleRate > 0) {
+    // The granule position of the last page is the total sample count
+    const tailStart = Math.max(0, file.size - HEADER_BYTES);
+    const tail = await read(file, tailStart, HEADER_BYTES);
+    for (let offset = tail.byteLength - 14; offset >= 0; offset--) {
+      if (ascii(tail, offset, 4) === "OggS") {
+        const granule = tail.getUint32(offset + 6, true) + tail.getUint32(offset + 10, true) * 2 ** 32;
+        probe.durationSeconds = Math.max(0, granule - preSkip) / granuleRate;
+        break;
+      }
+    }
+  }
+  return probe;
+}
+
+function probeMatroska(view: DataView): AudioProbe {
+  const text = ascii(view, 0, view.byteLength);
+  const codec = MATROSKA_CODECS.find(([id]) => text.includes(id));
+  return { container: text.slice(0, 64).includes("webm") ? "webm" : "matroska", codec: codec?.[1] };
+}
+
+/** The first audio sample description and track duration inside `moov` */
+function probeMoov(view: DataView, start: number, end: number, probe: AudioProbe) {
+  for (let offset = start; offset + 8 <= end; ) {
+    let size = view.getUint32(offset);
+    const type = ascii(view, offset + 4, 4);
+    if (size === 0) size = end - offset;
+    if (size < 8 || offset + size > end) return;
+
+    if (MP4_CONTAINER_BOXES.has(type)) {
+      probeMoov(view, offset + 8, offset + size, probe);
+    } else if (type === "mdhd" && probe.durationSeconds === undefined) {
+      const isV1 = view.getUint8(offset + 8) === 1;
+      const timescale = view.getUint32(offset + (isV1 ? 28 : 20));
+      const duration = isV1
+        ? view.getUint32(offset + 32) * 2 ** 32 + view.getUint32(offset + 36)
+        : view.getUint32(offset + 24);
+      if (timescale > 0) probe.durationSeconds = duration / timescale;
+    } else if (type === "stsd" && probe.codec === undefined) {
+      const entry = offset + 16;
+      const format = ascii(view, entry + 4, 4);
+      if (format in MP4_CODECS) {
+        probe.codec = MP4_CODECS[format];
+        probe.channels = view.getUint16(entry + 24);
+        probe.bitDepth = view.getUint16(entry + 26);
+        probe.sampleRate = view.getUint32(entry + 32) / 65536;
+        // ALAC keeps the real bit depth and rates above 65535 Hz in its own box
+        if (format === "alac" && ascii(view, entry + 40, 4) === "alac") {
+          probe.bitDepth = view.getUint8(entry + 44 + 9);
+          probe.sampleRate = view.getUint32(entry + 44 + 24);
+        }
+        // Sample sizes in AAC entries are nominal, not a property of the audio
+        if (probe.codec === "aac" || probe.codec === "mp3") probe.bitDepth = undefined;
+      }
+    }
+    offset += size;
+  }
+}
+
+async function probeMP4(file: Blob): Promise<AudioProbe> {
+  const probe: AudioProbe = { container: "mp4" };
+  for (let offset = 0; offset + 8 <= file.size; ) {
+    const header = await read(file, offset, 16);
+    let size = header.getUint32(0);
+    const type = ascii(header, 4, 4);
+    if (size === 1) size = header.getUint32(8) * 2 ** 32 + header.getUint32(12);
+    if (size === 0) size = file.size - offset;
+    if (size < 8) break;
+
+    if (type === "moov") {
+      const moov = await read(file, offset, Math.min(size, MAX_MOOV_BYTES));
+      probeMoov(moov, 8, moov.byteLength, probe);
+      break;
+    }
+    offset += size;
+  }
+  return probe;
+}
+
+/** MP3 frames and ADTS AAC, which start straight away with a frame header */
+function probeFrames(view: DataView, start: number): AudioProbe | null {
+  const end = Math.min(view.byteLength - 4, start + 4096);
+  for (let offset = start; offset < end; offset++) {
+    const b1 = view.getUint8(offset + 1);
+    if (view.getUint8(offset) !== 0xff || (b1 & 0xe0) !== 0xe0) continue;
+    const b2 = view.getUint8(offset + 2);
+    const b3 = view.getUint8(offset + 3);
+
+    if ((b1 & 0xf6) === 0xf0) {
+      const sampleRate = ADTS_SAMPLE_RATES[(b2 >> 2) & 0x0f];
+      if (!sampleRate) continue;
+      return { container: "adts", codec: "aac", sampleRate, channels: ((b2 & 0x01) << 2) | (b3 >> 6) };
+    }
+
+    const version = (b1 >> 3) & 0x03;
+    const layer = (b1 >> 1) & 0x03;
+    const bitrateIndex = b2 >> 4;
+    const sampleRate = MP3_SAMPLE_RATES[version]?.[(b2 >> 2) & 0x03];
+    if (layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || !sampleRate) continue;
+
+    const isMono = b3 >> 6 === 3;
+    const probe: AudioProbe = {
+      container: "mp3",
+      codec: "mp3",
+      sampleRate,
+      channels: isMono ? 1 : 2,
+      bitrate: (version === 3 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex] * 1000,
+    };
+    // VBR files carry a Xing or Info header with the frame count after the side information
+    const sideInfo = version === 3 ? (isMono ? 17 : 32) : isMono ? 9 : 17;
+    const xing = offset + 4 + sideInfo;
+    const tag = ascii(view, xing, 4);
+    if ((tag === "Xing" || tag === "Info") && view.getUint32(xing + 4) & 0x01) {
+      const samplesPerFrame = version === 3 ? 1152 : 576;
+      probe.durationSeconds = (view.getUint32(xing + 8) * samplesPerFrame) / sampleRate;
+      probe.bitrate = undefined;
+    }
+    return probe;
+  }
+  return null;
+}
+
+/**
+ * Reads the container and codec from the start of an audio file, entirely in
+ * the browser. Returns `null` for anything it doesn't recognise.
+ */
+export async function probeAudioFile(file: Blob): Promise<AudioProbe | null> {
+  let view = await read(file, 0, HEADER_BYTES);
+  let start = 0;
+
+  // ID3v2 tags (with their cover art) can come before MP3, AAC or even FLAC data
+  if (ascii(view, 0, 3) === "ID3" && view.byteLength >= 10) {
+    const size =
+      ((view.getUint8(6) & 0x7f) << 21) |
+      ((view.getUint8(7) & 0x7f) << 14) |
+      ((view.getUint8(8) & 0x7f) << 7) |
+      (view.getUint8(9) & 0x7f);
+    start = 10 + size + (view.getUint8(5) & 0x10 ? 10 : 0);
+    view = await read(file, start, HEADER_BYTES);
+  }
+
+  const magic = ascii(view, 0, 4);
+  let probe: AudioProbe | null;
+  if (magic === "fLaC") {
+    probe = { container: "flac", ...flacStreamInfo(view, 8) };
+  } else if (magic === "RIFF" && ascii(view, 8, 4) === "WAVE") {
+    probe = probeWAV(view);
+  } else if (magic === "FORM" && ["AIFF", "AIFC"].includes(ascii(view, 8, 4))) {
+    probe = probeAIFF(view);
+  } else if (magic === "FRM8" && ascii(view, 12, 4) === "DSD ") {
+    probe = { container: "dff", codec: "dsd" };
+  } else if (magic === "DSD ") {
+    probe = probeDSF(view);
+  } else if (magic === "OggS") {
+    probe = await probeOgg(file, view);
+  } else if (magic === "caff") {
+    probe = probeCAF(view);
+  } else if (magic === "MAC ") {
+    probe = { container: "ape", codec: "ape" };
+  } else if (magic === "wvpk") {
+    probe = { container: "wavpack", codec: "wavpack" };
+  } else if (magic === "\x30\x26\xb2\x75") {
+    probe = { container: "asf", codec: "wma" };
+  } else if (magic === "\x1a\x45\xdf\xa3") {
+    probe = probeMatroska(view);
+  } else if (ascii(view, 4, 4) === "ftyp") {
+    probe = await probeMP4(file.slice(start));
+  } else {
+    probe = probeFrames(view, 0);
+  }
+
+  if (probe?.durationSeconds && probe.durationSeconds > 0 && probe.bitrate === undefined) {
+    probe.bitrate = Math.round(((file.size - start) * 8) / probe.durationSeconds);
+  }
+  return probe;
+}
@@ -0,0 +1,159 @@
+import { site } from "../content/site";
+import {
+  BUG_REPORT_SURFACES,
+  bugReportSurfaceDisplayNames,
+  type BugReport,
+  type BugReportError,
+  type BugReportField,
+  type BugReportSurface,
+} from "../types/bugReport";
+import { mediaServerDisplayNames } from "../types/server";
+
+const STORAGE_KEY = "kartunes.bugReportDraft";
+const MIN_TITLE_LENGTH = 10;
+/** GitHub turns away longer new-issue links, so past this the body is left for pasting */
+export const MAX_ISSUE_URL_LENGTH = 8000;
+
+const surfaceLabels: Record<BugReportSurface, string> = {
+  carPlay: "carplay",
+  watch: "watchos",
+};
+
+export const EMPTY_BUG_REPORT: BugReport = {
+  title: "",
+  appVersion: "",
+  deviceModel: "",
+  iosVersion: "",
+  watchOSVersion: "",
+  serverType: "",
+  serverVersion: "",
+  surfaces: [],
+  steps: "",
+  expected: "",
+  actual: "",
+};
+
+/** Nothing filled in yet, so there's no draft worth keeping */
+export function isBlankBugReport(report: BugReport): boolean {
+  return report.surfaces.length === 0 && Object.values(report).every((value) => typeof value !== "string" || value === "");
+}
+
+export function requiredBugReportFields(report: BugReport): BugReportField[] {
+  const fields: BugReportField[] = [
+    "title",
+    "appVersion",
+    "deviceModel",
+    "iosVersion",
+    "serverType",
+    "serverVersion",
+    "steps",
+    "expected",
+    "actual",
+  ];
+  return report.surfaces.includes("watch") ? [...fields, "watchOSVersion"] : fields;
+}
+
+export function bugReportErrors(report: BugReport): Partial<Record<BugReportField, BugReportError>> {
+  const errors: Partial<Record<BugReportField, BugReportError>> = {};
+  for (const field of requiredBugReportFields(report)) {
+    if (report[field].trim() === "") errors[field] = "required";
+  }
+  if (!errors.title && report.title.trim().length < MIN_TITLE_LENGTH) {
+    errors.title = "tooShort";
+  }
+  return errors;
+}
+
+/** `bug` plus the server type and each platform involved, so reports can be triaged by label */
+export function bugReportLabels(report: BugReport): string[] {
+  return [
+    "bug",
+    ...(report.serverType ? [report.serverType] : []),
+    ...BUG_REPORT_SURFACES.filter((surface) => report.surfaces.includes(surface)).map((surface) => surfaceLabels[surface]),
+  ];
+}
+
+function section(heading: string, text: string): string {
+  return `### ${heading}\n\n${text.trim() || "_No response_"}`;
+}
+
+/**
+ * The issue body. It's always written in English, whatever language the site
+ * is shown in, so everyone reading the tracker can follow it.
+ */
+export function bugReportMarkdown(report: BugReport): string {
+  const surfaces = BUG_REPORT_SURFACES.filter((surface) => report.surfaces.includes(surface));
+  const environment = [
+    `- **App version:** ${report.appVersion.trim()}`,
+    `- **Device:** ${report.deviceModel.trim()}`,
+    `- **iOS:** ${report.iosVersion.trim()}`,
+    ...(report.surfaces.includes("watch") ? [`- **watchOS:** ${report.watchOSVersion.trim()}`] : []),
+    `- **Server:** ${report.serverType ? mediaServerDisplayNames[report.serverType] : ""} ${report.serverVersion.trim()}`.trimEnd(),
+    `- **Involves:** ${surfaces.length > 0 ? surfaces.map((surface) => bugReportSurfaceDisplayNames[surface]).join(", ") : "iPhone only"}`,
+  ].join("\n");
+
+  return [
+    section("Environment", environment),
+    section("Steps to reproduce", report.steps),
+    section("Expected behaviour", report.expected),
+    section("Actual behaviour", report.actual),
+  ].join("\n\n");
+}
+
+/**
+ * A link to GitHub's new-issue page with everything filled in. When the body
+ * would make it too long, the link carries only the title and labels and the
+ * body has to be pasted in.
+ */
+export function bugReportIssueURL(report: BugReport): { url: string; includesBody: boolean } {
+  const params = new URLSearchParams({ title: report.title.trim(), labels: bugReportLabels(report).join(",") });
+  const base = `${site.repository}/issues/new`;
+  const withBody = `${base}?${params}&${new URLSearchParams({ body: bugReportMarkdown(report) })}`;
+  return withBody.length <= MAX_ISSUE_URL_LENGTH
+    ? { url: withBody, includesBody: true }
+    : { url: `${base}?${params}`, includesBody: false };
+}
+
+/** The unfinished report from an earlier visit, ignoring anything that no longer fits the form */
+export function storedBugReportDraft(): BugReport | null {
+  try {
+    const value = window.localStorage.getItem(STORAGE_KEY);
+    if (!value) return null;
+    const parsed: unknown = JSON.parse(value);
+    if (typeof parsed !== "object" || parsed === null) return null;
+
+    const draft: BugReport = { ...EMPTY_BUG_REPORT };
+    const stored = parsed as Record<string, unknown>;
+    for (const field of Object.keys(EMPTY_BUG_REPORT) as (keyof BugReport)[]) {
+      const storedValue = stored[field];
+      if (field === "surfaces") {
+        draft.surfaces = Array.isArray(storedValue)
+          ? BUG_REPORT_SURFACES.filter((surface) => storedValue.includes(surface))
+          : [];
+      } else if (field === "serverType") {
+        draft.serverType = storedValue === "jellyfin" || storedValue === "emby" ? storedValue : "";
+      } else if (typeof storedValue === "string") {
+        draft[field] = storedValue;
+      }
+    }
+    return draft;
+  } catch {
+    return null;
+  }
+}
+
+export function storeBugReportDraft(report: BugReport) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(report));
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies); the draft just won't survive a reload.
+  }
+}
+
+export function clearBugReportDraft() {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing was stored in the first place.
+  }
+}
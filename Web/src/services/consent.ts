@@ -0,0 +1,22 @@
+import { EMBED_IDS, type EmbedId } from "../types/consent";
+
+const STORAGE_KEY = "kartunes.consent";
+
+/** Embeds the visitor chose to always load */
+export function storedConsent(): EmbedId[] {
+  try {
+    const value: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(value) ? EMBED_IDS.filter((id) => value.includes(id)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeConsent(id: EmbedId, allowed: boolean) {
+  const others = storedConsent().filter((other) => other !== id);
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(allowed ? [...others, id] : others));
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies); the embed just asks again next time.
+  }
+}
@@ -0,0 +1,120 @@
+import { hashString } from "../content/demoLibrary";
+import type { DemoTrack } from "../types/demo";
+
+const SAMPLE_RATE = 22050;
+const FADE_IN_SECONDS = 0.3;
+const FADE_OUT_SECONDS = 1.5;
+const PEAK = 0.8;
+
+const MAJOR = [0, 2, 4, 5, 7, 9, 11];
+const MINOR = [0, 2, 3, 5, 7, 8, 10];
+/** Chord roots as scale degrees; each track picks one and loops it bar by bar */
+const PROGRESSIONS = [
+  [0, 4, 5, 3],
+  [0, 5, 3, 4],
+  [0, 3, 4, 4],
+  [5, 3, 0, 4],
+];
+const ARPEGGIO = [0, 2, 4, 7, 4, 2, 0, 4];
+
+const clipURLs = new Map<string, string>();
+
+/**
+ * A short clip for a demo track as an object URL, synthesized on first use and
+ * then cached. Key, tempo, scale and chord progression come from the track id,
+ * so a track sounds the same every time it plays.
+ */
+export function demoClipURL(track: DemoTrack): string {
+  let url = clipURLs.get(track.id);
+  if (!url) {
+    url = URL.createObjectURL(encodeWAV(synthesize(track), SAMPLE_RATE));
+    clipURLs.set(track.id, url);
+  }
+  return url;
+}
+
+function frequency(midiNote: number): number {
+  return 440 * 2 ** ((midiNote - 69) / 12);
+}
+
+/** Adds a decaying note with a few harmonics to `samples` */
+function addNote(samples: Float32Array, start: number, seconds: number, midiNote: number, gain: number, harmonics: number[]) {
+  const from = Math.floor(start * SAMPLE_RATE);
+  const to = Math.min(samples.length, from + Math.floor(seconds * SAMPLE_RATE));
+  const step = (2 * Math.PI * frequency(midiNote)) / SAMPLE_RATE;
+  const attack = 0.01 * SAMPLE_RATE;
+  const decay = seconds * SAMPLE_RATE * 0.35;
+
+  for (let i = from; i < to; i++) {
+    const t = i - from;
+    const envelope = Math.min(1, t / attack) * Math.exp(-t / decay);
+    let value = 0;
+    for (let h = 0; h < harmonics.length; h++) {
+      value += harmonics[h] * Math.sin(step * (h + 1) * t);
+    }
+    samples[i] += gain * envelope * value;
+  }
+}
+
+function synthesize(track: DemoTrack): Float32Array {
+  const seed = hashString(track.id);
+  const root = 57 + (seed % 12);
+  const scale = (seed >> 4) % 3 === 0 ? MINOR : MAJOR;
+  const progression = PROGRESSIONS[(seed >> 8) % PROGRESSIONS.length];
+  const beat = 60 / (84 + ((seed >> 12) % 48));
+  const bar = beat * 4;
+  const noteAt = (degree: number) => root + scale[degree % 7] + 12 * Math.floor(degree / 7);
+
+  const samples = new Float32Array(Math.floor(track.duration * SAMPLE_RATE));
+  for (let barIndex = 0; barIndex * bar < track.duration; barIndex++) {
+    const start = barIndex * bar;
+    const chord = progression[barIndex % progression.length];
+
+    addNote(samples, start, bar, noteAt(chord) - 24, 0.5, [1, 0.2]);
+    ARPEGGIO.forEach((offset, index) => {
+      addNote(samples, start + (index * beat) / 2, beat, noteAt(chord + offset), 0.25, [1, 0.3, 0.15]);
+    });
+  }
+
+  let peak = 0;
+  for (const sample of samples) {
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  const fadeIn = FADE_IN_SECONDS * SAMPLE_RATE;
+  const fadeOut = FADE_OUT_SECONDS * SAMPLE_RATE;
+  for (let i = 0; i < samples.length; i++) {
+    const fade = Math.min(1, i / fadeIn, (samples.length - i) / fadeOut);
+    samples[i] = (samples[i] / (peak || 1)) * PEAK * fade;
+  }
+  return samples;
+}
+
+/** 16-bit mono PCM WAV, which every browser's `<audio>` element can play */
+function encodeWAV(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, samples[i])) * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: "audio/wav" });
+}
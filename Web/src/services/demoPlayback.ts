@@ -0,0 +1,325 @@
+import { demoTracks } from "../content/demoLibrary";
+import type { DemoPlaybackContext, DemoTrack, RepeatMode } from "../types/demo";
+
+/**
+ * Queue state for the `/demo` player. A port of the queue, shuffle and repeat
+ * logic in the iOS app's `PlaybackViewModel`: shuffling keeps a stable shuffled
+ * order plus a history stack for "previous", turning it off restores the
+ * original order, and repeat cycles off → all → one.
+ */
+export interface DemoPlaybackState {
+  tracks: DemoTrack[];
+  currentIndex: number;
+  context: DemoPlaybackContext;
+  isPlaying: boolean;
+  isShuffleEnabled: boolean;
+  repeatMode: RepeatMode;
+  shuffleOrder: DemoTrack[];
+  shuffleHistory: DemoTrack[];
+  shuffleCurrentIndex: number;
+  originalQueueOrder: DemoTrack[];
+  /** Bumped whenever the current track (re)starts from the beginning */
+  playbackId: number;
+}
+
+/**
+ * Actions that may shuffle the queue carry a `shuffleSeed` from
+ * `newShuffleSeed`, so the reducer stays pure: the same action on the same
+ * state always shuffles the same way.
+ */
+export type DemoPlaybackAction =
+  | { type: "startQueue"; tracks: DemoTrack[]; index: number; context: DemoPlaybackContext; shuffleSeed: number }
+  | { type: "togglePlayPause" }
+  | { type: "pause" }
+  | { type: "next"; shuffleSeed: number }
+  | { type: "previous" }
+  | { type: "skipTo"; trackId: string }
+  | { type: "playNext"; track: DemoTrack; shuffleSeed: number }
+  | { type: "trackFinished"; shuffleSeed: number }
+  | { type: "toggleShuffle"; shuffleSeed: number }
+  | { type: "toggleRepeat" };
+
+export const initialDemoPlaybackState: DemoPlaybackState = {
+  tracks: [],
+  currentIndex: 0,
+  context: { kind: "custom" },
+  isPlaying: false,
+  isShuffleEnabled: false,
+  repeatMode: "off",
+  shuffleOrder: [],
+  shuffleHistory: [],
+  shuffleCurrentIndex: 0,
+  originalQueueOrder: [],
+  playbackId: 0,
+};
+
+const INSTANT_MIX_SIZE = 12;
+
+export function newShuffleSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+/** Mulberry32: a small seeded generator, random enough to shuffle a queue */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+export function shuffled<T>(items: T[], random: () => number = Math.random): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+export function currentTrack(state: DemoPlaybackState): DemoTrack | undefined {
+  return state.tracks[state.currentIndex];
+}
+
+/** The whole queue for Up Next, in shuffled order while shuffle is on */
+export function upNextTracks(state: DemoPlaybackState): DemoTrack[] {
+  return state.isShuffleEnabled && state.shuffleOrder.length > 0 ? state.shuffleOrder : state.tracks;
+}
+
+/**
+ * Stand-in for the server's Instant Mix: the seed track first, then tracks
+ * sharing its artist or a genre, closest matches first.
+ */
+export function instantMix(seed: DemoTrack): DemoTrack[] {
+  const score = (track: DemoTrack) =>
+    (track.artistId === seed.artistId ? 2 : 0) + track.genres.filter((genre) => seed.genres.includes(genre)).length;
+  const related = shuffled(demoTracks.filter((track) => track.id !== seed.id && score(track) > 0)).sort(
+    (a, b) => score(b) - score(a)
+  );
+  return [seed, ...related.slice(0, INSTANT_MIX_SIZE - 1)];
+}
+
+function restart(state: DemoPlaybackState, changes: Partial<DemoPlaybackState>): DemoPlaybackState {
+  return { ...state, ...changes, isPlaying: true, playbackId: state.playbackId + 1 };
+}
+
+function moveToTrack(state: DemoPlaybackState, track: DemoTrack, changes: Partial<DemoPlaybackState> = {}) {
+  const index = state.tracks.findIndex((candidate) => candidate.id === track.id);
+  return index === -1 ? state : restart(state, { ...changes, currentIndex: index });
+}
+
+function startQueue(
+  state: DemoPlaybackState,
+  tracks: DemoTrack[],
+  index: number,
+  context: DemoPlaybackContext,
+  shuffleSeed: number
+) {
+  const base = { tracks, currentIndex: index, context, originalQueueOrder: [] };
+  if (!state.isShuffleEnabled) {
+    return restart(state, { ...base, shuffleOrder: [], shuffleHistory: [], shuffleCurrentIndex: 0 });
+  }
+
+  const shuffleOrder = shuffled(tracks, seededRandom(shuffleSeed));
+  const shuffleIndex = Math.max(
+    shuffleOrder.findIndex((track) => track.id === tracks[index]?.id),
+    0
+  );
+  return restart(state, {
+    ...base,
+    originalQueueOrder: tracks,
+    shuffleOrder,
+    shuffleHistory: shuffleOrder.slice(0, shuffleIndex),
+    shuffleCurrentIndex: shuffleIndex,
+  });
+}
+
+function nextShuffled(state: DemoPlaybackState, shuffleSeed: number): DemoPlaybackState {
+  const current = currentTrack(state);
+  let shuffleOrder = state.shuffleOrder;
+  let shuffleHistory = current ? [...state.shuffleHistory, current] : state.shuffleHistory;
+  let shuffleCurrentIndex = state.shuffleCurrentIndex + 1;
+
+  if (shuffleCurrentIndex >= shuffleOrder.length) {
+    if (state.repeatMode !== "all") {
+      return { ...state, isPlaying: false };
+    }
+    // Every track has played: reshuffle and start over
+    shuffleOrder = shuffled(state.tracks, seededRandom(shuffleSeed));
+    shuffleHistory = [];
+    shuffleCurrentIndex = 0;
+  }
+
+  return moveToTrack(state, shuffleOrder[shuffleCurrentIndex], { shuffleOrder, shuffleHistory, shuffleCurrentIndex });
+}
+
+function previousShuffled(state: DemoPlaybackState): DemoPlaybackState {
+  if (state.shuffleHistory.length === 0) {
+    const last = state.shuffleOrder[state.shuffleOrder.length - 1];
+    return state.repeatMode === "all" && last
+      ? moveToTrack(state, last, { shuffleCurrentIndex: state.shuffleOrder.length - 1 })
+      : state;
+  }
+
+  const previous = state.shuffleHistory[state.shuffleHistory.length - 1];
+  const historyIndex = state.shuffleOrder.findIndex((track) => track.id === previous.id);
+  return moveToTrack(state, previous, {
+    shuffleHistory: state.shuffleHistory.slice(0, -1),
+    shuffleCurrentIndex: historyIndex === -1 ? state.shuffleCurrentIndex : historyIndex,
+  });
+}
+
+function next(state: DemoPlaybackState, shuffleSeed: number): DemoPlaybackState {
+  if (state.tracks.length === 0) {
+    return state;
+  }
+  if (state.isShuffleEnabled) {
+    return nextShuffled(state, shuffleSeed);
+  }
+  if (state.currentIndex < state.tracks.length - 1) {
+    return restart(state, { currentIndex: state.currentIndex + 1 });
+  }
+  return state.repeatMode === "all" ? restart(state, { currentIndex: 0 }) : { ...state, isPlaying: false };
+}
+
+function previous(state: DemoPlaybackState): DemoPlaybackState {
+  if (state.tracks.length === 0) {
+    return state;
+  }
+  if (state.isShuffleEnabled) {
+    return previousShuffled(state);
+  }
+  if (state.currentIndex > 0) {
+    return restart(state, { currentIndex: state.currentIndex - 1 });
+  }
+  return state.repeatMode === "all" ? restart(state, { currentIndex: state.tracks.length - 1 }) : state;
+}
+
+function trackFinished(state: DemoPlaybackState, shuffleSeed: number): DemoPlaybackState {
+  if (state.repeatMode === "one") {
+    return restart(state, {});
+  }
+  const hasNext = state.isShuffleEnabled
+    ? state.shuffleCurrentIndex < state.shuffleOrder.length - 1
+    : state.currentIndex < state.tracks.length - 1;
+  if (hasNext || state.repeatMode === "all") {
+    return next(state, shuffleSeed);
+  }
+  return { ...state, isPlaying: false };
+}
+
+function toggleShuffle(state: DemoPlaybackState, shuffleSeed: number): DemoPlaybackState {
+  if (state.tracks.length === 0) {
+    return { ...state, isShuffleEnabled: !state.isShuffleEnabled };
+  }
+
+  const current = currentTrack(state);
+  if (!state.isShuffleEnabled) {
+    const shuffleOrder = shuffled(state.tracks, seededRandom(shuffleSeed));
+    const shuffleIndex = Math.max(
+      shuffleOrder.findIndex((track) => track.id === current?.id),
+      0
+    );
+    return {
+      ...state,
+      isShuffleEnabled: true,
+      originalQueueOrder: state.originalQueueOrder.length > 0 ? state.originalQueueOrder : state.tracks,
+      shuffleOrder,
+      shuffleHistory: shuffleOrder.slice(0, shuffleIndex),
+      shuffleCurrentIndex: shuffleIndex,
+    };
+  }
+
+  const tracks = state.originalQueueOrder.length > 0 ? state.originalQueueOrder : state.tracks;
+  const originalIndex = tracks.findIndex((track) => track.id === current?.id);
+  return {
+    ...state,
+    isShuffleEnabled: false,
+    tracks,
+    currentIndex: originalIndex === -1 ? state.currentIndex : originalIndex,
+    shuffleOrder: [],
+    shuffleHistory: [],
+    shuffleCurrentIndex: 0,
+    originalQueueOrder: [],
+  };
+}
+
+/** Inserts `track` after `after`, moving it there if it is already in the list */
+function insertAfter(tracks: DemoTrack[], after: DemoTrack, track: DemoTrack): DemoTrack[] {
+  const remaining = tracks.filter((candidate) => candidate.id !== track.id);
+  const index = remaining.findIndex((candidate) => candidate.id === after.id) + 1;
+  return [...remaining.slice(0, index), track, ...remaining.slice(index)];
+}
+
+function playNext(state: DemoPlaybackState, track: DemoTrack, shuffleSeed: number): DemoPlaybackState {
+  const current = currentTrack(state);
+  if (!current) {
+    return startQueue(state, [track], 0, { kind: "custom" }, shuffleSeed);
+  }
+  if (current.id === track.id) {
+    return state;
+  }
+
+  // Unlike the app, a track that is already queued moves instead of appearing twice
+  const tracks = insertAfter(state.tracks, current, track);
+  const changes: Partial<DemoPlaybackState> = {
+    tracks,
+    currentIndex: tracks.findIndex((candidate) => candidate.id === current.id),
+  };
+  if (state.originalQueueOrder.length > 0) {
+    changes.originalQueueOrder = insertAfter(state.originalQueueOrder, current, track);
+  }
+  if (state.isShuffleEnabled) {
+    const shuffleOrder = insertAfter(state.shuffleOrder, current, track);
+    changes.shuffleOrder = shuffleOrder;
+    changes.shuffleHistory = state.shuffleHistory.filter((candidate) => candidate.id !== track.id);
+    changes.shuffleCurrentIndex = shuffleOrder.findIndex((candidate) => candidate.id === current.id);
+  }
+  return { ...state, ...changes };
+}
+
+function skipTo(state: DemoPlaybackState, trackId: string): DemoPlaybackState {
+  const track = state.tracks.find((candidate) => candidate.id === trackId);
+  if (!track) {
+    return state;
+  }
+  if (!state.isShuffleEnabled) {
+    return moveToTrack(state, track);
+  }
+
+  // Keep the shuffle history in step, so "previous" walks back through the skipped tracks
+  const shuffleIndex = state.shuffleOrder.findIndex((candidate) => candidate.id === trackId);
+  return moveToTrack(state, track, {
+    shuffleHistory: state.shuffleOrder.slice(0, shuffleIndex),
+    shuffleCurrentIndex: shuffleIndex,
+  });
+}
+
+const nextRepeatMode: Record<RepeatMode, RepeatMode> = { off: "all", all: "one", one: "off" };
+
+export function demoPlaybackReducer(state: DemoPlaybackState, action: DemoPlaybackAction): DemoPlaybackState {
+  switch (action.type) {
+    case "startQueue":
+      return startQueue(state, action.tracks, action.index, action.context, action.shuffleSeed);
+    case "togglePlayPause":
+      return state.tracks.length === 0 ? state : { ...state, isPlaying: !state.isPlaying };
+    case "pause":
+      return { ...state, isPlaying: false };
+    case "next":
+      return next(state, action.shuffleSeed);
+    case "previous":
+      return previous(state);
+    case "skipTo":
+      return skipTo(state, action.trackId);
+    case "playNext":
+      return playNext(state, action.track, action.shuffleSeed);
+    case "trackFinished":
+      return trackFinished(state, action.shuffleSeed);
+    case "toggleShuffle":
+      return toggleShuffle(state, action.shuffleSeed);
+    case "toggleRepeat":
+      return { ...state, repeatMode: nextRepeatMode[state.repeatMode] };
+  }
+}
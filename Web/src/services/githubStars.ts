@@ -0,0 +1,15 @@
+/**
+ * Star count of a `https://github.com/<owner>/<repo>` repository from the
+ * GitHub API. Only called once the visitor allows GitHub content.
+ */
+export async function fetchStarCount(repository: string, signal?: AbortSignal): Promise<number> {
+  const response = await fetch(`https://api.github.com/repos${new URL(repository).pathname}`, { signal });
+  if (!response.ok) {
+    throw new Error(`GitHub responded with ${response.status}`);
+  }
+  const { stargazers_count: count } = (await response.json()) as { stargazers_count?: unknown };
+  if (typeof count !== "number") {
+    throw new Error("GitHub did not return a star count");
+  }
+  return count;
+}
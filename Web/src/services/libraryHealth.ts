@@ -0,0 +1,33 @@
+import type { MediaItem, ServerSession } from "../types/mediaServer";
+import { fetchAllItems, fetchArtists } from "./mediaServer";
+
+export type LibraryScanStage = "tracks" | "albums" | "artists";
+
+export interface ScannedLibrary {
+  tracks: MediaItem[];
+  albums: MediaItem[];
+  artists: MediaItem[];
+}
+
+/**
+ * The tracks, albums and artists the app imports, with the tags the health
+ * checks read. Artists come from `Artists`, like the app's, so they are the
+ * ones its Artists tab lists.
+ */
+export async function fetchLibraryForScan(
+  session: ServerSession,
+  onProgress?: (stage: LibraryScanStage, loaded: number, total: number) => void
+): Promise<ScannedLibrary> {
+  const tracks = await fetchAllItems(
+    session,
+    { IncludeItemTypes: "Audio", Fields: "Album,AlbumArtist,Artists,Genres", SortBy: "SortName" },
+    (loaded, total) => onProgress?.("tracks", loaded, total)
+  );
+  const albums = await fetchAllItems(
+    session,
+    { IncludeItemTypes: "MusicAlbum", Fields: "AlbumArtist", SortBy: "SortName" },
+    (loaded, total) => onProgress?.("albums", loaded, total)
+  );
+  const artists = await fetchArtists(session, (loaded, total) => onProgress?.("artists", loaded, total));
+  return { tracks, albums, artists };
+}
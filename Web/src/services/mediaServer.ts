@@ -0,0 +1,205 @@
+import { DEFAULT_LOCALE } from "../i18n/locales";
+import { translator, type Translate } from "../i18n/messages";
+import type { ItemsResult, MediaItem, ServerRequestFailure, ServerSession } from "../types/mediaServer";
+import type { ServerDetectionResult } from "../types/server";
+
+/** What the browser tools call themselves in the server's device and session lists */
+const CLIENT_NAME = "Kartunes Web";
+const CLIENT_VERSION = "1.0.0";
+
+/** Items per request when paging through a library */
+const PAGE_SIZE = 500;
+
+export class ServerRequestError extends Error {
+  constructor(readonly failure: ServerRequestFailure) {
+    super(describeRequestFailure(failure).title);
+    this.name = "ServerRequestError";
+  }
+}
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "DELETE";
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+/** The `X-Emby-Authorization` header both servers expect, as the app sends it with its own client name */
+function clientHeader(deviceId: string): string {
+  return `MediaBrowser Client="${CLIENT_NAME}", Device="Browser", DeviceId="${deviceId}", Version="${CLIENT_VERSION}"`;
+}
+
+type RequestTarget = Pick<ServerSession, "serverType" | "baseURL" | "deviceId"> &
+  Partial<Pick<ServerSession, "accessToken">>;
+
+/**
+ * Sends a request the way the app's API clients do: Jellyfin takes the token
+ * in `Authorization`, Emby in `X-Emby-Token`. Throws for failed requests.
+ */
+export async function serverFetch(
+  session: RequestTarget,
+  path: string,
+  { method = "GET", query, body }: RequestOptions = {}
+): Promise<Response> {
+  const url = new URL(`${session.baseURL}/${path}`);
+  for (const [name, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) url.searchParams.set(name, String(value));
+  }
+
+  const headers: Record<string, string> = { Accept: "application/json", "X-Emby-Authorization": clientHeader(session.deviceId) };
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (session.accessToken) {
+    if (session.serverType === "emby") {
+      headers["X-Emby-Token"] = session.accessToken;
+    } else {
+      headers.Authorization = `MediaBrowser Token="${session.accessToken}"`;
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+  } catch {
+    throw new ServerRequestError({ kind: "network" });
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new ServerRequestError({ kind: "unauthorized" });
+  }
+  if (!response.ok) {
+    throw new ServerRequestError({ kind: "httpError", statusCode: response.status });
+  }
+  return response;
+}
+
+/** `serverFetch()` for JSON responses; resolves to `undefined` for empty ones */
+export async function serverRequest<T>(session: RequestTarget, path: string, options?: RequestOptions): Promise<T> {
+  const response = await serverFetch(session, path, options);
+  const text = await response.text();
+  if (!text) return undefined as T;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new ServerRequestError({ kind: "invalidResponse" });
+  }
+}
+
+export function newDeviceId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Signs in with `Users/AuthenticateByName`, the same request as the app's
+ * `DefaultJellyfinAPIClient+Auth`. Pass the result of `detectServerType()`.
+ */
+export async function authenticateByName(
+  server: ServerDetectionResult,
+  username: string,
+  password: string,
+  deviceId = newDeviceId()
+): Promise<ServerSession> {
+  const result = await serverRequest<{ AccessToken?: string; User?: { Id?: string; Name?: string } }>(
+    { ...server, deviceId },
+    "Users/AuthenticateByName",
+    { method: "POST", body: { Username: username, Pw: password } }
+  );
+  if (!result?.AccessToken || !result.User?.Id) {
+    throw new ServerRequestError({ kind: "invalidResponse" });
+  }
+  return {
+    serverType: server.serverType,
+    baseURL: server.baseURL,
+    serverName: server.serverName,
+    userId: result.User.Id,
+    userName: result.User.Name ?? username,
+    accessToken: result.AccessToken,
+    deviceId,
+  };
+}
+
+/** Ends the session on the server; the token stops working even if a copy is left behind */
+export async function signOut(session: ServerSession): Promise<void> {
+  await serverRequest(session, "Sessions/Logout", { method: "POST" });
+}
+
+/** Pages through a list endpoint that answers with `Items` and `TotalRecordCount` */
+async function fetchPages(
+  session: ServerSession,
+  path: string,
+  query: RequestOptions["query"],
+  onProgress?: (loaded: number, total: number) => void
+): Promise<MediaItem[]> {
+  const items: MediaItem[] = [];
+  let total = Infinity;
+  while (items.length < total) {
+    const page = await serverRequest<ItemsResult | undefined>(session, path, {
+      query: { Recursive: true, ...query, StartIndex: items.length, Limit: PAGE_SIZE },
+    });
+    // Some proxies answer 200 with an empty body
+    if (!Array.isArray(page?.Items)) {
+      throw new ServerRequestError({ kind: "invalidResponse" });
+    }
+    items.push(...page.Items);
+    total = page.TotalRecordCount;
+    onProgress?.(items.length, total);
+    if (page.Items.length === 0) break;
+  }
+  return items;
+}
+
+/** Every item of the given types in the user's libraries, a page at a time */
+export function fetchAllItems(
+  session: ServerSession,
+  query: RequestOptions["query"],
+  onProgress?: (loaded: number, total: number) => void
+): Promise<MediaItem[]> {
+  return fetchPages(session, `Users/${session.userId}/Items`, query, onProgress);
+}
+
+/** Every artist the user can see, from `Artists` as the app's `fetchArtists()` lists them */
+export function fetchArtists(
+  session: ServerSession,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<MediaItem[]> {
+  return fetchPages(session, "Artists", { userId: session.userId, SortBy: "SortName" }, onProgress);
+}
+
+/** Every track in the user's libraries, with the fields playlist matching needs */
+export function fetchTracks(session: ServerSession, onProgress?: (loaded: number, total: number) => void) {
+  return fetchAllItems(
+    session,
+    { IncludeItemTypes: "Audio", Fields: "RunTimeTicks,Album,AlbumArtist,Artists,Path,UserData", SortBy: "SortName" },
+    onProgress
+  );
+}
+
+/**
+ * The item's page in the server's own web app, where its metadata can be
+ * edited. Emby's web app needs the server id to open it.
+ */
+export function serverItemURL(session: ServerSession, itemId: string, serverId?: string): string {
+  const params = new URLSearchParams({ id: itemId });
+  if (serverId) params.set("serverId", serverId);
+  return session.serverType === "emby"
+    ? `${session.baseURL}/web/index.html#!/item?${params}`
+    : `${session.baseURL}/web/#/details?${params}`;
+}
+
+/** Duration of an item in seconds */
+export function itemDuration(item: MediaItem): number | undefined {
+  return item.RunTimeTicks === undefined ? undefined : item.RunTimeTicks / 10_000_000;
+}
+
+/** Explanation of a failed request, in the visitor's language */
+export function describeRequestFailure(
+  failure: ServerRequestFailure,
+  t: Translate = translator(DEFAULT_LOCALE)
+): { title: string; detail: string } {
+  switch (failure.kind) {
+    case "httpError":
+      return {
+        title: t("serverSession.httpError.title", { statusCode: failure.statusCode }),
+        detail: t("serverSession.httpError.detail"),
+      };
+    default:
+      return { title: t(`serverSession.${failure.kind}.title`), detail: t(`serverSession.${failure.kind}.detail`) };
+  }
+}
@@ -0,0 +1,68 @@
+import type { MediaItem, ServerSession } from "../types/mediaServer";
+import { fetchAllItems, ServerRequestError, serverRequest } from "./mediaServer";
+
+/** Tracks added per `Playlists/{id}/Items` request, which takes the ids in its query string */
+const ADD_BATCH_SIZE = 100;
+
+const TRACK_FIELDS = "RunTimeTicks,Album,AlbumArtist,Artists,Path,Container,UserData,PlaylistItemId";
+
+/** The playlist the app keeps liked tracks in, newest first (see `LikedPlaylistManager`) */
+export function likedPlaylistName(userName: string): string {
+  return `Kartunes Liked ${userName}`;
+}
+
+/** The user's playlists, sorted by name, as the app's `fetchPlaylists()` lists them */
+export function fetchPlaylists(session: ServerSession): Promise<MediaItem[]> {
+  return fetchAllItems(session, { IncludeItemTypes: "Playlist", Fields: "Overview,DateCreated", SortBy: "SortName" });
+}
+
+export async function fetchPlaylistItems(session: ServerSession, playlistId: string): Promise<MediaItem[]> {
+  const result = await serverRequest<{ Items: MediaItem[] } | undefined>(session, `Playlists/${playlistId}/Items`, {
+    query: { UserId: session.userId, Fields: TRACK_FIELDS },
+  });
+  if (!Array.isArray(result?.Items)) {
+    throw new ServerRequestError({ kind: "invalidResponse" });
+  }
+  return result.Items.filter((item) => item.Type === "Audio");
+}
+
+/**
+ * The app's liked tracks: its liked playlist where it has one, otherwise the
+ * tracks marked as favourites on the server, which the app syncs likes to.
+ */
+export async function fetchLikedTracks(session: ServerSession, playlists: MediaItem[]): Promise<MediaItem[]> {
+  const liked = playlists.find((playlist) => playlist.Name === likedPlaylistName(session.userName));
+  if (liked) return fetchPlaylistItems(session, liked.Id);
+  return fetchAllItems(session, {
+    IncludeItemTypes: "Audio",
+    Filters: "IsFavorite",
+    Fields: TRACK_FIELDS,
+    SortBy: "DatePlayed",
+    SortOrder: "Descending",
+  });
+}
+
+/**
+ * Creates a playlist and adds the tracks in order, with the same `Playlists`
+ * and `Playlists/{id}/Items` requests the app makes. Returns the new id.
+ */
+export async function createPlaylist(
+  session: ServerSession,
+  name: string,
+  trackIds: string[],
+  onProgress?: (added: number) => void
+): Promise<string> {
+  const created = await serverRequest<{ Id: string }>(session, "Playlists", {
+    method: "POST",
+    body: { Name: name, UserId: session.userId, MediaType: "Audio" },
+  });
+  for (let start = 0; start < trackIds.length; start += ADD_BATCH_SIZE) {
+    const batch = trackIds.slice(start, start + ADD_BATCH_SIZE);
+    await serverRequest(session, `Playlists/${created.Id}/Items`, {
+      method: "POST",
+      query: { Ids: batch.join(","), UserId: session.userId },
+    });
+    onProgress?.(start + batch.length);
+  }
+  return created.Id;
+}
@@ -0,0 +1,358 @@
+import { site } from "../content/site";
+import type { ProxyConfig, ProxyConfigNote, ProxyConfigOptions, ProxyOptionError } from "../types/proxy";
+import { mediaServerDisplayNames } from "../types/server";
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)+$/i;
+const HOST_PATTERN = /^[a-z0-9]([a-z0-9.-]{0,251}[a-z0-9])?$/i;
+const SUBPATH_PATTERN = /^(\/[a-z0-9._~-]+)*$/i;
+
+/** Headers the apps and this site's tools send; the browser asks before sending them cross-origin */
+const CORS_HEADERS = "Authorization, X-Emby-Authorization, X-Emby-Token, X-MediaBrowser-Token, Content-Type";
+const CORS_METHODS = "GET, POST, DELETE, OPTIONS";
+/** `LimitRequestBody` tops out at 2 GB */
+const APACHE_MAX_BODY_BYTES = 2147483647;
+
+export const DEFAULT_PROXY_OPTIONS: ProxyConfigOptions = {
+  mediaServer: "jellyfin",
+  proxy: "nginx",
+  domain: "",
+  upstreamHost: "127.0.0.1",
+  upstreamPort: 8096,
+  subpath: "",
+  tls: true,
+  websockets: true,
+  maxBodyMB: 100,
+  unbufferedStreaming: true,
+  allowSiteChecks: true,
+};
+
+/** `emby/`, `/emby/` and ` /emby ` all become `/emby`; blank means the domain root */
+export function normalizeSubpath(input: string): string {
+  const trimmed = input.trim().replace(/^\/+|\/+$/g, "");
+  return trimmed ? `/${trimmed}` : "";
+}
+
+/** Accepts a pasted URL as well as a bare host name */
+export function normalizeDomain(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z\d+.-]*:\/\//, "")
+    .replace(/[/:?#].*$/, "");
+}
+
+export function proxyOptionErrors(options: ProxyConfigOptions): Partial<Record<keyof ProxyConfigOptions, ProxyOptionError>> {
+  const errors: Partial<Record<keyof ProxyConfigOptions, ProxyOptionError>> = {};
+  if (!options.domain) {
+    errors.domain = "required";
+  } else if (!DOMAIN_PATTERN.test(options.domain)) {
+    errors.domain = "invalidDomain";
+  }
+  if (!options.upstreamHost) {
+    errors.upstreamHost = "required";
+  } else if (!HOST_PATTERN.test(options.upstreamHost)) {
+    errors.upstreamHost = "invalidHost";
+  }
+  if (!Number.isInteger(options.upstreamPort) || options.upstreamPort < 1 || options.upstreamPort > 65535) {
+    errors.upstreamPort = "invalidPort";
+  }
+  if (!SUBPATH_PATTERN.test(options.subpath)) {
+    errors.subpath = "invalidSubpath";
+  }
+  if (!Number.isInteger(options.maxBodyMB) || options.maxBodyMB < 0) {
+    errors.maxBodyMB = "invalidBodySize";
+  }
+  return errors;
+}
+
+/**
+ * Emby always answers under `/emby`, so any other subpath is stripped before
+ * the request is passed on. Jellyfin serves whatever its Base URL setting
+ * says, so the path goes through unchanged and has to match that setting.
+ */
+function upstreamPath(options: ProxyConfigOptions): string {
+  if (options.mediaServer === "emby" && options.subpath.toLowerCase() !== "/emby") {
+    return "";
+  }
+  return options.subpath;
+}
+
+/** A ready-to-use reverse proxy configuration for the chosen server and proxy */
+export function generateProxyConfig(options: ProxyConfigOptions): ProxyConfig {
+  const scheme = options.tls ? "https" : "http";
+  const notes: ProxyConfigNote[] = [];
+
+  if (options.subpath && options.mediaServer === "jellyfin") {
+    notes.push({ kind: "jellyfinBaseURL", subpath: options.subpath });
+  }
+  if (options.subpath && !upstreamPath(options)) {
+    notes.push({ kind: "embyStripsPrefix", subpath: options.subpath });
+  }
+  if (!options.tls) {
+    notes.push({ kind: "noTLS" });
+  }
+
+  const header = [
+    `${mediaServerDisplayNames[options.mediaServer]} at ${scheme}://${options.domain}${options.subpath || "/"}`,
+    `Generated by ${site.url}/setup#proxy-config`,
+  ];
+
+  const serverURL = `${scheme}://${options.domain}${options.subpath}`;
+  switch (options.proxy) {
+    case "nginx":
+      if (options.tls) notes.push({ kind: "certbot", domain: options.domain });
+      return { filename: `${options.domain}.conf`, contents: nginxConfig(options, header), serverURL, notes };
+    case "caddy":
+      if (options.tls) notes.push({ kind: "caddyAutomaticTLS" });
+      return { filename: "Caddyfile", contents: caddyConfig(options, header), serverURL, notes };
+    case "traefik":
+      notes.push({ kind: "traefikStaticConfig" });
+      return { filename: `${options.mediaServer}.yml`, contents: traefikConfig(options, header), serverURL, notes };
+    case "apache":
+      notes.push({ kind: "apacheModules" });
+      if (options.tls) notes.push({ kind: "certbot", domain: options.domain });
+      return { filename: `${options.domain}.conf`, contents: apacheConfig(options, header), serverURL, notes };
+  }
+}
+
+/** Joins config lines, dropping the `false` entries left by disabled options */
+function lines(...entries: (string | false)[]): string {
+  return entries.filter((entry) => entry !== false).join("\n");
+}
+
+function comment(prefix: string, text: string[]): string {
+  return text.map((line) => `${prefix} ${line}`).join("\n");
+}
+
+function siteOrigin(): string {
+  return new URL(site.url).origin;
+}
+
+function nginxConfig(options: ProxyConfigOptions, header: string[]): string {
+  const { domain, subpath, tls } = options;
+  const upstream = `http://${options.upstreamHost}:${options.upstreamPort}`;
+  const location = `${subpath}/`;
+  // Without a URI nginx passes the path through; with one it replaces the matched prefix
+  const proxyPass = subpath && !upstreamPath(options) ? `${upstream}/` : upstream;
+
+  return lines(
+    comment("#", header),
+    "",
+    options.websockets &&
+      lines("map $http_upgrade $connection_upgrade {", "    default upgrade;", "    ''      close;", "}", ""),
+    tls &&
+      lines(
+        "server {",
+        "    listen 80;",
+        "    listen [::]:80;",
+        `    server_name ${domain};`,
+        "    return 301 https://$host$request_uri;",
+        "}",
+        ""
+      ),
+    "server {",
+    tls ? "    listen 443 ssl;" : "    listen 80;",
+    tls ? "    listen [::]:443 ssl;" : "    listen [::]:80;",
+    `    server_name ${domain};`,
+    "",
+    tls &&
+      lines(
+        `    ssl_certificate /etc/letsencrypt/live/${domain}/fullchain.pem;`,
+        `    ssl_certificate_key /etc/letsencrypt/live/${domain}/privkey.pem;`,
+        "    ssl_protocols TLSv1.2 TLSv1.3;",
+        ""
+      ),
+    "    # Playlist uploads, artwork and backups",
+    `    client_max_body_size ${options.maxBodyMB === 0 ? "0" : `${options.maxBodyMB}M`};`,
+    "",
+    subpath !== "" && lines(`    location = ${subpath} {`, `        return 301 ${location};`, "    }", ""),
+    `    location ${location} {`,
+    `        proxy_pass ${proxyPass};`,
+    "        proxy_http_version 1.1;",
+    "        proxy_set_header Host $host;",
+    "        proxy_set_header X-Real-IP $remote_addr;",
+    "        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;",
+    "        proxy_set_header X-Forwarded-Proto $scheme;",
+    "        proxy_set_header X-Forwarded-Host $http_host;",
+    options.websockets &&
+      lines(
+        "",
+        "        # Live session updates (now playing, remote control)",
+        "        proxy_set_header Upgrade $http_upgrade;",
+        "        proxy_set_header Connection $connection_upgrade;"
+      ),
+    options.unbufferedStreaming &&
+      lines(
+        "",
+        "        # Hand audio to the player as it arrives instead of buffering whole files",
+        "        proxy_buffering off;",
+        "        proxy_request_buffering off;",
+        "        proxy_read_timeout 1h;"
+      ),
+    options.allowSiteChecks &&
+      lines(
+        "",
+        `        # Lets ${siteOrigin()} check this server from the browser`,
+        "        proxy_hide_header Access-Control-Allow-Origin;",
+        `        add_header Access-Control-Allow-Origin "${siteOrigin()}" always;`,
+        `        add_header Access-Control-Allow-Methods "${CORS_METHODS}" always;`,
+        `        add_header Access-Control-Allow-Headers "${CORS_HEADERS}" always;`,
+        "        add_header Vary Origin always;",
+        "        if ($request_method = OPTIONS) {",
+        "            return 204;",
+        "        }"
+      ),
+    "    }",
+    "}",
+    ""
+  );
+}
+
+function caddyConfig(options: ProxyConfigOptions, header: string[]): string {
+  const { domain, subpath } = options;
+  const matcher = subpath && !upstreamPath(options) ? `handle_path ${subpath}/*` : subpath ? `handle ${subpath}/*` : "handle";
+
+  return lines(
+    comment("#", header),
+    "# Caddy proxies websockets and sets the X-Forwarded-* headers on its own",
+    "",
+    `${options.tls ? domain : `http://${domain}`} {`,
+    options.maxBodyMB > 0 &&
+      lines(
+        "    # Playlist uploads, artwork and backups",
+        "    request_body {",
+        `        max_size ${options.maxBodyMB}MB`,
+        "    }",
+        ""
+      ),
+    options.allowSiteChecks &&
+      lines(
+        `    # Lets ${siteOrigin()} check this server from the browser`,
+        `    header Access-Control-Allow-Origin "${siteOrigin()}"`,
+        `    header Access-Control-Allow-Methods "${CORS_METHODS}"`,
+        `    header Access-Control-Allow-Headers "${CORS_HEADERS}"`,
+        "    header Vary Origin",
+        ""
+      ),
+    subpath !== "" && lines(`    redir ${subpath} ${subpath}/`, ""),
+    `    ${matcher} {`,
+    options.allowSiteChecks && lines("        @preflight method OPTIONS", "        respond @preflight 204", ""),
+    `        reverse_proxy ${options.upstreamHost}:${options.upstreamPort} {`,
+    options.unbufferedStreaming &&
+      lines("            # Hand audio to the player as it arrives instead of buffering whole files", "            flush_interval -1"),
+    options.allowSiteChecks && "            header_down -Access-Control-Allow-Origin",
+    "        }",
+    "    }",
+    "}",
+    ""
+  );
+}
+
+function traefikConfig(options: ProxyConfigOptions, header: string[]): string {
+  const name = options.mediaServer;
+  const { domain, subpath } = options;
+  const rule = subpath ? `Host(\`${domain}\`) && PathPrefix(\`${subpath}\`)` : `Host(\`${domain}\`)`;
+  const strip = Boolean(subpath && !upstreamPath(options));
+  const middlewares = [`${name}-headers`, strip && `${name}-strip-prefix`].filter(Boolean);
+
+  return lines(
+    comment("#", header),
+    "# Dynamic configuration for Traefik's file provider. Traefik proxies websockets on its own",
+    options.maxBodyMB > 0 && "# and does not limit request bodies unless a buffering middleware is added",
+    "",
+    "http:",
+    "  routers:",
+    `    ${name}:`,
+    `      rule: "${rule}"`,
+    `      entryPoints: [${options.tls ? "websecure" : "web"}]`,
+    `      service: ${name}`,
+    `      middlewares: [${middlewares.join(", ")}]`,
+    options.tls && lines("      tls:", "        certResolver: letsencrypt"),
+    "",
+    "  middlewares:",
+    `    ${name}-headers:`,
+    "      headers:",
+    "        customRequestHeaders:",
+    `          X-Forwarded-Proto: "${options.tls ? "https" : "http"}"`,
+    options.allowSiteChecks &&
+      lines(
+        `        # Lets ${siteOrigin()} check this server from the browser`,
+        "        accessControlAllowOriginList:",
+        `          - "${siteOrigin()}"`,
+        `        accessControlAllowMethods: [${CORS_METHODS}]`,
+        `        accessControlAllowHeaders: [${CORS_HEADERS}]`,
+        "        addVaryHeader: true"
+      ),
+    strip && lines(`    ${name}-strip-prefix:`, "      stripPrefix:", `        prefixes: ["${subpath}"]`),
+    "",
+    "  services:",
+    `    ${name}:`,
+    "      loadBalancer:",
+    "        servers:",
+    `          - url: "http://${options.upstreamHost}:${options.upstreamPort}"`,
+    options.unbufferedStreaming &&
+      lines(
+        "        # Hand audio to the player as it arrives instead of buffering whole files",
+        "        responseForwarding:",
+        '          flushInterval: "-1ms"'
+      ),
+    ""
+  );
+}
+
+function apacheConfig(options: ProxyConfigOptions, header: string[]): string {
+  const { domain, subpath, tls } = options;
+  const path = `${subpath}/`;
+  const target = `http://${options.upstreamHost}:${options.upstreamPort}${upstreamPath(options)}/`;
+  const proxyPassFlags = [options.websockets && "upgrade=websocket", options.unbufferedStreaming && "flushpackets=on"]
+    .filter(Boolean)
+    .join(" ");
+
+  return lines(
+    comment("#", header),
+    "",
+    tls &&
+      lines(
+        "<VirtualHost *:80>",
+        `    ServerName ${domain}`,
+        `    Redirect permanent / https://${domain}/`,
+        "</VirtualHost>",
+        ""
+      ),
+    `<VirtualHost *:${tls ? 443 : 80}>`,
+    `    ServerName ${domain}`,
+    "",
+    tls &&
+      lines(
+        "    SSLEngine on",
+        `    SSLCertificateFile /etc/letsencrypt/live/${domain}/fullchain.pem`,
+        `    SSLCertificateKeyFile /etc/letsencrypt/live/${domain}/privkey.pem`,
+        "    SSLProtocol -all +TLSv1.2 +TLSv1.3",
+        ""
+      ),
+    "    # Playlist uploads, artwork and backups",
+    `    LimitRequestBody ${Math.min(options.maxBodyMB * 1024 * 1024, APACHE_MAX_BODY_BYTES)}`,
+    "",
+    "    ProxyPreserveHost On",
+    `    RequestHeader set X-Forwarded-Proto "${tls ? "https" : "http"}"`,
+    subpath !== "" && `    RedirectMatch 301 ^${subpath}$ ${path}`,
+    options.websockets && "    # upgrade=websocket needs Apache 2.4.47 or later",
+    options.unbufferedStreaming && "    # flushpackets=on hands audio to the player as it arrives",
+    `    ProxyPass "${path}" "${target}"${proxyPassFlags ? ` ${proxyPassFlags}` : ""}`,
+    `    ProxyPassReverse "${path}" "${target}"`,
+    options.allowSiteChecks &&
+      lines(
+        "",
+        `    # Lets ${siteOrigin()} check this server from the browser`,
+        `    Header always set Access-Control-Allow-Origin "${siteOrigin()}"`,
+        `    Header always set Access-Control-Allow-Methods "${CORS_METHODS}"`,
+        `    Header always set Access-Control-Allow-Headers "${CORS_HEADERS}"`,
+        "    Header always merge Vary Origin",
+        "    RewriteEngine On",
+        "    RewriteCond %{REQUEST_METHOD} OPTIONS",
+        "    RewriteRule ^ - [R=204,L]"
+      ),
+    "</VirtualHost>",
+    ""
+  );
+}
@@ -0,0 +1,66 @@
+import type { MediaItem, ServerSession } from "../types/mediaServer";
+import type { SessionInfo } from "../types/remote";
+import { serverFetch, serverRequest } from "./mediaServer";
+
+/** The client name the app signs its requests with (`DefaultJellyfinAPIClient+Helpers`) */
+const APP_CLIENT = "Kartunes";
+
+/** Sessions idle for longer than this are left out, as in the server dashboard */
+const ACTIVE_WITHIN_SECONDS = 960;
+
+const TICKS_PER_SECOND = 10_000_000;
+
+/** The user's Kartunes sessions that the server lets them control, most recently active first */
+export async function fetchAppSessions(session: ServerSession): Promise<SessionInfo[]> {
+  const sessions = await serverRequest<SessionInfo[]>(session, "Sessions", {
+    query: { ControllableByUserId: session.userId, ActiveWithinSeconds: ACTIVE_WITHIN_SECONDS },
+  });
+  return sessions
+    .filter((target) => target.Client === APP_CLIENT)
+    .sort((a, b) => (b.LastActivityDate ?? "").localeCompare(a.LastActivityDate ?? ""));
+}
+
+/** Playback position the session last reported, in seconds */
+export function sessionPosition(target: SessionInfo): number {
+  return (target.PlayState?.PositionTicks ?? 0) / TICKS_PER_SECOND;
+}
+
+/** The item with the signed-in user's data, which `NowPlayingItem` leaves out */
+export function fetchUserItem(session: ServerSession, itemId: string): Promise<MediaItem> {
+  return serverRequest<MediaItem>(session, `Users/${session.userId}/Items/${itemId}`);
+}
+
+/**
+ * Likes or unlikes a track with the requests the app's `toggleFavorite()`
+ * makes. The app syncs likes with the server's favourites, so this works
+ * without reaching the phone.
+ */
+export async function setFavourite(session: ServerSession, itemId: string, isFavourite: boolean): Promise<void> {
+  if (session.serverType === "emby") {
+    await serverRequest(session, `Users/${session.userId}/Items/${itemId}/UserData`, {
+      method: "POST",
+      body: { IsFavorite: isFavourite },
+    });
+  } else {
+    await serverRequest(session, `UserFavoriteItems/${itemId}`, {
+      method: isFavourite ? "POST" : "DELETE",
+      query: { userId: session.userId },
+    });
+  }
+}
+
+/** The item whose Primary image shows for a track, its album's where it has one, as in the app */
+export function artworkItemId(item: MediaItem): string | undefined {
+  if (item.AlbumId && item.AlbumPrimaryImageTag) return item.AlbumId;
+  if (item.ImageTags?.Primary) return item.Id;
+  return item.AlbumId;
+}
+
+/**
+ * Fetches artwork with the session's token, so it also loads from servers
+ * that want one for images. Returns an object URL the caller must revoke.
+ */
+export async function fetchArtworkURL(session: ServerSession, itemId: string, maxWidth: number): Promise<string> {
+  const response = await serverFetch(session, `Items/${itemId}/Images/Primary`, { query: { maxWidth } });
+  return URL.createObjectURL(await response.blob());
+}
@@ -0,0 +1,225 @@
+import { DEFAULT_LOCALE } from "../i18n/locales";
+import { translator, type Translate } from "../i18n/messages";
+import type {
+  MediaServerType,
+  ProbeAttempt,
+  PublicSystemInfo,
+  ServerDetectionFailure,
+  ServerDetectionReport,
+  ServerDetectionResult,
+} from "../types/server";
+
+const PROBE_TIMEOUT_MS = 10_000;
+
+export class ServerDetectionError extends Error {
+  constructor(readonly failure: ServerDetectionFailure) {
+    super(describeDetectionFailure(failure).title);
+    this.name = "ServerDetectionError";
+  }
+}
+
+/**
+ * Detects the server type the same way the iOS app's `ServerDetectionService` does:
+ * probe `System/Info/Public` on the entered URL, then on the other scheme, and
+ * retry each candidate under `/emby` before giving up.
+ */
+export async function detectServerType(
+  userInput: string,
+  onAttempt?: (attempt: ProbeAttempt) => void
+): Promise<ServerDetectionReport> {
+  const attempts: ProbeAttempt[] = [];
+  const record = (attempt: ProbeAttempt) => {
+    attempts.push(attempt);
+    onAttempt?.(attempt);
+  };
+
+  let candidates: string[];
+  try {
+    candidates = candidateBaseURLs(userInput);
+  } catch (error) {
+    return { attempts, failure: failureFrom(error) };
+  }
+
+  let lastFailure: ServerDetectionFailure = { kind: "noCompatibleServer" };
+  for (const base of candidates) {
+    try {
+      const result = await probeWithEmbyFallback(base, record);
+      return { attempts, result };
+    } catch (error) {
+      lastFailure = failureFrom(error);
+    }
+  }
+
+  return { attempts, failure: lastFailure };
+}
+
+/** Normalizes the entered URL and lists the bases to probe, in order */
+export function candidateBaseURLs(userInput: string): string[] {
+  const trimmed = userInput.trim();
+  const hasScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed);
+
+  let url: URL;
+  try {
+    url = new URL(hasScheme ? trimmed : `http://${trimmed}`);
+  } catch {
+    throw new ServerDetectionError({ kind: "invalidURL" });
+  }
+  if ((url.protocol !== "http:" && url.protocol !== "https:") || !url.hostname) {
+    throw new ServerDetectionError({ kind: "invalidURL" });
+  }
+
+  const alternate = new URL(url.href);
+  alternate.protocol = url.protocol === "https:" ? "http:" : "https:";
+
+  return Array.from(new Set([baseURLString(url), baseURLString(alternate)]));
+}
+
+async function probeWithEmbyFallback(
+  baseURL: string,
+  record: (attempt: ProbeAttempt) => void
+): Promise<ServerDetectionResult> {
+  try {
+    return await recordedProbe(baseURL, record);
+  } catch (error) {
+    const url = new URL(baseURL);
+    if (url.pathname.toLowerCase().includes("/emby")) {
+      throw error;
+    }
+    return recordedProbe(`${baseURL}/emby`, record);
+  }
+}
+
+async function recordedProbe(
+  baseURL: string,
+  record: (attempt: ProbeAttempt) => void
+): Promise<ServerDetectionResult> {
+  const url = `${baseURL}/System/Info/Public`;
+  try {
+    const result = await probe(baseURL);
+    record({ url });
+    return result;
+  } catch (error) {
+    record({ url, failure: failureFrom(error) });
+    throw error;
+  }
+}
+
+/** Probes a specific base URL for server information */
+async function probe(baseURL: string): Promise<ServerDetectionResult> {
+  const probeURL = `${baseURL}/System/Info/Public`;
+
+  if (isMixedContent(probeURL)) {
+    throw new ServerDetectionError({ kind: "mixedContent" });
+  }
+
+  const controller = new AbortController();
+  const timeout = window.setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(probeURL, {
+      headers: { Accept: "application/json" },
+      signal: controller.signal,
+    });
+  } catch {
+    if (controller.signal.aborted) {
+      throw new ServerDetectionError({ kind: "timeout" });
+    }
+    throw new ServerDetectionError(await classifyNetworkFailure(probeURL));
+  } finally {
+    window.clearTimeout(timeout);
+  }
+
+  if (response.status !== 200) {
+    throw new ServerDetectionError({ kind: "httpError", statusCode: response.status });
+  }
+
+  let info: PublicSystemInfo;
+  try {
+    info = await response.json();
+  } catch {
+    throw new ServerDetectionError({ kind: "decodingError" });
+  }
+  if (typeof info !== "object" || info === null) {
+    throw new ServerDetectionError({ kind: "decodingError" });
+  }
+
+  const serverType = serverTypeFromProductName(info.ProductName);
+  if (!serverType) {
+    throw new ServerDetectionError({ kind: "unknownServerType", productName: info.ProductName });
+  }
+
+  return {
+    serverType,
+    baseURL,
+    serverName: info.ServerName,
+    version: info.Version,
+  };
+}
+
+export function serverTypeFromProductName(productName?: string): MediaServerType | undefined {
+  const name = productName?.toLowerCase() ?? "";
+  if (name.includes("jellyfin")) return "jellyfin";
+  if (name.includes("emby")) return "emby";
+  return undefined;
+}
+
+/**
+ * A failed CORS fetch and an unreachable host look identical to scripts.
+ * An opaque `no-cors` request still succeeds when the server answered,
+ * which tells the two apart.
+ */
+async function classifyNetworkFailure(url: string): Promise<ServerDetectionFailure> {
+  const controller = new AbortController();
+  const timeout = window.setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    await fetch(url, { mode: "no-cors", signal: controller.signal });
+    return { kind: "cors" };
+  } catch {
+    return controller.signal.aborted ? { kind: "timeout" } : { kind: "unreachable" };
+  } finally {
+    window.clearTimeout(timeout);
+  }
+}
+
+function isMixedContent(url: string): boolean {
+  return window.location.protocol === "https:" && url.startsWith("http:");
+}
+
+function baseURLString(url: URL): string {
+  return `${url.origin}${url.pathname.replace(/\/+$/, "")}`;
+}
+
+function failureFrom(error: unknown): ServerDetectionFailure {
+  return error instanceof ServerDetectionError ? error.failure : { kind: "noCompatibleServer" };
+}
+
+/**
+ * Plain-language explanation of a detection failure. Titles match the
+ * messages the iOS app shows so users can recognize them; pass a translator
+ * to get them in another language.
+ */
+export function describeDetectionFailure(
+  failure: ServerDetectionFailure,
+  t: Translate = translator(DEFAULT_LOCALE)
+): { title: string; detail: string } {
+  switch (failure.kind) {
+    case "httpError":
+      if (failure.statusCode === 404) {
+        return { title: t("serverCheck.notFound.title"), detail: t("serverCheck.notFound.detail") };
+      }
+      return {
+        title: t("serverCheck.httpError.title", { statusCode: failure.statusCode }),
+        detail: t("serverCheck.httpError.detail"),
+      };
+    case "unknownServerType":
+      return {
+        title: t("serverCheck.unknownServerType.title"),
+        detail: failure.productName
+          ? t("serverCheck.unknownServerType.detail", { productName: failure.productName })
+          : t("serverCheck.unknownServerType.detailNoName"),
+      };
+    default:
+      return { title: t(`serverCheck.${failure.kind}.title`), detail: t(`serverCheck.${failure.kind}.detail`) };
+  }
+}
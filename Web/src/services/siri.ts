@@ -0,0 +1,24 @@
+import type { ServerSession } from "../types/mediaServer";
+import type { SiriLibrary } from "../types/siri";
+import { fetchLibraryForScan } from "./libraryHealth";
+import { fetchPlaylists } from "./playlists";
+
+/**
+ * The names the app's catalog search reads, as its importer files them: a
+ * track belongs to its first artist, or to its album's artist when it has none.
+ */
+export async function fetchSiriLibrary(session: ServerSession): Promise<SiriLibrary> {
+  const { tracks, albums, artists } = await fetchLibraryForScan(session);
+  const playlists = await fetchPlaylists(session);
+  return {
+    artists: artists.map((artist) => ({ id: artist.Id, name: artist.Name })),
+    albums: albums.map((album) => ({ id: album.Id, title: album.Name, artist: album.AlbumArtist })),
+    tracks: tracks.map((track) => ({
+      id: track.Id,
+      title: track.Name,
+      artist: track.Artists?.[0] ?? track.AlbumArtist,
+      album: track.Album,
+    })),
+    playlists: playlists.map((playlist) => ({ id: playlist.Id, name: playlist.Name })),
+  };
+}
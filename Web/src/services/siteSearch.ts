@@ -0,0 +1,99 @@
+import type { Locale } from "../i18n/locales";
+import type { SearchDocument, SearchResult } from "../types/search";
+import { assetPath } from "../utils/paths";
+import { normalizeSearchText, searchTerms } from "../utils/search";
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 180;
+
+const indexPromises = new Map<Locale, Promise<SearchDocument[]>>();
+
+/** Loads the build-time search index for a locale once per visit */
+export function loadSearchIndex(locale: Locale): Promise<SearchDocument[]> {
+  let indexPromise = indexPromises.get(locale);
+  if (!indexPromise) {
+    indexPromise = import.meta.env.DEV
+      ? import("../content/searchIndex").then((module) => module.buildSearchIndex(locale))
+      : fetch(assetPath(`search-index.${locale}.json`)).then((response) => {
+          if (!response.ok) {
+            throw new Error(`Search index request failed with status ${response.status}`);
+          }
+          return response.json();
+        });
+    indexPromise.catch(() => {
+      indexPromises.delete(locale);
+    });
+    indexPromises.set(locale, indexPromise);
+  }
+  return indexPromise;
+}
+
+/** Unprefixed route path plus anchor for a search hit */
+export function searchResultLink(document: SearchDocument): string {
+  return document.anchor ? `${document.path}#${document.anchor}` : document.path;
+}
+
+/**
+ * Returns the documents containing every search term, best first. Title
+ * matches outrank body matches, and matches at the start of a word outrank
+ * matches inside one.
+ */
+export function searchDocuments(documents: SearchDocument[], query: string, limit = 8): SearchResult[] {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const document of documents) {
+    const title = normalizeSearchText(document.title);
+    const text = normalizeSearchText(`${document.page} ${document.text}`);
+
+    let score = 0;
+    let matchesAll = true;
+    for (const term of terms) {
+      const inTitle = title.includes(term);
+      const inText = text.includes(term);
+      if (!inTitle && !inText) {
+        matchesAll = false;
+        break;
+      }
+      if (inTitle) score += 10;
+      if (wordStartsWith(title, term)) score += 5;
+      if (inText) score += 2 + Math.min(countOccurrences(text, term), 3);
+      if (wordStartsWith(text, term)) score += 1;
+    }
+
+    if (matchesAll) {
+      results.push({ document, score, snippet: makeSnippet(document.text, terms) });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.document.title.length - b.document.title.length)
+    .slice(0, limit);
+}
+
+function wordStartsWith(text: string, term: string): boolean {
+  return text.startsWith(term) || text.includes(` ${term}`);
+}
+
+function countOccurrences(text: string, term: string): number {
+  return text.split(term).length - 1;
+}
+
+/** A window of the text around the first matching term, cut at word boundaries */
+function makeSnippet(text: string, terms: string[]): string {
+  if (text.length <= SNIPPET_LENGTH) return text;
+
+  const lower = text.toLowerCase();
+  const matchIndex = Math.min(
+    ...terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0),
+    text.length
+  );
+  const start = matchIndex === text.length ? 0 : Math.max(0, matchIndex - SNIPPET_BEFORE);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  let snippet = text.slice(start, end);
+  if (start > 0) snippet = `…${snippet.replace(/^\S*\s/, "")}`;
+  if (end < text.length) snippet = `${snippet.replace(/\s\S*$/, "")}…`;
+  return snippet;
+}
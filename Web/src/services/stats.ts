@@ -0,0 +1,16 @@
+import type { MediaItem, ServerSession } from "../types/mediaServer";
+import { fetchAllItems } from "./mediaServer";
+
+const STATS_FIELDS =
+  "RunTimeTicks,Album,AlbumArtist,Artists,Genres,ProductionYear,DateCreated,Path,Container,MediaSources,UserData";
+
+/**
+ * Every track in the user's libraries with its play count, latest play,
+ * favourite flag, genres and file details, which is all the dashboard reads.
+ */
+export function fetchLibraryTracks(
+  session: ServerSession,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<MediaItem[]> {
+  return fetchAllItems(session, { IncludeItemTypes: "Audio", Fields: STATS_FIELDS, SortBy: "SortName" }, onProgress);
+}
@@ -0,0 +1,74 @@
+import { createContext, ReactNode, useContext, useEffect, useMemo, useState } from "react";
+import { DARK_SCHEME_QUERY, ResolvedTheme, storedThemeMode, storeThemeMode, ThemeMode } from "./theme";
+import { colorTokens } from "./tokens";
+
+interface ThemeContextValue {
+  mode: ThemeMode;
+  /** The theme on screen: `mode`, or the OS preference when `mode` is "system" */
+  theme: ResolvedTheme;
+  setMode: (mode: ThemeMode) => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+/**
+ * Keeps `<html data-theme>` in step with the visitor's choice and, in System
+ * mode, with the OS setting. The pre-paint script in `index.html` sets the
+ * attribute before React loads, so the first render (which must match the
+ * prerendered HTML) does not touch it.
+ */
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const [mode, setModeState] = useState<ThemeMode>("system");
+  const [systemTheme, setSystemTheme] = useState<ResolvedTheme>("light");
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    const query = window.matchMedia(DARK_SCHEME_QUERY);
+    const update = () => setSystemTheme(query.matches ? "dark" : "light");
+
+    update();
+    setModeState(storedThemeMode());
+    setIsReady(true);
+
+    query.addEventListener("change", update);
+    return () => query.removeEventListener("change", update);
+  }, []);
+
+  const theme = mode === "system" ? systemTheme : mode;
+
+  useEffect(() => {
+    if (!isReady) return;
+    document.documentElement.dataset.theme = theme;
+
+    // Tints the browser chrome (Safari's tab bar, mobile address bars) to match the navbar
+    let themeColor = document.querySelector<HTMLMetaElement>('meta[name="theme-color"]');
+    if (!themeColor) {
+      themeColor = document.createElement("meta");
+      themeColor.name = "theme-color";
+      document.head.append(themeColor);
+    }
+    themeColor.content = colorTokens.appSurface[theme];
+  }, [isReady, theme]);
+
+  const value = useMemo<ThemeContextValue>(
+    () => ({
+      mode,
+      theme,
+      setMode: (next) => {
+        storeThemeMode(next);
+        setModeState(next);
+      },
+    }),
+    [mode, theme]
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+export function useTheme(): ThemeContextValue {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error("useTheme must be used inside a ThemeProvider");
+  }
+  return context;
+}
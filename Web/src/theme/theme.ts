@@ -0,0 +1,32 @@
+/** The same choices as the app's `AppTheme` setting */
+export const THEME_MODES = ["system", "light", "dark"] as const;
+
+export type ThemeMode = (typeof THEME_MODES)[number];
+
+export type ResolvedTheme = Exclude<ThemeMode, "system">;
+
+/** Also read by the pre-paint script in `index.html`; keep the two in sync */
+const STORAGE_KEY = "kartunes.theme";
+
+export const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+function isThemeMode(value: string): value is ThemeMode {
+  return (THEME_MODES as readonly string[]).includes(value);
+}
+
+export function storedThemeMode(): ThemeMode {
+  try {
+    const value = window.localStorage.getItem(STORAGE_KEY);
+    return value && isThemeMode(value) ? value : "system";
+  } catch {
+    return "system";
+  }
+}
+
+export function storeThemeMode(mode: ThemeMode) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies); the choice just won't persist.
+  }
+}
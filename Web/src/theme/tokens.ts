@@ -0,0 +1,55 @@
+// Generated by plugins/designTokens.ts from Kartunes/Assets.xcassets. Do not edit by hand.
+import type { ResolvedTheme } from "./theme";
+
+/** One per colorset in the app's asset catalog */
+export const COLOR_TOKENS = [
+  "appAccent",
+  "appAccentOnAccentText",
+  "appAccentSoft",
+  "appBackground",
+  "appBorder",
+  "appCardBackground",
+  "appOverlay",
+  "appSurface",
+  "appTextDisabled",
+  "appTextPrimary",
+  "appTextSecondary",
+  "playerBackground",
+  "playerControls",
+] as const;
+
+export type ColorToken = (typeof COLOR_TOKENS)[number];
+
+/** Each color as a CSS value for both themes */
+export const colorTokens: Record<ColorToken, Record<ResolvedTheme, string>> = {
+  appAccent: { light: "#eab308", dark: "#fcd34d" },
+  appAccentOnAccentText: { light: "#111827", dark: "#111827" },
+  appAccentSoft: { light: "rgba(234, 179, 8, 0.19)", dark: "rgba(252, 211, 77, 0.19)" },
+  appBackground: { light: "#f3f4f6", dark: "#050712" },
+  appBorder: { light: "#e5e7eb", dark: "#262b3a" },
+  appCardBackground: { light: "#f9fafb", dark: "#131826" },
+  appOverlay: { light: "rgba(0, 0, 0, 0.25)", dark: "rgba(5, 7, 18, 0.7)" },
+  appSurface: { light: "#ffffff", dark: "#0b0f1c" },
+  appTextDisabled: { light: "#9ca3af", dark: "#6b7280" },
+  appTextPrimary: { light: "#111827", dark: "#e5e7f1" },
+  appTextSecondary: { light: "#6b7280", dark: "#a6adc8" },
+  playerBackground: { light: "#ffffff", dark: "#0b0f1c" },
+  playerControls: { light: "#6d5df5", dark: "#6d5df5" },
+};
+
+/** The custom property `src/styles/tokens.css` defines for each color */
+export const colorTokenVariables: Record<ColorToken, string> = {
+  appAccent: "--app-accent",
+  appAccentOnAccentText: "--app-accent-on-accent-text",
+  appAccentSoft: "--app-accent-soft",
+  appBackground: "--app-background",
+  appBorder: "--app-border",
+  appCardBackground: "--app-card-background",
+  appOverlay: "--app-overlay",
+  appSurface: "--app-surface",
+  appTextDisabled: "--app-text-disabled",
+  appTextPrimary: "--app-text-primary",
+  appTextSecondary: "--app-text-secondary",
+  playerBackground: "--player-background",
+  playerControls: "--player-controls",
+};
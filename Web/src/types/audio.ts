@@ -0,0 +1,115 @@
+import type { MediaServerType } from "./server";
+
+export const AUDIO_CONTAINERS = [
+  "mp3",
+  "mp4",
+  "adts",
+  "caf",
+  "flac",
+  "ogg",
+  "wav",
+  "aiff",
+  "asf",
+  "ape",
+  "wavpack",
+  "dsf",
+  "dff",
+  "matroska",
+  "webm",
+] as const;
+
+export type AudioContainer = (typeof AUDIO_CONTAINERS)[number];
+
+export const audioContainerDisplayNames: Record<AudioContainer, string> = {
+  mp3: "MP3",
+  mp4: "MPEG-4 (M4A)",
+  adts: "ADTS",
+  caf: "Core Audio Format",
+  flac: "FLAC",
+  ogg: "Ogg",
+  wav: "WAV",
+  aiff: "AIFF",
+  asf: "ASF",
+  ape: "Monkey's Audio",
+  wavpack: "WavPack",
+  dsf: "DSF",
+  dff: "DSDIFF",
+  matroska: "Matroska",
+  webm: "WebM",
+};
+
+export const AUDIO_CODECS = [
+  "mp3",
+  "aac",
+  "alac",
+  "flac",
+  "pcm",
+  "vorbis",
+  "opus",
+  "wma",
+  "ape",
+  "wavpack",
+  "dsd",
+] as const;
+
+export type AudioCodec = (typeof AUDIO_CODECS)[number];
+
+export const audioCodecDisplayNames: Record<AudioCodec, string> = {
+  mp3: "MP3",
+  aac: "AAC",
+  alac: "ALAC",
+  flac: "FLAC",
+  pcm: "PCM",
+  vorbis: "Vorbis",
+  opus: "Opus",
+  wma: "WMA",
+  ape: "APE",
+  wavpack: "WavPack",
+  dsd: "DSD",
+};
+
+/** One row of the format reference: a codec in the containers it usually comes in */
+export interface AudioFormat {
+  id: string;
+  name: string;
+  codec: AudioCodec;
+  containers: AudioContainer[];
+  extensions: string[];
+  lossless: boolean;
+}
+
+/** What could be read from the start of a file; anything the header doesn't say is left out */
+export interface AudioProbe {
+  container: AudioContainer;
+  /** Missing when the container doesn't say, e.g. Matroska without parsing its tracks */
+  codec?: AudioCodec;
+  sampleRate?: number;
+  bitDepth?: number;
+  channels?: number;
+  durationSeconds?: number;
+  /** Average over the whole file when the duration is known, otherwise from the header */
+  bitrate?: number;
+}
+
+/**
+ * A request the app makes for a track, copied from its API clients. `{id}` is
+ * the item id and values in angle brackets are filled in per user or device.
+ */
+export interface StreamRequest {
+  path: string;
+  query: [name: string, value: string][];
+}
+
+export type PlaybackMethod = "directStream" | "transcode" | "unplayable";
+
+export type ServerLoad = "none" | "realtime" | "once";
+
+/** How one track reaches the app, for streaming or for an offline download */
+export interface PlaybackPlan {
+  server: MediaServerType;
+  method: PlaybackMethod;
+  request: StreamRequest;
+  load: ServerLoad;
+  /** Bits per second sent to the device, when it can be told */
+  bitrate?: number;
+}
@@ -0,0 +1,32 @@
+import type { MediaServerType } from "./server";
+
+export const BUG_REPORT_SURFACES = ["carPlay", "watch"] as const;
+
+/** Parts of the app beyond the iPhone that a bug can involve */
+export type BugReportSurface = (typeof BUG_REPORT_SURFACES)[number];
+
+export const bugReportSurfaceDisplayNames: Record<BugReportSurface, string> = {
+  carPlay: "CarPlay",
+  watch: "Apple Watch",
+};
+
+export interface BugReport {
+  title: string;
+  /** As shown in TestFlight or the App Store, or a commit when built from source */
+  appVersion: string;
+  deviceModel: string;
+  iosVersion: string;
+  /** Only asked for when the Watch is involved */
+  watchOSVersion: string;
+  /** `""` until one is picked */
+  serverType: MediaServerType | "";
+  serverVersion: string;
+  surfaces: BugReportSurface[];
+  steps: string;
+  expected: string;
+  actual: string;
+}
+
+export type BugReportField = Exclude<keyof BugReport, "surfaces">;
+
+export type BugReportError = "required" | "tooShort";
@@ -0,0 +1,33 @@
+import type { Locale } from "../i18n/locales";
+import type { PlatformId } from "./content";
+
+export const CHANGELOG_TAGS = ["feature", "fix", "server-compat"] as const;
+
+export type ChangelogTag = (typeof CHANGELOG_TAGS)[number];
+
+/** One release, from the frontmatter and body of `src/content/changelog/<version>.md` */
+export interface ChangelogEntry {
+  /** `major.minor.patch`, the app's marketing version */
+  version: string;
+  /** Release date, `YYYY-MM-DD` */
+  date: string;
+  title: string;
+  platforms: PlatformId[];
+  tags: ChangelogTag[];
+  /** Release notes in the Markdown subset of `src/utils/richText.ts` */
+  body: string;
+}
+
+/** `<version>.<locale>.md`: the title and notes of a release in another language */
+export type ChangelogTranslation = Partial<Pick<ChangelogEntry, "title" | "body">>;
+
+export interface Changelog {
+  /** Newest release first */
+  entries: ChangelogEntry[];
+  translations: Partial<Record<Locale, Record<string, ChangelogTranslation>>>;
+}
+
+export interface ChangelogFilter {
+  tags: ChangelogTag[];
+  platforms: PlatformId[];
+}
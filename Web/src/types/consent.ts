@@ -0,0 +1,15 @@
+/** Third-party embeds that stay as a placeholder until the visitor lets them load */
+export const EMBED_IDS = ["kofi", "github"] as const;
+
+export type EmbedId = (typeof EMBED_IDS)[number];
+
+/** The Content-Security-Policy fetch directives an embed can need an origin in */
+export type ExternalDirective = "connect-src" | "frame-src" | "img-src" | "script-src";
+
+export interface ThirdPartyEmbed {
+  id: EmbedId;
+  name: string;
+  /** Origins the embed loads from once allowed, by the directive that has to let them through */
+  origins: Partial<Record<ExternalDirective, string[]>>;
+  privacyPolicy: string;
+}
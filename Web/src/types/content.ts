@@ -0,0 +1,170 @@
+export const PLATFORM_STATUSES = ["available", "pending", "future"] as const;
+
+export type PlatformStatus = (typeof PLATFORM_STATUSES)[number];
+
+export type PlatformId = "iphone" | "watch" | "carplay" | "ipad" | "tvos";
+
+export interface Platform {
+  id: PlatformId;
+  name: string;
+  icon: string;
+  status: PlatformStatus;
+  description: string;
+  /** Shown below the capability list while the platform is pending */
+  note?: string;
+}
+
+/** Columns of the capability matrix: the apps, then the servers they connect to */
+export const CAPABILITY_TARGETS = ["iphone", "watch", "carplay", "jellyfin", "emby"] as const;
+
+export type CapabilityTarget = (typeof CAPABILITY_TARGETS)[number];
+
+export const SUPPORT_LEVELS = ["full", "partial", "pending", "planned"] as const;
+
+export type SupportLevel = (typeof SUPPORT_LEVELS)[number];
+
+export interface CapabilitySupport {
+  level: SupportLevel;
+  /** What "partial" leaves out, or anything else worth knowing on this target */
+  note?: string;
+}
+
+export interface Capability {
+  /** Stays the same in every language */
+  id: string;
+  title: string;
+  /** Card on the features page that describes it */
+  featureId?: string;
+  /** Targets left out don't have the capability at all */
+  support: Partial<Record<CapabilityTarget, CapabilitySupport>>;
+}
+
+export interface Feature {
+  /** Anchor on the features page; stays the same in every language */
+  id: string;
+  title: string;
+  description: string;
+  /** Features tied to a platform show that platform's status */
+  platform?: PlatformId;
+  /** Page that covers the feature in more depth, linked from its card */
+  link?: string;
+}
+
+export interface FeatureSection {
+  id: string;
+  icon: string;
+  title: string;
+  features: Feature[];
+}
+
+export interface Highlight {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+}
+
+export const FAQ_CATEGORIES = ["servers", "playback", "privacy", "platforms", "troubleshooting"] as const;
+
+export type FAQCategory = (typeof FAQ_CATEGORIES)[number];
+
+export interface FAQItem {
+  /** Stable URL segment for `/faq/<slug>`; never rename once published */
+  slug: string;
+  category: FAQCategory;
+  question: string;
+  /** Rich text, see `utils/richText.ts` for the supported syntax */
+  answer: string;
+}
+
+export interface Screenshot {
+  id: string;
+  name: string;
+  caption: string;
+  /** Paths relative to `public/`, resolved against the base URL when rendered */
+  lightMode: string;
+  darkMode: string;
+}
+
+export interface PageMeta {
+  path: string;
+  /** Page name shown before the site name; the home page uses the full site title */
+  title: string;
+  description: string;
+}
+
+export interface SetupStep {
+  id: string;
+  title: string;
+  /** Rich text, see `utils/richText.ts` */
+  body: string;
+}
+
+export interface InfoSection {
+  id: string;
+  icon?: string;
+  title: string;
+  /** Rich text, see `utils/richText.ts` */
+  body: string;
+}
+
+export interface TroubleshootAnswer {
+  /** Segment of the shareable `?path=`; never rename once published */
+  id: string;
+  label: string;
+  /** The exact message the app shows, for answers that mean "the app says …" */
+  appMessage?: string;
+  /** Id of the question or fix this answer leads to */
+  next: string;
+}
+
+export interface TroubleshootQuestion {
+  kind: "question";
+  id: string;
+  question: string;
+  detail?: string;
+  answers: TroubleshootAnswer[];
+}
+
+export interface TroubleshootFix {
+  kind: "fix";
+  id: string;
+  title: string;
+  /** Rich text, see `utils/richText.ts` */
+  body: string;
+}
+
+export type TroubleshootStep = TroubleshootQuestion | TroubleshootFix;
+
+type Translatable<T, K extends keyof T> = Partial<Pick<T, K>>;
+
+/**
+ * Translated text for the content modules, keyed by the ids of the English
+ * entries. Anything left out falls back to English, so a translation can be
+ * completed piece by piece.
+ */
+export interface ContentTranslation {
+  site?: { title?: string; imageAlt?: string };
+  pages?: Record<string, Translatable<PageMeta, "title" | "description">>;
+  platformStatusLabels?: Partial<Record<PlatformStatus, string>>;
+  platforms?: Partial<Record<PlatformId, Translatable<Platform, "name" | "description" | "note">>>;
+  supportLevelLabels?: Partial<Record<SupportLevel, string>>;
+  capabilities?: Record<string, { title?: string; notes?: Partial<Record<CapabilityTarget, string>> }>;
+  featureSections?: Record<
+    string,
+    { title?: string; features?: Record<string, Translatable<Feature, "title" | "description">> }
+  >;
+  highlights?: Record<string, Translatable<Highlight, "title" | "description">>;
+  faqCategoryLabels?: Partial<Record<FAQCategory, string>>;
+  faqs?: Record<string, Translatable<FAQItem, "question" | "answer">>;
+  screenshots?: Record<string, Translatable<Screenshot, "name" | "caption">>;
+  setupPrerequisites?: string[];
+  setupSteps?: Record<string, Translatable<SetupStep, "title" | "body">>;
+  setupNotes?: Record<string, Translatable<InfoSection, "title" | "body">>;
+  privacySections?: Record<string, Translatable<InfoSection, "title" | "body">>;
+  troubleshootSteps?: Record<
+    string,
+    Translatable<TroubleshootQuestion, "question" | "detail"> &
+      Translatable<TroubleshootFix, "title" | "body"> & { answers?: Record<string, string> }
+  >;
+}
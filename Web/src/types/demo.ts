@@ -0,0 +1,41 @@
+export interface DemoArtist {
+  id: string;
+  name: string;
+}
+
+export interface DemoAlbum {
+  id: string;
+  title: string;
+  artistId: string;
+  year: number;
+  genres: string[];
+  /** Hue of the generated cover art, 0–359 */
+  hue: number;
+  /** Order on the demo Home screen's "Recently Added" row; lower is newer */
+  addedRank: number;
+}
+
+export interface DemoTrack {
+  id: string;
+  title: string;
+  albumId: string;
+  artistId: string;
+  trackNumber: number;
+  genres: string[];
+  /** Seconds; the generated clip is exactly this long */
+  duration: number;
+}
+
+/** Mirrors the iOS app's `PlaybackContext`, minus the cases the demo has no data for */
+export type DemoPlaybackContext =
+  | { kind: "album"; albumId: string }
+  | { kind: "artist"; artistId: string }
+  | { kind: "genre"; genre: string }
+  | { kind: "allSongs" }
+  | { kind: "liked" }
+  | { kind: "instantMix"; seedTrackId: string }
+  | { kind: "custom" };
+
+export const REPEAT_MODES = ["off", "all", "one"] as const;
+
+export type RepeatMode = (typeof REPEAT_MODES)[number];
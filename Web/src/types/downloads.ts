@@ -0,0 +1,42 @@
+import type { PlaybackMethod } from "./audio";
+
+export const DOWNLOAD_AMOUNT_UNITS = ["tracks", "albums", "hours"] as const;
+
+export type DownloadAmountUnit = (typeof DOWNLOAD_AMOUNT_UNITS)[number];
+
+/** A kind of file found in libraries, at the bitrate such files typically average */
+export interface SourceProfile {
+  id: string;
+  /** Row in `audioFormats` the profile is encoded in */
+  formatId: string;
+  name: string;
+  /** Average bitrate in bits per second */
+  bitrate: number;
+}
+
+/** How much of the library a source profile makes up, as a relative weight */
+export type SourceMix = Record<string, number>;
+
+export interface SourceEstimate {
+  profile: SourceProfile;
+  /** Fraction of the listening time, 0–1 */
+  share: number;
+  seconds: number;
+  /** Size of the files on the server */
+  originalBytes: number;
+  /** Size of the same tracks downloaded by Kartunes */
+  downloadBytes: number;
+  streamMethod: PlaybackMethod;
+  /** Data used to stream the same tracks once; 0 when they won't play */
+  streamingBytes: number;
+  /** Data used per hour of streaming; 0 when they won't play */
+  streamingBytesPerHour: number;
+}
+
+export interface DownloadEstimate {
+  seconds: number;
+  sources: SourceEstimate[];
+  originalBytes: number;
+  downloadBytes: number;
+  streamingBytes: number;
+}
@@ -0,0 +1,41 @@
+/** The umbrella categories the app sorts genre tags into, in the order the map lists them */
+export const UMBRELLA_GENRES = [
+  "Electronic",
+  "Rock",
+  "Punk",
+  "Metal",
+  "Hip-Hop",
+  "R&B",
+  "Pop",
+  "Blues",
+  "Classical",
+  "Folk",
+  "Country",
+  "Jazz",
+  "Reggae",
+  "Latin",
+  "Soundtrack",
+  "World",
+  "Unknown",
+] as const;
+
+export type UmbrellaGenre = (typeof UMBRELLA_GENRES)[number];
+
+/** One raw tag run through the app's normalize → resolve steps */
+export interface GenreClassification {
+  raw: string;
+  normalized: string;
+  umbrella: UmbrellaGenre;
+}
+
+/** A guess for a tag the map does not know yet */
+export interface UmbrellaSuggestion {
+  umbrella: UmbrellaGenre;
+  /** The map entry the guess is based on */
+  basedOn: string;
+  /**
+   * `unreachable`: an entry that normalizes to this tag but never matches;
+   * `contains`: an entry found as whole words in the tag; `similar`: a likely typo
+   */
+  reason: "unreachable" | "contains" | "similar";
+}
@@ -0,0 +1,37 @@
+/** Library problems the app's importer works around without telling anyone */
+export const HEALTH_CHECKS = [
+  "missingAlbumArtist",
+  "joinedGenres",
+  "unknownGenre",
+  "missingArtwork",
+  "duplicateArtist",
+] as const;
+
+export type HealthCheck = (typeof HEALTH_CHECKS)[number];
+
+/** A server item to fix, linked to the server's web app */
+export interface HealthItem {
+  id: string;
+  name: string;
+  type: "track" | "album" | "artist";
+}
+
+export interface HealthIssue {
+  check: HealthCheck;
+  /** What the problem is about: an album, a genre tag or an artist's name */
+  subject: string;
+  /** The album artist, the parts of a joined tag or the umbrella a tag could go in */
+  detail?: string;
+  /** Tracks the problem shows up on in the app */
+  tracks: number;
+  items: HealthItem[];
+}
+
+export interface HealthReport {
+  scannedAt: string;
+  serverId?: string;
+  tracks: number;
+  albums: number;
+  artists: number;
+  issues: HealthIssue[];
+}
@@ -0,0 +1,52 @@
+import type { MediaServerType } from "./server";
+
+/** A signed-in user on a Jellyfin or Emby server, as `Users/AuthenticateByName` returns it */
+export interface ServerSession {
+  serverType: MediaServerType;
+  /** Base URL the API lives under, including `/emby` where the server needs it */
+  baseURL: string;
+  serverName?: string;
+  userId: string;
+  userName: string;
+  accessToken: string;
+  /** Identifies this browser to the server, so its sessions are told apart */
+  deviceId: string;
+}
+
+/** The fields of `BaseItemDto` the browser tools read */
+export interface MediaItem {
+  Id: string;
+  Name: string;
+  Type: string;
+  /** Identifies the server, which the web app's links need */
+  ServerId?: string;
+  Album?: string;
+  AlbumId?: string;
+  AlbumArtist?: string;
+  Artists?: string[];
+  /** Duration in ticks of 100 ns */
+  RunTimeTicks?: number;
+  Path?: string;
+  Container?: string;
+  Genres?: string[];
+  ProductionYear?: number;
+  DateCreated?: string;
+  /** With `Fields=MediaSources`; the first source is the file the server streams */
+  MediaSources?: { Container?: string; Bitrate?: number; Size?: number }[];
+  PlaylistItemId?: string;
+  ImageTags?: { Primary?: string };
+  AlbumPrimaryImageTag?: string;
+  UserData?: { IsFavorite?: boolean; PlayCount?: number; LastPlayedDate?: string };
+}
+
+export interface ItemsResult {
+  Items: MediaItem[];
+  TotalRecordCount: number;
+}
+
+/** Why a request to the user's server failed */
+export type ServerRequestFailure =
+  | { kind: "network" }
+  | { kind: "unauthorized" }
+  | { kind: "httpError"; statusCode: number }
+  | { kind: "invalidResponse" };
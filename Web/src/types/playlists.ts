@@ -0,0 +1,41 @@
+import type { MediaItem } from "./mediaServer";
+
+/** Formats playlists can be exported to; imports also take plain `.m3u` */
+export const PLAYLIST_FORMATS = ["m3u8", "xspf", "csv"] as const;
+
+export type PlaylistFormat = (typeof PLAYLIST_FORMATS)[number];
+
+/** One line of a playlist file, with whatever the file says about the track */
+export interface PlaylistEntry {
+  title: string;
+  artist?: string;
+  album?: string;
+  /** Seconds */
+  duration?: number;
+  /** File path or URL as written in the file */
+  location?: string;
+}
+
+export interface PlaylistFile {
+  name: string;
+  entries: PlaylistEntry[];
+}
+
+/**
+ * `matched` picks a library track on its own, `ambiguous` needs the visitor to
+ * choose between close candidates, `unmatched` found nothing close enough.
+ */
+export type MatchStatus = "matched" | "ambiguous" | "unmatched";
+
+export interface MatchCandidate {
+  item: MediaItem;
+  /** 0–1, higher is closer */
+  score: number;
+}
+
+export interface TrackMatch {
+  entry: PlaylistEntry;
+  status: MatchStatus;
+  /** Best first */
+  candidates: MatchCandidate[];
+}
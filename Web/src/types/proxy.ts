@@ -0,0 +1,51 @@
+import type { MediaServerType } from "./server";
+
+export const REVERSE_PROXIES = ["nginx", "caddy", "traefik", "apache"] as const;
+
+export type ReverseProxy = (typeof REVERSE_PROXIES)[number];
+
+export const reverseProxyDisplayNames: Record<ReverseProxy, string> = {
+  nginx: "nginx",
+  caddy: "Caddy",
+  traefik: "Traefik",
+  apache: "Apache",
+};
+
+export interface ProxyConfigOptions {
+  mediaServer: MediaServerType;
+  proxy: ReverseProxy;
+  /** Public host name, e.g. `music.example.com` */
+  domain: string;
+  /** Where the proxy reaches the media server, e.g. `127.0.0.1` or a container name */
+  upstreamHost: string;
+  upstreamPort: number;
+  /** `""` to serve from the domain root, otherwise a path such as `/emby` */
+  subpath: string;
+  tls: boolean;
+  websockets: boolean;
+  /** Largest accepted request body in MB; 0 removes the limit */
+  maxBodyMB: number;
+  /** Pass responses through as they arrive, so long tracks start playing at once */
+  unbufferedStreaming: boolean;
+  /** Send CORS headers so this site's server check and tools can call the server */
+  allowSiteChecks: boolean;
+}
+
+export type ProxyOptionError = "required" | "invalidDomain" | "invalidHost" | "invalidPort" | "invalidSubpath" | "invalidBodySize";
+
+export type ProxyConfigNote =
+  | { kind: "jellyfinBaseURL"; subpath: string }
+  | { kind: "embyStripsPrefix"; subpath: string }
+  | { kind: "certbot"; domain: string }
+  | { kind: "caddyAutomaticTLS" }
+  | { kind: "traefikStaticConfig" }
+  | { kind: "apacheModules" }
+  | { kind: "noTLS" };
+
+export interface ProxyConfig {
+  filename: string;
+  contents: string;
+  /** The address to enter in the app */
+  serverURL: string;
+  notes: ProxyConfigNote[];
+}
@@ -0,0 +1,24 @@
+/** Where visitors can get the app */
+export type AppAvailability =
+  | { state: "unreleased" }
+  /** Public beta; `testFlightURL` is the public invite link */
+  | { state: "testflight"; testFlightURL: string }
+  /** Live on the App Store; `appId` is the numeric id from the listing URL */
+  | { state: "appStore"; appId: string };
+
+export type AppState = AppAvailability["state"];
+
+export const REVIEW_STATES = ["pending", "approved"] as const;
+
+/** Where a feature that needs Apple's separate approval stands */
+export type ReviewState = (typeof REVIEW_STATES)[number];
+
+/** Features that ship only once Apple approves them, such as the CarPlay entitlement */
+export type ReviewedFeature = "carplay";
+
+export interface ReleaseConfig {
+  app: AppAvailability;
+  features: Record<ReviewedFeature, ReviewState>;
+}
+
+export type ReleasedApp = Exclude<AppAvailability, { state: "unreleased" }>;
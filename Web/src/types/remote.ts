@@ -0,0 +1,20 @@
+import type { MediaItem } from "./mediaServer";
+
+/** The fields of a server's `SessionInfo` the remote reads */
+export interface SessionInfo {
+  Id: string;
+  /** Client name from the session's `X-Emby-Authorization` header, `Kartunes` for the app */
+  Client: string;
+  DeviceName: string;
+  DeviceId: string;
+  UserName?: string;
+  LastActivityDate?: string;
+  /** Set while the client reports playback with `Sessions/Playing` */
+  NowPlayingItem?: MediaItem;
+  PlayState?: {
+    /** Ticks of 100 ns */
+    PositionTicks?: number;
+    IsPaused?: boolean;
+    CanSeek?: boolean;
+  };
+}
@@ -0,0 +1,18 @@
+/** One searchable section of the site, generated at build time */
+export interface SearchDocument {
+  id: string;
+  /** Route the section lives on */
+  path: string;
+  /** Element id on that route to scroll to */
+  anchor?: string;
+  /** Name of the page, shown next to each result */
+  page: string;
+  title: string;
+  text: string;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: string;
+}
@@ -0,0 +1,48 @@
+export type MediaServerType = "jellyfin" | "emby";
+
+export const mediaServerDisplayNames: Record<MediaServerType, string> = {
+  jellyfin: "Jellyfin",
+  emby: "Emby",
+};
+
+/** Public system info response from Jellyfin/Emby servers */
+export interface PublicSystemInfo {
+  ProductName?: string;
+  ServerName?: string;
+  Version?: string;
+  LocalAddress?: string;
+}
+
+export interface ServerDetectionResult {
+  serverType: MediaServerType;
+  baseURL: string;
+  serverName?: string;
+  version?: string;
+}
+
+/**
+ * Mirrors `ServerDetectionError` in the iOS app, with the browser-only
+ * network failures (CORS, mixed content, timeouts) split out of `networkError`.
+ */
+export type ServerDetectionFailure =
+  | { kind: "invalidURL" }
+  | { kind: "mixedContent" }
+  | { kind: "cors" }
+  | { kind: "unreachable" }
+  | { kind: "timeout" }
+  | { kind: "invalidResponse" }
+  | { kind: "httpError"; statusCode: number }
+  | { kind: "decodingError" }
+  | { kind: "unknownServerType"; productName?: string }
+  | { kind: "noCompatibleServer" };
+
+export interface ProbeAttempt {
+  url: string;
+  failure?: ServerDetectionFailure;
+}
+
+export interface ServerDetectionReport {
+  attempts: ProbeAttempt[];
+  result?: ServerDetectionResult;
+  failure?: ServerDetectionFailure;
+}
@@ -0,0 +1,80 @@
+/** The intents the app's Intents extension handles (`IntentHandler`) */
+export const SIRI_INTENTS = ["playMedia", "updateMediaAffinity"] as const;
+
+export type SiriIntent = (typeof SIRI_INTENTS)[number];
+
+/** `INMediaItemType`s `PlayMediaIntentHandler` searches for; Siri's other types find nothing */
+export const SIRI_MEDIA_TYPES = ["artist", "album", "song", "music", "playlist"] as const;
+
+export type SiriMediaType = (typeof SIRI_MEDIA_TYPES)[number];
+
+/** Mirrors the app's `SiriPlaybackRequestType`: what it plays once Siri hands over */
+export type SiriPlaybackTarget = "artist" | "album" | "track" | "playlist";
+
+/** How a sentence comes out, which names the phrase group it belongs in */
+export type SiriPhraseKind = SiriMediaType | "shuffle" | "like" | "dislike";
+
+export interface SiriPhraseGroup {
+  /** Every phrase in the group must come out as this kind; names the group's messages */
+  id: SiriPhraseKind;
+  intent: SiriIntent;
+  /** Spoken phrases, in English, with names from the sample library */
+  phrases: string[];
+}
+
+/** Why a sentence leads nowhere in Kartunes */
+export type SiriUnsupportedReason = "notMedia" | "noName" | "genre";
+
+/** What Siri would most likely hand the app for a sentence */
+export type SiriRequest =
+  | {
+      intent: "playMedia";
+      /** `mediaSearch.mediaType` */
+      mediaType: SiriMediaType;
+      mediaName?: string;
+      artistName?: string;
+      albumName?: string;
+      shuffle: boolean;
+    }
+  | { intent: "updateMediaAffinity"; like: boolean }
+  | { intent: "unsupported"; reason: SiriUnsupportedReason; term?: string };
+
+export type SiriPlayRequest = Extract<SiriRequest, { intent: "playMedia" }>;
+
+export interface ParsedSiriPhrase {
+  request: SiriRequest;
+  /** Whether the sentence names the app, which Siri needs until it has learned Kartunes is the music app */
+  mentionsApp: boolean;
+}
+
+/** The Core Data search `MediaCatalogService` runs for a play request */
+export interface SiriSearch {
+  target: SiriPlaybackTarget;
+  term: string;
+  /** Narrows albums and songs to those whose artist's name contains it */
+  artist?: string;
+  /** Songs whose artist's name contains the term match too, when no artist is given */
+  orArtist: boolean;
+}
+
+/** The names the search reads, from the sample library or the user's server */
+export interface SiriLibrary {
+  artists: { id: string; name: string }[];
+  albums: { id: string; title: string; artist?: string }[];
+  tracks: { id: string; title: string; artist?: string; album?: string }[];
+  playlists: { id: string; name: string }[];
+}
+
+export interface SiriMatch {
+  id: string;
+  title: string;
+  /** The artist, or the album and artist of a song */
+  detail?: string;
+}
+
+export interface SiriSearchResult {
+  /** The results Siri gets, at most `SIRI_RESULT_LIMIT` */
+  matches: SiriMatch[];
+  /** What the catalog fetched before the cut, at most `SIRI_FETCH_LIMIT` */
+  total: number;
+}
@@ -0,0 +1,67 @@
+import type { UmbrellaGenre } from "./genres";
+
+/** Time ranges the dashboard can show, by the date of each track's latest play */
+export const STATS_RANGES = ["week", "month", "year", "all"] as const;
+
+export type StatsRange = (typeof STATS_RANGES)[number];
+
+/** An artist, album or track in a top list */
+export interface RankedEntry {
+  name: string;
+  /** Artist of an album or track */
+  detail?: string;
+  /** All-time plays of its tracks, whatever the range */
+  plays: number;
+  /** Plays times track length */
+  seconds: number;
+}
+
+/** Listening in one day or month of the timeline, keyed `YYYY-MM-DD` or `YYYY-MM` */
+export interface TimelineBucket {
+  key: string;
+  seconds: number;
+  tracks: number;
+}
+
+export interface GenreShare {
+  umbrella: UmbrellaGenre;
+  tracks: number;
+  /** Counted as in `ListeningSummary.plays` */
+  plays: number;
+}
+
+export interface ListeningSummary {
+  range: StatsRange;
+  /** Every play for All Time; one per track played otherwise, as the timeline counts them */
+  plays: number;
+  seconds: number;
+  tracksPlayed: number;
+  favourites: number;
+  topArtists: RankedEntry[];
+  topAlbums: RankedEntry[];
+  topTracks: RankedEntry[];
+  timeline: { granularity: "day" | "month"; buckets: TimelineBucket[] };
+  genres: GenreShare[];
+}
+
+/** What is in a library, counted in tracks */
+export interface CompositionShare {
+  /** Missing for tracks the server has no value for */
+  label?: string;
+  tracks: number;
+}
+
+export const MISSING_TAGS = ["artwork", "album", "artist", "genre", "year"] as const;
+
+export type MissingTag = (typeof MISSING_TAGS)[number];
+
+export interface LibraryComposition {
+  tracks: number;
+  albums: number;
+  seconds: number;
+  bytes: number;
+  formats: CompositionShare[];
+  bitrates: CompositionShare[];
+  /** Tracks without each tag; `artwork` counts albums without a Primary image */
+  missing: Record<MissingTag, number>;
+}
@@ -0,0 +1,122 @@
+import { audioFormats, streamRequests, TRANSCODE_BITRATE } from "../content/audioFormats";
+import {
+  AUDIO_CODECS,
+  AUDIO_CONTAINERS,
+  type AudioCodec,
+  type AudioContainer,
+  type AudioFormat,
+  type PlaybackPlan,
+  type StreamRequest,
+} from "../types/audio";
+import type { MediaServerType } from "../types/server";
+
+/** What AVPlayer decodes on iOS; anything else has to be converted by the server */
+const NATIVE_CODECS = new Set<AudioCodec>(["mp3", "aac", "alac", "flac", "pcm"]);
+/** …and the containers it opens. FLAC or AAC inside Ogg or Matroska still won't play */
+const NATIVE_CONTAINERS = new Set<AudioContainer>(["mp3", "mp4", "adts", "caf", "flac", "wav", "aiff"]);
+
+/** Other names people type, mostly file extensions and the spellings servers report */
+const CODEC_ALIASES: Record<string, AudioCodec> = {
+  mpeg: "mp3",
+  mp3float: "mp3",
+  m4a: "aac",
+  "he-aac": "aac",
+  aac_latm: "aac",
+  "apple lossless": "alac",
+  wav: "pcm",
+  aiff: "pcm",
+  pcm_s16le: "pcm",
+  pcm_s24le: "pcm",
+  pcm_s16be: "pcm",
+  pcm_s24be: "pcm",
+  ogg: "vorbis",
+  wmav2: "wma",
+  wmapro: "wma",
+  wmalossless: "wma",
+  "monkey's audio": "ape",
+  wv: "wavpack",
+  dsf: "dsd",
+  dff: "dsd",
+  dsd_lsbf: "dsd",
+  dsd_msbf: "dsd",
+};
+
+const CONTAINER_ALIASES: Record<string, AudioContainer> = {
+  m4a: "mp4",
+  m4b: "mp4",
+  mov: "mp4",
+  aac: "adts",
+  oga: "ogg",
+  opus: "ogg",
+  wave: "wav",
+  aif: "aiff",
+  aifc: "aiff",
+  wma: "asf",
+  wv: "wavpack",
+  mka: "matroska",
+  mkv: "matroska",
+};
+
+function normalizeName(input: string): string {
+  return input.trim().toLowerCase().replace(/^\./, "");
+}
+
+export function parseCodec(input: string): AudioCodec | null {
+  const name = normalizeName(input);
+  return (AUDIO_CODECS as readonly string[]).includes(name) ? (name as AudioCodec) : (CODEC_ALIASES[name] ?? null);
+}
+
+export function parseContainer(input: string): AudioContainer | null {
+  const name = normalizeName(input);
+  return (AUDIO_CONTAINERS as readonly string[]).includes(name)
+    ? (name as AudioContainer)
+    : (CONTAINER_ALIASES[name] ?? null);
+}
+
+export function canPlayNatively(codec: AudioCodec, container: AudioContainer): boolean {
+  return NATIVE_CODECS.has(codec) && NATIVE_CONTAINERS.has(container);
+}
+
+export function formatPlaysNatively(format: AudioFormat): boolean {
+  return format.containers.some((container) => canPlayNatively(format.codec, container));
+}
+
+/** The reference row for a codec, preferring the one listed with this container */
+export function findAudioFormat(codec: AudioCodec, container: AudioContainer | null): AudioFormat | undefined {
+  return (
+    (container && audioFormats.find((format) => format.codec === codec && format.containers.includes(container))) ||
+    audioFormats.find((format) => format.codec === codec)
+  );
+}
+
+/**
+ * What the app does when a track is played. Jellyfin is asked through
+ * `PlaybackInfo` whether the file can be streamed as is, and sends an HLS
+ * transcode when it can't. Emby is always asked for the original file, because
+ * its HLS endpoint turned out unreliable, so formats iOS can't decode don't play.
+ */
+export function streamingPlan(
+  server: MediaServerType,
+  codec: AudioCodec,
+  container: AudioContainer,
+  sourceBitrate?: number
+): PlaybackPlan {
+  const requests = streamRequests[server];
+  if (canPlayNatively(codec, container)) {
+    return { server, method: "directStream", request: requests.directStream, load: "none", bitrate: sourceBitrate };
+  }
+  if (server === "emby") {
+    return { server, method: "unplayable", request: requests.directStream, load: "none", bitrate: sourceBitrate };
+  }
+  return { server, method: "transcode", request: requests.transcode, load: "realtime", bitrate: TRANSCODE_BITRATE };
+}
+
+/** Offline downloads are always converted to 320 kbps AAC, whatever the original */
+export function downloadPlan(server: MediaServerType): PlaybackPlan {
+  return { server, method: "transcode", request: streamRequests[server].download, load: "once", bitrate: TRANSCODE_BITRATE };
+}
+
+/** The request as a readable relative URL, without percent-encoding the placeholders */
+export function formatStreamRequest(request: StreamRequest): string {
+  return `/${request.path}?${request.query.map(([name, value]) => `${name}=${value}`).join("&")}`;
+}
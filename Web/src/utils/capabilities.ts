@@ -0,0 +1,47 @@
+import type { Capability, CapabilitySupport, CapabilityTarget, PlatformId, SupportLevel } from "../types/content";
+
+/** Sort order for a column: best support first, unsupported last */
+const LEVEL_RANK: Record<SupportLevel, number> = { full: 0, partial: 1, pending: 2, planned: 3 };
+const UNSUPPORTED_RANK = 4;
+
+export type CapabilitySort = "title" | CapabilityTarget;
+
+/** Whether the capability can be used on a target today */
+export function worksOn(capability: Capability, target: CapabilityTarget): boolean {
+  const level = capability.support[target]?.level;
+  return level === "full" || level === "partial";
+}
+
+/** Capabilities a platform has or is waiting for, as its card lists them */
+export function platformCapabilities(
+  capabilities: Capability[],
+  platform: PlatformId
+): { capability: Capability; support: CapabilitySupport }[] {
+  return capabilities.flatMap((capability) => {
+    const support = capability.support[platform as CapabilityTarget];
+    return support && support.level !== "planned" ? [{ capability, support }] : [];
+  });
+}
+
+export function filterCapabilities(capabilities: Capability[], works: CapabilityTarget[], query: string): Capability[] {
+  const needle = query.trim().toLowerCase();
+  return capabilities.filter(
+    (capability) =>
+      works.every((target) => worksOn(capability, target)) &&
+      (!needle ||
+        capability.title.toLowerCase().includes(needle) ||
+        Object.values(capability.support).some((support) => support.note?.toLowerCase().includes(needle)))
+  );
+}
+
+/** Sorted by title, or by support on one target; ties keep the content order */
+export function sortCapabilities(capabilities: Capability[], sort: CapabilitySort, descending: boolean, locale: string): Capability[] {
+  const direction = descending ? -1 : 1;
+  const rank = (capability: Capability, target: CapabilityTarget) => {
+    const level = capability.support[target]?.level;
+    return level ? LEVEL_RANK[level] : UNSUPPORTED_RANK;
+  };
+  return [...capabilities].sort((a, b) =>
+    sort === "title" ? direction * a.title.localeCompare(b.title, locale) : direction * (rank(a, sort) - rank(b, sort))
+  );
+}
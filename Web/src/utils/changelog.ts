@@ -0,0 +1,121 @@
+import { localizePath, type Locale } from "../i18n/locales";
+import type { Changelog, ChangelogEntry, ChangelogFilter, ChangelogTag } from "../types/changelog";
+import type { PlatformId } from "../types/content";
+
+/** Releases per page of `/changelog` */
+export const CHANGELOG_PAGE_SIZE = 10;
+
+/** `1.2.0.md` is a release, `1.2.0.et.md` its translation */
+const FILE_NAME_PATTERN = /([^/]+?)(?:\.([a-z]{2}))?\.md$/;
+
+export interface ChangelogFile {
+  /** The version in the file name */
+  version: string;
+  /** Set for translations */
+  locale?: string;
+  fields: Record<string, string>;
+  body: string;
+}
+
+/** Splits a file into its `key: value` frontmatter between `---` lines and the Markdown after it */
+export function parseChangelogFile(path: string, source: string): ChangelogFile | null {
+  const name = path.match(FILE_NAME_PATTERN);
+  if (!name) return null;
+
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  const fields: Record<string, string> = {};
+  for (const line of match ? match[1].split(/\r?\n/) : []) {
+    const colon = line.indexOf(":");
+    if (colon > 0) fields[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+  return { version: name[1], locale: name[2], fields, body: (match ? match[2] : source).trim() };
+}
+
+function list(value = ""): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** Numeric comparison of `major.minor.patch` versions, for sorting oldest first */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Reads the release files, keyed by path. Fields are taken as written; the
+ * build checks them with `changelogErrors()` in `src/content/validate.ts`.
+ */
+export function readChangelog(sources: Record<string, string>): Changelog {
+  const entries: ChangelogEntry[] = [];
+  const translations: Changelog["translations"] = {};
+
+  for (const [path, source] of Object.entries(sources)) {
+    const file = parseChangelogFile(path, source);
+    if (!file) continue;
+
+    const { fields, body } = file;
+    if (file.locale) {
+      const locale = file.locale as Locale;
+      translations[locale] = { ...translations[locale], [file.version]: { title: fields.title, body: body || undefined } };
+      continue;
+    }
+    entries.push({
+      version: fields.version ?? "",
+      date: fields.date ?? "",
+      title: fields.title ?? "",
+      platforms: list(fields.platforms) as PlatformId[],
+      tags: list(fields.tags) as ChangelogTag[],
+      body,
+    });
+  }
+
+  return { entries: entries.sort((a, b) => compareVersions(b.version, a.version)), translations };
+}
+
+/** Releases with any of the chosen tags on any of the chosen platforms; an empty list matches everything */
+export function filterChangelog(entries: ChangelogEntry[], { tags, platforms }: ChangelogFilter): ChangelogEntry[] {
+  return entries.filter(
+    (entry) =>
+      (tags.length === 0 || entry.tags.some((tag) => tags.includes(tag))) &&
+      (platforms.length === 0 || entry.platforms.some((platform) => platforms.includes(platform)))
+  );
+}
+
+export function changelogPageCount(entryCount: number): number {
+  return Math.max(1, Math.ceil(entryCount / CHANGELOG_PAGE_SIZE));
+}
+
+export function changelogPage<T>(entries: T[], page: number): T[] {
+  return entries.slice((page - 1) * CHANGELOG_PAGE_SIZE, page * CHANGELOG_PAGE_SIZE);
+}
+
+/** The first page is `/changelog` itself */
+export function changelogPagePath(page: number): string {
+  return page === 1 ? "/changelog" : `/changelog/page/${page}`;
+}
+
+export function releasePath(version: string): string {
+  return `/changelog/${version}`;
+}
+
+export type FeedFormat = "atom" | "rss";
+
+export const FEED_FORMATS: FeedFormat[] = ["atom", "rss"];
+
+export const feedMediaTypes: Record<FeedFormat, string> = {
+  atom: "application/atom+xml",
+  rss: "application/rss+xml",
+};
+
+/** Where the prerender step writes the changelog feed for a locale, e.g. `/et/changelog/atom.xml` */
+export function feedPath(format: FeedFormat, locale: Locale): string {
+  return `${localizePath("/changelog", locale)}/${format}.xml`;
+}
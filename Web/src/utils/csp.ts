@@ -0,0 +1,36 @@
+import { thirdPartyEmbeds } from "../content/thirdParty";
+import type { ExternalDirective } from "../types/consent";
+
+/** Origins allowed in a directive, from the embeds that declare it */
+function embedOrigins(directive: ExternalDirective): string[] {
+  return thirdPartyEmbeds.flatMap((embed) => embed.origins[directive] ?? []);
+}
+
+/** Every origin other than the site's own that a page may load from */
+export function declaredOrigins(): Set<string> {
+  return new Set(thirdPartyEmbeds.flatMap((embed) => Object.values(embed.origins).flat()));
+}
+
+/**
+ * The policy every prerendered page carries in a `<meta>` tag. Inline scripts
+ * must be listed by hash, e.g. `'sha256-…'`. Styles allow `'unsafe-inline'`
+ * because React writes dynamic widths and colours as `style` attributes, and
+ * `connect-src` allows any server because the server checker talks to the one
+ * the visitor enters. Artwork from that server is fetched the same way and
+ * shown from a `blob:` URL.
+ */
+export function contentSecurityPolicy(scriptHashes: string[]): string {
+  const directives: [string, string[]][] = [
+    ["default-src", ["'self'"]],
+    ["script-src", ["'self'", ...scriptHashes, ...embedOrigins("script-src")]],
+    ["style-src", ["'self'", "'unsafe-inline'"]],
+    ["img-src", ["'self'", "blob:", ...embedOrigins("img-src")]],
+    ["media-src", ["'self'", "blob:"]],
+    ["connect-src", ["'self'", "https:", "http:", ...embedOrigins("connect-src")]],
+    ["frame-src", embedOrigins("frame-src")],
+    ["object-src", []],
+    ["base-uri", ["'self'"]],
+    ["form-action", ["'self'"]],
+  ];
+  return directives.map(([name, sources]) => `${name} ${sources.length > 0 ? sources.join(" ") : "'none'"}`).join("; ");
+}
@@ -0,0 +1,11 @@
+export type CSVValue = string | number | boolean | undefined;
+
+function csvField(value: CSVValue): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Rows as CSV with CRLF line endings, quoting only the fields that need it */
+export function formatCSV(rows: CSVValue[][]): string {
+  return [...rows.map((row) => row.map(csvField).join(",")), ""].join("\r\n");
+}
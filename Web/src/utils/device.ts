@@ -0,0 +1,15 @@
+export type DeviceKind = "iphone" | "ipad" | "android" | "desktop";
+
+/** What kind of device a browser runs on, from its user agent and touch support */
+export function detectDevice(userAgent: string, maxTouchPoints = 0): DeviceKind {
+  if (/iPhone|iPod/.test(userAgent)) return "iphone";
+  // iPadOS asks for desktop sites and reports itself as a Mac; only the touch screen gives it away
+  if (/iPad/.test(userAgent) || (/Macintosh/.test(userAgent) && maxTouchPoints > 1)) return "ipad";
+  if (/Android/.test(userAgent)) return "android";
+  return "desktop";
+}
+
+/** Devices that can install the app from a link directly */
+export function canInstallApp(device: DeviceKind): boolean {
+  return device === "iphone" || device === "ipad";
+}
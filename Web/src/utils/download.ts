@@ -0,0 +1,9 @@
+/** Saves generated text as a file through a temporary object URL */
+export function downloadFile(contents: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
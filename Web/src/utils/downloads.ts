@@ -0,0 +1,69 @@
+import { audioFormats, TRANSCODE_BITRATE } from "../content/audioFormats";
+import { AVERAGE_TRACK_SECONDS, sourceProfiles, TRACKS_PER_ALBUM } from "../content/downloads";
+import type { DownloadAmountUnit, DownloadEstimate, SourceMix, SourceProfile } from "../types/downloads";
+import type { MediaServerType } from "../types/server";
+import { streamingPlan } from "./audioFormats";
+
+const SECONDS_PER_HOUR = 3600;
+
+export function listeningSeconds(amount: number, unit: DownloadAmountUnit): number {
+  const count = Math.max(0, amount);
+  switch (unit) {
+    case "tracks":
+      return count * AVERAGE_TRACK_SECONDS;
+    case "albums":
+      return count * TRACKS_PER_ALBUM * AVERAGE_TRACK_SECONDS;
+    case "hours":
+      return count * SECONDS_PER_HOUR;
+  }
+}
+
+function bytesAt(bitrate: number, seconds: number): number {
+  return (bitrate / 8) * seconds;
+}
+
+function streamMethodFor(profile: SourceProfile, server: MediaServerType) {
+  const format = audioFormats.find((candidate) => candidate.id === profile.formatId);
+  if (!format) {
+    throw new Error(`Source profile ${profile.id} refers to unknown format ${profile.formatId}`);
+  }
+  return streamingPlan(server, format.codec, format.containers[0], profile.bitrate);
+}
+
+/**
+ * Storage and data for listening time split across a mix of source files.
+ * Downloads are always the app's 320 kbps AAC transcode; streaming uses the
+ * original bitrate for files iOS plays and the same transcode for the rest,
+ * since the app has no separate setting for cellular connections.
+ */
+export function estimateDownloads(seconds: number, mix: SourceMix, server: MediaServerType): DownloadEstimate {
+  const weights = sourceProfiles.map((profile) => Math.max(0, mix[profile.id] ?? 0));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const sources = sourceProfiles
+    .map((profile, index) => {
+      const share = totalWeight > 0 ? weights[index] / totalWeight : 0;
+      const sourceSeconds = seconds * share;
+      const plan = streamMethodFor(profile, server);
+      const streamBitrate = plan.method === "unplayable" ? 0 : (plan.bitrate ?? profile.bitrate);
+      return {
+        profile,
+        share,
+        seconds: sourceSeconds,
+        originalBytes: bytesAt(profile.bitrate, sourceSeconds),
+        downloadBytes: bytesAt(TRANSCODE_BITRATE, sourceSeconds),
+        streamMethod: plan.method,
+        streamingBytes: bytesAt(streamBitrate, sourceSeconds),
+        streamingBytesPerHour: bytesAt(streamBitrate, SECONDS_PER_HOUR),
+      };
+    })
+    .filter((source) => source.share > 0);
+
+  return {
+    seconds,
+    sources,
+    originalBytes: sources.reduce((sum, source) => sum + source.originalBytes, 0),
+    downloadBytes: sources.reduce((sum, source) => sum + source.downloadBytes, 0),
+    streamingBytes: sources.reduce((sum, source) => sum + source.streamingBytes, 0),
+  };
+}
@@ -0,0 +1,149 @@
+import { getContent } from "../content/localized";
+import { site } from "../content/site";
+import { localizePath, type Locale } from "../i18n/locales";
+import { translator } from "../i18n/messages";
+import type { ChangelogEntry } from "../types/changelog";
+import { feedMediaTypes, feedPath, releasePath, type FeedFormat } from "./changelog";
+import { parseRichText, type InlineNode } from "./richText";
+import { canonicalURL, escapeHTML } from "./seo";
+
+function absoluteURL(href: string, locale: Locale): string {
+  if (!href.startsWith("/")) return href;
+  const [path, hash] = href.split("#");
+  return `${canonicalURL(localizePath(path, locale))}${hash ? `#${hash}` : ""}`;
+}
+
+function inlineHTML(nodes: InlineNode[], locale: Locale): string {
+  return nodes
+    .map((node) => {
+      const text = escapeHTML(node.text);
+      switch (node.type) {
+        case "text":
+          return text;
+        case "code":
+          return `<code>${text}</code>`;
+        case "strong":
+          return `<strong>${text}</strong>`;
+        case "link":
+          return `<a href="${escapeHTML(absoluteURL(node.href, locale))}">${text}</a>`;
+      }
+    })
+    .join("");
+}
+
+/** Release notes as the HTML feed readers show, with site links made absolute */
+function notesHTML(source: string, locale: Locale): string {
+  return parseRichText(source)
+    .map((block) =>
+      block.type === "paragraph"
+        ? `<p>${inlineHTML(block.children, locale)}</p>`
+        : `<ul>${block.items.map((item) => `<li>${inlineHTML(item, locale)}</li>`).join("")}</ul>`
+    )
+    .join("\n");
+}
+
+/** Midnight UTC on a `YYYY-MM-DD` release date */
+function releaseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+interface FeedItem {
+  entry: ChangelogEntry;
+  title: string;
+  url: string;
+  categories: string[];
+  html: string;
+}
+
+interface Feed {
+  locale: Locale;
+  title: string;
+  description: string;
+  url: string;
+  feedURL: string;
+  items: FeedItem[];
+}
+
+function changelogFeed(format: FeedFormat, entries: ChangelogEntry[], locale: Locale): Feed {
+  const t = translator(locale);
+  const { platforms } = getContent(locale);
+  const platformName = (id: string) => platforms.find((platform) => platform.id === id)?.name ?? id;
+
+  return {
+    locale,
+    title: t("changelog.feedTitle", { name: site.name }),
+    description: t("changelog.feedDescription"),
+    url: canonicalURL(localizePath("/changelog", locale)),
+    feedURL: `${site.url}${feedPath(format, locale)}`,
+    items: entries.map((entry) => ({
+      entry,
+      title: t("changelog.releaseTitle", { version: entry.version, title: entry.title }),
+      url: canonicalURL(localizePath(releasePath(entry.version), locale)),
+      categories: [...entry.tags.map((tag) => t(`changelog.tag.${tag}`)), ...entry.platforms.map(platformName)],
+      html: notesHTML(entry.body, locale),
+    })),
+  };
+}
+
+function renderAtom(feed: Feed): string {
+  const updated = releaseDate(feed.items[0]?.entry.date ?? "1970-01-01").toISOString();
+  const items = feed.items.map(
+    (item) => `  <entry>
+    <title>${escapeHTML(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeHTML(item.url)}" />
+    <id>${escapeHTML(item.url)}</id>
+    <published>${releaseDate(item.entry.date).toISOString()}</published>
+    <updated>${releaseDate(item.entry.date).toISOString()}</updated>
+${item.categories.map((category) => `    <category term="${escapeHTML(category)}" />`).join("\n")}
+    <content type="html">${escapeHTML(item.html)}</content>
+  </entry>`
+  );
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.locale}">
+  <title>${escapeHTML(feed.title)}</title>
+  <subtitle>${escapeHTML(feed.description)}</subtitle>
+  <link rel="self" type="${feedMediaTypes.atom}" href="${escapeHTML(feed.feedURL)}" />
+  <link rel="alternate" type="text/html" href="${escapeHTML(feed.url)}" />
+  <id>${escapeHTML(feed.url)}</id>
+  <updated>${updated}</updated>
+  <author>
+    <name>${escapeHTML(site.name)}</name>
+    <uri>${escapeHTML(site.repository)}</uri>
+  </author>
+${items.join("\n")}
+</feed>
+`;
+}
+
+function renderRSS(feed: Feed): string {
+  const items = feed.items.map(
+    (item) => `    <item>
+      <title>${escapeHTML(item.title)}</title>
+      <link>${escapeHTML(item.url)}</link>
+      <guid isPermaLink="true">${escapeHTML(item.url)}</guid>
+      <pubDate>${releaseDate(item.entry.date).toUTCString()}</pubDate>
+${item.categories.map((category) => `      <category>${escapeHTML(category)}</category>`).join("\n")}
+      <description>${escapeHTML(item.html)}</description>
+    </item>`
+  );
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeHTML(feed.title)}</title>
+    <link>${escapeHTML(feed.url)}</link>
+    <description>${escapeHTML(feed.description)}</description>
+    <language>${feed.locale}</language>
+    <atom:link rel="self" type="${feedMediaTypes.rss}" href="${escapeHTML(feed.feedURL)}" />
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+/** The changelog of one locale as an Atom or RSS 2.0 document */
+export function renderChangelogFeed(format: FeedFormat, entries: ChangelogEntry[], locale: Locale): string {
+  const feed = changelogFeed(format, entries, locale);
+  return format === "atom" ? renderAtom(feed) : renderRSS(feed);
+}
@@ -0,0 +1,175 @@
+import type { HealthIssue, HealthItem, HealthReport } from "../types/libraryHealth";
+import type { MediaItem } from "../types/mediaServer";
+import { formatCSV } from "./csv";
+import { normalizeGenre, resolveGenre, splitGenres, suggestUmbrella } from "./umbrellaGenres";
+
+/** Where a track's tags are fixed: its album where it has one */
+function albumOrTrack(track: MediaItem): HealthItem {
+  return track.AlbumId
+    ? { id: track.AlbumId, name: track.Album ?? track.Name, type: "album" }
+    : { id: track.Id, name: track.Name, type: "track" };
+}
+
+function uniqueItems(items: HealthItem[]): HealthItem[] {
+  return [...new Map(items.map((item) => [item.id, item])).values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function groupBy(tracks: MediaItem[], keysOf: (track: MediaItem) => string[]): Map<string, MediaItem[]> {
+  const groups = new Map<string, MediaItem[]>();
+  for (const track of tracks) {
+    for (const key of new Set(keysOf(track))) {
+      const group = groups.get(key);
+      if (group) group.push(track);
+      else groups.set(key, [track]);
+    }
+  }
+  return groups;
+}
+
+/** Albums the app files under "Unknown Artist" because they have no album artist */
+function missingAlbumArtists(tracks: MediaItem[]): HealthIssue[] {
+  const groups = groupBy(
+    tracks.filter((track) => !track.AlbumArtist?.trim()),
+    (track) => [track.AlbumId ?? track.Id]
+  );
+  return [...groups.values()].map((group) => ({
+    check: "missingAlbumArtist",
+    subject: group[0].Album ?? group[0].Name,
+    detail: [...new Set(group.flatMap((track) => track.Artists ?? []))].join(", ") || undefined,
+    tracks: group.length,
+    items: [albumOrTrack(group[0])],
+  }));
+}
+
+/** Tags such as "Jazz, Lounge" that the app has to split itself (`UmbrellaGenres.splitGenres`) */
+function joinedGenres(tracks: MediaItem[]): HealthIssue[] {
+  const groups = groupBy(tracks, (track) => (track.Genres ?? []).filter((genre) => genre.includes(",")));
+  return [...groups.entries()].map(([tag, group]) => ({
+    check: "joinedGenres",
+    subject: tag,
+    detail: splitGenres([tag]).join(" · "),
+    tracks: group.length,
+    items: uniqueItems(group.map(albumOrTrack)),
+  }));
+}
+
+/** Tags, after splitting, that the umbrella map does not know, so the app shows them under Unknown */
+function unknownGenres(tracks: MediaItem[]): HealthIssue[] {
+  const spellings = new Map<string, string>();
+  const groups = groupBy(tracks, (track) =>
+    splitGenres(track.Genres ?? [])
+      .filter((genre) => resolveGenre(genre) === "Unknown")
+      .map((genre) => {
+        const normalized = normalizeGenre(genre);
+        if (!spellings.has(normalized)) spellings.set(normalized, genre);
+        return normalized;
+      })
+  );
+  return [...groups.entries()].map(([normalized, group]) => ({
+    check: "unknownGenre",
+    subject: spellings.get(normalized) ?? normalized,
+    detail: suggestUmbrella(normalized)?.umbrella,
+    tracks: group.length,
+    items: uniqueItems(group.map(albumOrTrack)),
+  }));
+}
+
+/** Albums without a Primary image, which show a placeholder in the app */
+function missingArtwork(tracks: MediaItem[], albums: MediaItem[]): HealthIssue[] {
+  const albumTracks = groupBy(tracks, (track) => (track.AlbumId ? [track.AlbumId] : []));
+  return albums
+    .filter((album) => !album.ImageTags?.Primary)
+    .map((album) => ({
+      check: "missingArtwork",
+      subject: album.Name,
+      detail: album.AlbumArtist,
+      tracks: albumTracks.get(album.Id)?.length ?? 0,
+      items: [{ id: album.Id, name: album.Name, type: "album" }],
+    }));
+}
+
+/** An artist's name with diacritics removed, which the app keeps apart ("Beyoncé" and "Beyonce") */
+function foldedArtistName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Artists whose names differ only by diacritics. The app's importer matches
+ * artists ignoring case (`caseInsensitiveCompare`), so case alone does not
+ * split an artist, but accents do.
+ */
+function duplicateArtists(tracks: MediaItem[], artists: MediaItem[]): HealthIssue[] {
+  const groups = new Map<string, MediaItem[]>();
+  for (const artist of artists) {
+    const key = foldedArtistName(artist.Name);
+    const group = groups.get(key);
+    if (group) group.push(artist);
+    else groups.set(key, [artist]);
+  }
+
+  return [...groups.values()]
+    .filter((group) => new Set(group.map((artist) => artist.Name.toLowerCase())).size > 1)
+    .map((group) => {
+      const names = new Set(group.map((artist) => artist.Name.toLowerCase()));
+      const credited = tracks.filter((track) =>
+        [...(track.Artists ?? []), track.AlbumArtist ?? ""].some((name) => names.has(name.toLowerCase()))
+      );
+      return {
+        check: "duplicateArtist",
+        subject: group.map((artist) => artist.Name).join(" / "),
+        tracks: credited.length,
+        items: uniqueItems(group.map((artist) => ({ id: artist.Id, name: artist.Name, type: "artist" }))),
+      };
+    });
+}
+
+/** Runs every check over the library, listing the issues that reach the most tracks first */
+export function scanLibrary(tracks: MediaItem[], albums: MediaItem[], artists: MediaItem[]): HealthReport {
+  const issues = [
+    ...missingAlbumArtists(tracks),
+    ...joinedGenres(tracks),
+    ...unknownGenres(tracks),
+    ...missingArtwork(tracks, albums),
+    ...duplicateArtists(tracks, artists),
+  ].sort((a, b) => b.tracks - a.tracks || a.subject.localeCompare(b.subject));
+
+  return {
+    scannedAt: new Date().toISOString(),
+    serverId: [...tracks, ...albums].find((item) => item.ServerId)?.ServerId,
+    tracks: tracks.length,
+    albums: albums.length,
+    artists: artists.length,
+    issues,
+  };
+}
+
+/** The report with a link to each item, for keeping track of fixes */
+export function healthReportJSON(report: HealthReport, linkOf: (item: HealthItem) => string): string {
+  const issues = report.issues.map((issue) => ({
+    ...issue,
+    items: issue.items.map((item) => ({ ...item, link: linkOf(item) })),
+  }));
+  return `${JSON.stringify({ ...report, issues }, null, 2)}\n`;
+}
+
+/** One row per item to fix, so the report can be sorted and ticked off in a spreadsheet */
+export function healthReportCSV(report: HealthReport, linkOf: (item: HealthItem) => string): string {
+  return formatCSV([
+    ["Check", "Subject", "Detail", "Tracks", "Item Type", "Item", "Link"],
+    ...report.issues.flatMap((issue) =>
+      issue.items.map((item) => [
+        issue.check,
+        issue.subject,
+        issue.detail,
+        issue.tracks,
+        item.type,
+        item.name,
+        linkOf(item),
+      ])
+    ),
+  ]);
+}
@@ -0,0 +1,12 @@
+/** Router basename derived from Vite's `base`, without the trailing slash */
+export const routerBasename = import.meta.env.BASE_URL.replace(/\/+$/, "");
+
+/** Resolves a path relative to `public/` against the base URL */
+export function assetPath(path: string): string {
+  return `${import.meta.env.BASE_URL}${path.replace(/^\/+/, "")}`;
+}
+
+/** Route path without a trailing slash, as GitHub Pages serves `/faq/` for `/faq` */
+export function normalizePath(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
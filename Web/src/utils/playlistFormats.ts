@@ -0,0 +1,328 @@
+import type { MediaItem } from "../types/mediaServer";
+import type { PlaylistEntry, PlaylistFile, PlaylistFormat } from "../types/playlists";
+import { formatCSV } from "./csv";
+
+export const playlistFormatLabels: Record<PlaylistFormat, string> = {
+  m3u8: "M3U8",
+  xspf: "XSPF",
+  csv: "CSV",
+};
+
+export const playlistMediaTypes: Record<PlaylistFormat, string> = {
+  m3u8: "audio/x-mpegurl",
+  xspf: "application/xspf+xml",
+  csv: "text/csv",
+};
+
+/** File types the importer reads, for the file picker */
+export const IMPORT_EXTENSIONS = [".m3u", ".m3u8", ".xspf", ".csv", ".txt"];
+
+const AUDIO_EXTENSION = /\.[a-z0-9]{2,5}$/i;
+/** `01 `, `01. `, `1-02 - ` and similar track numbers in front of file names */
+const TRACK_NUMBER = /^\d{1,3}(?:[-.]\d{1,3})?(?:\s*[-.]\s*|\s+)/;
+
+/** Splits `Artist - Title`, the way M3U players write `#EXTINF` names */
+function splitArtistTitle(value: string): Pick<PlaylistEntry, "artist" | "title"> {
+  const separator = value.indexOf(" - ");
+  if (separator <= 0) return { title: value.trim() };
+  return { artist: value.slice(0, separator).trim(), title: value.slice(separator + 3).trim() };
+}
+
+function decodeLocation(location: string): string {
+  try {
+    return decodeURIComponent(location.replace(/^file:\/\/(?:localhost)?/i, ""));
+  } catch {
+    return location;
+  }
+}
+
+/**
+ * What a path says about its track when the playlist says nothing else:
+ * `Artist/Album/01 Title.flac`, or `Artist - Title.mp3` on its own.
+ */
+export function entryFromPath(location: string): PlaylistEntry {
+  const segments = decodeLocation(location).split(/[\\/]/).filter(Boolean);
+  const fileName = (segments.pop() ?? "").replace(AUDIO_EXTENSION, "").replace(TRACK_NUMBER, "");
+  const { artist, title } = splitArtistTitle(fileName);
+  if (artist) return { title, artist, location };
+  return {
+    title,
+    artist: segments.length >= 2 ? segments[segments.length - 2] : undefined,
+    album: segments.length >= 2 ? segments[segments.length - 1] : undefined,
+    location,
+  };
+}
+
+function parseM3U(text: string, fallbackName: string): PlaylistFile {
+  let name = fallbackName;
+  const entries: PlaylistEntry[] = [];
+  let pending: Partial<PlaylistEntry> = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith("#PLAYLIST:")) {
+      name = line.slice("#PLAYLIST:".length).trim() || name;
+    } else if (line.startsWith("#EXTINF:")) {
+      const info = line.slice("#EXTINF:".length);
+      // The duration may be followed by `key="value"` attributes before the comma
+      const comma = info.search(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+      const duration = Number.parseFloat(comma === -1 ? info : info.slice(0, comma));
+      pending = {
+        ...pending,
+        ...(comma === -1 ? {} : splitArtistTitle(info.slice(comma + 1))),
+        duration: duration > 0 ? duration : undefined,
+      };
+    } else if (line.startsWith("#EXTALB:")) {
+      pending.album = line.slice("#EXTALB:".length).trim();
+    } else if (line.startsWith("#EXTART:")) {
+      pending.artist = line.slice("#EXTART:".length).trim();
+    } else if (!line.startsWith("#")) {
+      const fromPath = entryFromPath(line);
+      entries.push({
+        title: pending.title || fromPath.title,
+        artist: pending.artist || fromPath.artist,
+        album: pending.album || fromPath.album,
+        duration: pending.duration,
+        location: line,
+      });
+      pending = {};
+    }
+  }
+  return { name, entries };
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXML(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] !== "#") return XML_ENTITIES[code] ?? entity;
+      const codePoint = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Past the last Unicode code point the reference is invalid; keep it as written
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    })
+    .trim();
+}
+
+function xmlText(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+  return match ? decodeXML(match[1]) || undefined : undefined;
+}
+
+function parseXSPF(text: string, fallbackName: string): PlaylistFile {
+  const [head] = text.split(/<trackList\b/i);
+  const entries = [...text.matchAll(/<track\b[^>]*>([\s\S]*?)<\/track>/gi)].flatMap(([, block]) => {
+    const location = xmlText(block, "location");
+    const fromPath = location ? entryFromPath(location) : undefined;
+    const title = xmlText(block, "title") ?? fromPath?.title;
+    if (!title) return [];
+    const duration = Number(xmlText(block, "duration"));
+    return [
+      {
+        title,
+        artist: xmlText(block, "creator") ?? fromPath?.artist,
+        album: xmlText(block, "album") ?? fromPath?.album,
+        duration: duration > 0 ? duration / 1000 : undefined,
+        location,
+      },
+    ];
+  });
+  return { name: xmlText(head, "title") ?? fallbackName, entries };
+}
+
+/** Rows of a CSV file, honouring quoted fields with delimiters, quotes and line breaks in them */
+export function parseCSV(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/** Comma, semicolon or tab, whichever the header row has most of */
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  return [",", ";", "\t"]
+    .map((delimiter) => ({ delimiter, count: header.split(delimiter).length }))
+    .reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+}
+
+/** Header names other players and export tools use, after lower-casing and dropping everything but letters */
+const CSV_COLUMNS: Record<keyof PlaylistEntry, string[]> = {
+  title: ["title", "track", "trackname", "tracktitle", "name", "song", "songname"],
+  artist: ["artist", "artists", "artistname", "artistnames", "creator", "performer", "albumartist"],
+  album: ["album", "albumname", "albumtitle", "release"],
+  duration: ["duration", "length", "time", "durationms", "trackdurationms", "durationseconds", "seconds"],
+  location: ["path", "location", "file", "filename", "uri", "url"],
+};
+
+/** `3:25`, `1:02:03`, `205`, or milliseconds when the column says so or the number is too large for seconds */
+function parseDuration(value: string, inMilliseconds: boolean): number | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (trimmed.includes(":")) {
+    const seconds = trimmed.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+  }
+  const number = Number(trimmed);
+  if (!Number.isFinite(number) || number <= 0) return undefined;
+  return inMilliseconds || number > 36_000 ? number / 1000 : number;
+}
+
+function parseCSVPlaylist(text: string, fallbackName: string): PlaylistFile {
+  const [header = [], ...rows] = parseCSV(text);
+  const keys = header.map((cell) => cell.toLowerCase().replace(/[^a-z]/g, ""));
+  const column = (field: keyof PlaylistEntry) => {
+    for (const name of CSV_COLUMNS[field]) {
+      const index = keys.indexOf(name);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+  const columns = {
+    title: column("title"),
+    artist: column("artist"),
+    album: column("album"),
+    duration: column("duration"),
+    location: column("location"),
+  };
+  const durationInMilliseconds = columns.duration !== -1 && keys[columns.duration].endsWith("ms");
+  const cell = (row: string[], index: number) => (index === -1 ? undefined : row[index]?.trim() || undefined);
+
+  const entries = rows.flatMap((row) => {
+    const location = cell(row, columns.location);
+    const title = cell(row, columns.title) ?? (location ? entryFromPath(location).title : undefined);
+    if (!title) return [];
+    const duration = cell(row, columns.duration);
+    return [
+      {
+        title,
+        artist: cell(row, columns.artist),
+        album: cell(row, columns.album),
+        duration: duration === undefined ? undefined : parseDuration(duration, durationInMilliseconds),
+        location,
+      },
+    ];
+  });
+  return { name: fallbackName, entries };
+}
+
+/**
+ * Reads an M3U/M3U8, XSPF or CSV playlist, telling the format from the file
+ * name, or from the contents for `.txt`. Returns `null` for anything else.
+ */
+export function parsePlaylistFile(fileName: string, text: string): PlaylistFile | null {
+  const content = text.replace(/^\uFEFF/, "");
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  const name = fileName.replace(/\.[^.]+$/, "");
+
+  if (extension === "xspf" || (extension !== "csv" && /^\s*<\?xml|<playlist\b/i.test(content))) {
+    return parseXSPF(content, name);
+  }
+  if (extension === "m3u" || extension === "m3u8" || (extension === "txt" && /^#EXTM3U/m.test(content))) {
+    return parseM3U(content, name);
+  }
+  if (extension === "csv" || extension === "txt") {
+    return parseCSVPlaylist(content, name);
+  }
+  return null;
+}
+
+/** The playlist line for a track on the server */
+export function entryFromItem(item: MediaItem): PlaylistEntry {
+  return {
+    title: item.Name,
+    artist: item.Artists?.length ? item.Artists.join(", ") : item.AlbumArtist,
+    album: item.Album,
+    duration: item.RunTimeTicks === undefined ? undefined : Math.round(item.RunTimeTicks / 10_000_000),
+    location: item.Path,
+  };
+}
+
+function escapeXML(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function displayName(entry: PlaylistEntry): string {
+  return entry.artist ? `${entry.artist} - ${entry.title}` : entry.title;
+}
+
+/** The playlist as a file other players can open; tracks keep their server paths where the server reports them */
+export function formatPlaylist(format: PlaylistFormat, playlist: PlaylistFile): string {
+  switch (format) {
+    case "m3u8":
+      return [
+        "#EXTM3U",
+        `#PLAYLIST:${playlist.name}`,
+        ...playlist.entries.flatMap((entry) => [
+          `#EXTINF:${entry.duration === undefined ? -1 : Math.round(entry.duration)},${displayName(entry)}`,
+          ...(entry.album ? [`#EXTALB:${entry.album}`] : []),
+          entry.location ?? displayName(entry),
+        ]),
+        "",
+      ].join("\n");
+    case "xspf": {
+      const tracks = playlist.entries.map((entry) => {
+        const fields = [
+          entry.location && `<location>${escapeXML(entry.location.startsWith("/") ? `file://${encodeURI(entry.location)}` : entry.location)}</location>`,
+          `<title>${escapeXML(entry.title)}</title>`,
+          entry.artist && `<creator>${escapeXML(entry.artist)}</creator>`,
+          entry.album && `<album>${escapeXML(entry.album)}</album>`,
+          entry.duration !== undefined && `<duration>${Math.round(entry.duration * 1000)}</duration>`,
+        ].filter(Boolean);
+        return `    <track>\n${fields.map((field) => `      ${field}`).join("\n")}\n    </track>`;
+      });
+      return `<?xml version="1.0" encoding="UTF-8"?>
+<playlist version="1" xmlns="http://xspf.org/ns/0/">
+  <title>${escapeXML(playlist.name)}</title>
+  <trackList>
+${tracks.join("\n")}
+  </trackList>
+</playlist>
+`;
+    }
+    case "csv":
+      return formatCSV([
+        ["Title", "Artist", "Album", "Duration", "Path"],
+        ...playlist.entries.map((entry) => [entry.title, entry.artist, entry.album, entry.duration, entry.location]),
+      ]);
+  }
+}
+
+/** A file name for the playlist without characters file systems reject */
+export function playlistFileName(name: string, format: PlaylistFormat): string {
+  return `${name.replace(/[\\/:*?"<>|]+/g, "_").trim() || "playlist"}.${format}`;
+}
@@ -0,0 +1,10 @@
+import type { ReleasedApp } from "../types/release";
+
+export function appStoreURL(appId: string): string {
+  return `https://apps.apple.com/app/id${appId}`;
+}
+
+/** The TestFlight invite or App Store listing the download buttons and QR codes open */
+export function appDownloadURL(app: ReleasedApp): string {
+  return app.state === "testflight" ? app.testFlightURL : appStoreURL(app.appId);
+}
@@ -0,0 +1,66 @@
+/**
+ * A deliberately small Markdown subset for content strings:
+ * paragraphs separated by blank lines, `- ` bullet lists, `code`,
+ * **bold**, [links](https://example.com) and bare http(s) URLs.
+ */
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; text: string }
+  | { type: "link"; text: string; href: string };
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "list"; items: InlineNode[][] };
+
+const INLINE_PATTERN = /`([^`]+)`|\*\*([^*]+)\*\*|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)])/g;
+
+export function parseRichText(source: string): BlockNode[] {
+  return source
+    .trim()
+    .split(/\n\s*\n/)
+    .map((chunk) => {
+      const lines = chunk.split("\n").map((line) => line.trim());
+      if (lines.every((line) => line.startsWith("- "))) {
+        return { type: "list", items: lines.map((line) => parseInline(line.slice(2))) };
+      }
+      return { type: "paragraph", children: parseInline(lines.join(" ")) };
+    });
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      nodes.push({ type: "text", text: text.slice(lastIndex, index) });
+    }
+
+    const [whole, code, strong, linkText, linkHref, bareURL] = match;
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (strong !== undefined) {
+      nodes.push({ type: "strong", text: strong });
+    } else if (linkText !== undefined) {
+      nodes.push({ type: "link", text: linkText, href: linkHref });
+    } else {
+      nodes.push({ type: "link", text: bareURL, href: bareURL });
+    }
+    lastIndex = index + whole.length;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push({ type: "text", text: text.slice(lastIndex) });
+  }
+  return nodes;
+}
+
+/** The text a reader sees, for search indexes and meta descriptions */
+export function richTextToPlainText(source: string): string {
+  return parseRichText(source)
+    .flatMap((block) => (block.type === "paragraph" ? [block.children] : block.items))
+    .map((nodes) => nodes.map((node) => node.text).join(""))
+    .join(" ");
+}
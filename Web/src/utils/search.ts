@@ -0,0 +1,17 @@
+/** Lowercases and strips diacritics so "Sigur Rós" matches "sigur ros" */
+export function normalizeSearchText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+export function searchTerms(query: string): string[] {
+  return normalizeSearchText(query).split(/\s+/).filter(Boolean);
+}
+
+export function matchesAllTerms(text: string, terms: string[]): boolean {
+  const normalized = normalizeSearchText(text);
+  return terms.every((term) => normalized.includes(term));
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,80 @@
+import { getContent } from "../content/localized";
+import { site } from "../content/site";
+import { DEFAULT_LOCALE, LOCALES, localizePath, type Locale } from "../i18n/locales";
+import { translate } from "../i18n/messages";
+import type { PageMeta } from "../types/content";
+import { FEED_FORMATS, feedMediaTypes, feedPath } from "./changelog";
+
+export function pageTitle(meta: PageMeta, locale: Locale = DEFAULT_LOCALE): string {
+  const { site } = getContent(locale);
+  return meta.path === "/" ? site.title : `${meta.title} | ${site.name}`;
+}
+
+/** Absolute URL of a route on the deployed site, with the trailing slash GitHub Pages serves */
+export function canonicalURL(path: string): string {
+  return path === "/" ? `${site.url}/` : `${site.url}${path.replace(/\/+$/, "")}/`;
+}
+
+export function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+interface HeadTagOptions {
+  locale?: Locale;
+  indexable?: boolean;
+}
+
+/**
+ * Title, description, canonical, `hreflang` alternate and social card tags
+ * for a prerendered page, plus links to the changelog feeds so feed readers
+ * find them from any page. `meta.path` is unprefixed; the canonical URL is the
+ * page in `locale`. Pages that are not `indexable` get `noindex` and no
+ * canonical URL.
+ */
+export function renderHeadTags(meta: PageMeta, { locale = DEFAULT_LOCALE, indexable = true }: HeadTagOptions = {}): string {
+  const title = escapeHTML(pageTitle(meta, locale));
+  const description = escapeHTML(meta.description);
+  const url = escapeHTML(canonicalURL(localizePath(meta.path, locale)));
+  const image = escapeHTML(`${site.url}/${site.image}`);
+  const imageAlt = escapeHTML(getContent(locale).site.imageAlt);
+  const feedTitle = translate(locale, "changelog.feedTitle", { name: site.name });
+
+  const tags = [
+    `<title>${title}</title>`,
+    `<meta name="description" content="${description}" />`,
+  ];
+  if (!indexable) {
+    tags.push(`<meta name="robots" content="noindex" />`);
+    return tags.join("\n    ");
+  }
+
+  tags.push(
+    `<link rel="canonical" href="${url}" />`,
+    ...LOCALES.map(
+      (alternate) =>
+        `<link rel="alternate" hreflang="${alternate}" href="${escapeHTML(canonicalURL(localizePath(meta.path, alternate)))}" />`
+    ),
+    `<link rel="alternate" hreflang="x-default" href="${escapeHTML(canonicalURL(meta.path))}" />`,
+    ...FEED_FORMATS.map(
+      (format) =>
+        `<link rel="alternate" type="${feedMediaTypes[format]}" title="${escapeHTML(feedTitle)}" href="${escapeHTML(`${site.url}${feedPath(format, locale)}`)}" />`
+    ),
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:site_name" content="${escapeHTML(site.name)}" />`,
+    `<meta property="og:title" content="${title}" />`,
+    `<meta property="og:description" content="${description}" />`,
+    `<meta property="og:url" content="${url}" />`,
+    `<meta property="og:image" content="${image}" />`,
+    `<meta property="og:image:alt" content="${imageAlt}" />`,
+    `<meta name="twitter:card" content="summary" />`,
+    `<meta name="twitter:title" content="${title}" />`,
+    `<meta name="twitter:description" content="${description}" />`,
+    `<meta name="twitter:image" content="${image}" />`,
+    `<meta name="twitter:image:alt" content="${imageAlt}" />`
+  );
+  return tags.join("\n    ");
+}
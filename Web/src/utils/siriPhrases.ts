@@ -0,0 +1,207 @@
+import type {
+  ParsedSiriPhrase,
+  SiriLibrary,
+  SiriMatch,
+  SiriPhraseKind,
+  SiriPlayRequest,
+  SiriRequest,
+  SiriSearch,
+  SiriSearchResult,
+} from "../types/siri";
+import { resolveGenre } from "./umbrellaGenres";
+
+/** `MediaCatalogService` fetches at most this many results for each search */
+export const SIRI_FETCH_LIMIT = 10;
+
+/** `PlayMediaIntentHandler` passes Siri this many results, and Siri asks which one when there are several */
+export const SIRI_RESULT_LIMIT = 5;
+
+const WAKE_WORDS = /^(?:hey\s+)?siri[,\s]+/i;
+const APP_SUFFIX = /\s+(?:in|on|with|using|from|via)\s+(?:the\s+)?kartunes(?:\s+app)?$/i;
+const SHUFFLE_SUFFIX = /\s+(?:on\s+shuffle|shuffled|in\s+shuffle\s+mode|at\s+random)$/i;
+const PLAY_VERB = /^(play|shuffle|listen\s+to|put\s+on|start\s+playing)(?:\s+(.+))?$/i;
+const AFFINITY =
+  /^(?:i\s+)?(?:really\s+)?(like|love|dislike|hate|don't\s+like|do\s+not\s+like)(?:\s+(?:this|that|it))?(?:\s+(?:song|track|one))?$/i;
+/** Requests with nothing to search for, which the app's handler answers with no results */
+const NO_NAME = /^(?:some\s+|my\s+)?(?:music|songs|tracks|something|anything|library)$/i;
+
+type PlayShape = [RegExp, (match: RegExpMatchArray) => Omit<SiriPlayRequest, "intent" | "shuffle">];
+
+/**
+ * How Siri tends to read the rest of a play request, most specific first.
+ * Siri's own language model decides in the end; these follow the shapes it
+ * reliably tags with a media type.
+ */
+const PLAY_SHAPES: PlayShape[] = [
+  [
+    /^(?:the\s+|my\s+)?playlist\s+(?:called\s+|named\s+)?(.+)$/i,
+    (match) => ({ mediaType: "playlist", mediaName: named(match[1]) }),
+  ],
+  [/^(?:the\s+|my\s+)?(.+?)\s+playlist$/i, (match) => ({ mediaType: "playlist", mediaName: named(match[1]) })],
+  [
+    /^(?:the\s+)?album\s+(?:called\s+|named\s+)?(.+?)(?:\s+by\s+(.+))?$/i,
+    (match) => ({ mediaType: "album", mediaName: named(match[1]), artistName: named(match[2]) }),
+  ],
+  [
+    /^(?:the\s+)?(.+?)\s+album(?:\s+by\s+(.+))?$/i,
+    (match) => ({ mediaType: "album", mediaName: named(match[1]), artistName: named(match[2]) }),
+  ],
+  [
+    /^(?:the\s+)?(?:song|track)\s+(?:called\s+|named\s+)?(.+?)(?:\s+by\s+(.+))?$/i,
+    (match) => ({ mediaType: "song", mediaName: named(match[1]), artistName: named(match[2]) }),
+  ],
+  [
+    /^(?:some\s+|all\s+|more\s+)?(?:music|songs|tracks|stuff)\s+(?:by|from)\s+(.+)$/i,
+    (match) => ({ mediaType: "artist", artistName: named(match[1]) }),
+  ],
+  [/^(?:the\s+)?(?:artist|band)\s+(.+)$/i, (match) => ({ mediaType: "artist", mediaName: named(match[1]) })],
+  [/^(.+?)\s+by\s+(.+)$/i, (match) => ({ mediaType: "song", mediaName: named(match[1]), artistName: named(match[2]) })],
+];
+
+/** A name without the quotes people type around titles */
+function named(value: string | undefined): string | undefined {
+  return value?.replace(/^["“']+|["”']+$/g, "").trim() || undefined;
+}
+
+function siriRequest(text: string): SiriRequest {
+  const affinity = text.match(AFFINITY);
+  if (affinity) {
+    return { intent: "updateMediaAffinity", like: /^(?:like|love)$/i.test(affinity[1]) };
+  }
+
+  const play = text.match(PLAY_VERB);
+  if (!play) return { intent: "unsupported", reason: "notMedia" };
+
+  let rest = play[2] ?? "";
+  let shuffle = /^shuffle$/i.test(play[1]);
+  if (SHUFFLE_SUFFIX.test(rest)) {
+    shuffle = true;
+    rest = rest.replace(SHUFFLE_SUFFIX, "");
+  }
+  if (!rest || NO_NAME.test(rest)) return { intent: "unsupported", reason: "noName" };
+
+  for (const [pattern, shape] of PLAY_SHAPES) {
+    const match = rest.match(pattern);
+    if (match) return { intent: "playMedia", shuffle, ...shape(match) };
+  }
+
+  const term = rest.replace(/^some\s+/i, "");
+  const genre = term.replace(/\s+music$/i, "");
+  if (resolveGenre(genre) !== "Unknown") {
+    return { intent: "unsupported", reason: "genre", term: genre };
+  }
+  // A bare name: Siri leaves the type open, which the app searches as songs
+  return { intent: "playMedia", mediaType: "music", mediaName: named(term), shuffle };
+}
+
+/**
+ * What Siri would most likely hand the app for a spoken sentence, or
+ * `undefined` for an empty one. This approximates Siri's parsing with the
+ * sentence shapes it handles predictably; it cannot know what Siri's own
+ * language model makes of a bare name.
+ */
+export function parseSiriPhrase(sentence: string): ParsedSiriPhrase | undefined {
+  const text = sentence
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[.!?]+$/, "")
+    .replace(WAKE_WORDS, "");
+  if (!text) return undefined;
+
+  return { request: siriRequest(text.replace(APP_SUFFIX, "")), mentionsApp: APP_SUFFIX.test(text) };
+}
+
+/** The phrase group a request belongs in, if it gets to the app at all */
+export function siriPhraseKind(request: SiriRequest): SiriPhraseKind | undefined {
+  switch (request.intent) {
+    case "playMedia":
+      return request.shuffle ? "shuffle" : request.mediaType;
+    case "updateMediaAffinity":
+      return request.like ? "like" : "dislike";
+    default:
+      return undefined;
+  }
+}
+
+/** The search `PlayMediaIntentHandler.resolveMediaItems` runs, or `undefined` when it has no name to search for */
+export function siriSearch(request: SiriPlayRequest): SiriSearch | undefined {
+  switch (request.mediaType) {
+    case "artist": {
+      const term = request.mediaName ?? request.artistName;
+      return term ? { target: "artist", term, orArtist: false } : undefined;
+    }
+    case "album": {
+      const term = request.mediaName ?? request.albumName;
+      return term ? { target: "album", term, artist: request.artistName, orArtist: false } : undefined;
+    }
+    case "song":
+    case "music":
+      return request.mediaName
+        ? { target: "track", term: request.mediaName, artist: request.artistName, orArtist: !request.artistName }
+        : undefined;
+    case "playlist":
+      return request.mediaName ? { target: "playlist", term: request.mediaName, orArtist: false } : undefined;
+  }
+}
+
+function folded(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/** Core Data's `CONTAINS[cd]`: anywhere in the text, ignoring case and diacritics */
+function contains(text: string | undefined, term: string): boolean {
+  return text !== undefined && folded(text).includes(folded(term));
+}
+
+/** How the SQLite store orders a plain `NSSortDescriptor`: by character code, so capitals come before lower case */
+function storeOrder(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * The results `MediaCatalogService` would find in a library, sorted and
+ * limited as it fetches them and cut to what Siri is given. It sorts artists
+ * by `sortName` and albums by `sortTitle`, which the importers fill with the
+ * name itself, so every kind sorts by the name shown.
+ */
+export function searchSiriLibrary(search: SiriSearch, library: SiriLibrary): SiriSearchResult {
+  const { term, artist } = search;
+  const byArtist = (name: string | undefined) => artist === undefined || contains(name, artist);
+  let matches: SiriMatch[];
+  switch (search.target) {
+    case "artist":
+      matches = library.artists
+        .filter((item) => contains(item.name, term))
+        .map((item) => ({ id: item.id, title: item.name }));
+      break;
+    case "album":
+      matches = library.albums
+        .filter((item) => contains(item.title, term) && byArtist(item.artist))
+        .map((item) => ({ id: item.id, title: item.title, detail: item.artist }));
+      break;
+    case "track":
+      matches = library.tracks
+        .filter((item) =>
+          search.orArtist
+            ? contains(item.title, term) || contains(item.artist, term)
+            : contains(item.title, term) && byArtist(item.artist)
+        )
+        .map((item) => ({
+          id: item.id,
+          title: item.title,
+          detail: [item.artist, item.album].filter(Boolean).join(" · ") || undefined,
+        }));
+      break;
+    case "playlist":
+      matches = library.playlists
+        .filter((item) => contains(item.name, term))
+        .map((item) => ({ id: item.id, title: item.name }));
+      break;
+  }
+  const fetched = matches.sort((a, b) => storeOrder(a.title, b.title)).slice(0, SIRI_FETCH_LIMIT);
+  return { matches: fetched.slice(0, SIRI_RESULT_LIMIT), total: fetched.length };
+}
@@ -0,0 +1,256 @@
+import type { MediaItem } from "../types/mediaServer";
+import type {
+  CompositionShare,
+  GenreShare,
+  LibraryComposition,
+  ListeningSummary,
+  MissingTag,
+  RankedEntry,
+  StatsRange,
+  TimelineBucket,
+} from "../types/stats";
+import type { UmbrellaGenre } from "../types/genres";
+import { formatCSV } from "./csv";
+import { classifyGenres } from "./umbrellaGenres";
+
+const DAY_MS = 86_400_000;
+const TOP_LIMIT = 10;
+/** The all-time timeline stops this many months back, so it stays readable */
+const MAX_TIMELINE_MONTHS = 36;
+
+const rangeDays: Record<StatsRange, number | null> = { week: 7, month: 30, year: 365, all: null };
+
+/** Upper bounds in kbps; the last bucket has none */
+const BITRATE_BUCKETS = [128, 192, 256, 320, 500, 1000];
+
+function trackSeconds(item: MediaItem): number {
+  return (item.RunTimeTicks ?? 0) / 10_000_000;
+}
+
+function plays(item: MediaItem): number {
+  return item.UserData?.PlayCount ?? 0;
+}
+
+/**
+ * Plays a track adds to a range's totals: all of them for All Time, one
+ * otherwise, since the server cannot say how many of them fell in the range.
+ */
+function countedPlays(item: MediaItem, range: StatsRange): number {
+  return range === "all" ? plays(item) : 1;
+}
+
+function artistsOf(item: MediaItem): string[] {
+  if (item.Artists?.length) return item.Artists;
+  return item.AlbumArtist ? [item.AlbumArtist] : [];
+}
+
+/** Umbrella genres of a track, each once, with "Unknown" for untagged tracks as in the app's importer */
+export function trackUmbrellas(item: MediaItem): UmbrellaGenre[] {
+  const umbrellas = classifyGenres(item.Genres ?? []).map((classification) => classification.umbrella);
+  return umbrellas.length > 0 ? [...new Set(umbrellas)] : ["Unknown"];
+}
+
+/** `YYYY-MM-DD` or `YYYY-MM` in the visitor's time zone */
+function localKey(date: Date, granularity: "day" | "month"): string {
+  const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+  return granularity === "month" ? month : `${month}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function lastPlayed(item: MediaItem): Date | undefined {
+  const value = item.UserData?.LastPlayedDate;
+  return value ? new Date(value) : undefined;
+}
+
+/**
+ * Tracks whose latest play falls in the range. The server keeps a play count
+ * and the date of the latest play per track, not every play.
+ */
+export function tracksInRange(tracks: MediaItem[], range: StatsRange, now = new Date()): MediaItem[] {
+  const days = rangeDays[range];
+  const since = days === null ? -Infinity : now.getTime() - days * DAY_MS;
+  return tracks.filter((item) => {
+    if (plays(item) === 0) return false;
+    const played = lastPlayed(item);
+    return days === null || (played !== undefined && played.getTime() >= since);
+  });
+}
+
+function rank(tracks: MediaItem[], entriesOf: (item: MediaItem) => { key: string; name: string; detail?: string }[]) {
+  const totals = new Map<string, RankedEntry>();
+  for (const item of tracks) {
+    for (const { key, name, detail } of entriesOf(item)) {
+      const entry = totals.get(key) ?? { name, detail, plays: 0, seconds: 0 };
+      entry.plays += plays(item);
+      entry.seconds += plays(item) * trackSeconds(item);
+      totals.set(key, entry);
+    }
+  }
+  return [...totals.values()]
+    .sort((a, b) => b.plays - a.plays || b.seconds - a.seconds || a.name.localeCompare(b.name))
+    .slice(0, TOP_LIMIT);
+}
+
+/**
+ * Listening per day for a week or month, per month otherwise, from the
+ * latest play of each track: a track played on several days counts once.
+ */
+function timeline(tracks: MediaItem[], range: StatsRange, now: Date): ListeningSummary["timeline"] {
+  const granularity = range === "week" || range === "month" ? "day" : "month";
+  const keys: string[] = [];
+  if (granularity === "day") {
+    for (let day = (rangeDays[range] ?? 0) - 1; day >= 0; day--) {
+      keys.push(localKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - day), "day"));
+    }
+  } else {
+    const first = new Date(
+      tracks.reduce((earliest, item) => Math.min(earliest, lastPlayed(item)?.getTime() ?? Infinity), now.getTime())
+    );
+    const sinceFirst = (now.getFullYear() - first.getFullYear()) * 12 + now.getMonth() - first.getMonth() + 1;
+    const months = range === "year" ? 12 : Math.min(MAX_TIMELINE_MONTHS, sinceFirst);
+    for (let month = months - 1; month >= 0; month--) {
+      keys.push(localKey(new Date(now.getFullYear(), now.getMonth() - month, 1), "month"));
+    }
+  }
+
+  const buckets = new Map<string, TimelineBucket>(keys.map((key) => [key, { key, seconds: 0, tracks: 0 }]));
+  for (const item of tracks) {
+    const played = lastPlayed(item);
+    const bucket = played && buckets.get(localKey(played, granularity));
+    if (!bucket) continue;
+    bucket.seconds += trackSeconds(item);
+    bucket.tracks += 1;
+  }
+  return { granularity, buckets: [...buckets.values()] };
+}
+
+function genreShares(tracks: MediaItem[], range: StatsRange): GenreShare[] {
+  const shares = new Map<UmbrellaGenre, GenreShare>();
+  for (const item of tracks) {
+    for (const umbrella of trackUmbrellas(item)) {
+      const share = shares.get(umbrella) ?? { umbrella, tracks: 0, plays: 0 };
+      share.tracks += 1;
+      share.plays += countedPlays(item, range);
+      shares.set(umbrella, share);
+    }
+  }
+  return [...shares.values()].sort((a, b) => b.plays - a.plays || b.tracks - a.tracks);
+}
+
+export function listeningSummary(tracks: MediaItem[], range: StatsRange, now = new Date()): ListeningSummary {
+  const played = tracksInRange(tracks, range, now);
+  return {
+    range,
+    plays: played.reduce((sum, item) => sum + countedPlays(item, range), 0),
+    seconds: played.reduce((sum, item) => sum + countedPlays(item, range) * trackSeconds(item), 0),
+    tracksPlayed: played.length,
+    favourites: tracks.filter((item) => item.UserData?.IsFavorite).length,
+    topArtists: rank(played, (item) => artistsOf(item).map((artist) => ({ key: artist, name: artist }))),
+    topAlbums: rank(played, (item) =>
+      item.Album
+        ? [{ key: item.AlbumId ?? item.Album, name: item.Album, detail: item.AlbumArtist ?? artistsOf(item)[0] }]
+        : []
+    ),
+    topTracks: rank(played, (item) => [{ key: item.Id, name: item.Name, detail: artistsOf(item).join(", ") }]),
+    timeline: timeline(played, range, now),
+    genres: genreShares(played, range),
+  };
+}
+
+/** Container of the file, e.g. `flac`; Jellyfin lists several for MP4 (`mov,mp4,m4a`), of which the first is kept */
+export function trackFormat(item: MediaItem): string | undefined {
+  const container = item.Container ?? item.MediaSources?.[0]?.Container ?? item.Path?.match(/\.([a-z0-9]+)$/i)?.[1];
+  return container?.split(",")[0].trim().toLowerCase() || undefined;
+}
+
+/** Bitrate in kbps, where the server has read it */
+export function trackBitrate(item: MediaItem): number | undefined {
+  const bitrate = item.MediaSources?.[0]?.Bitrate;
+  return bitrate ? Math.round(bitrate / 1000) : undefined;
+}
+
+function bitrateBucket(kbps: number | undefined): string | undefined {
+  if (kbps === undefined) return undefined;
+  const index = BITRATE_BUCKETS.findIndex((limit) => kbps < limit);
+  if (index === 0) return `< ${BITRATE_BUCKETS[0]}`;
+  if (index === -1) return `${BITRATE_BUCKETS[BITRATE_BUCKETS.length - 1]}+`;
+  return `${BITRATE_BUCKETS[index - 1]}–${BITRATE_BUCKETS[index] - 1}`;
+}
+
+/** Counts by label, largest first, with tracks that have no label last as `label: undefined` */
+function shares(tracks: MediaItem[], labelOf: (item: MediaItem) => string | undefined): CompositionShare[] {
+  const counts = new Map<string | undefined, number>();
+  for (const item of tracks) {
+    const label = labelOf(item);
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([label, count]) => ({ label, tracks: count }))
+    .sort((a, b) => Number(a.label === undefined) - Number(b.label === undefined) || b.tracks - a.tracks);
+}
+
+export function libraryComposition(tracks: MediaItem[]): LibraryComposition {
+  const albumArtwork = new Map<string, boolean>();
+  for (const item of tracks) {
+    if (!item.AlbumId) continue;
+    albumArtwork.set(item.AlbumId, albumArtwork.get(item.AlbumId) || Boolean(item.AlbumPrimaryImageTag));
+  }
+
+  const missing: Record<MissingTag, number> = {
+    artwork: [...albumArtwork.values()].filter((hasArtwork) => !hasArtwork).length,
+    album: tracks.filter((item) => !item.Album).length,
+    artist: tracks.filter((item) => artistsOf(item).length === 0).length,
+    genre: tracks.filter((item) => !item.Genres?.length).length,
+    year: tracks.filter((item) => !item.ProductionYear).length,
+  };
+
+  return {
+    tracks: tracks.length,
+    albums: albumArtwork.size,
+    seconds: tracks.reduce((sum, item) => sum + trackSeconds(item), 0),
+    bytes: tracks.reduce((sum, item) => sum + (item.MediaSources?.[0]?.Size ?? 0), 0),
+    formats: shares(tracks, (item) => trackFormat(item)?.toUpperCase()),
+    bitrates: shares(tracks, (item) => bitrateBucket(trackBitrate(item))),
+    missing,
+  };
+}
+
+/** The dashboard as JSON, for keeping a year in review or comparing later */
+export function statsJSON(summary: ListeningSummary, composition: LibraryComposition, now = new Date()): string {
+  return `${JSON.stringify({ generatedAt: now.toISOString(), listening: summary, library: composition }, null, 2)}\n`;
+}
+
+/** The tracks behind the listening figures, most played first, one row each */
+export function statsTracksCSV(tracks: MediaItem[]): string {
+  return formatCSV([
+    [
+      "Title",
+      "Artists",
+      "Album",
+      "Album Artist",
+      "Plays",
+      "Last Played",
+      "Favourite",
+      "Duration",
+      "Umbrella Genres",
+      "Genres",
+      "Format",
+      "Bitrate (kbps)",
+    ],
+    ...[...tracks]
+      .sort((a, b) => plays(b) - plays(a) || a.Name.localeCompare(b.Name))
+      .map((item) => [
+        item.Name,
+        artistsOf(item).join("; "),
+        item.Album,
+        item.AlbumArtist,
+        plays(item),
+        item.UserData?.LastPlayedDate,
+        item.UserData?.IsFavorite ?? false,
+        Math.round(trackSeconds(item)),
+        trackUmbrellas(item).join("; "),
+        (item.Genres ?? []).join("; "),
+        trackFormat(item),
+        trackBitrate(item),
+      ]),
+  ]);
+}
@@ -0,0 +1,186 @@
+import type { MediaItem } from "../types/mediaServer";
+import type { MatchCandidate, PlaylistEntry, TrackMatch } from "../types/playlists";
+
+/** A candidate this close picks itself, unless another one is nearly as close */
+const MATCH_SCORE = 0.8;
+const MATCH_MARGIN = 0.08;
+/** Below this a candidate is not worth showing */
+const CANDIDATE_SCORE = 0.5;
+const MAX_CANDIDATES = 5;
+
+/** How much each field counts; fields missing on either side are left out */
+const WEIGHTS = { title: 0.55, artist: 0.25, album: 0.1, duration: 0.1 };
+
+/** Durations this many seconds apart still count as the same recording */
+const DURATION_TOLERANCE = 3;
+const DURATION_LIMIT = 20;
+
+/** Lower case, without diacritics or punctuation; `&` reads as "and" */
+export function normalizeText(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** The title without `(Remastered 2011)`, `[Live]`, `- Radio Edit` or `feat. …` */
+function baseTitle(value: string): string {
+  return normalizeText(
+    value
+      .replace(/\s*[([][^)\]]*[)\]]/g, "")
+      .replace(/\s+-\s+.*$/, "")
+      .replace(/\s+(?:feat\.?|ft\.?|featuring)\s.*$/i, "")
+  );
+}
+
+/** `A, B & C feat. D` as separate names */
+function splitArtists(value: string): string[] {
+  return value
+    .split(/\s*(?:[,;/]|&| and | x | feat\.?|ft\.?|featuring)\s*/i)
+    .map(normalizeText)
+    .filter(Boolean);
+}
+
+type Bigrams = Map<string, number>;
+
+function bigrams(value: string): Bigrams {
+  const result: Bigrams = new Map();
+  const padded = ` ${value} `;
+  for (let i = 0; i < padded.length - 1; i++) {
+    const pair = padded.slice(i, i + 2);
+    result.set(pair, (result.get(pair) ?? 0) + 1);
+  }
+  return result;
+}
+
+/** Sørensen–Dice coefficient over character pairs: 1 for equal strings, 0 for nothing in common */
+function similarity(a: string, b: string, aPairs = bigrams(a), bPairs = bigrams(b)): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  let shared = 0;
+  let total = 0;
+  for (const [pair, count] of aPairs) {
+    shared += Math.min(count, bPairs.get(pair) ?? 0);
+    total += count;
+  }
+  for (const count of bPairs.values()) total += count;
+  return (2 * shared) / total;
+}
+
+function bestSimilarity(values: string[], others: string[]): number {
+  let best = 0;
+  for (const value of values) {
+    for (const other of others) best = Math.max(best, similarity(value, other));
+  }
+  return best;
+}
+
+interface IndexedItem {
+  item: MediaItem;
+  title: string;
+  titlePairs: Bigrams;
+  baseTitle: string;
+  artists: string[];
+  album?: string;
+  duration?: number;
+}
+
+export interface TrackIndex {
+  items: IndexedItem[];
+  /** Items by the words of their base title */
+  byWord: Map<string, number[]>;
+}
+
+/** Prepares the library for matching; build it once and match every playlist against it */
+export function indexTracks(items: MediaItem[]): TrackIndex {
+  const byWord = new Map<string, number[]>();
+  const indexed = items.map((item, index) => {
+    const title = normalizeText(item.Name);
+    const base = baseTitle(item.Name) || title;
+    for (const word of new Set(base.split(" "))) {
+      if (!word) continue;
+      const list = byWord.get(word) ?? [];
+      list.push(index);
+      byWord.set(word, list);
+    }
+    return {
+      item,
+      title,
+      titlePairs: bigrams(title),
+      baseTitle: base,
+      artists: [...(item.Artists ?? []), ...(item.AlbumArtist ? [item.AlbumArtist] : [])].flatMap(splitArtists),
+      album: item.Album ? normalizeText(item.Album) : undefined,
+      duration: item.RunTimeTicks === undefined ? undefined : item.RunTimeTicks / 10_000_000,
+    };
+  });
+  return { items: indexed, byWord };
+}
+
+function durationScore(a: number, b: number): number {
+  const difference = Math.abs(a - b);
+  if (difference <= DURATION_TOLERANCE) return 1;
+  return Math.max(0, 1 - (difference - DURATION_TOLERANCE) / (DURATION_LIMIT - DURATION_TOLERANCE));
+}
+
+/**
+ * How well a library track fits a playlist entry, 0–1: title, artist, album
+ * and duration compared after normalizing, weighted by `WEIGHTS`.
+ */
+function score(entry: PlaylistEntry, title: string, base: string, artists: string[], candidate: IndexedItem): number {
+  const titleScore = Math.max(
+    similarity(title, candidate.title, undefined, candidate.titlePairs),
+    similarity(base, candidate.baseTitle)
+  );
+  let total = WEIGHTS.title * titleScore;
+  let weight = WEIGHTS.title;
+
+  if (artists.length > 0 && candidate.artists.length > 0) {
+    total += WEIGHTS.artist * bestSimilarity(artists, candidate.artists);
+    weight += WEIGHTS.artist;
+  }
+  if (entry.album && candidate.album) {
+    total += WEIGHTS.album * similarity(normalizeText(entry.album), candidate.album);
+    weight += WEIGHTS.album;
+  }
+  if (entry.duration !== undefined && candidate.duration !== undefined) {
+    total += WEIGHTS.duration * durationScore(entry.duration, candidate.duration);
+    weight += WEIGHTS.duration;
+  }
+  return total / weight;
+}
+
+/** The closest library tracks for one playlist entry, and whether one of them is clearly it */
+export function matchEntry(entry: PlaylistEntry, index: TrackIndex): TrackMatch {
+  const title = normalizeText(entry.title);
+  const base = baseTitle(entry.title) || title;
+  const artists = entry.artist ? splitArtists(entry.artist) : [];
+
+  const candidateIndexes = new Set<number>();
+  for (const word of base.split(" ")) {
+    for (const itemIndex of index.byWord.get(word) ?? []) candidateIndexes.add(itemIndex);
+  }
+
+  const candidates: MatchCandidate[] = [...candidateIndexes]
+    .map((itemIndex) => {
+      const candidate = index.items[itemIndex];
+      return { item: candidate.item, score: score(entry, title, base, artists, candidate) };
+    })
+    .filter((candidate) => candidate.score >= CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+
+  const [best, runnerUp] = candidates;
+  const status = !best
+    ? "unmatched"
+    : best.score >= MATCH_SCORE && (!runnerUp || best.score - runnerUp.score >= MATCH_MARGIN)
+      ? "matched"
+      : "ambiguous";
+  return { entry, status, candidates };
+}
+
+export function matchPlaylist(entries: PlaylistEntry[], index: TrackIndex): TrackMatch[] {
+  return entries.map((entry) => matchEntry(entry, index));
+}
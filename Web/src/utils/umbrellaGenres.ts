@@ -0,0 +1,143 @@
+import { site } from "../content/site";
+import { umbrellaGenreMap } from "../content/umbrellaGenres";
+import type { GenreClassification, UmbrellaGenre, UmbrellaSuggestion } from "../types/genres";
+
+const EDGE_PUNCTUATION = /^[()[\]{}.,;:!?]+|[()[\]{}.,;:!?]+$/g;
+const MAX_TYPO_DISTANCE = 2;
+
+/**
+ * Port of `UmbrellaGenres.normalize`: lowercase, drop anything from the first
+ * "(", trim edge punctuation, treat "-" and "." as spaces, spell out "&",
+ * collapse whitespace and strip diacritics.
+ */
+export function normalizeGenre(genre: string): string {
+  let normalized = genre.toLowerCase().trim();
+
+  const paren = normalized.indexOf("(");
+  if (paren !== -1) {
+    normalized = normalized.slice(0, paren).trim();
+  }
+
+  return normalized
+    .replace(EDGE_PUNCTUATION, "")
+    .replace(/-/g, " ")
+    .replace(/\./g, " ")
+    .replace(/&/g, "and")
+    .replace(/\s+/g, " ")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim();
+}
+
+/** Port of `UmbrellaGenres.resolve`; unmapped tags are "Unknown" */
+export function resolveGenre(rawGenre: string): UmbrellaGenre {
+  return umbrellaGenreMap[normalizeGenre(rawGenre)] ?? "Unknown";
+}
+
+/** Port of `UmbrellaGenres.splitGenres`: servers sometimes send "techno, electro" as one tag */
+export function splitGenres(genres: string[]): string[] {
+  return genres.flatMap((genre) =>
+    genre
+      .split(",")
+      .map((part) => part.trim())
+      .filter((part) => part.length > 0)
+  );
+}
+
+/** Port of `UmbrellaGenres.classifyGenres` */
+export function classifyGenres(genres: string[]): GenreClassification[] {
+  return splitGenres(genres).map((raw) => ({
+    raw,
+    normalized: normalizeGenre(raw),
+    umbrella: resolveGenre(raw),
+  }));
+}
+
+/**
+ * Whether a tag can ever reach this map entry. Lookup uses the normalized tag,
+ * so keys that change under normalization (such as "post-hardcore" or "r&b")
+ * never match anything.
+ */
+export function isReachableKey(key: string): boolean {
+  return normalizeGenre(key) === key;
+}
+
+function reachableEntries(): [string, UmbrellaGenre][] {
+  return Object.entries(umbrellaGenreMap).filter(
+    ([key, umbrella]) => key !== "" && umbrella !== "Unknown" && isReachableKey(key)
+  );
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Guesses an umbrella for a normalized tag the map does not know: an
+ * unreachable entry that normalizes to it ("r&b" → randb), the longest entry
+ * found as whole words inside it ("dark techno" → techno), or the closest
+ * entry within a couple of typos ("electonic" → electronic).
+ */
+export function suggestUmbrella(normalized: string): UmbrellaSuggestion | undefined {
+  if (!normalized) {
+    return undefined;
+  }
+
+  const unreachable = Object.entries(umbrellaGenreMap).find(
+    ([key]) => !isReachableKey(key) && normalizeGenre(key) === normalized
+  );
+  if (unreachable) {
+    return { umbrella: unreachable[1], basedOn: unreachable[0], reason: "unreachable" };
+  }
+
+  const padded = ` ${normalized} `;
+  const contained = reachableEntries()
+    .filter(([key]) => padded.includes(` ${key} `))
+    .sort(([a], [b]) => b.length - a.length)[0];
+  if (contained) {
+    return { umbrella: contained[1], basedOn: contained[0], reason: "contains" };
+  }
+
+  let closest: { key: string; umbrella: UmbrellaGenre; distance: number } | undefined;
+  for (const [key, umbrella] of reachableEntries()) {
+    const distance = editDistance(normalized, key);
+    if (distance <= MAX_TYPO_DISTANCE && distance < key.length / 2 && (!closest || distance < closest.distance)) {
+      closest = { key, umbrella, distance };
+    }
+  }
+  return closest && { umbrella: closest.umbrella, basedOn: closest.key, reason: "similar" };
+}
+
+/** Element id of an umbrella's section on the genres page, e.g. `r-and-b` */
+export function umbrellaAnchor(umbrella: UmbrellaGenre): string {
+  return umbrella
+    .toLowerCase()
+    .replace(/&/g, "-and-")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/** A prefilled GitHub issue proposing a new map entry, written for the maintainers in English */
+export function mappingIssueURL(raw: string, normalized: string, umbrella: UmbrellaGenre): string {
+  const body = [
+    `The genre tag "${raw}" resolves to Unknown.`,
+    "",
+    "Suggested entry for `Shared/Utilities/UmbrellaGenres.swift` (and `Web/src/content/umbrellaGenres.ts`):",
+    "",
+    "```swift",
+    `"${normalized}": "${umbrella}",`,
+    "```",
+    "",
+    `Found with ${site.url}/genres`,
+  ].join("\n");
+  const params = new URLSearchParams({ title: `Genre mapping: "${normalized}" → ${umbrella}`, body });
+  return `${site.repository}/issues/new?${params}`;
+}
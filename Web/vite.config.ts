@@ -1,9 +1,12 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import { contentValidation } from "./plugins/contentValidation";
+import { designTokens } from "./plugins/designTokens";
+import { prerender } from "./plugins/prerender";
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
-  base: "/",
+  plugins: [react(), designTokens(), contentValidation(), prerender()],
+  base: "/Kartunes/",
 });
 